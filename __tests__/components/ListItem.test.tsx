@@ -55,6 +55,74 @@ describe('ListItem Component', () => {
     expect(mockOnDelete).toHaveBeenCalledWith(mockList);
   });
 
+  it('calls onEdit when edit button is pressed', () => {
+    const onEdit = jest.fn();
+    const { getByText } = render(
+      <ListItem
+        list={mockList}
+        onPress={mockOnPress}
+        onDelete={mockOnDelete}
+        onEdit={onEdit}
+      />
+    );
+    
+    fireEvent.press(getByText('Edit'));
+    expect(onEdit).toHaveBeenCalledWith(mockList);
+    expect(mockOnPress).not.toHaveBeenCalled();
+  });
+
+  it('hides the edit button without onEdit', () => {
+    const { queryByText } = render(
+      <ListItem
+        list={mockList}
+        onPress={mockOnPress}
+        onDelete={mockOnDelete}
+      />
+    );
+    
+    expect(queryByText('Edit')).toBeNull();
+  });
+
+  it('shows the description', () => {
+    const { getByText } = render(
+      <ListItem
+        list={mockList}
+        onPress={mockOnPress}
+        onDelete={mockOnDelete}
+      />
+    );
+    
+    expect(getByText('Test List Description')).toBeTruthy();
+  });
+
+  it('shows task progress and the overdue badge', () => {
+    const { getByText } = render(
+      <ListItem
+        list={mockList}
+        onPress={mockOnPress}
+        onDelete={mockOnDelete}
+        taskCounts={{ task_count: 5, completed_count: 2, overdue_count: 3 }}
+      />
+    );
+    
+    expect(getByText('2 of 5 done')).toBeTruthy();
+    expect(getByText('3 overdue')).toBeTruthy();
+  });
+
+  it('hides the overdue badge without overdue tasks', () => {
+    const { getByText, queryByText } = render(
+      <ListItem
+        list={mockList}
+        onPress={mockOnPress}
+        onDelete={mockOnDelete}
+        taskCounts={{ task_count: 0, completed_count: 0, overdue_count: 0 }}
+      />
+    );
+    
+    expect(getByText('No tasks')).toBeTruthy();
+    expect(queryByText(/overdue/)).toBeNull();
+  });
+
   it('shows deleting state correctly', () => {
     const { getByText } = render(
       <ListItem
@@ -0,0 +1,40 @@
+import React from 'react';
+import { render, fireEvent } from '../utils/test-utils';
+import { SmartViewTiles } from '@/components/SmartViewTiles';
+
+describe('SmartViewTiles Component', () => {
+  const onSelect = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows every view with its count', () => {
+    const { getByLabelText } = render(
+      <SmartViewTiles
+        counts={{ today: 2, overdue: 1, next_7_days: 5, no_due_date: 0 }}
+        onSelect={onSelect}
+      />
+    );
+
+    expect(getByLabelText('Today, 2 tasks')).toBeTruthy();
+    expect(getByLabelText('Overdue, 1 task')).toBeTruthy();
+    expect(getByLabelText('Next 7 days, 5 tasks')).toBeTruthy();
+    expect(getByLabelText('No due date, 0 tasks')).toBeTruthy();
+  });
+
+  it('hides the counts until they are known', () => {
+    const { getByText, queryByText } = render(<SmartViewTiles onSelect={onSelect} />);
+
+    expect(getByText('Today')).toBeTruthy();
+    expect(queryByText('0')).toBeNull();
+  });
+
+  it('opens the pressed view', () => {
+    const { getByText } = render(<SmartViewTiles onSelect={onSelect} />);
+
+    fireEvent.press(getByText('Overdue'));
+
+    expect(onSelect).toHaveBeenCalledWith('overdue');
+  });
+});
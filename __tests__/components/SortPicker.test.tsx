@@ -0,0 +1,53 @@
+import React from 'react';
+import { render, fireEvent } from '../utils/test-utils';
+import { SortPicker } from '@/components/SortPicker';
+import { TASK_SORT_OPTIONS } from '@/utils/sorting';
+
+describe('SortPicker Component', () => {
+  const onChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the direction of the chosen order', () => {
+    const { getByLabelText } = render(
+      <SortPicker
+        options={TASK_SORT_OPTIONS}
+        value={{ field: 'due_date', direction: 'asc' }}
+        onChange={onChange}
+      />
+    );
+
+    expect(getByLabelText('Sort by due date, ascending')).toBeTruthy();
+    expect(getByLabelText('Sort by priority')).toBeTruthy();
+  });
+
+  it('sorts priorities from high to low first', () => {
+    const { getByText } = render(
+      <SortPicker
+        options={TASK_SORT_OPTIONS}
+        value={{ field: 'position', direction: 'asc' }}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(getByText('Priority'));
+
+    expect(onChange).toHaveBeenCalledWith({ field: 'priority', direction: 'desc' });
+  });
+
+  it('reverses the chosen order when it is pressed again', () => {
+    const { getByText } = render(
+      <SortPicker
+        options={TASK_SORT_OPTIONS}
+        value={{ field: 'name', direction: 'asc' }}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(getByText('Name'));
+
+    expect(onChange).toHaveBeenCalledWith({ field: 'name', direction: 'desc' });
+  });
+});
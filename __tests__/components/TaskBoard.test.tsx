@@ -0,0 +1,85 @@
+import React from 'react';
+import { render, fireEvent, createMockTask } from '../utils/test-utils';
+import { TaskBoard } from '@/components/TaskBoard';
+
+describe('TaskBoard Component', () => {
+  const pending = createMockTask({ id: 1, name: 'Write report', status: 'pending' });
+  const started = createMockTask({ id: 2, name: 'Review code', status: 'in_progress' });
+  const alsoStarted = createMockTask({ id: 3, name: 'Fix bug', status: 'in_progress' });
+  const onStatusChange = jest.fn();
+  const onWipLimitChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows a column per status with its card count', () => {
+    const { getByText } = render(
+      <TaskBoard
+        tasks={[pending, started, alsoStarted]}
+        onStatusChange={onStatusChange}
+        wipLimits={{}}
+        onWipLimitChange={onWipLimitChange}
+      />
+    );
+
+    expect(getByText('Pending')).toBeTruthy();
+    expect(getByText('In Progress')).toBeTruthy();
+    expect(getByText('Blocked')).toBeTruthy();
+    expect(getByText('2')).toBeTruthy();
+  });
+
+  it('moves a card to the next column', () => {
+    const { getByLabelText } = render(
+      <TaskBoard
+        tasks={[pending]}
+        onStatusChange={onStatusChange}
+        wipLimits={{}}
+        onWipLimitChange={onWipLimitChange}
+      />
+    );
+
+    fireEvent.press(getByLabelText('Move Write report to In Progress'));
+    expect(onStatusChange).toHaveBeenCalledWith(pending, 'in_progress');
+  });
+
+  it('warns when a column exceeds its WIP limit', () => {
+    const { getByText, queryByText, rerender } = render(
+      <TaskBoard
+        tasks={[started, alsoStarted]}
+        onStatusChange={onStatusChange}
+        wipLimits={{ in_progress: 1 }}
+        onWipLimitChange={onWipLimitChange}
+      />
+    );
+
+    expect(getByText('2/1')).toBeTruthy();
+    expect(getByText('Over the WIP limit of 1')).toBeTruthy();
+
+    rerender(
+      <TaskBoard
+        tasks={[started, alsoStarted]}
+        onStatusChange={onStatusChange}
+        wipLimits={{ in_progress: 2 }}
+        onWipLimitChange={onWipLimitChange}
+      />
+    );
+
+    expect(queryByText(/Over the WIP limit/)).toBeNull();
+  });
+
+  it('starts a new WIP limit at the current card count', () => {
+    const { getByLabelText, getByText } = render(
+      <TaskBoard
+        tasks={[started, alsoStarted]}
+        onStatusChange={onStatusChange}
+        wipLimits={{}}
+        onWipLimitChange={onWipLimitChange}
+      />
+    );
+
+    fireEvent.press(getByLabelText('WIP limit for In Progress'));
+    fireEvent.press(getByText('+'));
+    expect(onWipLimitChange).toHaveBeenCalledWith('in_progress', 2);
+  });
+});
@@ -173,4 +173,82 @@ describe('TaskItem Component', () => {
     const priorityBadge = getByText('high');
     expect(priorityBadge.props.className).toContain('bg-red-500');
   });
+
+  it('shows subtask progress when the task has a checklist', () => {
+    const { getByText } = render(
+      <TaskItem
+        task={mockTask}
+        onToggle={mockOnToggle}
+        onDelete={mockOnDelete}
+        subtaskProgress={{ task_id: 1, total: 5, completed: 3 }}
+      />
+    );
+
+    expect(getByText(/3\/5/)).toBeTruthy();
+  });
+
+  it('calls onOpenSubtasks when the checklist chip is pressed', () => {
+    const mockOnOpenSubtasks = jest.fn();
+    const { getByText } = render(
+      <TaskItem
+        task={mockTask}
+        onToggle={mockOnToggle}
+        onDelete={mockOnDelete}
+        onOpenSubtasks={mockOnOpenSubtasks}
+      />
+    );
+
+    fireEvent.press(getByText(/Checklist/));
+    expect(mockOnOpenSubtasks).toHaveBeenCalledWith(mockTask);
+    expect(mockOnToggle).not.toHaveBeenCalled();
+  });
+
+  it('calls onLongPress instead of onDelete when provided', () => {
+    const mockOnLongPress = jest.fn();
+    const { getByText } = render(
+      <TaskItem
+        task={mockTask}
+        onToggle={mockOnToggle}
+        onDelete={mockOnDelete}
+        onLongPress={mockOnLongPress}
+      />
+    );
+
+    fireEvent(getByText('Test Task'), 'longPress');
+    expect(mockOnLongPress).toHaveBeenCalledWith(mockTask);
+    expect(mockOnDelete).not.toHaveBeenCalled();
+  });
+
+  it('selects the task instead of toggling it while selecting', () => {
+    const mockOnSelect = jest.fn();
+    const { getByText, queryByText } = render(
+      <TaskItem
+        task={mockTask}
+        onToggle={mockOnToggle}
+        onDelete={mockOnDelete}
+        onMove={jest.fn()}
+        isSelecting
+        onSelect={mockOnSelect}
+      />
+    );
+
+    fireEvent.press(getByText('Test Task'));
+    expect(mockOnSelect).toHaveBeenCalledWith(mockTask);
+    expect(mockOnToggle).not.toHaveBeenCalled();
+    expect(queryByText(/Move/)).toBeNull();
+  });
+
+  it('does not complete a blocked task', () => {
+    const blockedTask = createMockTask({ id: 2, name: 'Blocked Task', status: 'blocked' });
+    const { getByText } = render(
+      <TaskItem
+        task={blockedTask}
+        onToggle={mockOnToggle}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    fireEvent.press(getByText('Blocked Task'));
+    expect(mockOnToggle).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,56 @@
+import React from 'react';
+import { render, fireEvent, createMockTask } from '../utils/test-utils';
+import { TaskList } from '@/components/TaskList';
+
+// The flat list's drag-and-drop needs reanimated, which the sectioned list does not use
+jest.mock('@/components/SortableList', () => ({ SortableList: () => null }));
+
+describe('TaskList Component', () => {
+  const onToggleTask = jest.fn();
+  const onDeleteTask = jest.fn();
+  const onToggleSection = jest.fn();
+  const tasks = [
+    createMockTask({ id: 1, name: 'Ship release', priority: 'high' }),
+    createMockTask({ id: 2, name: 'Water plants', priority: 'low' }),
+    createMockTask({ id: 3, name: 'Book flights', priority: 'high' }),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows a header with a count for every section', () => {
+    const { getByLabelText, getByText } = render(
+      <TaskList
+        tasks={tasks}
+        onToggleTask={onToggleTask}
+        onDeleteTask={onDeleteTask}
+        groupBy="priority"
+      />
+    );
+
+    expect(getByLabelText('High priority, 2 tasks')).toBeTruthy();
+    expect(getByLabelText('Low priority, 1 task')).toBeTruthy();
+    expect(getByText('Water plants')).toBeTruthy();
+  });
+
+  it('hides the tasks of collapsed sections but keeps their count', () => {
+    const { getByLabelText, queryByText } = render(
+      <TaskList
+        tasks={tasks}
+        onToggleTask={onToggleTask}
+        onDeleteTask={onDeleteTask}
+        groupBy="priority"
+        collapsedSections={['priority:high']}
+        onToggleSection={onToggleSection}
+      />
+    );
+
+    expect(queryByText('Ship release')).toBeNull();
+    expect(queryByText('Water plants')).toBeTruthy();
+
+    fireEvent.press(getByLabelText('High priority, 2 tasks'));
+
+    expect(onToggleSection).toHaveBeenCalledWith('priority:high');
+  });
+});
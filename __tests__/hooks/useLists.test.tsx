@@ -0,0 +1,80 @@
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React from 'react';
+import { listKeys, useUpdateList } from '@/hooks/useLists';
+import * as listQueries from '@/queries/lists';
+
+// Mock the queries module
+jest.mock('@/queries/lists');
+jest.mock('@/queries/tasks');
+jest.mock('@/utils/reminders');
+const mockedListQueries = listQueries as jest.Mocked<typeof listQueries>;
+
+describe('useLists Hook', () => {
+  let queryClient: QueryClient;
+
+  const work = { id: 1, name: 'Work', position: 1 };
+  const home = { id: 2, name: 'Home', position: 2 };
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+    jest.clearAllMocks();
+    queryClient.setQueryData(listKeys.lists(), [work, home]);
+    queryClient.setQueryData(listKeys.list(1), work);
+    queryClient.setQueryData(listKeys.recent(5), [work]);
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  const cachedName = (key: readonly unknown[]) => {
+    const data = queryClient.getQueryData<
+      { id: number; name: string } | { id: number; name: string }[]
+    >(key);
+    return Array.isArray(data) ? data.find((list) => list.id === 1)?.name : data?.name;
+  };
+
+  describe('useUpdateList', () => {
+    it('should rename the list in every cache before the server answers', async () => {
+      mockedListQueries.updateList.mockReturnValue(new Promise(() => {}));
+
+      const { result } = renderHook(() => useUpdateList(), { wrapper });
+
+      result.current.mutate({ id: 1, name: 'Office' });
+
+      await waitFor(() => {
+        expect(cachedName(listKeys.list(1))).toBe('Office');
+      });
+      expect(cachedName(listKeys.lists())).toBe('Office');
+      expect(cachedName(listKeys.recent(5))).toBe('Office');
+      expect(queryClient.getQueryData(listKeys.lists())).toContainEqual(home);
+    });
+
+    it('should roll back the rename when the update fails', async () => {
+      mockedListQueries.updateList.mockRejectedValue(new Error('Network error'));
+      mockedListQueries.getAllLists.mockReturnValue(new Promise(() => {}));
+      mockedListQueries.getListById.mockReturnValue(new Promise(() => {}));
+
+      const { result } = renderHook(() => useUpdateList(), { wrapper });
+
+      result.current.mutate({ id: 1, name: 'Office' });
+
+      await waitFor(() => {
+        expect(result.current.isError).toBe(true);
+      });
+      expect(cachedName(listKeys.list(1))).toBe('Work');
+      expect(cachedName(listKeys.lists())).toBe('Work');
+      expect(cachedName(listKeys.recent(5))).toBe('Work');
+    });
+  });
+});
@@ -7,13 +7,26 @@ import {
   useTasksByList,
   useCreateTask,
   useUpdateTask,
+  useDuplicateTask,
+  useMoveTasks,
+  useCopyTasks,
+  useUpdateTasks,
+  useDeleteTasks,
   useDeleteTask,
   useToggleTaskCompletion,
+  useToggleSubtaskCompletion,
+  useReorderTask,
+  useRescheduleTask,
+  useTaskQuery,
+  taskKeys,
 } from '@/hooks/useTasks';
+import { listKeys } from '@/hooks/useLists';
 import * as taskQueries from '@/queries/tasks';
+import { queueReminderSync } from '@/utils/reminders';
 
 // Mock the queries module
 jest.mock('@/queries/tasks');
+jest.mock('@/utils/reminders');
 const mockedTaskQueries = taskQueries as jest.Mocked<typeof taskQueries>;
 
 describe('useTasks Hook', () => {
@@ -119,6 +132,43 @@ describe('useTasks Hook', () => {
     });
   });
 
+  describe('useTaskQuery', () => {
+    it('should use the same query key for equivalent parameters', () => {
+      expect(taskKeys.query({ filter: { list_id: 1, search: '  ' } })).toEqual(
+        taskKeys.query({
+          filter: { list_id: 1 },
+          pagination: { page: 1 },
+        })
+      );
+      expect(taskKeys.query({ filter: { list_id: 1 } })).not.toEqual(
+        taskKeys.query({ filter: { list_id: 2 } })
+      );
+    });
+
+    it('should fetch a page of tasks with normalized parameters', async () => {
+      const page = {
+        data: [{ id: 1, name: 'Task 1' }],
+        pagination: { page: 1, limit: 50, total: 1, totalPages: 1, hasNext: false, hasPrev: false },
+      };
+      mockedTaskQueries.queryTasks.mockResolvedValue(page as any);
+
+      const { result } = renderHook(
+        () => useTaskQuery({ filter: { list_id: 1, search: ' milk ' } }),
+        { wrapper }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(result.current.data).toEqual(page);
+      expect(mockedTaskQueries.queryTasks).toHaveBeenCalledWith({
+        filter: { list_id: 1, search: 'milk' },
+        pagination: { limit: 50, page: 1 },
+      });
+    });
+  });
+
   describe('useCreateTask', () => {
     it('should create a new task', async () => {
       const newTask = {
@@ -156,12 +206,54 @@ describe('useTasks Hook', () => {
 
       expect(result.current.error).toEqual(error);
     });
+
+    it('should append the task and replace the optimistic entry with the created task', async () => {
+      const existingTask = { id: 1, name: 'Existing', list_id: 1, position: 1 };
+      const createdTask = { id: 2, name: 'New Task', list_id: 1, position: 2 };
+      queryClient.setQueryData(['tasks', 'task', 'byList', 1], [existingTask]);
+      mockedTaskQueries.createTask.mockResolvedValue(createdTask as any);
+
+      const { result } = renderHook(() => useCreateTask(), { wrapper });
+
+      result.current.mutate({ name: 'New Task', list_id: 1 });
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(queryClient.getQueryData(['tasks', 'task', 'byList', 1])).toEqual([
+        existingTask,
+        createdTask,
+      ]);
+    });
+  });
+
+  describe('useReorderTask', () => {
+    it('should move the task in the cached list before the server responds', async () => {
+      const cachedTasks = [
+        { id: 1, name: 'A', list_id: 1, position: 1 },
+        { id: 2, name: 'B', list_id: 1, position: 2 },
+        { id: 3, name: 'C', list_id: 1, position: 3 },
+      ];
+      queryClient.setQueryData(['tasks', 'task', 'byList', 1], cachedTasks);
+      mockedTaskQueries.reorderTask.mockReturnValue(new Promise(() => {}));
+
+      const { result } = renderHook(() => useReorderTask(), { wrapper });
+
+      result.current.mutate({ id: 3, listId: 1, toIndex: 0 });
+
+      await waitFor(() => {
+        const tasks = queryClient.getQueryData<{ id: number }[]>(['tasks', 'task', 'byList', 1]);
+        expect(tasks?.map((task) => task.id)).toEqual([3, 1, 2]);
+      });
+      expect(mockedTaskQueries.reorderTask).toHaveBeenCalledWith(3, 0);
+    });
   });
 
   describe('useUpdateTask', () => {
     it('should update a task', async () => {
       const updateData = { name: 'Updated Task' };
-      mockedTaskQueries.updateTask.mockResolvedValue({} as any);
+      mockedTaskQueries.updateTask.mockResolvedValue(null);
 
       const { result } = renderHook(() => useUpdateTask(), { wrapper });
 
@@ -175,6 +267,225 @@ describe('useTasks Hook', () => {
     });
   });
 
+  describe('useDuplicateTask', () => {
+    it('should duplicate a task and refresh the task queries', async () => {
+      const copy = { id: 7, name: 'Task 1 (copy)' };
+      mockedTaskQueries.duplicateTask.mockResolvedValue(copy as any);
+      const invalidate = jest.spyOn(queryClient, 'invalidateQueries');
+
+      const { result } = renderHook(() => useDuplicateTask(), { wrapper });
+
+      result.current.mutate(1);
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(mockedTaskQueries.duplicateTask).toHaveBeenCalledWith(1);
+      expect(result.current.data).toEqual(copy);
+      expect(invalidate).toHaveBeenCalledWith({ queryKey: ['tasks', 'task'] });
+    });
+  });
+
+  describe('useMoveTasks', () => {
+    const task = (id: number, list_id: number, position: number, is_completed = false) => ({
+      id,
+      name: `Task ${id}`,
+      list_id,
+      position,
+      is_completed,
+      due_date: null,
+    });
+    const groceries = task(1, 1, 1);
+    const errand = task(2, 1, 2, true);
+    const chore = task(3, 2, 4);
+    const counts = (id: number, task_count: number, completed_count: number) => ({
+      id,
+      task_count,
+      completed_count,
+      overdue_count: 0,
+    });
+
+    beforeEach(() => {
+      queryClient.setQueryData(taskKeys.byList(1), [groceries, errand]);
+      queryClient.setQueryData(taskKeys.byList(2), [chore]);
+      queryClient.setQueryData(listKeys.withTaskCounts(), [counts(1, 2, 1), counts(2, 1, 0)]);
+    });
+
+    it('should move the tasks between both lists and their counts at once', async () => {
+      mockedTaskQueries.moveTasks.mockReturnValue(new Promise(() => {}));
+
+      const { result } = renderHook(() => useMoveTasks(), { wrapper });
+
+      result.current.mutate({ ids: [2, 1], listId: 2 });
+
+      await waitFor(() => {
+        expect(queryClient.getQueryData(taskKeys.byList(1))).toEqual([]);
+      });
+      expect(queryClient.getQueryData(taskKeys.byList(2))).toEqual([
+        chore,
+        { ...groceries, list_id: 2, position: 5 },
+        { ...errand, list_id: 2, position: 6 },
+      ]);
+      expect(queryClient.getQueryData(listKeys.withTaskCounts())).toEqual([
+        counts(1, 0, 0),
+        counts(2, 3, 1),
+      ]);
+    });
+
+    it('should restore both lists when the move fails', async () => {
+      mockedTaskQueries.moveTasks.mockRejectedValue(new Error('Move failed'));
+
+      const { result } = renderHook(() => useMoveTasks(), { wrapper });
+
+      result.current.mutate({ ids: [1], listId: 2 });
+
+      await waitFor(() => {
+        expect(result.current.isError).toBe(true);
+      });
+
+      expect(queryClient.getQueryData(taskKeys.byList(1))).toEqual([groceries, errand]);
+      expect(queryClient.getQueryData(taskKeys.byList(2))).toEqual([chore]);
+      expect(queryClient.getQueryData(listKeys.withTaskCounts())).toEqual([
+        counts(1, 2, 1),
+        counts(2, 1, 0),
+      ]);
+    });
+  });
+
+  describe('useUpdateTasks', () => {
+    const first = { id: 1, name: 'Milk', list_id: 1, status: 'pending', is_completed: false };
+    const second = { id: 2, name: 'Eggs', list_id: 1, status: 'in_progress', is_completed: false };
+
+    beforeEach(() => {
+      queryClient.setQueryData(taskKeys.byList(1), [first, second]);
+      queryClient.setQueryData(listKeys.withTaskCounts(), [
+        { id: 1, task_count: 2, completed_count: 0, overdue_count: 0 },
+      ]);
+    });
+
+    it('should complete every selected task in one optimistic update', async () => {
+      mockedTaskQueries.updateTasks.mockReturnValue(new Promise(() => {}));
+
+      const { result } = renderHook(() => useUpdateTasks(), { wrapper });
+
+      result.current.mutate({ ids: [1, 2], changes: { status: 'completed' } });
+
+      await waitFor(() => {
+        expect(queryClient.getQueryData(taskKeys.byList(1))).toEqual([
+          expect.objectContaining({ id: 1, status: 'completed', is_completed: true }),
+          expect.objectContaining({ id: 2, status: 'completed', is_completed: true }),
+        ]);
+      });
+      expect(queryClient.getQueryData(listKeys.withTaskCounts())).toEqual([
+        { id: 1, task_count: 2, completed_count: 2, overdue_count: 0 },
+      ]);
+      expect(mockedTaskQueries.updateTasks).toHaveBeenCalledTimes(1);
+    });
+
+    it('should restore the tasks when the update fails', async () => {
+      mockedTaskQueries.updateTasks.mockRejectedValue(new Error('Update failed'));
+
+      const { result } = renderHook(() => useUpdateTasks(), { wrapper });
+
+      result.current.mutate({ ids: [1, 2], changes: { priority: 'high' } });
+
+      await waitFor(() => {
+        expect(result.current.isError).toBe(true);
+      });
+
+      expect(queryClient.getQueryData(taskKeys.byList(1))).toEqual([first, second]);
+    });
+  });
+
+  describe('useRescheduleTask', () => {
+    const task = { id: 1, name: 'Dentist', list_id: 1, due_date: '2024-06-10T09:00' };
+    const other = { id: 2, name: 'Rent', list_id: 2, due_date: '2024-06-12' };
+
+    beforeEach(() => {
+      queryClient.setQueryData(taskKeys.dueBetween('2024-06-09', '2024-06-15'), [task, other]);
+      queryClient.setQueryData(taskKeys.dueBetween('2024-06-16', '2024-06-22'), []);
+    });
+
+    it('should move the task between the cached calendar ranges', async () => {
+      mockedTaskQueries.updateTask.mockReturnValue(new Promise(() => {}));
+
+      const { result } = renderHook(() => useRescheduleTask(), { wrapper });
+
+      result.current.mutate({ id: 1, dueDate: '2024-06-17T09:00' });
+
+      await waitFor(() => {
+        expect(queryClient.getQueryData(taskKeys.dueBetween('2024-06-16', '2024-06-22'))).toEqual([
+          expect.objectContaining({ id: 1, due_date: '2024-06-17T09:00' }),
+        ]);
+      });
+      expect(queryClient.getQueryData(taskKeys.dueBetween('2024-06-09', '2024-06-15'))).toEqual([
+        other,
+      ]);
+      expect(mockedTaskQueries.updateTask).toHaveBeenCalledWith(1, {
+        due_date: '2024-06-17T09:00',
+      });
+    });
+
+    it('should restore the ranges when the update fails', async () => {
+      mockedTaskQueries.updateTask.mockRejectedValue(new Error('Update failed'));
+
+      const { result } = renderHook(() => useRescheduleTask(), { wrapper });
+
+      result.current.mutate({ id: 1, dueDate: '2024-06-13T09:00' });
+
+      await waitFor(() => {
+        expect(result.current.isError).toBe(true);
+      });
+
+      expect(queryClient.getQueryData(taskKeys.dueBetween('2024-06-09', '2024-06-15'))).toEqual([
+        task,
+        other,
+      ]);
+    });
+  });
+
+  describe('useDeleteTasks', () => {
+    it('should remove every selected task from the cache at once', async () => {
+      const task = (id: number) => ({ id, name: `Task ${id}`, list_id: 1, is_completed: false });
+      queryClient.setQueryData(taskKeys.byList(1), [task(1), task(2), task(3)]);
+      mockedTaskQueries.deleteTasks.mockResolvedValue(undefined as any);
+
+      const { result } = renderHook(() => useDeleteTasks(), { wrapper });
+
+      result.current.mutate([1, 3]);
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(queryClient.getQueryData(taskKeys.byList(1))).toEqual([task(2)]);
+      expect(mockedTaskQueries.deleteTasks).toHaveBeenCalledWith([1, 3]);
+    });
+  });
+
+  describe('useCopyTasks', () => {
+    it('should replace the optimistic copies with the created ones', async () => {
+      const task = { id: 1, name: 'Milk', list_id: 1, position: 1, is_completed: false };
+      const copy = { ...task, id: 9, list_id: 2, position: 1 };
+      queryClient.setQueryData(taskKeys.byList(1), [task]);
+      queryClient.setQueryData(taskKeys.byList(2), []);
+      mockedTaskQueries.copyTasks.mockResolvedValue([copy] as any);
+
+      const { result } = renderHook(() => useCopyTasks(), { wrapper });
+
+      result.current.mutate({ ids: [1], listId: 2 });
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(mockedTaskQueries.copyTasks).toHaveBeenCalledWith([1], 2);
+      expect(queryClient.getQueryData(taskKeys.byList(1))).toEqual([task]);
+      expect(queryClient.getQueryData(taskKeys.byList(2))).toEqual([copy]);
+    });
+  });
+
   describe('useDeleteTask', () => {
     it('should delete a task', async () => {
       mockedTaskQueries.deleteTask.mockResolvedValue({} as any);
@@ -205,5 +516,83 @@ describe('useTasks Hook', () => {
 
       expect(mockedTaskQueries.toggleTaskCompletion).toHaveBeenCalledWith(1, true);
     });
+
+    describe('list task counts', () => {
+      const overdueTask = {
+        id: 1,
+        list_id: 3,
+        name: 'Pay rent',
+        status: 'pending',
+        is_completed: false,
+        due_date: '2000-01-01',
+      };
+      const counts = { id: 3, name: 'Home', task_count: 2, completed_count: 0, overdue_count: 1 };
+
+      beforeEach(() => {
+        queryClient.setQueryData(taskKeys.byList(3), [overdueTask]);
+        queryClient.setQueryData(listKeys.withTaskCounts(), [counts]);
+      });
+
+      it('should move the task from the overdue to the completed count before the server responds', async () => {
+        mockedTaskQueries.toggleTaskCompletion.mockReturnValue(new Promise(() => {}));
+
+        const { result } = renderHook(() => useToggleTaskCompletion(), { wrapper });
+
+        result.current.mutate({ id: 1, isCompleted: true });
+
+        await waitFor(() => {
+          expect(queryClient.getQueryData(listKeys.withTaskCounts())).toEqual([
+            { ...counts, completed_count: 1, overdue_count: 0 },
+          ]);
+        });
+      });
+
+      it('should restore the counts when the toggle fails', async () => {
+        mockedTaskQueries.toggleTaskCompletion.mockRejectedValue(new Error('Toggle failed'));
+
+        const { result } = renderHook(() => useToggleTaskCompletion(), { wrapper });
+
+        result.current.mutate({ id: 1, isCompleted: true });
+
+        await waitFor(() => {
+          expect(result.current.isError).toBe(true);
+        });
+
+        expect(queryClient.getQueryData(listKeys.withTaskCounts())).toEqual([counts]);
+      });
+    });
+  });
+
+  describe('useToggleSubtaskCompletion', () => {
+    it('should cache and schedule the next occurrence of a recurring parent it completes', async () => {
+      const parent = {
+        id: 7,
+        list_id: 3,
+        name: 'Water plants',
+        status: 'pending',
+        is_completed: false,
+      };
+      const nextOccurrence = { ...parent, id: 9, due_date: '2024-02-29' };
+      queryClient.setQueryData(taskKeys.byList(3), [parent]);
+      mockedTaskQueries.toggleSubtaskCompletion.mockResolvedValue({
+        parentCompleted: true,
+        nextOccurrence,
+      } as any);
+
+      const { result } = renderHook(() => useToggleSubtaskCompletion(), { wrapper });
+
+      result.current.mutate({ id: 1, taskId: 7, isCompleted: true, completeParent: true });
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(queryClient.getQueryData(taskKeys.byList(3))).toEqual([
+        expect.objectContaining({ id: 7, is_completed: true }),
+        nextOccurrence,
+      ]);
+      expect(queueReminderSync).toHaveBeenCalledWith(7);
+      expect(queueReminderSync).toHaveBeenCalledWith(9);
+    });
   });
 });
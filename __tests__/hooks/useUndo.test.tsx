@@ -0,0 +1,157 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React from 'react';
+import { taskKeys, useDeleteTask, useToggleTaskCompletion } from '@/hooks/useTasks';
+import { useUndo } from '@/hooks/useUndo';
+import * as taskQueries from '@/queries/tasks';
+import * as trashQueries from '@/queries/trash';
+import { useUndoStore } from '@/store/undo';
+import { createMockTask } from '../utils/test-utils';
+
+jest.mock('@/queries/tasks');
+jest.mock('@/queries/trash');
+jest.mock('@/utils/reminders');
+const mockedTaskQueries = taskQueries as jest.Mocked<typeof taskQueries>;
+const mockedTrashQueries = trashQueries as jest.Mocked<typeof trashQueries>;
+
+describe('useUndo Hook', () => {
+  let queryClient: QueryClient;
+
+  const task = createMockTask({ id: 1, name: 'Buy milk', list_id: 3 });
+  const otherTask = createMockTask({ id: 2, name: 'Walk dog', list_id: 3 });
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+    queryClient.setQueryData(taskKeys.byList(3), [task, otherTask]);
+    useUndoStore.getState().clear();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+  });
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  /**
+   * Renders the mutation hooks together with useUndo on the same client
+   */
+  const renderHooks = () =>
+    renderHook(
+      () => ({
+        deleteTask: useDeleteTask(),
+        toggleTask: useToggleTaskCompletion(),
+        undo: useUndo(),
+      }),
+      { wrapper }
+    );
+
+  it('records a labelled entry for a deleted task', async () => {
+    mockedTaskQueries.deleteTask.mockResolvedValue({} as any);
+    const { result } = renderHooks();
+
+    act(() => result.current.deleteTask.mutate(1));
+
+    await waitFor(() => expect(result.current.undo.entries).toHaveLength(1));
+    expect(result.current.undo.entries[0].label).toBe('Deleted "Buy milk"');
+  });
+
+  it('restores the cache and the task when a delete is undone', async () => {
+    mockedTaskQueries.deleteTask.mockResolvedValue({} as any);
+    mockedTrashQueries.restoreTask.mockResolvedValue({} as any);
+    const { result } = renderHooks();
+
+    act(() => result.current.deleteTask.mutate(1));
+    await waitFor(() => expect(result.current.deleteTask.isSuccess).toBe(true));
+    expect(queryClient.getQueryData(taskKeys.byList(3))).toEqual([otherTask]);
+
+    const undoId = result.current.undo.entries[0].id;
+    await act(() => result.current.undo.undo(undoId));
+
+    expect(queryClient.getQueryData(taskKeys.byList(3))).toEqual([task, otherTask]);
+    expect(mockedTrashQueries.restoreTask).toHaveBeenCalledWith(1);
+    expect(result.current.undo.entries).toHaveLength(0);
+  });
+
+  it('reverts a completion and removes the created occurrence', async () => {
+    const nextOccurrence = createMockTask({ id: 9, name: 'Buy milk', list_id: 3 });
+    mockedTaskQueries.toggleTaskCompletion.mockResolvedValue(nextOccurrence as any);
+    mockedTaskQueries.revertTaskCompletion.mockResolvedValue(undefined);
+    const { result } = renderHooks();
+
+    act(() => result.current.toggleTask.mutate({ id: 1, isCompleted: true }));
+    await waitFor(() => expect(result.current.undo.entries).toHaveLength(1));
+
+    await act(() => result.current.undo.undo(result.current.undo.entries[0].id));
+
+    expect(mockedTaskQueries.revertTaskCompletion).toHaveBeenCalledWith(
+      1,
+      { status: 'pending', is_completed: false },
+      9
+    );
+  });
+
+  it('restores the previous status when a completion is undone', async () => {
+    const startedTask = createMockTask({
+      id: 1,
+      name: 'Buy milk',
+      list_id: 3,
+      status: 'in_progress',
+    });
+    queryClient.setQueryData(taskKeys.byList(3), [startedTask, otherTask]);
+    mockedTaskQueries.toggleTaskCompletion.mockResolvedValue(null);
+    mockedTaskQueries.revertTaskCompletion.mockResolvedValue(undefined);
+    const { result } = renderHooks();
+
+    act(() => result.current.toggleTask.mutate({ id: 1, isCompleted: true }));
+    await waitFor(() => expect(result.current.undo.entries).toHaveLength(1));
+
+    await act(() => result.current.undo.undo(result.current.undo.entries[0].id));
+
+    expect(mockedTaskQueries.revertTaskCompletion).toHaveBeenCalledWith(
+      1,
+      { status: 'in_progress', is_completed: false },
+      undefined
+    );
+  });
+
+  it('records a completion of a task only cached in a page of a task query', async () => {
+    queryClient.clear();
+    queryClient.setQueryData(taskKeys.query({ filter: { priority: 'medium' } }), {
+      data: [task],
+      pagination: { page: 1, limit: 50, total: 1, totalPages: 1, hasNext: false, hasPrev: false },
+    });
+    mockedTaskQueries.toggleTaskCompletion.mockResolvedValue(null);
+    const { result } = renderHooks();
+
+    act(() => result.current.toggleTask.mutate({ id: 1, isCompleted: true }));
+
+    await waitFor(() => expect(result.current.undo.entries).toHaveLength(1));
+    expect(result.current.undo.entries[0].label).toBe('Completed "Buy milk"');
+  });
+
+  it('does not restore the snapshot of an older entry', async () => {
+    mockedTaskQueries.deleteTask.mockResolvedValue({} as any);
+    mockedTrashQueries.restoreTask.mockResolvedValue({} as any);
+    const { result } = renderHooks();
+
+    act(() => result.current.deleteTask.mutate(1));
+    await waitFor(() => expect(result.current.undo.entries).toHaveLength(1));
+    act(() => result.current.deleteTask.mutate(2));
+    await waitFor(() => expect(result.current.undo.entries).toHaveLength(2));
+
+    // Undo the first deletion while the second one is newer
+    const olderId = result.current.undo.entries[1].id;
+    await act(() => result.current.undo.undo(olderId));
+
+    expect(mockedTrashQueries.restoreTask).toHaveBeenCalledWith(1);
+    expect(queryClient.getQueryData(taskKeys.byList(3))).not.toContainEqual(otherTask);
+  });
+});
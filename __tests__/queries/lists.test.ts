@@ -0,0 +1,331 @@
+import {
+  getAllLists,
+  getListsWithTaskCounts,
+  getTaskCountByListId,
+  deleteList,
+  createList,
+  reorderList,
+  searchListsByName,
+  updateList,
+} from '@/queries/lists';
+import { desc, sql } from 'drizzle-orm';
+import { db } from '@/db';
+import { lists, tasks } from '@/db/schema';
+import { simulateNetworkLatency } from '@/queries/utils';
+
+// Mock the database
+jest.mock('@/db', () => ({
+  db: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+// Mock the utils
+jest.mock('@/queries/utils', () => ({
+  simulateNetworkLatency: jest.fn(),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+/**
+ * Mocks `db.update(table).set(values).where(...)` for both `.run()` and `.returning().all()`
+ */
+const mockUpdate = (trashedTaskIds: number[] = []) => {
+  const set = jest.fn().mockReturnValue({
+    where: jest.fn().mockReturnValue({
+      run: jest.fn(),
+      returning: jest.fn().mockReturnValue({
+        all: jest.fn().mockReturnValue(trashedTaskIds.map((id) => ({ id }))),
+      }),
+    }),
+  });
+  mockDb.update.mockReturnValue({ set } as any);
+  return set;
+};
+
+/**
+ * Mocks the lookup of the target list when moving tasks
+ */
+const mockTargetList = (target: { id: number } | undefined) => {
+  mockDb.select.mockReturnValue({
+    from: jest.fn().mockReturnValue({
+      where: jest.fn().mockReturnValue({
+        get: jest.fn().mockReturnValue(target),
+      }),
+    }),
+  } as any);
+};
+
+describe('List Queries', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (simulateNetworkLatency as jest.Mock).mockResolvedValue(undefined);
+    (mockDb.transaction as jest.Mock).mockImplementation((callback: any) => callback(mockDb));
+  });
+
+  describe('getAllLists', () => {
+    it('should return lists that are not in the trash', async () => {
+      const mockLists = [{ id: 1, name: 'Work' }];
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            orderBy: jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue(mockLists) }),
+          }),
+        }),
+      } as any);
+
+      const result = await getAllLists();
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(result).toEqual(mockLists);
+    });
+
+    it('should push the chosen order into the query', async () => {
+      const orderBy = jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue([]) });
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ orderBy }),
+        }),
+      } as any);
+
+      await getAllLists({ field: 'created_at', direction: 'desc' });
+
+      expect(desc).toHaveBeenCalledWith(lists.created_at);
+      expect(desc).toHaveBeenCalledWith(lists.id);
+      expect(orderBy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getListsWithTaskCounts', () => {
+    it('should count the tasks of every list in a single grouped query', async () => {
+      const mockLists = [
+        { id: 1, name: 'Work', task_count: 4, completed_count: 1, overdue_count: 2 },
+        { id: 2, name: 'Home', task_count: 0, completed_count: 0, overdue_count: 0 },
+      ];
+      const groupBy = jest.fn().mockReturnValue({
+        orderBy: jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue(mockLists) }),
+      });
+      const leftJoin = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({ groupBy }),
+      });
+      mockDb.select.mockReturnValue({ from: jest.fn().mockReturnValue({ leftJoin }) } as any);
+
+      const result = await getListsWithTaskCounts('2024-06-15');
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(mockDb.select).toHaveBeenCalledTimes(1);
+      expect(leftJoin).toHaveBeenCalledTimes(1);
+      expect(groupBy).toHaveBeenCalledWith(lists.id);
+      expect(result).toEqual(mockLists);
+    });
+
+    it('should count overdue tasks against the given day', async () => {
+      const groupBy = jest.fn().mockReturnValue({
+        orderBy: jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue([]) }),
+      });
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          leftJoin: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({ groupBy }),
+          }),
+        }),
+      } as any);
+
+      await getListsWithTaskCounts('2024-06-15');
+
+      const sqlValues = (sql as unknown as jest.Mock).mock.calls.flatMap(([, ...values]) => values);
+      expect(sqlValues).toContain('2024-06-15');
+    });
+  });
+
+  describe('createList', () => {
+    it('should append the new list after the last list', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue({ position: 2.5 }) }),
+        }),
+      } as any);
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockReturnValue({
+          get: jest.fn().mockReturnValue({ id: 4, name: 'Home', position: 3.5 }),
+        }),
+      });
+      mockDb.insert.mockReturnValue({ values } as any);
+
+      const result = await createList('Home');
+
+      expect(values).toHaveBeenCalledWith({ name: 'Home', position: 3.5 });
+      expect(result).toEqual({ id: 4, name: 'Home', position: 3.5 });
+    });
+
+    it('should store the description, colour and icon', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue(undefined) }),
+        }),
+      } as any);
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockReturnValue({ get: jest.fn() }),
+      });
+      mockDb.insert.mockReturnValue({ values } as any);
+
+      await createList('Groceries', {
+        description: 'Weekly shop',
+        color: '#22C55E',
+        icon: 'cart-outline',
+      });
+
+      expect(values).toHaveBeenCalledWith({
+        name: 'Groceries',
+        description: 'Weekly shop',
+        color: '#22C55E',
+        icon: 'cart-outline',
+        position: 1,
+      });
+    });
+  });
+
+  describe('updateList', () => {
+    it('should update only the given fields', async () => {
+      const set = jest
+        .fn()
+        .mockReturnValue({ where: jest.fn().mockReturnValue({ run: jest.fn() }) });
+      mockDb.update.mockReturnValue({ set } as any);
+
+      await updateList(4, { description: null, color: '#3B82F6' });
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(set).toHaveBeenCalledWith({
+        description: null,
+        color: '#3B82F6',
+        updated_at: expect.any(String),
+      });
+    });
+  });
+
+  describe('reorderList', () => {
+    it('should move a list between its new neighbours', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            orderBy: jest.fn().mockReturnValue({
+              all: jest.fn().mockReturnValue([
+                { id: 1, position: 1 },
+                { id: 2, position: 2 },
+                { id: 3, position: 3 },
+              ]),
+            }),
+          }),
+        }),
+      } as any);
+      const set = jest
+        .fn()
+        .mockReturnValue({ where: jest.fn().mockReturnValue({ run: jest.fn() }) });
+      mockDb.update.mockReturnValue({ set } as any);
+
+      const result = await reorderList(1, 2);
+
+      expect(result).toEqual([{ id: 1, position: 4 }]);
+      expect(set).toHaveBeenCalledWith({ position: 4 });
+    });
+  });
+
+  describe('searchListsByName', () => {
+    it('should return ranked full-text matches with highlighted names', async () => {
+      const mockLists = [{ id: 2, name: 'Groceries', name_highlight: '\u0002Groceries\u0003' }];
+      const innerJoin = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          orderBy: jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue(mockLists) }),
+        }),
+      });
+      mockDb.select.mockReturnValue({ from: jest.fn().mockReturnValue({ innerJoin }) } as any);
+
+      const result = await searchListsByName('groc');
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(innerJoin).toHaveBeenCalledTimes(1);
+      expect(result).toEqual(mockLists);
+    });
+
+    it('should not query the database for a term without words', async () => {
+      const result = await searchListsByName('   ');
+
+      expect(mockDb.select).not.toHaveBeenCalled();
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('getTaskCountByListId', () => {
+    it('should return the number of active tasks', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue({ value: 4 }) }),
+        }),
+      } as any);
+
+      await expect(getTaskCountByListId(1)).resolves.toBe(4);
+    });
+  });
+
+  describe('deleteList', () => {
+    it('should move the list and its tasks to the trash', async () => {
+      const set = mockUpdate([3, 4]);
+
+      const result = await deleteList(1);
+
+      expect(result).toEqual({ trashedTaskIds: [3, 4], movedTaskIds: [] });
+      expect(mockDb.transaction).toHaveBeenCalled();
+      expect(mockDb.update).toHaveBeenCalledWith(tasks);
+      expect(mockDb.update).toHaveBeenLastCalledWith(lists);
+      expect(set).not.toHaveBeenCalledWith(expect.objectContaining({ list_id: expect.anything() }));
+    });
+
+    it('should move tasks to the end of another list before trashing the list', async () => {
+      // The target list lookup, then the last position of the target list before each move
+      const get = jest
+        .fn()
+        .mockReturnValueOnce({ id: 2 })
+        .mockReturnValueOnce({ position: 5 })
+        .mockReturnValueOnce({ position: 6 });
+      const orderBy = jest.fn().mockReturnValue({
+        all: jest.fn().mockReturnValue([{ id: 3 }, { id: 4 }]),
+      });
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ get, orderBy }),
+        }),
+      } as any);
+      const set = mockUpdate();
+
+      const result = await deleteList(1, { moveTasksTo: 2 });
+
+      expect(orderBy).toHaveBeenCalledWith(tasks.position, tasks.id);
+      expect(set).toHaveBeenNthCalledWith(1, expect.objectContaining({ list_id: 2, position: 6 }));
+      expect(set).toHaveBeenNthCalledWith(2, expect.objectContaining({ list_id: 2, position: 7 }));
+      expect(mockDb.update).toHaveBeenLastCalledWith(lists);
+      expect(result).toEqual({ trashedTaskIds: [], movedTaskIds: [3, 4] });
+    });
+
+    it('should reject moving tasks to a missing list', async () => {
+      mockTargetList(undefined);
+      mockUpdate();
+
+      await expect(deleteList(1, { moveTasksTo: 99 })).rejects.toThrow(
+        'Tasks can only be moved to another existing list'
+      );
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject moving tasks into the list being deleted', async () => {
+      mockTargetList({ id: 1 });
+      mockUpdate();
+
+      await expect(deleteList(1, { moveTasksTo: 1 })).rejects.toThrow();
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  getAllSmartLists,
+  createSmartList,
+  updateSmartList,
+  deleteSmartList,
+} from '@/queries/smart-lists';
+import { db } from '@/db';
+import { simulateNetworkLatency } from '@/queries/utils';
+
+// Mock the database
+jest.mock('@/db', () => ({
+  db: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+// Mock the utils
+jest.mock('@/queries/utils', () => ({
+  simulateNetworkLatency: jest.fn(),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+describe('Smart List Queries', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (simulateNetworkLatency as jest.Mock).mockResolvedValue(undefined);
+    (mockDb.transaction as jest.Mock).mockImplementation((callback: any) => callback(mockDb));
+  });
+
+  describe('getAllSmartLists', () => {
+    it('should return all smart lists', async () => {
+      const mockSmartLists = [{ id: 1, name: 'Urgent', priority: 'high' }];
+
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          orderBy: jest.fn().mockReturnValue({
+            all: jest.fn().mockReturnValue(mockSmartLists),
+          }),
+        }),
+      } as any);
+
+      const result = await getAllSmartLists();
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(result).toEqual(mockSmartLists);
+    });
+  });
+
+  describe('createSmartList', () => {
+    it('should store the criteria in their columns after the last smart list', async () => {
+      const createdSmartList = { id: 2, name: 'Due soon' };
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockReturnValue({
+          get: jest.fn().mockReturnValue(createdSmartList),
+        }),
+      });
+
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          get: jest.fn().mockReturnValue({ position: 3 }),
+        }),
+      } as any);
+      mockDb.insert.mockReturnValue({ values } as any);
+
+      const result = await createSmartList('Due soon', {
+        due_range: 'next_7_days',
+        list_ids: [1, 2],
+      });
+
+      expect(values).toHaveBeenCalledWith({
+        name: 'Due soon',
+        search: null,
+        status: null,
+        priority: null,
+        due_range: 'next_7_days',
+        tag_id: null,
+        list_ids: [1, 2],
+        position: 4,
+      });
+      expect(result).toEqual(createdSmartList);
+    });
+  });
+
+  describe('updateSmartList', () => {
+    it('should clear the criteria that are left out', async () => {
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({ run: jest.fn() }),
+      });
+
+      mockDb.update.mockReturnValue({ set } as any);
+
+      await updateSmartList(2, { name: 'High', criteria: { priority: 'high' } });
+
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'High', priority: 'high', due_range: null, list_ids: null })
+      );
+    });
+  });
+
+  describe('deleteSmartList', () => {
+    it('should delete the smart list', async () => {
+      mockDb.delete.mockReturnValue({
+        where: jest.fn().mockReturnValue({ run: jest.fn() }),
+      } as any);
+
+      await deleteSmartList(2);
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(mockDb.delete).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { getAllTags, createTag, deleteTag, tagTask, untagTask } from '@/queries/tags';
+import { db } from '@/db';
+import { simulateNetworkLatency } from '@/queries/utils';
+
+// Mock the database
+jest.mock('@/db', () => ({
+  db: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+// Mock the utils
+jest.mock('@/queries/utils', () => ({
+  simulateNetworkLatency: jest.fn(),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+describe('Tag Queries', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (simulateNetworkLatency as jest.Mock).mockResolvedValue(undefined);
+    (mockDb.transaction as jest.Mock).mockImplementation((callback: any) => callback(mockDb));
+  });
+
+  describe('getAllTags', () => {
+    it('should return all tags', async () => {
+      const mockTags = [
+        { id: 1, name: 'home' },
+        { id: 2, name: 'work' },
+      ];
+
+      const mockSelect = jest.fn().mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          orderBy: jest.fn().mockReturnValue({
+            all: jest.fn().mockResolvedValue(mockTags),
+          }),
+        }),
+      });
+
+      mockDb.select.mockReturnValue(mockSelect());
+
+      const result = await getAllTags();
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(result).toEqual(mockTags);
+    });
+  });
+
+  describe('createTag', () => {
+    it('should create a tag and return the inserted row', async () => {
+      const createdTag = { id: 3, name: 'errands' };
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockReturnValue({
+          get: jest.fn().mockReturnValue(createdTag),
+        }),
+      });
+
+      mockDb.insert.mockReturnValue({ values } as any);
+
+      const result = await createTag('errands');
+
+      expect(values).toHaveBeenCalledWith({ name: 'errands' });
+      expect(result).toEqual(createdTag);
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should detach the tag from tasks and smart lists before deleting it', async () => {
+      const mockDelete = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          run: jest.fn().mockResolvedValue({}),
+        }),
+      });
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({ run: jest.fn() }),
+      });
+
+      mockDb.delete.mockReturnValue(mockDelete());
+      mockDb.update.mockReturnValue({ set } as any);
+
+      await deleteTag(3);
+
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(mockDb.delete).toHaveBeenCalledTimes(2);
+      expect(set).toHaveBeenCalledWith({ tag_id: null });
+    });
+  });
+
+  describe('tagTask', () => {
+    it('should insert a join row and ignore duplicates', async () => {
+      const onConflictDoNothing = jest.fn().mockReturnValue({ run: jest.fn() });
+      const values = jest.fn().mockReturnValue({ onConflictDoNothing });
+
+      mockDb.insert.mockReturnValue({ values } as any);
+
+      await tagTask(42, 3);
+
+      expect(values).toHaveBeenCalledWith({ task_id: 42, tag_id: 3 });
+      expect(onConflictDoNothing).toHaveBeenCalled();
+    });
+  });
+
+  describe('untagTask', () => {
+    it('should delete the join row', async () => {
+      const mockDelete = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          run: jest.fn().mockResolvedValue({}),
+        }),
+      });
+
+      mockDb.delete.mockReturnValue(mockDelete());
+
+      await untagTask(42, 3);
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(mockDb.delete).toHaveBeenCalled();
+    });
+  });
+});
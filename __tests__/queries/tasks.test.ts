@@ -4,16 +4,35 @@ import {
   getTasksByListId,
   createTask,
   updateTask,
+  duplicateTask,
+  moveTasks,
+  copyTasks,
   deleteTask,
+  deleteTasks,
+  updateTasks,
   toggleTaskCompletion,
   searchTasksByName,
   getTasksByStatus,
   getTasksByPriority,
   getUpcomingTasks,
+  getTasksDueBetween,
+  getSmartViewTasks,
+  getSmartViewCounts,
   getCompletedTasks,
+  getSubtasksByTaskId,
+  createSubtask,
+  toggleSubtaskCompletion,
+  deleteSubtask,
+  revertTaskCompletion,
+  reorderTask,
+  queryTasks,
+  compileTaskSearch,
 } from '@/queries/tasks';
 import { db } from '@/db';
+import { tasks } from '@/db/schema';
 import { simulateNetworkLatency } from '@/queries/utils';
+import { eq, isNull, lt, lte, gte, desc, asc, not, or, inArray, sql } from 'drizzle-orm';
+import { parseSearchQuery } from '@/utils/search-query';
 
 // Mock the database
 jest.mock('@/db', () => ({
@@ -22,6 +41,7 @@ jest.mock('@/db', () => ({
     insert: jest.fn(),
     update: jest.fn(),
     delete: jest.fn(),
+    transaction: jest.fn(),
   },
 }));
 
@@ -36,6 +56,7 @@ describe('Task Queries', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (simulateNetworkLatency as jest.Mock).mockResolvedValue(undefined);
+    (mockDb.transaction as jest.Mock).mockImplementation((callback: any) => callback(mockDb));
   });
 
   describe('getAllTasks', () => {
@@ -47,7 +68,9 @@ describe('Task Queries', () => {
       
       const mockSelect = jest.fn().mockReturnValue({
         from: jest.fn().mockReturnValue({
-          all: jest.fn().mockResolvedValue(mockTasks),
+          where: jest.fn().mockReturnValue({
+            all: jest.fn().mockResolvedValue(mockTasks),
+          }),
         }),
       });
       
@@ -56,6 +79,7 @@ describe('Task Queries', () => {
       const result = await getAllTasks();
 
       expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(isNull).toHaveBeenCalledWith(tasks.deleted_at);
       expect(result).toEqual(mockTasks);
     });
   });
@@ -91,7 +115,9 @@ describe('Task Queries', () => {
       const mockSelect = jest.fn().mockReturnValue({
         from: jest.fn().mockReturnValue({
           where: jest.fn().mockReturnValue({
-            all: jest.fn().mockResolvedValue(mockTasks),
+            orderBy: jest.fn().mockReturnValue({
+              all: jest.fn().mockResolvedValue(mockTasks),
+            }),
           }),
         }),
       });
@@ -106,106 +132,914 @@ describe('Task Queries', () => {
   });
 
   describe('createTask', () => {
-    it('should create a new task', async () => {
+    it('should append the new task to the end of its list', async () => {
       const taskData = {
         name: 'New Task',
         description: 'New Description',
         list_id: 1,
       };
-      
-      const mockInsert = jest.fn().mockReturnValue({
-        values: jest.fn().mockReturnValue({
-          run: jest.fn().mockResolvedValue({}),
+      const createdTask = { id: 7, ...taskData, position: 4 };
+
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue({ position: 3 }) }),
         }),
+      } as any);
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue(createdTask) }),
       });
-      
-      mockDb.insert.mockReturnValue(mockInsert());
+      mockDb.insert.mockReturnValue({ values } as any);
 
-      await createTask(taskData);
+      const result = await createTask(taskData);
 
       expect(simulateNetworkLatency).toHaveBeenCalled();
-      expect(mockDb.insert).toHaveBeenCalled();
+      expect(mockDb.transaction).toHaveBeenCalled();
+      expect(values).toHaveBeenCalledWith({
+        ...taskData,
+        status: 'pending',
+        is_completed: false,
+        position: 4,
+      });
+      expect(result).toEqual(createdTask);
+    });
+
+    it('should start an empty list at the first position', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue({ position: null }) }),
+        }),
+      } as any);
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue({ id: 1 }) }),
+      });
+      mockDb.insert.mockReturnValue({ values } as any);
+
+      await createTask({ name: 'First', list_id: 2 });
+
+      expect(values).toHaveBeenCalledWith({
+        name: 'First',
+        list_id: 2,
+        status: 'pending',
+        is_completed: false,
+        position: 1,
+      });
+    });
+
+    it('should derive the completion flag from the status', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue({ position: null }) }),
+        }),
+      } as any);
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue({ id: 1 }) }),
+      });
+      mockDb.insert.mockReturnValue({ values } as any);
+
+      await createTask({ name: 'Done', list_id: 2, status: 'completed', is_completed: false });
+
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'completed', is_completed: true })
+      );
+    });
+  });
+
+  describe('queryTasks', () => {
+    /**
+     * Mocks the composed select chain and returns its builder steps for assertions
+     */
+    const mockQuery = (rows: object[]) => {
+      const steps = {
+        innerJoin: jest.fn(),
+        where: jest.fn(),
+        orderBy: jest.fn(),
+        limit: jest.fn(),
+        offset: jest.fn(),
+      };
+      const all = jest.fn().mockReturnValue(rows);
+      steps.offset.mockReturnValue({ all });
+      steps.limit.mockReturnValue({ offset: steps.offset });
+      steps.orderBy.mockReturnValue({ limit: steps.limit });
+      steps.where.mockReturnValue({ orderBy: steps.orderBy });
+      const dynamic = { innerJoin: steps.innerJoin, where: steps.where };
+      steps.innerJoin.mockReturnValue(dynamic);
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({ $dynamic: () => dynamic }),
+      } as any);
+      return steps;
+    };
+
+    it('should return a page of tasks without the window total column', async () => {
+      mockQuery([
+        { id: 1, name: 'A', total: 3 },
+        { id: 2, name: 'B', total: 3 },
+      ]);
+
+      const result = await queryTasks({ pagination: { page: 1, limit: 2 } });
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(mockDb.select).toHaveBeenCalledTimes(1);
+      expect(result.data).toEqual([
+        { id: 1, name: 'A' },
+        { id: 2, name: 'B' },
+      ]);
+      expect(result.pagination).toEqual({
+        page: 1,
+        limit: 2,
+        total: 3,
+        totalPages: 2,
+        hasNext: true,
+        hasPrev: false,
+      });
+    });
+
+    it('should translate the page into an offset', async () => {
+      const steps = mockQuery([{ id: 3, name: 'C', total: 3 }]);
+
+      const result = await queryTasks({ pagination: { page: 2, limit: 2 } });
+
+      expect(steps.limit).toHaveBeenCalledWith(2);
+      expect(steps.offset).toHaveBeenCalledWith(2);
+      expect(result.pagination).toMatchObject({ page: 2, hasNext: false, hasPrev: true });
+    });
+
+    it('should apply every given filter in the same statement', async () => {
+      const steps = mockQuery([]);
+
+      const result = await queryTasks({
+        filter: { list_id: 1, search: ' report ', due_date: '2024-06-30', priority: 'high' },
+        sort: { field: 'due_date', direction: 'desc' },
+      });
+
+      expect(steps.innerJoin).toHaveBeenCalledTimes(1);
+      expect(lte).toHaveBeenCalledWith(tasks.due_date, '2024-06-30');
+      expect(desc).toHaveBeenCalledWith(tasks.due_date);
+      expect(result.pagination).toMatchObject({ total: 0, totalPages: 0, hasNext: false });
+    });
+
+    it('should apply field operators from the search query without joining the index', async () => {
+      const steps = mockQuery([]);
+
+      await queryTasks({ filter: { search: 'priority:low due:none' } });
+
+      expect(steps.innerJoin).not.toHaveBeenCalled();
+      expect(eq).toHaveBeenCalledWith(tasks.priority, 'low');
+      expect(isNull).toHaveBeenCalledWith(tasks.due_date);
+    });
+
+    it('should sort priorities by their meaning and undated tasks last', async () => {
+      mockQuery([]);
+
+      await queryTasks({ sort: { field: 'priority', direction: 'desc' } });
+      expect(sql).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.stringContaining("when 'high' then 3")]),
+        tasks.priority
+      );
+
+      await queryTasks({ sort: { field: 'due_date', direction: 'asc' } });
+      expect(sql).toHaveBeenCalledWith(expect.arrayContaining([' is null']), tasks.due_date);
+      expect(asc).toHaveBeenCalledWith(tasks.due_date);
+    });
+
+    it('should filter by a due range and several lists for smart lists', async () => {
+      mockQuery([]);
+
+      await queryTasks({ filter: { due_range: 'no_due_date', list_ids: [1, 2] } });
+
+      expect(isNull).toHaveBeenCalledWith(tasks.due_date);
+      expect(inArray).toHaveBeenCalledWith(tasks.list_id, [1, 2]);
+    });
+
+    it('should only match open tasks for the overdue due range', async () => {
+      mockQuery([]);
+
+      await queryTasks({ filter: { due_range: 'overdue' } });
+
+      expect(eq).toHaveBeenCalledWith(tasks.is_completed, false);
+      expect(sql).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.stringContaining("'pending') != 'cancelled'")]),
+        tasks.status
+      );
+      expect(lt).toHaveBeenCalledWith(tasks.due_date, expect.any(String));
+    });
+
+    it('should only join the search index when searching', async () => {
+      const steps = mockQuery([]);
+
+      await queryTasks({ filter: { list_id: 1, search: '  ' } });
+
+      expect(steps.innerJoin).not.toHaveBeenCalled();
+      expect(asc).toHaveBeenCalledWith(tasks.position);
+    });
+  });
+
+  describe('compileTaskSearch', () => {
+    const compile = (input: string) =>
+      compileTaskSearch(parseSearchQuery(input).query, '2024-06-10');
+
+    it('combines searched words and phrases into one match expression', () => {
+      const result = compile('buy "oat milk" -draft');
+
+      expect(result.match).toBe('"buy"* "oat milk"');
+      expect(result.conditions).toHaveLength(1);
+    });
+
+    it('returns no match expression without searched words', () => {
+      expect(compile('priority:high').match).toBeNull();
+      expect(eq).toHaveBeenCalledWith(tasks.priority, 'high');
+    });
+
+    it('compares due dates by whole days relative to today', () => {
+      compile('due:<7d');
+      expect(lt).toHaveBeenCalledWith(tasks.due_date, '2024-06-17');
+
+      compile('due:<=7d');
+      expect(lt).toHaveBeenCalledWith(tasks.due_date, '2024-06-18');
+
+      compile('due:>2024-07-01');
+      expect(gte).toHaveBeenCalledWith(tasks.due_date, '2024-07-02');
+
+      compile('due:today');
+      expect(gte).toHaveBeenCalledWith(tasks.due_date, '2024-06-10');
+      expect(lt).toHaveBeenCalledWith(tasks.due_date, '2024-06-11');
+    });
+
+    it('matches tasks without a due date', () => {
+      compile('due:none');
+      expect(isNull).toHaveBeenCalledWith(tasks.due_date);
+      expect(not).not.toHaveBeenCalled();
+    });
+
+    it('only matches open tasks as overdue', () => {
+      compile('due:overdue');
+      expect(eq).toHaveBeenCalledWith(tasks.is_completed, false);
+      expect(sql).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.stringContaining("'pending') != 'cancelled'")]),
+        tasks.status
+      );
+      expect(lt).toHaveBeenCalledWith(tasks.due_date, '2024-06-10');
+    });
+
+    it('keeps tasks without a due date when a due range is excluded', () => {
+      compile('-due:overdue');
+      expect(lt).toHaveBeenCalledWith(tasks.due_date, '2024-06-10');
+      expect(or).toHaveBeenCalled();
+      expect(not).toHaveBeenCalled();
+    });
+
+    it('looks up lists and tags by name', () => {
+      const where = jest.fn();
+      const from = jest.fn().mockReturnValue({
+        where,
+        innerJoin: jest.fn().mockReturnValue({ where }),
+      });
+      mockDb.select.mockReturnValue({ from } as any);
+
+      const result = compile('list:Work -tag:someday');
+
+      expect(from).toHaveBeenCalledTimes(2);
+      expect(where).toHaveBeenCalledTimes(2);
+      expect(not).toHaveBeenCalledTimes(1);
+      expect(result.conditions).toHaveLength(2);
+    });
+  });
+
+  describe('reorderTask', () => {
+    /**
+     * Mocks the lookup of the moved task followed by the ordered tasks of its list
+     */
+    const mockListTasks = (listTasks: { id: number; position: number }[]) => {
+      mockDb.select
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              get: jest.fn().mockReturnValue({ id: 3, list_id: 1 }),
+            }),
+          }),
+        } as any)
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              orderBy: jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue(listTasks) }),
+            }),
+          }),
+        } as any);
+    };
+
+    const mockPositionUpdate = () => {
+      const set = jest.fn().mockReturnValue({ where: jest.fn().mockReturnValue({ run: jest.fn() }) });
+      mockDb.update.mockReturnValue({ set } as any);
+      return set;
+    };
+
+    it('should only move the dragged task when there is room between its neighbours', async () => {
+      mockListTasks([
+        { id: 1, position: 1 },
+        { id: 2, position: 2 },
+        { id: 3, position: 3 },
+      ]);
+      const set = mockPositionUpdate();
+
+      const result = await reorderTask(3, 1);
+
+      expect(result).toEqual([{ id: 3, position: 1.5 }]);
+      expect(set).toHaveBeenCalledTimes(1);
+      expect(set).toHaveBeenCalledWith({ position: 1.5 });
+    });
+
+    it('should renumber the list when neighbours are too close', async () => {
+      mockListTasks([
+        { id: 1, position: 1 },
+        { id: 2, position: 1 },
+        { id: 3, position: 3 },
+      ]);
+      const set = mockPositionUpdate();
+
+      const result = await reorderTask(3, 1);
+
+      expect(result).toEqual([
+        { id: 3, position: 2 },
+        { id: 2, position: 3 },
+      ]);
+      expect(set).toHaveBeenCalledTimes(2);
+    });
+
+    it('should do nothing for a missing task', async () => {
+      mockDb.select.mockReturnValueOnce({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue(undefined) }),
+        }),
+      } as any);
+
+      await expect(reorderTask(99, 0)).resolves.toEqual([]);
+      expect(mockDb.update).not.toHaveBeenCalled();
     });
   });
 
   describe('updateTask', () => {
+    const mockSelect = (rows: any[]) => {
+      rows.forEach((row) => {
+        mockDb.select.mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              get: jest.fn().mockReturnValue(row),
+              all: jest.fn().mockReturnValue([]),
+            }),
+          }),
+        } as any);
+      });
+    };
+
+    const mockUpdate = () => {
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({ run: jest.fn() }),
+      });
+      mockDb.update.mockReturnValue({ set } as any);
+      return set;
+    };
+
     it('should update an existing task', async () => {
-      const updateData = { name: 'Updated Task' };
-      
-      const mockUpdate = jest.fn().mockReturnValue({
-        set: jest.fn().mockReturnValue({
+      const set = mockUpdate();
+      mockSelect([{ id: 1, list_id: 1, is_completed: false }]);
+
+      const result = await updateTask(1, { name: 'Updated Task' });
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(mockDb.transaction).toHaveBeenCalled();
+      expect(set).toHaveBeenCalledWith({ name: 'Updated Task', updated_at: expect.any(String) });
+      expect(result).toBeNull();
+    });
+
+    it('should return null for a missing task', async () => {
+      mockUpdate();
+      mockSelect([undefined]);
+
+      await expect(updateTask(99, { name: 'Updated Task' })).resolves.toBeNull();
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should derive the completion flag from the status', async () => {
+      const set = mockUpdate();
+      mockSelect([{ id: 1, list_id: 1, is_completed: true }]);
+
+      await updateTask(1, { status: 'in_progress' });
+
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'in_progress', is_completed: false })
+      );
+    });
+
+    it('should append a task moved to another list', async () => {
+      const set = mockUpdate();
+      mockSelect([{ id: 1, list_id: 1, is_completed: false }, { position: 4 }]);
+
+      await updateTask(1, { list_id: 2 });
+
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({ list_id: 2, position: 5 }));
+    });
+
+    it('should replace tags and reminders', async () => {
+      mockUpdate();
+      mockSelect([{ id: 1, list_id: 1, is_completed: false }]);
+      const where = jest.fn().mockReturnValue({ run: jest.fn() });
+      mockDb.delete.mockReturnValue({ where } as any);
+      const values = jest.fn().mockReturnValue({ run: jest.fn() });
+      mockDb.insert.mockReturnValue({ values } as any);
+
+      await updateTask(1, { tag_ids: [3, 3, 4], reminder_offsets: [] });
+
+      expect(mockDb.delete).toHaveBeenCalledTimes(2);
+      expect(values).toHaveBeenCalledTimes(1);
+      expect(values).toHaveBeenCalledWith([
+        { task_id: 1, tag_id: 3 },
+        { task_id: 1, tag_id: 4 },
+      ]);
+    });
+  });
+
+  describe('duplicateTask', () => {
+    it('should copy a task with its checklist to the end of its list', async () => {
+      const original = {
+        id: 1,
+        name: 'Pay rent',
+        description: 'Landlord',
+        image: null,
+        priority: 'high',
+        status: 'completed',
+        is_completed: true,
+        due_date: '2024-06-11',
+        recurrence: null,
+        list_id: 2,
+      };
+      const rows = [{ name: 'Transfer', task_id: 1, is_completed: true }];
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
           where: jest.fn().mockReturnValue({
-            run: jest.fn().mockResolvedValue({}),
+            get: jest.fn().mockReturnValueOnce(original).mockReturnValue({ position: 1 }),
+            all: jest.fn().mockReturnValueOnce([]).mockReturnValueOnce([]).mockReturnValue(rows),
           }),
         }),
+      } as any);
+      const copy = { id: 7, name: 'Pay rent (copy)' };
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue(copy) }),
+        run: jest.fn(),
       });
-      
-      mockDb.update.mockReturnValue(mockUpdate());
+      mockDb.insert.mockReturnValue({ values } as any);
 
-      await updateTask(1, updateData);
+      const result = await duplicateTask(1);
 
       expect(simulateNetworkLatency).toHaveBeenCalled();
-      expect(mockDb.update).toHaveBeenCalled();
+      expect(result).toEqual(copy);
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Pay rent (copy)',
+          priority: 'high',
+          status: 'pending',
+          is_completed: false,
+          position: 2,
+          list_id: 2,
+        })
+      );
+      expect(values).toHaveBeenCalledWith([{ name: 'Transfer', task_id: 7 }]);
+    });
+
+    it('should return null for a missing task', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue(undefined) }),
+        }),
+      } as any);
+
+      await expect(duplicateTask(99)).resolves.toBeNull();
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moveTasks', () => {
+    /**
+     * Mocks `select().from().where()` ending in `.get()` with the given results in turn
+     */
+    const mockGet = (...results: unknown[]) => {
+      const get = jest.fn();
+      results.forEach((result) => get.mockReturnValueOnce(result));
+      return {
+        from: jest.fn().mockReturnValue({ where: jest.fn().mockReturnValue({ get }) }),
+      } as any;
+    };
+
+    it('should append the tasks to the target list in their current order', async () => {
+      mockDb.select
+        .mockReturnValueOnce(mockGet({ id: 2 }))
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              orderBy: jest.fn().mockReturnValue({
+                all: jest.fn().mockReturnValue([{ id: 8 }, { id: 4 }]),
+              }),
+            }),
+          }),
+        } as any)
+        .mockReturnValueOnce(mockGet({ position: 3 }))
+        .mockReturnValueOnce(mockGet({ position: 4 }));
+      const get = jest
+        .fn()
+        .mockReturnValueOnce({ id: 8, list_id: 2, position: 4 })
+        .mockReturnValueOnce({ id: 4, list_id: 2, position: 5 });
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({ returning: jest.fn().mockReturnValue({ get }) }),
+      });
+      mockDb.update.mockReturnValue({ set } as any);
+
+      const result = await moveTasks([4, 8], 2);
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(set).toHaveBeenNthCalledWith(1, expect.objectContaining({ list_id: 2, position: 4 }));
+      expect(set).toHaveBeenNthCalledWith(2, expect.objectContaining({ list_id: 2, position: 5 }));
+      expect(result).toEqual([
+        { id: 8, list_id: 2, position: 4 },
+        { id: 4, list_id: 2, position: 5 },
+      ]);
+    });
+
+    it('should reject a target list that does not exist', async () => {
+      mockDb.select.mockReturnValueOnce(mockGet(undefined));
+
+      await expect(moveTasks([4], 99)).rejects.toThrow('existing list');
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should not touch the database without tasks', async () => {
+      await expect(moveTasks([], 2)).resolves.toEqual([]);
+      expect(mockDb.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('copyTasks', () => {
+    it('should copy tasks to another list without a copy suffix', async () => {
+      const original = {
+        id: 1,
+        name: 'Pay rent',
+        description: null,
+        image: null,
+        priority: 'high',
+        status: 'completed',
+        is_completed: true,
+        due_date: null,
+        recurrence: null,
+        list_id: 2,
+        position: 1,
+      };
+      mockDb.select
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue({ id: 5 }) }),
+          }),
+        } as any)
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              orderBy: jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue([original]) }),
+            }),
+          }),
+        } as any)
+        .mockReturnValue({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              get: jest.fn().mockReturnValue({ position: null }),
+              all: jest.fn().mockReturnValue([]),
+            }),
+          }),
+        } as any);
+      const copy = { id: 9, name: 'Pay rent', list_id: 5 };
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue(copy) }),
+        run: jest.fn(),
+      });
+      mockDb.insert.mockReturnValue({ values } as any);
+
+      const result = await copyTasks([1], 5);
+
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Pay rent',
+          status: 'pending',
+          is_completed: false,
+          position: 1,
+          list_id: 5,
+        })
+      );
+      expect(result).toEqual([copy]);
+    });
+
+    it('should reject a target list that does not exist', async () => {
+      mockDb.select.mockReturnValueOnce({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue(undefined) }),
+        }),
+      } as any);
+
+      await expect(copyTasks([1], 99)).rejects.toThrow('existing list');
+      expect(mockDb.insert).not.toHaveBeenCalled();
     });
   });
 
   describe('deleteTask', () => {
-    it('should delete a task', async () => {
-      const mockDelete = jest.fn().mockReturnValue({
+    it('should move a task to the trash instead of deleting it', async () => {
+      const set = jest.fn().mockReturnValue({
         where: jest.fn().mockReturnValue({
           run: jest.fn().mockResolvedValue({}),
         }),
       });
-      
-      mockDb.delete.mockReturnValue(mockDelete());
+      mockDb.update.mockReturnValue({ set } as any);
 
       await deleteTask(1);
 
       expect(simulateNetworkLatency).toHaveBeenCalled();
-      expect(mockDb.delete).toHaveBeenCalled();
+      expect(set).toHaveBeenCalledWith({ deleted_at: expect.any(String) });
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTasks', () => {
+    it('should move all tasks to the trash with one update', async () => {
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({ run: jest.fn() }),
+      });
+      mockDb.update.mockReturnValue({ set } as any);
+
+      await deleteTasks([1, 2, 3]);
+
+      expect(mockDb.update).toHaveBeenCalledTimes(1);
+      expect(set).toHaveBeenCalledWith({ deleted_at: expect.any(String) });
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+
+    it('should not touch the database without tasks', async () => {
+      await deleteTasks([]);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTasks', () => {
+    const mockUpdate = () => {
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({ run: jest.fn() }),
+      });
+      mockDb.update.mockReturnValue({ set } as any);
+      return set;
+    };
+
+    it('should change the priority of all tasks with one update', async () => {
+      const set = mockUpdate();
+
+      const result = await updateTasks([1, 2], { priority: 'high' });
+
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(mockDb.update).toHaveBeenCalledTimes(1);
+      expect(set).toHaveBeenCalledWith({ priority: 'high', updated_at: expect.any(String) });
+      expect(mockDb.select).not.toHaveBeenCalled();
+      expect(result).toEqual([]);
+    });
+
+    /**
+     * Mocks the lookup of the tasks' current statuses
+     */
+    const mockCurrentTasks = (currentTasks: unknown[]) => {
+      mockDb.select.mockReturnValueOnce({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue(currentTasks) }),
+        }),
+      } as any);
+    };
+
+    it('should derive the completion flag from the status', async () => {
+      const set = mockUpdate();
+      mockCurrentTasks([
+        { id: 1, status: 'pending', is_completed: false },
+        { id: 2, status: 'completed', is_completed: true },
+      ]);
+
+      await updateTasks([1, 2], { status: 'in_progress' });
+
+      expect(set).toHaveBeenCalledWith({
+        status: 'in_progress',
+        is_completed: false,
+        updated_at: expect.any(String),
+      });
+    });
+
+    it('should leave alone tasks that the workflow keeps from the new status', async () => {
+      mockUpdate();
+      mockCurrentTasks([{ id: 1, status: 'blocked', is_completed: false }]);
+
+      const result = await updateTasks([1], { status: 'completed' });
+
+      expect(mockDb.update).not.toHaveBeenCalled();
+      expect(result).toEqual([]);
+    });
+
+    it('should create next occurrences for recurring tasks that become completed', async () => {
+      const set = mockUpdate();
+      mockDb.select
+        .mockReturnValueOnce({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              all: jest.fn().mockReturnValue([
+                { id: 1, is_completed: false },
+                { id: 2, is_completed: true },
+              ]),
+            }),
+          }),
+        } as any)
+        .mockReturnValue({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              get: jest.fn().mockReturnValue({
+                id: 1,
+                name: 'Water plants',
+                due_date: '2024-01-01',
+                recurrence: { type: 'daily' },
+                list_id: 2,
+              }),
+              all: jest.fn().mockReturnValue([]),
+            }),
+          }),
+        } as any);
+      const nextOccurrence = { id: 9, name: 'Water plants', due_date: '2024-01-02' };
+      mockDb.insert.mockReturnValue({
+        values: jest.fn().mockReturnValue({
+          returning: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue(nextOccurrence) }),
+          run: jest.fn(),
+        }),
+      } as any);
+
+      const result = await updateTasks([1, 2], { status: 'completed' });
+
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'completed', is_completed: true })
+      );
+      // Only the task that was still open moves on to its next occurrence
+      expect(result).toEqual([{ taskId: 1, nextOccurrence }]);
     });
   });
 
   describe('toggleTaskCompletion', () => {
-    it('should toggle task completion status', async () => {
-      const mockUpdate = jest.fn().mockReturnValue({
-        set: jest.fn().mockReturnValue({
+    const mockTaskLookup = (task: any) => {
+      const mockSelect = jest.fn().mockReturnValue({
+        from: jest.fn().mockReturnValue({
           where: jest.fn().mockReturnValue({
-            run: jest.fn().mockResolvedValue({}),
+            get: jest.fn().mockReturnValue(task),
+            all: jest.fn().mockReturnValue([{ task_id: task?.id, tag_id: 4 }]),
           }),
         }),
       });
-      
-      mockDb.update.mockReturnValue(mockUpdate());
+      mockDb.select.mockImplementation(mockSelect);
+    };
+
+    const mockUpdate = () => {
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          run: jest.fn().mockReturnValue({}),
+        }),
+      });
+      mockDb.update.mockReturnValue({ set } as any);
+      return set;
+    };
+
+    it('should toggle task completion status', async () => {
+      mockUpdate();
+      mockTaskLookup({ id: 1, recurrence: null });
 
-      await toggleTaskCompletion(1, true);
+      const result = await toggleTaskCompletion(1, true);
 
       expect(simulateNetworkLatency).toHaveBeenCalled();
       expect(mockDb.update).toHaveBeenCalled();
+      expect(mockDb.insert).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+
+    it('should create the next occurrence when completing a recurring task', async () => {
+      const set = mockUpdate();
+      mockTaskLookup({
+        id: 1,
+        name: 'Water plants',
+        due_date: '2024-01-31',
+        recurrence: { type: 'monthly', day: 31 },
+        list_id: 2,
+      });
+      const nextOccurrence = { id: 9, name: 'Water plants', due_date: '2024-02-29' };
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue(nextOccurrence) }),
+        run: jest.fn(),
+      });
+      mockDb.insert.mockReturnValue({ values } as any);
+
+      const result = await toggleTaskCompletion(1, true);
+
+      expect(result).toEqual(nextOccurrence);
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({ due_date: '2024-02-29', status: 'pending', list_id: 2 })
+      );
+      // Tags are copied and the rule moves off the completed task
+      expect(values).toHaveBeenCalledWith([{ task_id: 9, tag_id: 4 }]);
+      expect(set).toHaveBeenCalledWith({ recurrence: null });
+    });
+
+    it('should move the task back to pending when un-completing', async () => {
+      const set = mockUpdate();
+      mockTaskLookup({ id: 1, status: 'completed', is_completed: true, recurrence: null });
+
+      const result = await toggleTaskCompletion(1, false);
+
+      expect(result).toBeNull();
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'pending', is_completed: false })
+      );
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to complete a blocked task', async () => {
+      mockUpdate();
+      mockTaskLookup({ id: 1, status: 'blocked', is_completed: false });
+
+      await expect(toggleTaskCompletion(1, true)).rejects.toThrow(
+        'A blocked task cannot be changed to completed'
+      );
+      expect(mockDb.update).not.toHaveBeenCalled();
     });
   });
 
-  describe('searchTasksByName', () => {
-    it('should search tasks by name', async () => {
-      const mockTasks = [
-        { id: 1, name: 'Task with search term' },
-      ];
-      
-      const mockSelect = jest.fn().mockReturnValue({
+  describe('revertTaskCompletion', () => {
+    const mockUpdate = () => {
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({ run: jest.fn() }),
+      });
+      mockDb.update.mockReturnValue({ set } as any);
+      return set;
+    };
+
+    it('should restore the previous completion state', async () => {
+      const set = mockUpdate();
+
+      await revertTaskCompletion(1, { is_completed: false });
+
+      expect(set).toHaveBeenCalledWith({ is_completed: false, updated_at: expect.any(String) });
+      expect(mockDb.delete).not.toHaveBeenCalled();
+    });
+
+    it('should remove the created occurrence and take back its recurrence', async () => {
+      const set = mockUpdate();
+      const recurrence = { type: 'daily' };
+      mockDb.select.mockReturnValue({
         from: jest.fn().mockReturnValue({
           where: jest.fn().mockReturnValue({
-            all: jest.fn().mockResolvedValue(mockTasks),
+            get: jest.fn().mockReturnValue({ id: 9, recurrence }),
           }),
         }),
-      });
-      
-      mockDb.select.mockReturnValue(mockSelect());
+      } as any);
+      mockDb.delete.mockReturnValue({
+        where: jest.fn().mockReturnValue({ run: jest.fn() }),
+      } as any);
+
+      await revertTaskCompletion(1, { status: 'in_progress', is_completed: false }, 9);
+
+      expect(mockDb.delete).toHaveBeenLastCalledWith(tasks);
+      expect(set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'in_progress', is_completed: false, recurrence })
+      );
+    });
+  });
+
+  describe('searchTasksByName', () => {
+    it('should rank full-text matches of active tasks', async () => {
+      const mockTasks = [
+        { id: 1, name: 'Task with search term', name_highlight: 'Task with \u0002search\u0003 term' },
+      ];
+      const innerJoin = jest.fn();
+      const where = jest.fn();
+      const orderBy = jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue(mockTasks) });
+      where.mockReturnValue({ orderBy });
+      innerJoin.mockReturnValue({ where });
+      mockDb.select.mockReturnValue({ from: jest.fn().mockReturnValue({ innerJoin }) } as any);
 
       const result = await searchTasksByName('search');
 
       expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(innerJoin).toHaveBeenCalledTimes(1);
+      expect(isNull).toHaveBeenCalledWith(tasks.deleted_at);
+      expect(orderBy).toHaveBeenCalledTimes(1);
       expect(result).toEqual(mockTasks);
     });
+
+    it('should not query the database for a term without words', async () => {
+      const result = await searchTasksByName(' "*" ');
+
+      expect(mockDb.select).not.toHaveBeenCalled();
+      expect(result).toEqual([]);
+    });
   });
 
   describe('getTasksByStatus', () => {
@@ -279,6 +1113,95 @@ describe('Task Queries', () => {
     });
   });
 
+  describe('getTasksDueBetween', () => {
+    it('should return tasks due on any day of the range, the last day included', async () => {
+      const mockTasks = [{ id: 1, name: 'Due Task', due_date: '2024-06-30T18:00' }];
+      const orderBy = jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue(mockTasks) });
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ orderBy }),
+        }),
+      } as any);
+
+      const result = await getTasksDueBetween('2024-06-01', '2024-06-30');
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(gte).toHaveBeenCalledWith(tasks.due_date, '2024-06-01');
+      expect(lt).toHaveBeenCalledWith(tasks.due_date, '2024-07-01');
+      expect(isNull).toHaveBeenCalledWith(tasks.deleted_at);
+      expect(asc).toHaveBeenCalledWith(tasks.due_date);
+      expect(result).toEqual(mockTasks);
+    });
+  });
+
+  describe('getSmartViewTasks', () => {
+    const mockSelectAll = (result: unknown[]) => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            orderBy: jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue(result) }),
+          }),
+        }),
+      } as any);
+    };
+
+    it('should only return open tasks', async () => {
+      const mockTasks = [{ id: 1, name: 'Call plumber', due_date: '2024-06-10' }];
+      mockSelectAll(mockTasks);
+
+      const result = await getSmartViewTasks('today', '2024-06-10');
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(eq).toHaveBeenCalledWith(tasks.is_completed, false);
+      expect(gte).toHaveBeenCalledWith(tasks.due_date, '2024-06-10');
+      expect(lt).toHaveBeenCalledWith(tasks.due_date, '2024-06-11');
+      expect(isNull).toHaveBeenCalledWith(tasks.deleted_at);
+      expect(result).toEqual(mockTasks);
+    });
+
+    it('should cover today and the six days after it for the next 7 days', async () => {
+      mockSelectAll([]);
+
+      await getSmartViewTasks('next_7_days', '2024-06-10');
+
+      expect(gte).toHaveBeenCalledWith(tasks.due_date, '2024-06-10');
+      expect(lt).toHaveBeenCalledWith(tasks.due_date, '2024-06-17');
+    });
+
+    it('should match overdue and undated tasks', async () => {
+      mockSelectAll([]);
+
+      await getSmartViewTasks('overdue', '2024-06-10');
+      expect(lt).toHaveBeenCalledWith(tasks.due_date, '2024-06-10');
+
+      await getSmartViewTasks('no_due_date', '2024-06-10');
+      expect(isNull).toHaveBeenCalledWith(tasks.due_date);
+    });
+  });
+
+  describe('getSmartViewCounts', () => {
+    it('should count every view in one statement', async () => {
+      const counts = { today: 2, overdue: 1, next_7_days: 5, no_due_date: 3 };
+      const select = jest.fn().mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue(counts) }),
+        }),
+      });
+      mockDb.select.mockImplementation(select);
+
+      const result = await getSmartViewCounts('2024-06-10');
+
+      expect(select).toHaveBeenCalledTimes(1);
+      expect(Object.keys(select.mock.calls[0][0])).toEqual([
+        'today',
+        'overdue',
+        'next_7_days',
+        'no_due_date',
+      ]);
+      expect(result).toEqual(counts);
+    });
+  });
+
   describe('getCompletedTasks', () => {
     it('should return completed tasks', async () => {
       const mockTasks = [
@@ -303,4 +1226,164 @@ describe('Task Queries', () => {
       expect(result).toEqual(mockTasks);
     });
   });
+
+  describe('getSubtasksByTaskId', () => {
+    it('should return subtasks for a specific task', async () => {
+      const mockSubtasks = [
+        { id: 1, name: 'Step 1', task_id: 1 },
+        { id: 2, name: 'Step 2', task_id: 1 },
+      ];
+
+      const mockSelect = jest.fn().mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            orderBy: jest.fn().mockReturnValue({
+              all: jest.fn().mockResolvedValue(mockSubtasks),
+            }),
+          }),
+        }),
+      });
+
+      mockDb.select.mockReturnValue(mockSelect());
+
+      const result = await getSubtasksByTaskId(1);
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(result).toEqual(mockSubtasks);
+    });
+  });
+
+  describe('createSubtask', () => {
+    it('should create a subtask and return the inserted row', async () => {
+      const createdSubtask = { id: 3, name: 'Step 3', task_id: 1, is_completed: false };
+
+      const mockInsert = jest.fn().mockReturnValue({
+        values: jest.fn().mockReturnValue({
+          returning: jest.fn().mockReturnValue({
+            get: jest.fn().mockReturnValue(createdSubtask),
+          }),
+        }),
+      });
+
+      mockDb.insert.mockReturnValue(mockInsert());
+
+      const result = await createSubtask({ name: 'Step 3', task_id: 1 });
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(result).toEqual(createdSubtask);
+    });
+  });
+
+  describe('toggleSubtaskCompletion', () => {
+    const openParent = { id: 7, status: 'pending', is_completed: false, recurrence: null };
+
+    const createTx = (remainingOpen: number, parent: Record<string, unknown> = openParent) => {
+      const taskUpdateSet = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({ run: jest.fn() }),
+      });
+      const tx = {
+        update: jest
+          .fn()
+          .mockReturnValueOnce({
+            set: jest.fn().mockReturnValue({
+              where: jest.fn().mockReturnValue({
+                returning: jest.fn().mockReturnValue({
+                  get: jest.fn().mockReturnValue({ id: 1, task_id: 7, is_completed: true }),
+                }),
+              }),
+            }),
+          })
+          .mockReturnValue({ set: taskUpdateSet }),
+        select: jest.fn().mockReturnValue({
+          from: jest.fn().mockReturnValue({
+            where: jest.fn().mockReturnValue({
+              // The open subtask count comes first, then the parent task
+              get: jest.fn().mockReturnValueOnce({ value: remainingOpen }).mockReturnValue(parent),
+              all: jest.fn().mockReturnValue([]),
+            }),
+          }),
+        }),
+        insert: jest.fn(),
+      };
+      (mockDb.transaction as jest.Mock).mockImplementation((callback: any) => callback(tx));
+      return { tx, taskUpdateSet };
+    };
+
+    it('should complete the parent when the last subtask is completed', async () => {
+      const { taskUpdateSet } = createTx(0);
+
+      const result = await toggleSubtaskCompletion(1, true, true);
+
+      expect(result).toEqual({ parentCompleted: true, nextOccurrence: null });
+      expect(taskUpdateSet).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'completed', is_completed: true })
+      );
+    });
+
+    it('should create the next occurrence of a recurring parent', async () => {
+      const { tx } = createTx(0, {
+        ...openParent,
+        name: 'Water plants',
+        due_date: '2024-01-31',
+        recurrence: { type: 'monthly', day: 31 },
+        list_id: 2,
+      });
+      const nextOccurrence = { id: 9, name: 'Water plants', due_date: '2024-02-29' };
+      const values = jest.fn().mockReturnValue({
+        returning: jest.fn().mockReturnValue({ get: jest.fn().mockReturnValue(nextOccurrence) }),
+      });
+      tx.insert.mockReturnValue({ values });
+
+      const result = await toggleSubtaskCompletion(1, true, true);
+
+      expect(result).toEqual({ parentCompleted: true, nextOccurrence });
+      expect(values).toHaveBeenCalledWith(
+        expect.objectContaining({ due_date: '2024-02-29', status: 'pending', list_id: 2 })
+      );
+    });
+
+    it('should leave the parent alone while subtasks remain open', async () => {
+      const { taskUpdateSet } = createTx(2);
+
+      const result = await toggleSubtaskCompletion(1, true, true);
+
+      expect(result).toEqual({ parentCompleted: false, nextOccurrence: null });
+      expect(taskUpdateSet).not.toHaveBeenCalled();
+    });
+
+    it('should leave a blocked parent alone', async () => {
+      const { taskUpdateSet } = createTx(0, { ...openParent, status: 'blocked' });
+
+      const result = await toggleSubtaskCompletion(1, true, true);
+
+      expect(result).toEqual({ parentCompleted: false, nextOccurrence: null });
+      expect(taskUpdateSet).not.toHaveBeenCalled();
+    });
+
+    it('should not check the parent when auto-completion is off', async () => {
+      const { tx } = createTx(0);
+
+      const result = await toggleSubtaskCompletion(1, true);
+
+      expect(result).toEqual({ parentCompleted: false, nextOccurrence: null });
+      expect(tx.select).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteSubtask', () => {
+    it('should delete a subtask', async () => {
+      const mockDelete = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          run: jest.fn().mockResolvedValue({}),
+        }),
+      });
+
+      mockDb.delete.mockReturnValue(mockDelete());
+
+      await deleteSubtask(1);
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(mockDb.delete).toHaveBeenCalled();
+    });
+  });
 });
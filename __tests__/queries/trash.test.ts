@@ -0,0 +1,174 @@
+import {
+  getTrashedLists,
+  restoreTask,
+  restoreList,
+  deleteTaskForever,
+  deleteListForever,
+  purgeTrash,
+} from '@/queries/trash';
+import { db } from '@/db';
+import { lists, tasks } from '@/db/schema';
+import { simulateNetworkLatency } from '@/queries/utils';
+import { eq, lt } from 'drizzle-orm';
+
+// Mock the database
+jest.mock('@/db', () => ({
+  db: {
+    select: jest.fn(),
+    insert: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+// Mock the utils
+jest.mock('@/queries/utils', () => ({
+  simulateNetworkLatency: jest.fn(),
+}));
+
+const mockDb = db as jest.Mocked<typeof db>;
+
+/**
+ * Mocks `db.delete(table).where(...).run()` and returns the spy on `delete`
+ */
+const mockDelete = () => {
+  mockDb.delete.mockReturnValue({
+    where: jest.fn().mockReturnValue({ run: jest.fn() }),
+  } as any);
+  return mockDb.delete;
+};
+
+describe('Trash Queries', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (simulateNetworkLatency as jest.Mock).mockResolvedValue(undefined);
+    (mockDb.transaction as jest.Mock).mockImplementation((callback: any) => callback(mockDb));
+  });
+
+  describe('getTrashedLists', () => {
+    it('should return deleted lists', async () => {
+      const mockLists = [{ id: 1, name: 'Old list', deleted_at: '2024-01-01T00:00:00.000Z' }];
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            orderBy: jest.fn().mockReturnValue({ all: jest.fn().mockReturnValue(mockLists) }),
+          }),
+        }),
+      } as any);
+
+      const result = await getTrashedLists();
+
+      expect(simulateNetworkLatency).toHaveBeenCalled();
+      expect(result).toEqual(mockLists);
+    });
+  });
+
+  describe('restoreTask', () => {
+    it('should clear the deleted_at timestamp', async () => {
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({ run: jest.fn() }),
+      });
+      mockDb.update.mockReturnValue({ set } as any);
+
+      await restoreTask(42);
+
+      expect(set).toHaveBeenCalledWith(expect.objectContaining({ deleted_at: null }));
+    });
+  });
+
+  describe('restoreList', () => {
+    it('should restore only the tasks deleted together with the list', async () => {
+      const deletedAt = '2024-03-01T10:00:00.000Z';
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            get: jest.fn().mockReturnValue({ id: 5, deleted_at: deletedAt }),
+          }),
+        }),
+      } as any);
+      const set = jest.fn().mockReturnValue({
+        where: jest.fn().mockReturnValue({
+          returning: jest.fn().mockReturnValue({
+            all: jest.fn().mockReturnValue([{ id: 7 }, { id: 8 }]),
+          }),
+          run: jest.fn(),
+        }),
+      });
+      mockDb.update.mockReturnValue({ set } as any);
+
+      const result = await restoreList(5);
+
+      expect(result).toEqual([7, 8]);
+      expect(eq).toHaveBeenCalledWith(tasks.deleted_at, deletedAt);
+      expect(mockDb.update).toHaveBeenCalledWith(lists);
+    });
+
+    it('should do nothing for a list that is not in the trash', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            get: jest.fn().mockReturnValue({ id: 5, deleted_at: null }),
+          }),
+        }),
+      } as any);
+
+      const result = await restoreList(5);
+
+      expect(result).toEqual([]);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteTaskForever', () => {
+    it('should remove the task and its dependent rows', async () => {
+      const deleteSpy = mockDelete();
+
+      await deleteTaskForever(42);
+
+      // subtasks, task_tags, reminders, then the task itself
+      expect(deleteSpy).toHaveBeenCalledTimes(4);
+      expect(deleteSpy).toHaveBeenLastCalledWith(tasks);
+    });
+  });
+
+  describe('deleteListForever', () => {
+    it('should remove every task of the list before the list', async () => {
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({
+            all: jest.fn().mockReturnValue([{ id: 1 }, { id: 2 }]),
+          }),
+        }),
+      } as any);
+      const deleteSpy = mockDelete();
+
+      await deleteListForever(5);
+
+      expect(deleteSpy).toHaveBeenCalledTimes(5);
+      expect(deleteSpy).toHaveBeenNthCalledWith(4, tasks);
+      expect(deleteSpy).toHaveBeenLastCalledWith(lists);
+    });
+  });
+
+  describe('purgeTrash', () => {
+    it('should purge items deleted before the retention period', async () => {
+      const all = jest
+        .fn()
+        .mockReturnValueOnce([]) // expired lists
+        .mockReturnValueOnce([{ id: 3 }]); // expired tasks
+      mockDb.select.mockReturnValue({
+        from: jest.fn().mockReturnValue({
+          where: jest.fn().mockReturnValue({ all }),
+        }),
+      } as any);
+      const deleteSpy = mockDelete();
+
+      const result = await purgeTrash(30, new Date('2024-03-31T00:00:00.000Z'));
+
+      expect(lt).toHaveBeenCalledWith(tasks.deleted_at, '2024-03-01T00:00:00.000Z');
+      expect(result).toEqual({ lists: 0, tasks: 1 });
+      expect(deleteSpy).toHaveBeenLastCalledWith(tasks);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { getAdjacentStatus, groupTasksByStatus, isOverWipLimit } from '@/utils/board';
+import { createMockTask } from './test-utils';
+
+describe('groupTasksByStatus', () => {
+  it('should give every status a column and keep the task order', () => {
+    const first = createMockTask({ id: 1, status: 'in_progress' });
+    const second = createMockTask({ id: 2, status: 'pending' });
+    const third = createMockTask({ id: 3, status: 'in_progress' });
+
+    const columns = groupTasksByStatus([first, second, third]);
+
+    expect(columns.in_progress).toEqual([first, third]);
+    expect(columns.pending).toEqual([second]);
+    expect(columns.blocked).toEqual([]);
+    expect(columns.completed).toEqual([]);
+    expect(columns.cancelled).toEqual([]);
+  });
+
+  it('should place tasks by their derived status', () => {
+    const done = createMockTask({ status: 'in_progress', is_completed: true });
+    const unknown = createMockTask({ status: null });
+
+    const columns = groupTasksByStatus([done, unknown]);
+
+    expect(columns.completed).toEqual([done]);
+    expect(columns.pending).toEqual([unknown]);
+  });
+});
+
+describe('getAdjacentStatus', () => {
+  it('should return the neighbouring columns', () => {
+    expect(getAdjacentStatus('in_progress', -1)).toBe('pending');
+    expect(getAdjacentStatus('in_progress', 1)).toBe('blocked');
+  });
+
+  it('should skip columns the workflow does not allow', () => {
+    // Blocked tasks cannot be completed, so the next column is cancelled
+    expect(getAdjacentStatus('blocked', 1)).toBe('cancelled');
+    expect(getAdjacentStatus('cancelled', -1)).toBe('pending');
+  });
+
+  it('should return null past the first and last column', () => {
+    expect(getAdjacentStatus('pending', -1)).toBeNull();
+    expect(getAdjacentStatus('completed', 1)).toBeNull();
+  });
+});
+
+describe('isOverWipLimit', () => {
+  it('should only flag columns with more cards than their limit', () => {
+    expect(isOverWipLimit(4, 3)).toBe(true);
+    expect(isOverWipLimit(3, 3)).toBe(false);
+    expect(isOverWipLimit(12, undefined)).toBe(false);
+  });
+});
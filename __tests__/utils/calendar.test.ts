@@ -0,0 +1,98 @@
+import {
+  describeCalendarPeriod,
+  findDayAtPoint,
+  getCalendarWeeks,
+  groupTasksByDueDay,
+  rescheduleDueDate,
+  shiftCalendarAnchor,
+} from '@/utils/calendar';
+import { createMockTask } from './test-utils';
+
+describe('getCalendarWeeks', () => {
+  it('should fill a month with whole weeks starting on Sunday', () => {
+    const weeks = getCalendarWeeks('2024-06-15', 'month');
+
+    expect(weeks).toHaveLength(6);
+    expect(weeks[0][0]).toBe('2024-05-26');
+    expect(weeks[0][6]).toBe('2024-06-01');
+    expect(weeks[5][0]).toBe('2024-06-30');
+    expect(weeks[5][6]).toBe('2024-07-06');
+  });
+
+  it('should not add a week a month does not reach', () => {
+    const weeks = getCalendarWeeks('2026-02-10', 'month');
+
+    expect(weeks).toHaveLength(4);
+    expect(weeks[0][0]).toBe('2026-02-01');
+    expect(weeks[3][6]).toBe('2026-02-28');
+  });
+
+  it('should show the week of the anchor day', () => {
+    expect(getCalendarWeeks('2024-06-12', 'week')).toEqual([
+      [
+        '2024-06-09',
+        '2024-06-10',
+        '2024-06-11',
+        '2024-06-12',
+        '2024-06-13',
+        '2024-06-14',
+        '2024-06-15',
+      ],
+    ]);
+  });
+});
+
+describe('shiftCalendarAnchor', () => {
+  it('should move by months onto the 1st, across years', () => {
+    expect(shiftCalendarAnchor('2024-01-31', 'month', 1)).toBe('2024-02-01');
+    expect(shiftCalendarAnchor('2024-01-15', 'month', -1)).toBe('2023-12-01');
+  });
+
+  it('should move by weeks', () => {
+    expect(shiftCalendarAnchor('2024-06-28', 'week', 1)).toBe('2024-07-05');
+  });
+});
+
+describe('describeCalendarPeriod', () => {
+  it('should name the month or the start of the week', () => {
+    expect(describeCalendarPeriod('2024-06-15', 'month')).toBe('June 2024');
+    expect(describeCalendarPeriod('2024-06-12', 'week')).toBe('Week of Jun 9, 2024');
+  });
+});
+
+describe('groupTasksByDueDay', () => {
+  it('should group tasks by day and leave out tasks without a due date', () => {
+    const morning = createMockTask({ id: 1, due_date: '2024-06-10T09:00' });
+    const allDay = createMockTask({ id: 2, due_date: '2024-06-10' });
+    const later = createMockTask({ id: 3, due_date: '2024-06-12' });
+    const undated = createMockTask({ id: 4, due_date: null });
+
+    expect(groupTasksByDueDay([morning, allDay, later, undated])).toEqual({
+      '2024-06-10': [morning, allDay],
+      '2024-06-12': [later],
+    });
+  });
+});
+
+describe('rescheduleDueDate', () => {
+  it('should change the day and keep the time', () => {
+    expect(rescheduleDueDate('2024-06-10T09:30', '2024-06-14')).toBe('2024-06-14T09:30');
+    expect(rescheduleDueDate('2024-06-10', '2024-06-14')).toBe('2024-06-14');
+  });
+});
+
+describe('findDayAtPoint', () => {
+  const layouts = [
+    { day: '2024-06-09', x: 0, y: 100, width: 50, height: 50 },
+    { day: '2024-06-10', x: 50, y: 100, width: 50, height: 50 },
+  ];
+
+  it('should find the cell under the point', () => {
+    expect(findDayAtPoint(layouts, 10, 120)).toBe('2024-06-09');
+    expect(findDayAtPoint(layouts, 50, 149)).toBe('2024-06-10');
+  });
+
+  it('should return null outside every cell', () => {
+    expect(findDayAtPoint(layouts, 10, 160)).toBeNull();
+  });
+});
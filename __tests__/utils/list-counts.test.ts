@@ -0,0 +1,71 @@
+import { applyTaskCountChange, isTaskOverdue } from '@/utils/list-counts';
+import { ListWithTaskCount } from '@/types';
+import { createMockList, createMockTask } from './test-utils';
+
+const TODAY = '2024-06-15';
+
+describe('isTaskOverdue', () => {
+  it('should flag open tasks due before today', () => {
+    expect(isTaskOverdue(createMockTask({ due_date: '2024-06-14' }), TODAY)).toBe(true);
+    expect(isTaskOverdue(createMockTask({ due_date: '2024-06-14T18:00:00' }), TODAY)).toBe(true);
+  });
+
+  it('should not flag tasks due today, later or without a due date', () => {
+    expect(isTaskOverdue(createMockTask({ due_date: '2024-06-15' }), TODAY)).toBe(false);
+    expect(isTaskOverdue(createMockTask({ due_date: '2024-06-15T08:00:00' }), TODAY)).toBe(false);
+    expect(isTaskOverdue(createMockTask({ due_date: '2024-06-20' }), TODAY)).toBe(false);
+    expect(isTaskOverdue(createMockTask({ due_date: null }), TODAY)).toBe(false);
+  });
+
+  it('should not flag completed or cancelled tasks', () => {
+    const due = { due_date: '2024-06-01' };
+    expect(
+      isTaskOverdue(createMockTask({ ...due, is_completed: true, status: 'completed' }), TODAY)
+    ).toBe(false);
+    expect(isTaskOverdue(createMockTask({ ...due, status: 'cancelled' }), TODAY)).toBe(false);
+  });
+});
+
+describe('applyTaskCountChange', () => {
+  const withCounts = (id: number, counts: Partial<ListWithTaskCount> = {}): ListWithTaskCount => ({
+    ...createMockList({ id }),
+    task_count: 0,
+    completed_count: 0,
+    overdue_count: 0,
+    ...counts,
+  });
+  const overdueTask = createMockTask({ list_id: 1, due_date: '2024-06-01' });
+
+  it('should count a new task in its list', () => {
+    const result = applyTaskCountChange([withCounts(1), withCounts(2)], null, overdueTask, TODAY);
+
+    expect(result[0]).toMatchObject({ task_count: 1, completed_count: 0, overdue_count: 1 });
+    expect(result[1]).toMatchObject({ task_count: 0, completed_count: 0, overdue_count: 0 });
+  });
+
+  it('should move a completed overdue task from the overdue to the completed count', () => {
+    const lists = [withCounts(1, { task_count: 3, completed_count: 1, overdue_count: 1 })];
+    const completed = { ...overdueTask, is_completed: true, status: 'completed' };
+
+    const [result] = applyTaskCountChange(lists, overdueTask, completed, TODAY);
+
+    expect(result).toMatchObject({ task_count: 3, completed_count: 2, overdue_count: 0 });
+  });
+
+  it('should uncount a removed task', () => {
+    const lists = [withCounts(1, { task_count: 2, overdue_count: 1 })];
+
+    const [result] = applyTaskCountChange(lists, overdueTask, null, TODAY);
+
+    expect(result).toMatchObject({ task_count: 1, completed_count: 0, overdue_count: 0 });
+  });
+
+  it('should move the counts of a task moved to another list', () => {
+    const lists = [withCounts(1, { task_count: 1, overdue_count: 1 }), withCounts(2)];
+
+    const result = applyTaskCountChange(lists, overdueTask, { ...overdueTask, list_id: 2 }, TODAY);
+
+    expect(result[0]).toMatchObject({ task_count: 0, overdue_count: 0 });
+    expect(result[1]).toMatchObject({ task_count: 1, overdue_count: 1 });
+  });
+});
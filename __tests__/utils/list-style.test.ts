@@ -0,0 +1,21 @@
+import { DEFAULT_LIST_COLOR, DEFAULT_LIST_ICON, getListStyle } from '@/utils/list-style';
+
+describe('List style', () => {
+  it('uses the colour and icon of the list', () => {
+    expect(getListStyle({ color: '#22C55E', icon: 'cart-outline' })).toEqual({
+      color: '#22C55E',
+      icon: 'cart-outline',
+    });
+  });
+
+  it('falls back to the defaults for missing values', () => {
+    expect(getListStyle({ color: null, icon: null })).toEqual({
+      color: DEFAULT_LIST_COLOR,
+      icon: DEFAULT_LIST_ICON,
+    });
+  });
+
+  it('falls back to the default icon for icons that are not offered', () => {
+    expect(getListStyle({ icon: 'rocket-outline' }).icon).toBe(DEFAULT_LIST_ICON);
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  applyReorder,
+  getPositionAfterLast,
+  getPositionBetween,
+  planReorder,
+  sortByPosition,
+} from '@/utils/ordering';
+
+const items = (...positions: number[]) => positions.map((position, i) => ({ id: i + 1, position }));
+
+describe('Ordering', () => {
+  describe('getPositionBetween', () => {
+    it('returns the midpoint of two neighbours', () => {
+      expect(getPositionBetween(1, 2)).toBe(1.5);
+      expect(getPositionBetween(1, 1.5)).toBe(1.25);
+    });
+
+    it('steps past a missing neighbour', () => {
+      expect(getPositionBetween(undefined, 1)).toBe(0);
+      expect(getPositionBetween(3, undefined)).toBe(4);
+      expect(getPositionBetween()).toBe(1);
+    });
+  });
+
+  describe('getPositionAfterLast', () => {
+    it('appends after the last position, or starts at 1', () => {
+      expect(getPositionAfterLast(4.5)).toBe(5.5);
+      expect(getPositionAfterLast(null)).toBe(1);
+      expect(getPositionAfterLast()).toBe(1);
+    });
+  });
+
+  describe('sortByPosition', () => {
+    it('orders by position, then by ID for equal positions', () => {
+      const sorted = sortByPosition([
+        { id: 3, position: 1 },
+        { id: 1, position: 2 },
+        { id: 2, position: 1 },
+      ]);
+      expect(sorted.map((item) => item.id)).toEqual([2, 3, 1]);
+    });
+  });
+
+  describe('planReorder', () => {
+    it('moves an item to the top, bottom or middle by changing only its position', () => {
+      expect(planReorder(items(1, 2, 3), 3, 0)).toEqual([{ id: 3, position: 0 }]);
+      expect(planReorder(items(1, 2, 3), 1, 2)).toEqual([{ id: 1, position: 4 }]);
+      expect(planReorder(items(1, 2, 3), 1, 1)).toEqual([{ id: 1, position: 2.5 }]);
+      expect(planReorder(items(1, 2, 3), 3, 1)).toEqual([{ id: 3, position: 1.5 }]);
+    });
+
+    it('returns no changes when the item stays in place or is unknown', () => {
+      expect(planReorder(items(1, 2, 3), 2, 1)).toEqual([]);
+      expect(planReorder(items(1, 2, 3), 9, 0)).toEqual([]);
+    });
+
+    it('clamps indexes past the end', () => {
+      expect(planReorder(items(1, 2, 3), 1, 10)).toEqual([{ id: 1, position: 4 }]);
+    });
+
+    it('renumbers only the items that change once neighbours are too close', () => {
+      const changes = planReorder(items(1, 1 + 1e-7, 3), 3, 1);
+      expect(changes).toEqual([
+        { id: 3, position: 2 },
+        { id: 2, position: 3 },
+      ]);
+    });
+
+    it('keeps order stable through many moves into the same gap', () => {
+      let list = items(1, 2, 3);
+      for (let i = 0; i < 60; i++) {
+        const moving = list[list.length - 1].id;
+        list = applyReorder(list, planReorder(list, moving, 1));
+      }
+      const positions = list.map((item) => item.position);
+      expect(new Set(positions).size).toBe(positions.length);
+      expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    });
+  });
+
+  describe('applyReorder', () => {
+    it('applies position changes and returns the items sorted', () => {
+      const result = applyReorder(items(1, 2, 3), [{ id: 3, position: 0.5 }]);
+      expect(result.map((item) => item.id)).toEqual([3, 1, 2]);
+      expect(result[0].position).toBe(0.5);
+    });
+  });
+});
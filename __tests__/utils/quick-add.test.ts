@@ -0,0 +1,163 @@
+import { parseQuickAdd } from '@/utils/quick-add';
+
+// Monday, June 10 2024, 08:00 local time
+const now = new Date(2024, 5, 10, 8, 0);
+const tags = [
+  { id: 3, name: 'home' },
+  { id: 4, name: 'Work' },
+];
+
+const parse = (input: string) => parseQuickAdd(input, { now, tags }).task;
+
+describe('Quick add', () => {
+  it('parses the full example into a task payload', () => {
+    expect(parseQuickAdd('Pay rent tomorrow 9am !high #home every month', { now, tags })).toEqual({
+      task: {
+        name: 'Pay rent',
+        due_date: '2024-06-11T09:00',
+        priority: 'high',
+        recurrence: { type: 'monthly', day: 11 },
+        tag_ids: [3],
+      },
+      tokens: [
+        { kind: 'date', text: 'tomorrow', start: 9 },
+        { kind: 'time', text: '9am', start: 18 },
+        { kind: 'priority', text: '!high', start: 22 },
+        { kind: 'tag', text: '#home', start: 28 },
+        { kind: 'recurrence', text: 'every month', start: 34 },
+      ],
+    });
+  });
+
+  it('keeps plain text as the name', () => {
+    expect(parseQuickAdd('  Buy   milk ', { now })).toEqual({
+      task: { name: 'Buy milk', tag_ids: [] },
+      tokens: [],
+    });
+  });
+
+  it('is deterministic for a given reference time', () => {
+    expect(parse('Report friday 5pm')).toEqual(parse('Report friday 5pm'));
+    expect(parseQuickAdd('Report friday', { now: new Date(2024, 5, 13, 8, 0) }).task.due_date).toBe(
+      '2024-06-14'
+    );
+  });
+
+  describe('dates', () => {
+    const dueDate = (input: string) => parse(input).due_date;
+
+    it('understands today, tomorrow and relative offsets', () => {
+      expect(dueDate('Call today')).toBe('2024-06-10');
+      expect(dueDate('Call tomorrow')).toBe('2024-06-11');
+      expect(dueDate('Call in 3 days')).toBe('2024-06-13');
+      expect(dueDate('Call in 2 weeks')).toBe('2024-06-24');
+      expect(dueDate('Call in 1 month')).toBe('2024-07-10');
+    });
+
+    it('picks the next weekday after today', () => {
+      expect(dueDate('Call friday')).toBe('2024-06-14');
+      expect(dueDate('Call on fri')).toBe('2024-06-14');
+      expect(dueDate('Call monday')).toBe('2024-06-17');
+      expect(dueDate('Call next week')).toBe('2024-06-17');
+      expect(dueDate('Call next month')).toBe('2024-07-01');
+    });
+
+    it('leaves weekday abbreviations alone without a preposition', () => {
+      expect(parse('Watch the sun set')).toEqual({ name: 'Watch the sun set', tag_ids: [] });
+    });
+
+    it('understands month names in both orders and rolls over to next year', () => {
+      expect(dueDate('Dentist jun 20')).toBe('2024-06-20');
+      expect(dueDate('Dentist 5th of June')).toBe('2025-06-05');
+      expect(dueDate('Dentist by March 3rd')).toBe('2025-03-03');
+    });
+
+    it('finds the next year with a leap day', () => {
+      expect(dueDate('Party feb 29')).toBe('2028-02-29');
+    });
+
+    it('accepts ISO dates and rejects impossible ones', () => {
+      expect(dueDate('Taxes due 2025-04-15')).toBe('2025-04-15');
+      expect(parse('Taxes 2025-02-30')).toEqual({ name: 'Taxes 2025-02-30', tag_ids: [] });
+      expect(parse('Taxes jun 31')).toEqual({ name: 'Taxes jun 31', tag_ids: [] });
+    });
+
+    it('ignores dates that are part of a longer word', () => {
+      expect(parse("Finish today's notes").due_date).toBeUndefined();
+    });
+
+    it('only recognises the first date', () => {
+      expect(parse('Move friday meeting to monday')).toMatchObject({
+        name: 'Move meeting to monday',
+        due_date: '2024-06-14',
+      });
+    });
+  });
+
+  describe('times', () => {
+    const dueDate = (input: string) => parse(input).due_date;
+
+    it('adds 12 and 24 hour times to the date', () => {
+      expect(dueDate('Call tomorrow 9:30 pm')).toBe('2024-06-11T21:30');
+      expect(dueDate('Call tomorrow at 12am')).toBe('2024-06-11T00:00');
+      expect(dueDate('Call tomorrow at 14:05')).toBe('2024-06-11T14:05');
+      expect(dueDate('Lunch tomorrow noon')).toBe('2024-06-11T12:00');
+    });
+
+    it('schedules a time without a date for the next time it comes around', () => {
+      expect(dueDate('Call 9am')).toBe('2024-06-10T09:00');
+      expect(dueDate('Call 7am')).toBe('2024-06-11T07:00');
+    });
+
+    it('rejects impossible times', () => {
+      expect(parse('Call 13pm').due_date).toBeUndefined();
+      expect(parse('Call 25:00').due_date).toBeUndefined();
+    });
+  });
+
+  describe('priority and tags', () => {
+    it('reads priorities', () => {
+      expect(parse('Call !low').priority).toBe('low');
+      expect(parse('Call !MED').priority).toBe('medium');
+      expect(parse('Call !urgent')).toEqual({ name: 'Call !urgent', tag_ids: [] });
+    });
+
+    it('links existing tags and leaves unknown ones in the name', () => {
+      expect(parse('Fix #123 bug #work #HOME #work')).toEqual({
+        name: 'Fix #123 bug #work',
+        tag_ids: [4, 3],
+      });
+    });
+  });
+
+  describe('recurrence', () => {
+    const recurrence = (input: string) => parse(input).recurrence;
+
+    it('understands daily, weekly and monthly rules', () => {
+      expect(recurrence('Stretch daily')).toEqual({ type: 'daily' });
+      expect(recurrence('Stretch every day')).toEqual({ type: 'daily' });
+      expect(recurrence('Review weekly friday')).toEqual({ type: 'weekly', weekdays: [5] });
+      expect(recurrence('Pay rent monthly')).toEqual({ type: 'monthly', day: 10 });
+    });
+
+    it('understands weekdays and intervals', () => {
+      expect(recurrence('Standup every weekday')).toEqual({
+        type: 'weekly',
+        weekdays: [1, 2, 3, 4, 5],
+      });
+      expect(recurrence('Gym every thu and mon')).toEqual({ type: 'weekly', weekdays: [1, 4] });
+      expect(recurrence('Water plants every other day')).toEqual({ type: 'interval', days: 2 });
+      expect(recurrence('Backup every 2 weeks')).toEqual({ type: 'interval', days: 14 });
+      expect(recurrence('Backup every 1 day')).toEqual({ type: 'daily' });
+    });
+
+    it('starts a recurrence without a date on its first occurrence', () => {
+      expect(parse('Gym every wednesday, friday')).toMatchObject({
+        name: 'Gym',
+        due_date: '2024-06-12',
+      });
+      expect(parse('Standup every weekday').due_date).toBe('2024-06-10');
+      expect(parse('Stretch daily').due_date).toBe('2024-06-10');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { getNextOccurrence, getDaysInMonth, describeRecurrence } from '@/utils/recurrence';
+
+describe('Recurrence', () => {
+  describe('getDaysInMonth', () => {
+    it('handles leap and non-leap Februaries', () => {
+      expect(getDaysInMonth(2024, 1)).toBe(29);
+      expect(getDaysInMonth(2023, 1)).toBe(28);
+      expect(getDaysInMonth(2100, 1)).toBe(28);
+      expect(getDaysInMonth(2000, 1)).toBe(29);
+    });
+  });
+
+  describe('daily', () => {
+    it('moves to the next day', () => {
+      expect(getNextOccurrence({ type: 'daily' }, '2024-03-14')).toBe('2024-03-15');
+    });
+
+    it('rolls over month and year ends', () => {
+      expect(getNextOccurrence({ type: 'daily' }, '2024-04-30')).toBe('2024-05-01');
+      expect(getNextOccurrence({ type: 'daily' }, '2024-12-31')).toBe('2025-01-01');
+    });
+
+    it('crosses February 29 in leap years', () => {
+      expect(getNextOccurrence({ type: 'daily' }, '2024-02-28')).toBe('2024-02-29');
+      expect(getNextOccurrence({ type: 'daily' }, '2024-02-29')).toBe('2024-03-01');
+      expect(getNextOccurrence({ type: 'daily' }, '2023-02-28')).toBe('2023-03-01');
+    });
+
+    it('keeps a time suffix', () => {
+      expect(getNextOccurrence({ type: 'daily' }, '2024-03-14T09:00')).toBe('2024-03-15T09:00');
+    });
+  });
+
+  describe('every N days', () => {
+    it('adds the interval', () => {
+      expect(getNextOccurrence({ type: 'interval', days: 3 }, '2024-03-14')).toBe('2024-03-17');
+    });
+
+    it('spans month ends and leap days', () => {
+      expect(getNextOccurrence({ type: 'interval', days: 10 }, '2024-02-25')).toBe('2024-03-06');
+      expect(getNextOccurrence({ type: 'interval', days: 10 }, '2023-02-25')).toBe('2023-03-07');
+    });
+
+    it('never returns the same day', () => {
+      expect(getNextOccurrence({ type: 'interval', days: 0 }, '2024-03-14')).toBe('2024-03-15');
+    });
+  });
+
+  describe('weekly', () => {
+    it('picks the next selected weekday in the same week', () => {
+      // 2024-03-11 is a Monday; next Wednesday is the 13th
+      expect(getNextOccurrence({ type: 'weekly', weekdays: [1, 3] }, '2024-03-11')).toBe(
+        '2024-03-13'
+      );
+    });
+
+    it('wraps to the following week', () => {
+      // Friday the 15th → next Monday the 18th
+      expect(getNextOccurrence({ type: 'weekly', weekdays: [1, 3] }, '2024-03-15')).toBe(
+        '2024-03-18'
+      );
+    });
+
+    it('repeats a single weekday one week later', () => {
+      expect(getNextOccurrence({ type: 'weekly', weekdays: [1] }, '2024-03-11')).toBe('2024-03-18');
+    });
+
+    it('crosses month and year boundaries', () => {
+      // Thursday 2024-02-29 → Monday 2024-03-04
+      expect(getNextOccurrence({ type: 'weekly', weekdays: [1] }, '2024-02-29')).toBe('2024-03-04');
+      // Tuesday 2024-12-31 → Friday 2025-01-03
+      expect(getNextOccurrence({ type: 'weekly', weekdays: [5] }, '2024-12-31')).toBe('2025-01-03');
+    });
+  });
+
+  describe('monthly', () => {
+    it('moves to the same day next month', () => {
+      expect(getNextOccurrence({ type: 'monthly', day: 15 }, '2024-03-15')).toBe('2024-04-15');
+    });
+
+    it('uses the day later in the current month when still ahead', () => {
+      expect(getNextOccurrence({ type: 'monthly', day: 20 }, '2024-03-05')).toBe('2024-03-20');
+    });
+
+    it('clamps day 31 to the end of shorter months', () => {
+      expect(getNextOccurrence({ type: 'monthly', day: 31 }, '2024-03-31')).toBe('2024-04-30');
+      expect(getNextOccurrence({ type: 'monthly', day: 31 }, '2024-04-30')).toBe('2024-05-31');
+    });
+
+    it('clamps to February 29 in leap years and February 28 otherwise', () => {
+      expect(getNextOccurrence({ type: 'monthly', day: 31 }, '2024-01-31')).toBe('2024-02-29');
+      expect(getNextOccurrence({ type: 'monthly', day: 30 }, '2023-01-30')).toBe('2023-02-28');
+      expect(getNextOccurrence({ type: 'monthly', day: 29 }, '2024-02-29')).toBe('2024-03-29');
+    });
+
+    it('returns to the full day after a clamped month', () => {
+      expect(getNextOccurrence({ type: 'monthly', day: 31 }, '2023-02-28')).toBe('2023-03-31');
+    });
+
+    it('rolls over the year end', () => {
+      expect(getNextOccurrence({ type: 'monthly', day: 31 }, '2024-12-31')).toBe('2025-01-31');
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('describes each rule type', () => {
+      expect(describeRecurrence({ type: 'daily' })).toBe('Daily');
+      expect(describeRecurrence({ type: 'weekly', weekdays: [3, 1] })).toBe('Weekly on Mon, Wed');
+      expect(describeRecurrence({ type: 'monthly', day: 1 })).toBe('Monthly on day 1');
+      expect(describeRecurrence({ type: 'interval', days: 3 })).toBe('Every 3 days');
+    });
+  });
+});
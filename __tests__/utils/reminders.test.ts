@@ -0,0 +1,124 @@
+import { getTaskById } from '@/queries/tasks';
+import { getRemindersByTaskId } from '@/queries/reminders';
+import { NotificationAdapter } from '@/utils/notifications';
+import { getReminderDate, getReminderNotificationId, syncTaskReminders } from '@/utils/reminders';
+import { UpdateTaskSchema } from '@/validation/schemas';
+import { createMockTask } from './test-utils';
+
+jest.mock('@/queries/tasks');
+jest.mock('@/queries/reminders');
+
+const mockGetTaskById = getTaskById as jest.MockedFunction<typeof getTaskById>;
+const mockGetReminders = getRemindersByTaskId as jest.MockedFunction<typeof getRemindersByTaskId>;
+
+/**
+ * In-memory notification adapter that records scheduled notifications
+ */
+const createFakeAdapter = (granted = true) => {
+  const pending = new Map<string, Date>();
+  const adapter: NotificationAdapter = {
+    requestPermission: jest.fn(async () => granted),
+    schedule: jest.fn(async ({ id, date }) => {
+      pending.set(id, date);
+    }),
+    cancel: jest.fn(async (id) => {
+      pending.delete(id);
+    }),
+  };
+  return { adapter, pending };
+};
+
+const createReminder = (offset: number) => ({
+  id: offset,
+  task_id: 1,
+  offset_minutes: offset,
+  created_at: '2024-01-01',
+});
+
+describe('Reminders', () => {
+  const now = new Date(2024, 2, 10, 12, 0);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getReminderDate', () => {
+    it('subtracts the offset from the due time', () => {
+      expect(getReminderDate('2024-03-14T18:30', 60)).toEqual(new Date(2024, 2, 14, 17, 30));
+    });
+
+    it('uses the default time for date-only due dates', () => {
+      expect(getReminderDate('2024-03-14', 1440)).toEqual(new Date(2024, 2, 13, 9, 0));
+    });
+  });
+
+  describe('syncTaskReminders', () => {
+    it('schedules every future reminder of an open task', async () => {
+      mockGetTaskById.mockResolvedValue(createMockTask({ due_date: '2024-03-14T18:30' }));
+      mockGetReminders.mockResolvedValue([createReminder(0), createReminder(60)]);
+      const { adapter, pending } = createFakeAdapter();
+
+      const ids = await syncTaskReminders(1, adapter, now);
+
+      expect(ids).toEqual([getReminderNotificationId(1, 0), getReminderNotificationId(1, 60)]);
+      expect(pending.get(getReminderNotificationId(1, 60))).toEqual(new Date(2024, 2, 14, 17, 30));
+    });
+
+    it('skips reminders that are already in the past', async () => {
+      mockGetTaskById.mockResolvedValue(createMockTask({ due_date: '2024-03-11T10:00' }));
+      mockGetReminders.mockResolvedValue([createReminder(0), createReminder(1440)]);
+      const { adapter, pending } = createFakeAdapter();
+
+      await syncTaskReminders(1, adapter, now);
+
+      expect([...pending.keys()]).toEqual([getReminderNotificationId(1, 0)]);
+    });
+
+    it('cancels pending reminders once the task is completed', async () => {
+      mockGetTaskById.mockResolvedValue(
+        createMockTask({ due_date: '2024-03-14', is_completed: true })
+      );
+      mockGetReminders.mockResolvedValue([createReminder(0)]);
+      const { adapter, pending } = createFakeAdapter();
+      pending.set(getReminderNotificationId(1, 0), new Date(2024, 2, 14, 9, 0));
+
+      const ids = await syncTaskReminders(1, adapter, now);
+
+      expect(ids).toEqual([]);
+      expect(pending.size).toBe(0);
+      expect(adapter.schedule).not.toHaveBeenCalled();
+    });
+
+    it('does not schedule reminders of a cancelled task', async () => {
+      mockGetTaskById.mockResolvedValue(
+        createMockTask({ due_date: '2024-03-14', status: 'cancelled' })
+      );
+      mockGetReminders.mockResolvedValue([createReminder(0)]);
+      const { adapter } = createFakeAdapter();
+
+      const ids = await syncTaskReminders(1, adapter, now);
+
+      expect(ids).toEqual([]);
+      expect(adapter.cancel).toHaveBeenCalledWith(getReminderNotificationId(1, 0));
+      expect(adapter.schedule).not.toHaveBeenCalled();
+    });
+
+    it('does not schedule without notification permission', async () => {
+      mockGetTaskById.mockResolvedValue(createMockTask({ due_date: '2024-03-14' }));
+      mockGetReminders.mockResolvedValue([createReminder(0)]);
+      const { adapter } = createFakeAdapter(false);
+
+      const ids = await syncTaskReminders(1, adapter, now);
+
+      expect(ids).toEqual([]);
+      expect(adapter.schedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reminder offsets validation', () => {
+    it('only accepts the offered offsets', () => {
+      expect(UpdateTaskSchema.safeParse({ id: 1, reminder_offsets: [0, 1440] }).success).toBe(true);
+      expect(UpdateTaskSchema.safeParse({ id: 1, reminder_offsets: [30] }).success).toBe(false);
+    });
+  });
+});
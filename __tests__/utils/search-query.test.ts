@@ -0,0 +1,236 @@
+import { parseSearchQuery, resolveDueOperand, SearchTerm } from '@/utils/search-query';
+
+const terms = (input: string) => parseSearchQuery(input).query.terms;
+const errors = (input: string) => parseSearchQuery(input).errors;
+
+describe('Search query language', () => {
+  describe('parseSearchQuery', () => {
+    it('parses the example query from the search bar', () => {
+      expect(terms('priority:high status:in_progress due:<7d list:Work "report"')).toEqual<
+        SearchTerm[]
+      >([
+        { type: 'priority', value: 'high', negated: false },
+        { type: 'status', value: 'in_progress', negated: false },
+        { type: 'due', comparator: '<', operand: { kind: 'relative', days: 7 }, negated: false },
+        { type: 'list', value: 'Work', negated: false },
+        { type: 'text', value: 'report', phrase: true, negated: false },
+      ]);
+      expect(errors('priority:high status:in_progress due:<7d list:Work "report"')).toEqual([]);
+    });
+
+    it('returns no terms for empty or blank input', () => {
+      expect(parseSearchQuery('')).toEqual({ query: { terms: [] }, errors: [] });
+      expect(parseSearchQuery('   \t ')).toEqual({ query: { terms: [] }, errors: [] });
+    });
+
+    describe('text', () => {
+      it('turns bare words into separate text terms', () => {
+        expect(terms('buy  milk')).toEqual([
+          { type: 'text', value: 'buy', phrase: false, negated: false },
+          { type: 'text', value: 'milk', phrase: false, negated: false },
+        ]);
+      });
+
+      it('keeps quoted words together as a phrase', () => {
+        expect(terms('"quarterly report" draft')).toEqual([
+          { type: 'text', value: 'quarterly report', phrase: true, negated: false },
+          { type: 'text', value: 'draft', phrase: false, negated: false },
+        ]);
+      });
+
+      it('ignores empty quotes', () => {
+        expect(terms('""')).toEqual([]);
+      });
+
+      it('treats colons that do not follow a field name as text', () => {
+        expect(terms('meet 10:30')).toEqual([
+          { type: 'text', value: 'meet', phrase: false, negated: false },
+          { type: 'text', value: '10:30', phrase: false, negated: false },
+        ]);
+      });
+
+      it('treats a lone dash as text', () => {
+        expect(terms('a - b').map((term) => term.negated)).toEqual([false, false, false]);
+      });
+
+      it('reports an unterminated quote and keeps the rest of the phrase', () => {
+        const parsed = parseSearchQuery('draft "quarterly rep');
+        expect(parsed.query.terms[1]).toEqual({
+          type: 'text',
+          value: 'quarterly rep',
+          phrase: true,
+          negated: false,
+        });
+        expect(parsed.errors).toEqual([{ message: 'Missing closing quote', start: 6, end: 20 }]);
+      });
+    });
+
+    describe('negation', () => {
+      it('negates words, phrases and fields with a leading dash', () => {
+        expect(terms('-draft -"on hold" -tag:someday')).toEqual([
+          { type: 'text', value: 'draft', phrase: false, negated: true },
+          { type: 'text', value: 'on hold', phrase: true, negated: true },
+          { type: 'tag', value: 'someday', negated: true },
+        ]);
+      });
+    });
+
+    describe('fields', () => {
+      it('matches field names and keyword values case-insensitively', () => {
+        expect(terms('Priority:HIGH STATUS:Completed')).toEqual([
+          { type: 'priority', value: 'high', negated: false },
+          { type: 'status', value: 'completed', negated: false },
+        ]);
+      });
+
+      it('accepts dashes in status names', () => {
+        expect(terms('status:in-progress')).toEqual([
+          { type: 'status', value: 'in_progress', negated: false },
+        ]);
+      });
+
+      it('keeps the case of list and tag names', () => {
+        expect(terms('list:Work tag:Home')).toEqual([
+          { type: 'list', value: 'Work', negated: false },
+          { type: 'tag', value: 'Home', negated: false },
+        ]);
+      });
+
+      it('accepts quoted values with spaces', () => {
+        expect(terms('list:"Home office" tag:"next week"')).toEqual([
+          { type: 'list', value: 'Home office', negated: false },
+          { type: 'tag', value: 'next week', negated: false },
+        ]);
+      });
+
+      it('reports unknown fields', () => {
+        expect(errors('foo:bar milk')).toEqual([
+          {
+            message: 'Unknown field "foo". Use priority, status, due, list, tag',
+            start: 0,
+            end: 7,
+          },
+        ]);
+        expect(terms('foo:bar milk')).toEqual([
+          { type: 'text', value: 'milk', phrase: false, negated: false },
+        ]);
+      });
+
+      it('reports missing values', () => {
+        expect(errors('priority:')[0].message).toBe('Missing value after priority:');
+        expect(errors('list:""')[0].message).toBe('Missing value after list:');
+      });
+
+      it('reports unknown priorities and statuses', () => {
+        expect(errors('priority:urgent')[0].message).toBe(
+          'Unknown priority "urgent". Use low, medium or high'
+        );
+        expect(errors('status:done')[0].message).toBe(
+          'Unknown status "done". Use pending, in_progress, blocked, completed, cancelled'
+        );
+      });
+
+      it('points errors at the offending term', () => {
+        expect(errors('milk -priority:urgent eggs')).toEqual([
+          expect.objectContaining({ start: 5, end: 21 }),
+        ]);
+      });
+
+      it('keeps the valid terms next to invalid ones', () => {
+        const parsed = parseSearchQuery('priority:hi status:pending');
+        expect(parsed.query.terms).toEqual([{ type: 'status', value: 'pending', negated: false }]);
+        expect(parsed.errors).toHaveLength(1);
+      });
+    });
+
+    describe('due', () => {
+      const due = (value: string) => terms(`due:${value}`)[0];
+
+      it('parses every comparator', () => {
+        expect(['<', '<=', '=', '>=', '>'].map((op) => due(`${op}3d`))).toEqual(
+          ['<', '<=', '=', '>=', '>'].map((comparator) => ({
+            type: 'due',
+            comparator,
+            operand: { kind: 'relative', days: 3 },
+            negated: false,
+          }))
+        );
+      });
+
+      it('defaults to the same day without a comparator', () => {
+        expect(due('2024-06-30')).toEqual({
+          type: 'due',
+          comparator: '=',
+          operand: { kind: 'date', date: '2024-06-30' },
+          negated: false,
+        });
+      });
+
+      it('counts weeks and negative offsets in days', () => {
+        expect(due('<2w')).toMatchObject({ operand: { kind: 'relative', days: 14 } });
+        expect(due('>-3d')).toMatchObject({ operand: { kind: 'relative', days: -3 } });
+        expect(due('+1W')).toMatchObject({ operand: { kind: 'relative', days: 7 } });
+      });
+
+      it('understands day keywords', () => {
+        expect(due('yesterday')).toMatchObject({ operand: { kind: 'relative', days: -1 } });
+        expect(due('Today')).toMatchObject({ operand: { kind: 'relative', days: 0 } });
+        expect(due('<=tomorrow')).toMatchObject({
+          comparator: '<=',
+          operand: { kind: 'relative', days: 1 },
+        });
+      });
+
+      it('reads overdue and none as their own operands', () => {
+        expect(due('overdue')).toEqual({
+          type: 'due',
+          comparator: '=',
+          operand: { kind: 'overdue' },
+          negated: false,
+        });
+        expect(due('Overdue')).toMatchObject({ operand: { kind: 'overdue' } });
+        expect(due('none')).toEqual({
+          type: 'due',
+          comparator: '=',
+          operand: { kind: 'none' },
+          negated: false,
+        });
+      });
+
+      it('reports comparisons with overdue or none', () => {
+        expect(errors('due:<none')[0].message).toBe('"none" cannot be compared, use due:none');
+        expect(errors('due:>=overdue')[0].message).toBe(
+          '"overdue" cannot be compared, use due:overdue'
+        );
+      });
+
+      it('reports a comparator without a date', () => {
+        expect(errors('due:<')[0].message).toBe('Missing date after due:<');
+      });
+
+      it('reports dates that do not exist or cannot be read', () => {
+        ['2024-02-30', '2024-13-01', '30/06/2024', 'soon', '7', '7m', '<<7d'].forEach((value) => {
+          expect(errors(`due:${value}`)[0].message).toMatch(/^Invalid due date/);
+        });
+      });
+
+      it('accepts leap days', () => {
+        expect(errors('due:2024-02-29')).toEqual([]);
+      });
+    });
+  });
+
+  describe('resolveDueOperand', () => {
+    it('returns absolute dates unchanged', () => {
+      expect(resolveDueOperand({ kind: 'date', date: '2024-06-30' }, '2024-01-01')).toBe(
+        '2024-06-30'
+      );
+    });
+
+    it('counts relative operands from today across month and year ends', () => {
+      expect(resolveDueOperand({ kind: 'relative', days: 7 }, '2024-12-28')).toBe('2025-01-04');
+      expect(resolveDueOperand({ kind: 'relative', days: -1 }, '2024-03-01')).toBe('2024-02-29');
+      expect(resolveDueOperand({ kind: 'relative', days: 0 }, '2024-06-15')).toBe('2024-06-15');
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  buildFtsQuery,
+  parseHighlights,
+  stripHighlights,
+} from '@/utils/search';
+
+const mark = (text: string) => `${HIGHLIGHT_START}${text}${HIGHLIGHT_END}`;
+
+describe('Search', () => {
+  describe('buildFtsQuery', () => {
+    it('turns every word into a quoted prefix term', () => {
+      expect(buildFtsQuery('Quarterly rep')).toBe('"quarterly"* "rep"*');
+    });
+
+    it('drops punctuation and FTS5 operators typed by the user', () => {
+      expect(buildFtsQuery('"milk" OR (eggs*) -bread')).toBe('"milk"* "or"* "eggs"* "bread"*');
+      expect(buildFtsQuery('name:report^')).toBe('"name"* "report"*');
+    });
+
+    it('keeps letters and digits from any script', () => {
+      expect(buildFtsQuery('Café 2024 naïve')).toBe('"café"* "2024"* "naïve"*');
+    });
+
+    it('returns null when there is nothing to search for', () => {
+      expect(buildFtsQuery('')).toBeNull();
+      expect(buildFtsQuery('  -* "" ')).toBeNull();
+    });
+  });
+
+  describe('parseHighlights', () => {
+    it('splits text into plain and highlighted segments', () => {
+      expect(parseHighlights(`Buy ${mark('milk')} and ${mark('eggs')}`)).toEqual([
+        { text: 'Buy ', highlighted: false },
+        { text: 'milk', highlighted: true },
+        { text: ' and ', highlighted: false },
+        { text: 'eggs', highlighted: true },
+      ]);
+    });
+
+    it('returns a single plain segment for text without matches', () => {
+      expect(parseHighlights('Buy milk')).toEqual([{ text: 'Buy milk', highlighted: false }]);
+    });
+
+    it('returns no segments for empty text', () => {
+      expect(parseHighlights('')).toEqual([]);
+    });
+  });
+
+  describe('stripHighlights', () => {
+    it('removes the markers and keeps the text', () => {
+      expect(stripHighlights(`…the ${mark('report')} is due`)).toBe('…the report is due');
+    });
+  });
+});
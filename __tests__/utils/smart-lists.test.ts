@@ -0,0 +1,96 @@
+import {
+  describeSmartListCriteria,
+  getSmartListCriteria,
+  hasSmartListCriteria,
+  toSmartListColumns,
+} from '@/utils/smart-lists';
+import { SmartList } from '@/types';
+
+const createSmartList = (overrides: Partial<SmartList> = {}): SmartList => ({
+  id: 1,
+  name: 'Urgent',
+  search: null,
+  status: null,
+  priority: null,
+  due_range: null,
+  tag_id: null,
+  list_ids: null,
+  position: 1,
+  created_at: '2024-06-01T00:00:00.000Z',
+  updated_at: '2024-06-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('getSmartListCriteria', () => {
+  it('should read every stored criterion', () => {
+    const criteria = getSmartListCriteria(
+      createSmartList({
+        search: ' report ',
+        status: 'in_progress',
+        priority: 'high',
+        due_range: 'next_7_days',
+        tag_id: 4,
+        list_ids: [1, 2],
+      })
+    );
+
+    expect(criteria).toEqual({
+      search: 'report',
+      status: 'in_progress',
+      priority: 'high',
+      due_range: 'next_7_days',
+      tag_id: 4,
+      list_ids: [1, 2],
+    });
+  });
+
+  it('should leave out empty and unknown values', () => {
+    const criteria = getSmartListCriteria(
+      createSmartList({ search: '  ', status: 'archived', priority: 'urgent', list_ids: [] })
+    );
+
+    expect(criteria).toEqual({});
+  });
+});
+
+describe('toSmartListColumns', () => {
+  it('should store missing criteria as null', () => {
+    expect(toSmartListColumns({ priority: 'low', list_ids: [] })).toEqual({
+      search: null,
+      status: null,
+      priority: 'low',
+      due_range: null,
+      tag_id: null,
+      list_ids: null,
+    });
+  });
+
+  it('should round-trip through the stored columns', () => {
+    const criteria = { search: 'call', due_range: 'overdue' as const, tag_id: 2 };
+
+    expect(getSmartListCriteria(createSmartList(toSmartListColumns(criteria)))).toEqual(criteria);
+  });
+});
+
+describe('hasSmartListCriteria', () => {
+  it('should tell whether any criterion is set', () => {
+    expect(hasSmartListCriteria({})).toBe(false);
+    expect(hasSmartListCriteria({ search: ' ' })).toBe(false);
+    expect(hasSmartListCriteria({ due_range: 'today' })).toBe(true);
+  });
+});
+
+describe('describeSmartListCriteria', () => {
+  it('should name the tag and a single list', () => {
+    const descriptions = describeSmartListCriteria(
+      { search: 'report', priority: 'high', due_range: 'today', tag_id: 4, list_ids: [1] },
+      { lists: new Map([[1, 'Work']]), tags: new Map([[4, 'urgent']]) }
+    );
+
+    expect(descriptions).toEqual(['"report"', 'High priority', 'Due today', '#urgent', 'In Work']);
+  });
+
+  it('should count several lists', () => {
+    expect(describeSmartListCriteria({ list_ids: [1, 2, 3] })).toEqual(['In 3 lists']);
+  });
+});
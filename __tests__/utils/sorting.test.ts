@@ -0,0 +1,36 @@
+import { LIST_SORT_OPTIONS, TASK_SORT_OPTIONS, getNextSort, isManualSort } from '@/utils/sorting';
+
+describe('isManualSort', () => {
+  it('should treat a missing sort as the manual order', () => {
+    expect(isManualSort()).toBe(true);
+    expect(isManualSort({ field: 'position', direction: 'asc' })).toBe(true);
+    expect(isManualSort({ field: 'name', direction: 'asc' })).toBe(false);
+  });
+});
+
+describe('getNextSort', () => {
+  const priority = TASK_SORT_OPTIONS.find((option) => option.field === 'priority')!;
+
+  it('should start a new option in its own direction', () => {
+    expect(getNextSort({ field: 'name', direction: 'asc' }, priority)).toEqual({
+      field: 'priority',
+      direction: 'desc',
+    });
+  });
+
+  it('should reverse the current option when it is picked again', () => {
+    expect(getNextSort({ field: 'priority', direction: 'desc' }, priority)).toEqual({
+      field: 'priority',
+      direction: 'asc',
+    });
+  });
+
+  it('should keep the manual order ascending', () => {
+    const manual = LIST_SORT_OPTIONS[0];
+
+    expect(getNextSort({ field: 'position', direction: 'asc' }, manual)).toEqual({
+      field: 'position',
+      direction: 'asc',
+    });
+  });
+});
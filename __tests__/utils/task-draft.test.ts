@@ -0,0 +1,99 @@
+import { Task } from '@/types';
+import { createTaskDraft, getDirtyFields, getDraftChanges } from '@/utils/task-draft';
+
+const task = {
+  id: 1,
+  name: 'Pay rent',
+  description: null,
+  image: null,
+  status: 'pending',
+  priority: 'high',
+  is_completed: false,
+  due_date: '2024-06-11',
+  recurrence: { type: 'weekly', weekdays: [5, 1] },
+  position: 1,
+  list_id: 2,
+  deleted_at: null,
+  created_at: '2024-06-01T00:00:00.000Z',
+  updated_at: '2024-06-01T00:00:00.000Z',
+} as Task;
+
+const saved = createTaskDraft(task, [4, 3], [60]);
+
+describe('Task draft', () => {
+  describe('createTaskDraft', () => {
+    it('fills in empty text and sorts tags and reminders', () => {
+      expect(saved).toEqual({
+        name: 'Pay rent',
+        description: '',
+        priority: 'high',
+        status: 'pending',
+        due_date: '2024-06-11',
+        recurrence: { type: 'weekly', weekdays: [5, 1] },
+        list_id: 2,
+        tag_ids: [3, 4],
+        reminder_offsets: [60],
+      });
+    });
+
+    it('reads a completed task as completed whatever its status', () => {
+      expect(createTaskDraft({ ...task, is_completed: true }, [], []).status).toBe('completed');
+    });
+  });
+
+  describe('getDirtyFields', () => {
+    it('is empty for an unchanged draft', () => {
+      expect(getDirtyFields(saved, { ...saved })).toEqual([]);
+    });
+
+    it('ignores surrounding whitespace and the order of ids and weekdays', () => {
+      expect(
+        getDirtyFields(saved, {
+          ...saved,
+          name: ' Pay rent ',
+          tag_ids: [4, 3],
+          recurrence: { type: 'weekly', weekdays: [1, 5] },
+        })
+      ).toEqual([]);
+    });
+
+    it('lists every changed field', () => {
+      expect(
+        getDirtyFields(saved, {
+          ...saved,
+          name: 'Pay the rent',
+          priority: 'low',
+          recurrence: null,
+          tag_ids: [3],
+          list_id: 5,
+        })
+      ).toEqual(['name', 'priority', 'recurrence', 'list_id', 'tag_ids']);
+    });
+  });
+
+  describe('getDraftChanges', () => {
+    it('returns only the changed fields ready for saving', () => {
+      expect(
+        getDraftChanges(saved, {
+          ...saved,
+          name: '  Pay the rent ',
+          description: ' Landlord ',
+          due_date: '',
+          reminder_offsets: [1440, 60, 1440],
+        })
+      ).toEqual({
+        name: 'Pay the rent',
+        description: 'Landlord',
+        due_date: null,
+        reminder_offsets: [60, 1440],
+      });
+    });
+
+    it('clears a removed description', () => {
+      const withDescription = { ...saved, description: 'Landlord' };
+      expect(getDraftChanges(withDescription, { ...withDescription, description: '  ' })).toEqual({
+        description: null,
+      });
+    });
+  });
+});
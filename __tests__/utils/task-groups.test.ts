@@ -0,0 +1,72 @@
+import { getDueBucket, groupTasks } from '@/utils/task-groups';
+import { createMockTask } from './test-utils';
+
+const today = '2024-06-10';
+
+describe('getDueBucket', () => {
+  it('should bucket due dates relative to today', () => {
+    expect(getDueBucket(createMockTask({ due_date: '2024-06-09' }), today)).toBe('overdue');
+    expect(getDueBucket(createMockTask({ due_date: '2024-06-10T09:00' }), today)).toBe('today');
+    expect(getDueBucket(createMockTask({ due_date: '2024-06-16' }), today)).toBe('this_week');
+    expect(getDueBucket(createMockTask({ due_date: '2024-06-17' }), today)).toBe('later');
+    expect(getDueBucket(createMockTask({ due_date: null }), today)).toBe('no_due_date');
+  });
+
+  it('should not call finished tasks overdue', () => {
+    const task = createMockTask({
+      due_date: '2024-06-01',
+      status: 'completed',
+      is_completed: true,
+    });
+
+    expect(getDueBucket(task, today)).toBe('earlier');
+  });
+});
+
+describe('groupTasks', () => {
+  it('should order sections by priority and leave out empty ones', () => {
+    const sections = groupTasks(
+      [
+        createMockTask({ id: 1, priority: 'low' }),
+        createMockTask({ id: 2, priority: 'high' }),
+        createMockTask({ id: 3, priority: null }),
+        createMockTask({ id: 4, priority: 'high' }),
+      ],
+      'priority',
+      today
+    );
+
+    expect(sections.map((section) => section.key)).toEqual([
+      'priority:high',
+      'priority:low',
+      'priority:none',
+    ]);
+    expect(sections[0].data.map((task) => task.id)).toEqual([2, 4]);
+  });
+
+  it('should group by status in workflow order', () => {
+    const sections = groupTasks(
+      [createMockTask({ id: 1, status: 'blocked' }), createMockTask({ id: 2, status: 'pending' })],
+      'status',
+      today
+    );
+
+    expect(sections.map((section) => section.title)).toEqual(['Pending', 'Blocked']);
+  });
+
+  it('should split completed tasks from open ones', () => {
+    const sections = groupTasks(
+      [
+        createMockTask({ id: 1, is_completed: true, status: 'completed' }),
+        createMockTask({ id: 2 }),
+      ],
+      'completion',
+      today
+    );
+
+    expect(sections.map((section) => [section.title, section.data.length])).toEqual([
+      ['Open', 1],
+      ['Completed', 1],
+    ]);
+  });
+});
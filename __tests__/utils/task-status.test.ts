@@ -0,0 +1,91 @@
+import {
+  TASK_STATUSES,
+  assertTransition,
+  canTransition,
+  getAvailableStatuses,
+  getTaskStatus,
+  isTaskStatus,
+  withTaskStatus,
+} from '@/utils/task-status';
+import { UpdateTaskSchema, TaskFilterSchema } from '@/validation/schemas';
+
+describe('task status workflow', () => {
+  it('should list every status in display order', () => {
+    expect(TASK_STATUSES).toEqual(['pending', 'in_progress', 'blocked', 'completed', 'cancelled']);
+    expect(isTaskStatus('blocked')).toBe(true);
+    expect(isTaskStatus('done')).toBe(false);
+    expect(isTaskStatus('toString')).toBe(false);
+  });
+
+  it('should allow the workflow transitions and keeping the current status', () => {
+    expect(canTransition('pending', 'in_progress')).toBe(true);
+    expect(canTransition('completed', 'pending')).toBe(true);
+    expect(canTransition('blocked', 'blocked')).toBe(true);
+    expect(canTransition('blocked', 'completed')).toBe(false);
+    expect(canTransition('cancelled', 'completed')).toBe(false);
+  });
+
+  it('should offer the current status with the ones it can change to', () => {
+    expect(getAvailableStatuses('blocked')).toEqual([
+      'pending',
+      'in_progress',
+      'blocked',
+      'cancelled',
+    ]);
+    expect(getAvailableStatuses('cancelled')).toEqual(['pending', 'cancelled']);
+  });
+
+  it('should reject disallowed transitions with both statuses named', () => {
+    expect(() => assertTransition('pending', 'completed')).not.toThrow();
+    expect(() => assertTransition('cancelled', 'in_progress')).toThrow(
+      'A cancelled task cannot be changed to in progress'
+    );
+  });
+});
+
+describe('getTaskStatus', () => {
+  it('should read the stored status', () => {
+    expect(getTaskStatus({ status: 'in_progress', is_completed: false })).toBe('in_progress');
+    expect(getTaskStatus({ status: 'completed', is_completed: true })).toBe('completed');
+  });
+
+  it('should let the completion flag win for rows that disagree', () => {
+    expect(getTaskStatus({ status: 'in_progress', is_completed: true })).toBe('completed');
+    expect(getTaskStatus({ status: 'completed', is_completed: false })).toBe('pending');
+  });
+
+  it('should fall back to pending for missing or unknown statuses', () => {
+    expect(getTaskStatus({ status: null, is_completed: null })).toBe('pending');
+    expect(getTaskStatus({ status: 'not_started', is_completed: false })).toBe('pending');
+  });
+});
+
+describe('withTaskStatus', () => {
+  it('should derive the completion flag from the status', () => {
+    const task = { id: 1, status: 'pending', is_completed: false };
+    expect(withTaskStatus(task, 'completed')).toEqual({
+      id: 1,
+      status: 'completed',
+      is_completed: true,
+    });
+    expect(withTaskStatus({ ...task, is_completed: true }, 'blocked')).toEqual({
+      id: 1,
+      status: 'blocked',
+      is_completed: false,
+    });
+  });
+});
+
+describe('status validation', () => {
+  it('should accept every workflow status in filters', () => {
+    expect(TaskFilterSchema.parse({ status: 'blocked' }).status).toBe('blocked');
+    expect(TaskFilterSchema.safeParse({ status: 'done' }).success).toBe(false);
+  });
+
+  it('should reject a completion flag that contradicts the status', () => {
+    expect(UpdateTaskSchema.safeParse({ id: 1, status: 'completed' }).success).toBe(true);
+    expect(
+      UpdateTaskSchema.safeParse({ id: 1, status: 'completed', is_completed: false }).success
+    ).toBe(false);
+  });
+});
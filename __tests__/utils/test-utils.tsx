@@ -18,9 +18,14 @@ export const createMockTask = (overrides: Partial<any> = {}) => ({
   id: 1,
   name: 'Test Task',
   description: 'Test Description',
+  image: null,
+  status: 'pending',
   priority: 'medium',
   is_completed: false,
   due_date: null,
+  recurrence: null,
+  position: 1,
+  deleted_at: null,
   list_id: 1,
   created_at: '2023-01-01T00:00:00.000Z',
   updated_at: '2023-01-01T00:00:00.000Z',
@@ -31,8 +36,12 @@ export const createMockList = (overrides: Partial<any> = {}) => ({
   id: 1,
   name: 'Test List',
   description: 'Test List Description',
+  color: null,
+  icon: null,
+  position: 1,
   created_at: '2023-01-01T00:00:00.000Z',
   updated_at: '2023-01-01T00:00:00.000Z',
+  deleted_at: null,
   ...overrides,
 });
 
@@ -1,23 +1,29 @@
 import '../global.css';
 
 import { Stack } from 'expo-router';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import Toast from 'react-native-toast-message';
 
 import DatabaseProvider from '@/providers/database-provider';
 import QueryProvider from '@/providers/query-provider';
 import ErrorBoundary from '@/components/ErrorBoundary';
 import { NetworkStatus } from '@/components/NetworkStatus';
+import { UndoHistoryModal } from '@/components/UndoHistoryModal';
+import { toastConfig } from '@/components/UndoToast';
 
 export default function Layout() {
   return (
-    <ErrorBoundary>
-      <QueryProvider>
-        <DatabaseProvider>
-          <NetworkStatus />
-          <Stack />
-          <Toast />
-        </DatabaseProvider>
-      </QueryProvider>
-    </ErrorBoundary>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <ErrorBoundary>
+        <QueryProvider>
+          <DatabaseProvider>
+            <NetworkStatus />
+            <Stack />
+            <UndoHistoryModal />
+            <Toast config={toastConfig} />
+          </DatabaseProvider>
+        </QueryProvider>
+      </ErrorBoundary>
+    </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,196 @@
+/**
+ * Calendar Screen - Due dates of the tasks of all lists by month or week
+ * Features: Month and week modes, previous/next period, dot and count per day,
+ * the selected day's tasks, drag and drop rescheduling with undo
+ */
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { Container } from '@/components/Container';
+import { LoadingIndicator } from '@/components/LoadingIndicator';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { TaskCalendar } from '@/components/TaskCalendar';
+import { useRescheduleTask, useTasksDueBetween } from '@/hooks';
+import { Task } from '@/types';
+import { toastMessages } from '@/utils/toast';
+import { getTodayDueDate } from '@/utils/recurrence';
+import {
+  CalendarMode,
+  describeCalendarPeriod,
+  getCalendarWeeks,
+  groupTasksByDueDay,
+  rescheduleDueDate,
+  shiftCalendarAnchor,
+} from '@/utils/calendar';
+
+export default function CalendarScreen() {
+  const router = useRouter();
+
+  //  STATE MANAGEMENT
+
+  const [today] = useState(getTodayDueDate);
+  const [mode, setMode] = useState<CalendarMode>('month');
+  // Any day of the period shown
+  const [anchor, setAnchor] = useState(today);
+  const [selectedDay, setSelectedDay] = useState(today);
+
+  //  DATA FETCHING
+
+  const weeks = getCalendarWeeks(anchor, mode);
+  const firstDay = weeks[0][0];
+  const lastDay = weeks[weeks.length - 1][6];
+  const { data: tasks = [], isLoading, error, refetch } = useTasksDueBetween(firstDay, lastDay);
+
+  //  MUTATIONS
+
+  const rescheduleTaskMutation = useRescheduleTask();
+
+  //  DATA PROCESSING
+
+  const tasksByDay = groupTasksByDueDay(tasks);
+
+  //  EVENT HANDLERS
+
+  /**
+   * Switches between month and week, keeping the selected day in view
+   */
+  const handleModeChange = (nextMode: CalendarMode) => {
+    setMode(nextMode);
+    setAnchor(selectedDay);
+  };
+
+  /**
+   * Shows the previous or next month or week and selects its first day
+   */
+  const handleShiftPeriod = (delta: -1 | 1) => {
+    const nextAnchor = shiftCalendarAnchor(anchor, mode, delta);
+    setAnchor(nextAnchor);
+    setSelectedDay(mode === 'week' ? getCalendarWeeks(nextAnchor, mode)[0][0] : nextAnchor);
+  };
+
+  const handleToday = () => {
+    setAnchor(today);
+    setSelectedDay(today);
+  };
+
+  /**
+   * Moves a task to the day it was dropped on, keeping its time
+   */
+  const handleReschedule = (task: Task, day: string) => {
+    const previousDueDate = task.due_date!;
+    const dueDate = rescheduleDueDate(previousDueDate, day);
+    const dateLabel = new Date(`${day}T00:00:00`).toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric',
+    });
+
+    rescheduleTaskMutation.mutate(
+      { id: task.id, dueDate },
+      {
+        onSuccess: () => {
+          setSelectedDay(day);
+          toastMessages.taskRescheduled(dateLabel, () =>
+            rescheduleTaskMutation.mutate({ id: task.id, dueDate: previousDueDate })
+          );
+        },
+        onError: (err) => {
+          toastMessages.error('Failed to reschedule task. Please try again.');
+          console.error('Error rescheduling task:', err);
+        },
+      }
+    );
+  };
+
+  /**
+   * Opens the detail screen to edit every field of a task
+   */
+  const handleOpenTask = (task: Task) => {
+    router.push({ pathname: '/task/[id]', params: { id: String(task.id) } });
+  };
+
+  //  RENDER CONDITIONS
+
+  if (isLoading) {
+    return (
+      <Container>
+        <Stack.Screen options={{ title: 'Calendar' }} />
+        <LoadingIndicator message="Loading calendar..." />
+      </Container>
+    );
+  }
+
+  if (error) {
+    return (
+      <Container>
+        <Stack.Screen options={{ title: 'Calendar' }} />
+        <ErrorMessage message="Failed to load tasks. Please try again." onRetry={refetch} />
+      </Container>
+    );
+  }
+
+  //  MAIN RENDER
+
+  return (
+    <Container>
+      <Stack.Screen
+        options={{
+          title: 'Calendar',
+          headerRight: () => (
+            <TouchableOpacity onPress={handleToday} className="px-2 py-1">
+              <Text className="text-base font-medium text-blue-600">Today</Text>
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <View className="flex-1">
+        {/* Month or week mode */}
+        <View className="mb-4 flex-row rounded-xl bg-gray-100 p-1">
+          {(['month', 'week'] as const).map((option) => (
+            <TouchableOpacity
+              key={option}
+              onPress={() => handleModeChange(option)}
+              accessibilityState={{ selected: mode === option }}
+              className={`flex-1 items-center rounded-lg py-2 ${
+                mode === option ? 'bg-white shadow-sm' : ''
+              }`}>
+              <Text className="text-sm font-medium text-gray-700">
+                {option === 'month' ? 'Month' : 'Week'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Previous and next period */}
+        <View className="mb-3 flex-row items-center justify-between">
+          <TouchableOpacity
+            onPress={() => handleShiftPeriod(-1)}
+            accessibilityLabel={`Previous ${mode}`}
+            className="rounded-lg border border-gray-200 px-3 py-1">
+            <Text className="text-lg text-gray-600">‹</Text>
+          </TouchableOpacity>
+          <Text className="text-lg font-semibold text-gray-800">
+            {describeCalendarPeriod(anchor, mode)}
+          </Text>
+          <TouchableOpacity
+            onPress={() => handleShiftPeriod(1)}
+            accessibilityLabel={`Next ${mode}`}
+            className="rounded-lg border border-gray-200 px-3 py-1">
+            <Text className="text-lg text-gray-600">›</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TaskCalendar
+          weeks={weeks}
+          month={mode === 'month' ? anchor.slice(0, 7) : undefined}
+          tasksByDay={tasksByDay}
+          today={today}
+          selectedDay={selectedDay}
+          onSelectDay={setSelectedDay}
+          onReschedule={handleReschedule}
+          onOpenTask={handleOpenTask}
+        />
+      </View>
+    </Container>
+  );
+}
@@ -1,9 +1,17 @@
 /**
  * Lists Screen - Displays and manages task lists
- * Features: Search, CRUD operations with optimistic updates
+ * Features: Search, CRUD operations with optimistic updates, list details, trash with automatic purge,
+ * drag-to-reorder, sort order, task progress and overdue counts, saved smart lists
  */
-import React, { useState } from 'react';
-import { View, Text, FlatList, Alert, RefreshControl, ActivityIndicator } from 'react-native';
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Alert,
+  RefreshControl,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
 import { Stack, useRouter } from 'expo-router';
 import { toastMessages } from '@/utils/toast';
 import { Container } from '@/components/Container';
@@ -11,21 +19,56 @@ import { Button } from '@/components/Button';
 import { LoadingIndicator } from '@/components/LoadingIndicator';
 import { ErrorMessage } from '@/components/ErrorMessage';
 import { ListItem } from '@/components/ListItem';
+import { SortableList } from '@/components/SortableList';
 import { SearchBar } from '@/components/SearchBar';
-import { CreateListModal } from '@/components/CreateListModal';
-import { useLists, useCreateList, useDeleteList, useSearchLists } from '@/hooks';
+import { CreateListModal, ListFormData, emptyListForm } from '@/components/CreateListModal';
+import { DeleteListModal } from '@/components/DeleteListModal';
+import { SmartViewTiles } from '@/components/SmartViewTiles';
+import { SmartListChips } from '@/components/SmartListChips';
+import { SortPicker } from '@/components/SortPicker';
+import {
+  SmartListModal,
+  SmartListFormData,
+  emptySmartListForm,
+} from '@/components/SmartListModal';
+import {
+  useLists,
+  useListsWithTaskCounts,
+  useSmartViewCounts,
+  useSmartLists,
+  useCreateSmartList,
+  useUpdateSmartList,
+  useDeleteSmartList,
+  useTags,
+  useCreateList,
+  useUpdateList,
+  useDeleteList,
+  useReorderList,
+  useSearchLists,
+  useListTaskCount,
+  useAutoPurgeTrash,
+  useUndo,
+} from '@/hooks';
 import { useUIStore } from '@/store/store';
-import { List } from '@/types';
-import { CreateListSchema } from '@/validation/schemas';
+import { List, ListWithTaskCount, SmartList } from '@/types';
+import { SmartViewId } from '@/utils/smart-views';
+import { getSmartListCriteria } from '@/utils/smart-lists';
+import { LIST_SORT_OPTIONS, isManualSort } from '@/utils/sorting';
+import { CreateListSchema, SmartListSchema, UpdateListSchema } from '@/validation/schemas';
 import { validateWithAlert, validateFormInput } from '@/validation/utils';
 
 export default function ListsScreen() {
   //  STATE MANAGEMENT 
   
   // Local state
-  const [newListName, setNewListName] = useState('');
+  const [newList, setNewList] = useState<ListFormData>(emptyListForm);
+  const [editedList, setEditedList] = useState<ListFormData>(emptyListForm);
   const [searchQuery, setSearchQuery] = useState('');
   const [deletingListId, setDeletingListId] = useState<number | null>(null);
+  const [listToDelete, setListToDelete] = useState<List | null>(null);
+  // Smart list being created (null id) or edited; the modal is closed when undefined
+  const [smartListForm, setSmartListForm] = useState<SmartListFormData>(emptySmartListForm);
+  const [editingSmartListId, setEditingSmartListId] = useState<number | null | undefined>();
   const router = useRouter();
 
   // UI state from Zustand store
@@ -35,18 +78,32 @@ export default function ListsScreen() {
     openCreateListModal,
     closeCreateListModal,
     setCreatingList,
+    isEditListModalOpen,
+    selectedListId,
+    openEditListModal,
+    closeEditListModal,
+    listSort,
+    setListSort,
   } = useUIStore();
 
   //  DATA FETCHING 
   
-  // Fetch all lists
+  // Fetch all lists in the chosen order
   const {
     data: lists = [],
     isLoading: loading,
     error,
     refetch,
     isRefetching: refreshing,
-  } = useLists();
+  } = useLists(listSort);
+
+  // Task counts for the progress bars; fetched apart so list edits stay optimistic
+  const { data: listsWithTaskCounts } = useListsWithTaskCounts();
+  const { data: smartViewCounts } = useSmartViewCounts();
+
+  // Saved smart lists, and the tags their editor can filter by
+  const { data: smartLists = [] } = useSmartLists();
+  const { data: tags = [] } = useTags();
 
   // Search functionality
   const {
@@ -54,16 +111,37 @@ export default function ListsScreen() {
     isLoading: isSearching,
   } = useSearchLists(searchQuery);
 
+  // Tasks affected by the pending list deletion
+  const {
+    data: affectedTaskCount = 0,
+    isFetching: isLoadingTaskCount,
+  } = useListTaskCount(listToDelete?.id ?? 0);
+
+  // Purge trash older than the retention period once per launch
+  useAutoPurgeTrash();
+
   //  MUTATIONS 
   
   const createListMutation = useCreateList();
+  const updateListMutation = useUpdateList();
   const deleteListMutation = useDeleteList();
+  const reorderListMutation = useReorderList();
+  const createSmartListMutation = useCreateSmartList();
+  const updateSmartListMutation = useUpdateSmartList();
+  const deleteSmartListMutation = useDeleteSmartList();
+  const { undo } = useUndo();
 
   //  DATA PROCESSING 
   
   // Determine which lists to display based on search
   const displayLists = searchQuery.trim() ? searchResults : lists;
 
+  // Look up task counts by list id
+  const taskCountsByList = useMemo(
+    () => new Map<number, ListWithTaskCount>(listsWithTaskCounts?.map((list) => [list.id, list])),
+    [listsWithTaskCounts]
+  );
+
   // EVENT HANDLERS 
   
   /**
@@ -71,14 +149,14 @@ export default function ListsScreen() {
    */
   const handleCreateList = async () => {
     // Validate list name
-    const nameValidation = validateFormInput(newListName, 1, 50, 'List name');
+    const nameValidation = validateFormInput(newList.name, 1, 50, 'List name');
     if (!nameValidation.isValid) {
       Alert.alert('Validation Error', nameValidation.error);
       return;
     }
 
     // Check for duplicate list name
-    const trimmedName = newListName.trim();
+    const trimmedName = newList.name.trim();
     const existingList = lists.find(list => 
       list.name.toLowerCase() === trimmedName.toLowerCase()
     );
@@ -91,6 +169,9 @@ export default function ListsScreen() {
     // Validate list data with Zod
     const listData = {
       name: trimmedName,
+      description: newList.description.trim() || undefined,
+      color: newList.color ?? undefined,
+      icon: newList.icon ?? undefined,
     };
 
     const validatedData = validateWithAlert(
@@ -101,9 +182,9 @@ export default function ListsScreen() {
 
     if (!validatedData) return;
 
-    createListMutation.mutate(validatedData.name, {
+    createListMutation.mutate(validatedData, {
       onSuccess: () => {
-        setNewListName('');
+        setNewList(emptyListForm);
         closeCreateListModal();
         toastMessages.listCreated();
       },
@@ -115,34 +196,114 @@ export default function ListsScreen() {
   };
 
   /**
-   * Deletes a list with confirmation dialog
+   * Opens the edit dialog prefilled with the list's details
    */
-  const handleDeleteList = (list: List) => {
-    Alert.alert(
-      'Delete List',
-      `Are you sure you want to delete "${list.name}"?`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: () => {
-            setDeletingListId(list.id);
-            deleteListMutation.mutate(list.id, {
-              onSuccess: () => {
-                setDeletingListId(null);
-                toastMessages.listDeleted();
-              },
-              onError: (err) => {
-                setDeletingListId(null);
-                toastMessages.error('Failed to delete list. Please try again.');
-                console.error('Error deleting list:', err);
-              },
-            });
-          },
-        },
-      ]
+  const handleEditList = (list: List) => {
+    setEditedList({
+      name: list.name,
+      description: list.description ?? '',
+      color: list.color,
+      icon: list.icon as ListFormData['icon'],
+    });
+    openEditListModal(list.id);
+  };
+
+  /**
+   * Closes the edit dialog
+   */
+  const handleCloseEditList = () => {
+    closeEditListModal();
+    setEditedList(emptyListForm);
+  };
+
+  /**
+   * Saves the changed details of the list being edited with validation and duplicate checking
+   */
+  const handleUpdateList = () => {
+    const currentList = lists.find(list => list.id === selectedListId);
+    if (!currentList) return;
+
+    // Validate list name
+    const nameValidation = validateFormInput(editedList.name, 1, 50, 'List name');
+    if (!nameValidation.isValid) {
+      Alert.alert('Validation Error', nameValidation.error);
+      return;
+    }
+
+    // Only send what changed
+    const trimmedName = editedList.name.trim();
+    const description = editedList.description.trim() || null;
+    const changes = {
+      ...(trimmedName !== currentList.name && { name: trimmedName }),
+      ...(description !== currentList.description && { description }),
+      ...(editedList.color !== currentList.color && { color: editedList.color }),
+      ...(editedList.icon !== currentList.icon && { icon: editedList.icon }),
+    };
+
+    // Nothing to save when the list is unchanged
+    if (Object.keys(changes).length === 0) {
+      handleCloseEditList();
+      return;
+    }
+
+    // Check for duplicate list name, ignoring the list being edited
+    const existingList = lists.find(list => 
+      list.id !== currentList.id &&
+      list.name.toLowerCase() === trimmedName.toLowerCase()
+    );
+    
+    if (existingList) {
+      Alert.alert('Duplicate List', 'A list with this name already exists. Please choose a different name.');
+      return;
+    }
+
+    // Validate list data with Zod
+    const validatedData = validateWithAlert(
+      UpdateListSchema,
+      { id: currentList.id, ...changes },
+      'List Validation Error'
     );
+
+    if (!validatedData) return;
+
+    // The changes show at once; the dialog closes without waiting for the server
+    updateListMutation.mutate(validatedData, {
+      onSuccess: () => toastMessages.listUpdated(),
+      onError: (err) => {
+        toastMessages.error('Failed to update list. Please try again.');
+        console.error('Error updating list:', err);
+      },
+    });
+    handleCloseEditList();
+  };
+
+  /**
+   * Opens the deletion confirmation for a list
+   */
+  const handleDeleteList = (list: List) => {
+    setListToDelete(list);
+  };
+
+  /**
+   * Deletes the pending list, optionally moving its tasks to another list first
+   */
+  const confirmDeleteList = (moveTasksTo?: number) => {
+    if (!listToDelete) return;
+
+    const listId = listToDelete.id;
+    setListToDelete(null);
+    setDeletingListId(listId);
+    deleteListMutation.mutate({ id: listId, moveTasksTo }, {
+      onSuccess: (_, __, context) => {
+        setDeletingListId(null);
+        toastMessages.listDeleted(() => undo(context?.undoId));
+      },
+      onError: (err) => {
+        setDeletingListId(null);
+        toastMessages.error('Failed to delete list. Please try again.');
+        console.error('Error deleting list:', err);
+      },
+    });
   };
 
   /**
@@ -155,12 +316,108 @@ export default function ListsScreen() {
     });
   };
 
-  const renderList = ({ item }: { item: List }) => (
+  /**
+   * Navigates to a smart view of the tasks of all lists
+   */
+  const handleSmartViewPress = (view: SmartViewId) => {
+    router.push({ pathname: '/smart-view', params: { view } });
+  };
+
+  /**
+   * Opens the tasks matching a smart list
+   */
+  const handleSmartListPress = (smartList: SmartList) => {
+    router.push({ pathname: '/smart-list', params: { id: smartList.id.toString() } });
+  };
+
+  /**
+   * Opens the smart list editor, empty or prefilled with a saved smart list
+   */
+  const openSmartListModal = (smartList?: SmartList) => {
+    setSmartListForm(
+      smartList
+        ? { name: smartList.name, criteria: getSmartListCriteria(smartList) }
+        : emptySmartListForm
+    );
+    setEditingSmartListId(smartList?.id ?? null);
+  };
+
+  /**
+   * Closes the smart list editor
+   */
+  const closeSmartListModal = () => {
+    setEditingSmartListId(undefined);
+    setSmartListForm(emptySmartListForm);
+  };
+
+  /**
+   * Saves the smart list being created or edited with validation
+   */
+  const handleSaveSmartList = () => {
+    const validatedData = validateWithAlert(
+      SmartListSchema,
+      smartListForm,
+      'Smart List Validation Error'
+    );
+
+    if (!validatedData) return;
+
+    const callbacks = {
+      onSuccess: () => toastMessages.smartListSaved(),
+      onError: (err: Error) => {
+        toastMessages.error('Failed to save smart list. Please try again.');
+        console.error('Error saving smart list:', err);
+      },
+    };
+    if (editingSmartListId) {
+      updateSmartListMutation.mutate({ id: editingSmartListId, ...validatedData }, callbacks);
+    } else {
+      createSmartListMutation.mutate(validatedData, callbacks);
+    }
+    closeSmartListModal();
+  };
+
+  /**
+   * Offers to edit or delete a smart list; deleting keeps the tasks it matched
+   */
+  const handleSmartListLongPress = (smartList: SmartList) => {
+    Alert.alert(smartList.name, undefined, [
+      { text: 'Edit', onPress: () => openSmartListModal(smartList) },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          deleteSmartListMutation.mutate(smartList.id, {
+            onSuccess: () => toastMessages.smartListDeleted(),
+            onError: (err) => {
+              toastMessages.error('Failed to delete smart list. Please try again.');
+              console.error('Error deleting smart list:', err);
+            },
+          }),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  /**
+   * Moves a dropped list to its new place in the manual order
+   */
+  const handleReorderList = (list: List, toIndex: number) => {
+    reorderListMutation.mutate(
+      { id: list.id, toIndex },
+      { onError: () => toastMessages.error('Failed to reorder lists. Please try again.') }
+    );
+  };
+
+  const renderList = ({ item, dragHandle }: { item: List; dragHandle: React.ReactNode }) => (
     <ListItem
       list={item}
       onPress={handleListPress}
       onDelete={handleDeleteList}
+      onEdit={handleEditList}
       isDeleting={deletingListId === item.id}
+      dragHandle={dragHandle}
+      taskCounts={taskCountsByList.get(item.id)}
     />
   );
 
@@ -187,6 +444,16 @@ export default function ListsScreen() {
       <Stack.Screen 
         options={{ 
           title: 'Lists',
+          headerRight: () => (
+            <View className="flex-row">
+              <TouchableOpacity onPress={() => router.push('/calendar')} className="px-2 py-1">
+                <Text className="text-base font-medium text-blue-600">Calendar</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => router.push('/trash')} className="px-2 py-1">
+                <Text className="text-base font-medium text-blue-600">Trash</Text>
+              </TouchableOpacity>
+            </View>
+          ),
         }} 
       />
       
@@ -208,6 +475,20 @@ export default function ListsScreen() {
           />
         </View>
 
+        {/* Today, Overdue, Next 7 days and No due date across all lists */}
+        {!searchQuery.trim() && (
+          <>
+            <SmartViewTiles counts={smartViewCounts} onSelect={handleSmartViewPress} />
+            <SmartListChips
+              smartLists={smartLists}
+              onSelect={handleSmartListPress}
+              onLongPress={handleSmartListLongPress}
+              onCreate={() => openSmartListModal()}
+            />
+            <SortPicker options={LIST_SORT_OPTIONS} value={listSort} onChange={setListSort} />
+          </>
+        )}
+
         {displayLists.length === 0 && !isSearching ? (
           <View className="flex-1 justify-center items-center">
             <Text className="text-lg text-gray-600 mb-4">No lists found</Text>
@@ -221,9 +502,11 @@ export default function ListsScreen() {
             <Text className="text-lg text-gray-600 mt-4">Searching lists...</Text>
           </View>
         ) : (
-          <FlatList
+          <SortableList
             data={displayLists}
             renderItem={renderList}
+            onReorder={handleReorderList}
+            sortEnabled={!searchQuery.trim() && isManualSort(listSort)}
             keyExtractor={(item) => item.id.toString()}
             showsVerticalScrollIndicator={false}
             contentContainerStyle={{ paddingBottom: 20 }}
@@ -244,13 +527,48 @@ export default function ListsScreen() {
         visible={isCreateListModalOpen}
         onClose={() => {
           closeCreateListModal();
-          setNewListName('');
+          setNewList(emptyListForm);
         }}
         onSubmit={handleCreateList}
-        value={newListName}
-        onChangeText={setNewListName}
+        value={newList}
+        onChange={setNewList}
         isLoading={isCreatingList || createListMutation.isPending}
       />
+
+      {/* Edit List Modal */}
+      <CreateListModal
+        visible={isEditListModalOpen}
+        onClose={handleCloseEditList}
+        onSubmit={handleUpdateList}
+        value={editedList}
+        onChange={setEditedList}
+        title="Edit List"
+        submitTitle="Save"
+      />
+
+      {/* Create or Edit Smart List Modal */}
+      <SmartListModal
+        visible={editingSmartListId !== undefined}
+        onClose={closeSmartListModal}
+        onSubmit={handleSaveSmartList}
+        value={smartListForm}
+        onChange={setSmartListForm}
+        lists={lists}
+        tags={tags}
+        title={editingSmartListId ? 'Edit Smart List' : 'New Smart List'}
+      />
+
+      {/* Delete List Confirmation */}
+      <DeleteListModal
+        list={listToDelete}
+        lists={lists}
+        taskCount={affectedTaskCount}
+        isLoadingCount={isLoadingTaskCount}
+        onDeleteWithTasks={() => confirmDeleteList()}
+        onMoveTasks={(targetListId) => confirmDeleteList(targetListId)}
+        onClose={() => setListToDelete(null)}
+        isLoading={deleteListMutation.isPending}
+      />
     </Container>
   );
 }
@@ -0,0 +1,307 @@
+/**
+ * Smart List Screen - Tasks matching a saved combination of filters, evaluated live
+ * Features: Criteria summary, paginated task query, the list of each task, completion with
+ * undo, status change, delete with undo, task detail navigation, editing the smart list
+ */
+import React, { useMemo, useState } from 'react';
+import { View, Text, FlatList, Alert, RefreshControl, TouchableOpacity } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { Container } from '@/components/Container';
+import { LoadingIndicator } from '@/components/LoadingIndicator';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { TaskItem } from '@/components/TaskItem';
+import { SmartListModal, SmartListFormData, emptySmartListForm } from '@/components/SmartListModal';
+import {
+  useSmartList,
+  useUpdateSmartList,
+  useTaskQuery,
+  useLists,
+  useTags,
+  useToggleTaskCompletion,
+  useUpdateTaskStatus,
+  useDeleteTask,
+  useUndo,
+} from '@/hooks';
+import { Task } from '@/types';
+import { TaskStatus } from '@/types/common';
+import { describeSmartListCriteria, getSmartListCriteria } from '@/utils/smart-lists';
+import { toastMessages } from '@/utils/toast';
+import { SmartListSchema } from '@/validation/schemas';
+import { validateWithAlert } from '@/validation/utils';
+
+// Number of matching tasks loaded at a time
+const PAGE_SIZE = 50;
+
+export default function SmartListScreen() {
+  //  STATE MANAGEMENT
+
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const smartListId = parseInt(id || '0');
+  const router = useRouter();
+
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  // Form of the edit modal; the modal is open while it is set
+  const [editForm, setEditForm] = useState<SmartListFormData | null>(null);
+
+  //  DATA FETCHING
+
+  const {
+    data: smartList,
+    isLoading: isLoadingSmartList,
+    error: smartListError,
+    refetch: refetchSmartList,
+  } = useSmartList(smartListId);
+  const criteria = useMemo(() => (smartList ? getSmartListCriteria(smartList) : {}), [smartList]);
+
+  // The saved criteria run through the same query as the task search and filters
+  const {
+    data: page,
+    isLoading: isLoadingTasks,
+    isFetching,
+    error: tasksError,
+    refetch,
+    isRefetching,
+  } = useTaskQuery({ filter: criteria, pagination: { limit } }, { enabled: !!smartList });
+  const tasks = page?.data ?? [];
+
+  // Lists and tags, to name them in the criteria and show which list each task belongs to
+  const { data: lists = [] } = useLists();
+  const { data: tags = [] } = useTags();
+  const criteriaLabels = useMemo(
+    () =>
+      describeSmartListCriteria(criteria, {
+        lists: new Map(lists.map((list) => [list.id, list.name])),
+        tags: new Map(tags.map((tag) => [tag.id, tag.name])),
+      }),
+    [criteria, lists, tags]
+  );
+
+  //  MUTATIONS
+
+  const updateSmartListMutation = useUpdateSmartList();
+  const toggleTaskMutation = useToggleTaskCompletion();
+  const updateStatusMutation = useUpdateTaskStatus();
+  const deleteTaskMutation = useDeleteTask();
+  const { undo } = useUndo();
+
+  //  EVENT HANDLERS
+
+  /**
+   * Loads the next page of matching tasks
+   */
+  const handleLoadMore = () => {
+    if (page?.pagination.hasNext && !isFetching) {
+      setLimit((current) => current + PAGE_SIZE);
+    }
+  };
+
+  /**
+   * Saves the edited name and criteria with validation
+   */
+  const handleSaveSmartList = () => {
+    if (!editForm) return;
+
+    const validatedData = validateWithAlert(
+      SmartListSchema,
+      editForm,
+      'Smart List Validation Error'
+    );
+
+    if (!validatedData) return;
+
+    updateSmartListMutation.mutate(
+      { id: smartListId, ...validatedData },
+      {
+        onSuccess: () => toastMessages.smartListSaved(),
+        onError: (err) => {
+          toastMessages.error('Failed to save smart list. Please try again.');
+          console.error('Error saving smart list:', err);
+        },
+      }
+    );
+    setEditForm(null);
+  };
+
+  /**
+   * Toggles task completion; tasks that no longer match leave the list once it refetches
+   */
+  const handleToggleTask = (task: Task) => {
+    toggleTaskMutation.mutate(
+      { id: task.id, isCompleted: !task.is_completed },
+      {
+        onSuccess: (_, __, context) => {
+          toastMessages.taskUpdated(() => undo(context?.undoId));
+        },
+        onError: (err) => {
+          toastMessages.error('Failed to update task. Please try again.');
+          console.error('Error toggling task:', err);
+        },
+      }
+    );
+  };
+
+  /**
+   * Changes a task's status
+   */
+  const handleStatusChange = (task: Task, status: TaskStatus) => {
+    updateStatusMutation.mutate(
+      { id: task.id, status },
+      {
+        onSuccess: (_, __, context) => {
+          toastMessages.taskUpdated(() => undo(context?.undoId));
+        },
+        onError: (err) => {
+          toastMessages.error('Failed to update task status. Please try again.');
+          console.error('Error updating task status:', err);
+        },
+      }
+    );
+  };
+
+  /**
+   * Moves a task to the trash with confirmation dialog
+   */
+  const handleDeleteTask = (task: Task) => {
+    Alert.alert('Delete Task', `Move "${task.name}" to the trash?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deleteTaskMutation.mutate(task.id, {
+            onSuccess: (_, __, context) => {
+              toastMessages.taskDeleted(() => undo(context?.undoId));
+            },
+            onError: (err) => {
+              toastMessages.error('Failed to delete task. Please try again.');
+              console.error('Error deleting task:', err);
+            },
+          });
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Opens the detail screen to edit every field of a task
+   */
+  const handleOpenTask = (task: Task) => {
+    router.push({ pathname: '/task/[id]', params: { id: String(task.id) } });
+  };
+
+  const renderTask = ({ item }: { item: Task }) => (
+    <View>
+      <Text className="mb-1 ml-1 text-xs font-medium text-gray-500">
+        {lists.find((list) => list.id === item.list_id)?.name ?? 'List'}
+      </Text>
+      <TaskItem
+        task={item}
+        onToggle={handleToggleTask}
+        onDelete={handleDeleteTask}
+        onStatusChange={handleStatusChange}
+        onOpen={handleOpenTask}
+        isDeleting={deleteTaskMutation.isPending && deleteTaskMutation.variables === item.id}
+      />
+    </View>
+  );
+
+  const screenOptions = {
+    title: smartList?.name ?? 'Smart List',
+    headerRight: () =>
+      smartList ? (
+        <TouchableOpacity
+          onPress={() => setEditForm({ name: smartList.name, criteria })}
+          className="px-2 py-1">
+          <Text className="text-base font-medium text-blue-600">Edit</Text>
+        </TouchableOpacity>
+      ) : null,
+  };
+
+  //  RENDER CONDITIONS
+
+  if (isLoadingSmartList || (smartList && isLoadingTasks)) {
+    return (
+      <Container>
+        <Stack.Screen options={screenOptions} />
+        <LoadingIndicator message="Loading tasks..." />
+      </Container>
+    );
+  }
+
+  if (smartListError || tasksError) {
+    return (
+      <Container>
+        <Stack.Screen options={screenOptions} />
+        <ErrorMessage
+          message="Failed to load tasks. Please try again."
+          onRetry={smartListError ? refetchSmartList : refetch}
+        />
+      </Container>
+    );
+  }
+
+  if (!smartList) {
+    return (
+      <Container>
+        <Stack.Screen options={screenOptions} />
+        <ErrorMessage message="This smart list no longer exists." />
+      </Container>
+    );
+  }
+
+  //  MAIN RENDER
+
+  return (
+    <Container>
+      <Stack.Screen options={screenOptions} />
+
+      {/* What the smart list matches */}
+      <View className="mb-4 flex-row flex-wrap">
+        {(criteriaLabels.length > 0 ? criteriaLabels : ['All tasks']).map((label) => (
+          <View key={label} className="mb-2 mr-2 rounded-full bg-blue-50 px-3 py-1">
+            <Text className="text-xs font-medium text-blue-700">{label}</Text>
+          </View>
+        ))}
+      </View>
+
+      {tasks.length === 0 ? (
+        <View className="flex-1 items-center justify-center">
+          <Text className="mb-4 text-lg text-gray-600">No matching tasks</Text>
+          <Text className="text-center text-sm text-gray-500">
+            Tasks from your lists that match these filters show up here
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={tasks}
+          renderItem={renderTask}
+          keyExtractor={(task) => task.id.toString()}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: 20 }}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={refetch}
+              colors={['#10b981']}
+              tintColor="#10b981"
+            />
+          }
+        />
+      )}
+
+      {/* Edit Smart List Modal */}
+      <SmartListModal
+        visible={editForm !== null}
+        onClose={() => setEditForm(null)}
+        onSubmit={handleSaveSmartList}
+        value={editForm ?? emptySmartListForm}
+        onChange={setEditForm}
+        lists={lists}
+        tags={tags}
+        title="Edit Smart List"
+      />
+    </Container>
+  );
+}
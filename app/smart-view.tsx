@@ -0,0 +1,184 @@
+/**
+ * Smart View Screen - Open tasks of all lists that are due today, overdue, due in the next
+ * 7 days or have no due date
+ * Features: One SQL query per view, the list of each task, completion with undo, status
+ * change, delete with undo, task detail navigation, pull to refresh
+ */
+import React from 'react';
+import { View, Text, FlatList, Alert, RefreshControl } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { Container } from '@/components/Container';
+import { LoadingIndicator } from '@/components/LoadingIndicator';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { TaskItem } from '@/components/TaskItem';
+import {
+  useSmartViewTasks,
+  useLists,
+  useToggleTaskCompletion,
+  useUpdateTaskStatus,
+  useDeleteTask,
+  useUndo,
+} from '@/hooks';
+import { Task } from '@/types';
+import { TaskStatus } from '@/types/common';
+import { SMART_VIEWS, isSmartViewId } from '@/utils/smart-views';
+import { toastMessages } from '@/utils/toast';
+
+export default function SmartViewScreen() {
+  // Get the view from navigation; unknown views fall back to Today
+  const params = useLocalSearchParams<{ view: string }>();
+  const view = isSmartViewId(params.view) ? params.view : 'today';
+  const { label, emptyMessage } = SMART_VIEWS[view];
+  const router = useRouter();
+
+  //  DATA FETCHING
+
+  const { data: tasks = [], isLoading, error, refetch, isRefetching } = useSmartViewTasks(view);
+  // Lists, to show which list each task belongs to
+  const { data: lists = [] } = useLists();
+
+  //  MUTATIONS
+
+  const toggleTaskMutation = useToggleTaskCompletion();
+  const updateStatusMutation = useUpdateTaskStatus();
+  const deleteTaskMutation = useDeleteTask();
+  const { undo } = useUndo();
+
+  //  EVENT HANDLERS
+
+  /**
+   * Toggles task completion; completed tasks leave the view once it refetches
+   */
+  const handleToggleTask = (task: Task) => {
+    toggleTaskMutation.mutate(
+      { id: task.id, isCompleted: !task.is_completed },
+      {
+        onSuccess: (_, __, context) => {
+          toastMessages.taskUpdated(() => undo(context?.undoId));
+        },
+        onError: (err) => {
+          toastMessages.error('Failed to update task. Please try again.');
+          console.error('Error toggling task:', err);
+        },
+      }
+    );
+  };
+
+  /**
+   * Changes a task's status
+   */
+  const handleStatusChange = (task: Task, status: TaskStatus) => {
+    updateStatusMutation.mutate(
+      { id: task.id, status },
+      {
+        onSuccess: (_, __, context) => {
+          toastMessages.taskUpdated(() => undo(context?.undoId));
+        },
+        onError: (err) => {
+          toastMessages.error('Failed to update task status. Please try again.');
+          console.error('Error updating task status:', err);
+        },
+      }
+    );
+  };
+
+  /**
+   * Moves a task to the trash with confirmation dialog
+   */
+  const handleDeleteTask = (task: Task) => {
+    Alert.alert('Delete Task', `Move "${task.name}" to the trash?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deleteTaskMutation.mutate(task.id, {
+            onSuccess: (_, __, context) => {
+              toastMessages.taskDeleted(() => undo(context?.undoId));
+            },
+            onError: (err) => {
+              toastMessages.error('Failed to delete task. Please try again.');
+              console.error('Error deleting task:', err);
+            },
+          });
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Opens the detail screen to edit every field of a task
+   */
+  const handleOpenTask = (task: Task) => {
+    router.push({ pathname: '/task/[id]', params: { id: String(task.id) } });
+  };
+
+  const renderTask = ({ item }: { item: Task }) => (
+    <View>
+      <Text className="mb-1 ml-1 text-xs font-medium text-gray-500">
+        {lists.find((list) => list.id === item.list_id)?.name ?? 'List'}
+      </Text>
+      <TaskItem
+        task={item}
+        onToggle={handleToggleTask}
+        onDelete={handleDeleteTask}
+        onStatusChange={handleStatusChange}
+        onOpen={handleOpenTask}
+        isDeleting={deleteTaskMutation.isPending && deleteTaskMutation.variables === item.id}
+      />
+    </View>
+  );
+
+  //  RENDER CONDITIONS
+
+  if (isLoading) {
+    return (
+      <Container>
+        <Stack.Screen options={{ title: label }} />
+        <LoadingIndicator message="Loading tasks..." />
+      </Container>
+    );
+  }
+
+  if (error) {
+    return (
+      <Container>
+        <Stack.Screen options={{ title: label }} />
+        <ErrorMessage message="Failed to load tasks. Please try again." onRetry={refetch} />
+      </Container>
+    );
+  }
+
+  //  MAIN RENDER
+
+  return (
+    <Container>
+      <Stack.Screen options={{ title: label }} />
+
+      {tasks.length === 0 ? (
+        <View className="flex-1 items-center justify-center">
+          <Text className="mb-4 text-lg text-gray-600">{emptyMessage}</Text>
+          <Text className="text-center text-sm text-gray-500">
+            Open tasks from all of your lists show up here
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={tasks}
+          renderItem={renderTask}
+          keyExtractor={(task) => task.id.toString()}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: 20 }}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={refetch}
+              colors={['#10b981']}
+              tintColor="#10b981"
+            />
+          }
+        />
+      )}
+    </Container>
+  );
+}
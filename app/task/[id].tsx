@@ -0,0 +1,454 @@
+/**
+ * Task Detail Screen - Edits every field of a single task
+ * Features: Dirty tracking per field, save with validation, discard, duplicate,
+ * move to another list, guard against leaving with unsaved changes
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, ScrollView, TouchableOpacity, Alert } from 'react-native';
+import { Stack, useLocalSearchParams, useNavigation, useRouter } from 'expo-router';
+import { Container } from '@/components/Container';
+import { Button } from '@/components/Button';
+import { LoadingIndicator } from '@/components/LoadingIndicator';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { TagPicker } from '@/components/TagPicker';
+import { RecurrenceEditor } from '@/components/RecurrenceEditor';
+import {
+  useTask,
+  useTasksByList,
+  useTaskTags,
+  useTaskReminders,
+  useLists,
+  useUpdateTask,
+  useDuplicateTask,
+} from '@/hooks';
+import { Priority } from '@/types/common';
+import { REMINDER_OFFSETS } from '@/utils/reminder-offsets';
+import { TASK_WORKFLOW, getAvailableStatuses } from '@/utils/task-status';
+import { toastMessages } from '@/utils/toast';
+import { createTaskDraft, getDirtyFields, getDraftChanges, TaskDraft } from '@/utils/task-draft';
+import { UpdateTaskSchema } from '@/validation/schemas';
+import { validateWithAlert } from '@/validation/utils';
+
+// ==================== CONSTANTS ====================
+
+const priorityOptions: { value: Priority; color: string }[] = [
+  { value: 'low', color: 'bg-green-500' },
+  { value: 'medium', color: 'bg-yellow-500' },
+  { value: 'high', color: 'bg-red-500' },
+];
+
+const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/;
+
+const inputClassName =
+  'bg-white border-2 rounded-xl px-4 py-3 text-base text-gray-800 shadow-sm focus:shadow-md';
+
+/**
+ * Section label that marks fields changed since the last save
+ */
+const FieldLabel = ({ label, isDirty }: { label: string; isDirty: boolean }) => (
+  <View className="mb-2 flex-row items-center">
+    <Text className="text-sm font-medium text-gray-700">{label}</Text>
+    {isDirty && <Text className="ml-2 text-xs text-blue-600">● Edited</Text>}
+  </View>
+);
+
+export default function TaskDetailScreen() {
+  // Get the task ID from navigation
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const taskId = parseInt(id || '0');
+  const router = useRouter();
+  const navigation = useNavigation();
+
+  //  DATA FETCHING
+
+  const { data: task, isLoading: isLoadingTask, error, refetch } = useTask(taskId);
+  const { data: taskTags, isLoading: isLoadingTags } = useTaskTags(taskId);
+  const { data: taskReminders, isLoading: isLoadingReminders } = useTaskReminders(taskId);
+  const { data: lists = [] } = useLists();
+
+  //  MUTATIONS
+
+  const updateTaskMutation = useUpdateTask();
+  const duplicateTaskMutation = useDuplicateTask();
+
+  //  STATE MANAGEMENT
+
+  // The saved task as a draft, the baseline for dirty tracking
+  const saved = useMemo(
+    () =>
+      task && taskTags && taskReminders
+        ? createTaskDraft(
+            task,
+            taskTags.map((tag) => tag.id),
+            taskReminders.map((reminder) => reminder.offset_minutes)
+          )
+        : null,
+    [task, taskTags, taskReminders]
+  );
+  const [draft, setDraft] = useState<TaskDraft | null>(null);
+
+  // Target list tasks, to keep names unique within a list
+  const { data: listTasks = [] } = useTasksByList(draft?.list_id ?? 0);
+
+  const dirtyFields = saved && draft ? getDirtyFields(saved, draft) : [];
+  const isDirty = dirtyFields.length > 0;
+  const isDueDateValid = !draft?.due_date.trim() || DUE_DATE_PATTERN.test(draft.due_date.trim());
+
+  //  EFFECTS
+
+  /**
+   * Starts editing once the task is loaded; refetches never overwrite the draft
+   */
+  useEffect(() => {
+    if (saved && !draft) setDraft(saved);
+  }, [saved, draft]);
+
+  /**
+   * Asks before leaving the screen with unsaved changes
+   */
+  useEffect(() => {
+    if (!isDirty) return;
+
+    return navigation.addListener('beforeRemove', (event) => {
+      event.preventDefault();
+      Alert.alert('Discard Changes', 'You have unsaved changes. Leave without saving them?', [
+        { text: 'Keep Editing', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => navigation.dispatch(event.data.action),
+        },
+      ]);
+    });
+  }, [navigation, isDirty]);
+
+  //  EVENT HANDLERS
+
+  /**
+   * Updates a single field of the draft
+   */
+  const updateDraft = <K extends keyof TaskDraft>(field: K, value: TaskDraft[K]) => {
+    setDraft((current) => (current ? { ...current, [field]: value } : current));
+  };
+
+  /**
+   * Adds or removes a reminder offset
+   */
+  const toggleReminderOffset = (offset: number) => {
+    if (!draft) return;
+    updateDraft(
+      'reminder_offsets',
+      draft.reminder_offsets.includes(offset)
+        ? draft.reminder_offsets.filter((o) => o !== offset)
+        : [...draft.reminder_offsets, offset]
+    );
+  };
+
+  /**
+   * Saves the changed fields with validation and duplicate checking
+   */
+  const handleSave = () => {
+    if (!saved || !draft || !isDirty) return;
+
+    // Reminders are relative to the due date and meaningless without one
+    const changes = getDraftChanges(
+      saved,
+      draft.due_date.trim() ? draft : { ...draft, reminder_offsets: [] }
+    );
+
+    // Check for duplicate task name in the target list
+    if (changes.name !== undefined || changes.list_id !== undefined) {
+      const trimmedName = draft.name.trim().toLowerCase();
+      const existingTask = listTasks.find(
+        (other) =>
+          other.id !== taskId &&
+          other.list_id === draft.list_id &&
+          other.name.toLowerCase() === trimmedName
+      );
+
+      if (existingTask) {
+        Alert.alert(
+          'Duplicate Task',
+          'A task with this name already exists in this list. Please choose a different name.'
+        );
+        return;
+      }
+    }
+
+    const validatedData = validateWithAlert(
+      UpdateTaskSchema,
+      { id: taskId, ...changes },
+      'Task Validation Error'
+    );
+
+    if (!validatedData) return;
+
+    const { id: validatedId, ...validatedChanges } = validatedData;
+    updateTaskMutation.mutate(
+      { id: validatedId, task: validatedChanges },
+      {
+        onSuccess: () => toastMessages.taskUpdated(),
+        onError: (err) => {
+          toastMessages.error('Failed to save task. Please try again.');
+          console.error('Error saving task:', err);
+        },
+      }
+    );
+  };
+
+  /**
+   * Resets the draft to the saved task with confirmation dialog
+   */
+  const handleDiscard = () => {
+    if (!saved || !isDirty) return;
+
+    Alert.alert('Discard Changes', 'Undo all changes since the last save?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => setDraft(saved) },
+    ]);
+  };
+
+  /**
+   * Copies the saved task and opens the copy
+   */
+  const handleDuplicate = () => {
+    if (isDirty) {
+      Alert.alert('Unsaved Changes', 'Save or discard your changes before duplicating the task.');
+      return;
+    }
+
+    duplicateTaskMutation.mutate(taskId, {
+      onSuccess: (copy) => {
+        if (!copy) return;
+        toastMessages.taskDuplicated();
+        router.push({ pathname: '/task/[id]', params: { id: String(copy.id) } });
+      },
+      onError: (err) => {
+        toastMessages.error('Failed to duplicate task. Please try again.');
+        console.error('Error duplicating task:', err);
+      },
+    });
+  };
+
+  //  RENDER CONDITIONS
+
+  // Show loading state
+  if (isLoadingTask || isLoadingTags || isLoadingReminders || (saved && !draft)) {
+    return (
+      <Container>
+        <Stack.Screen options={{ title: 'Task' }} />
+        <LoadingIndicator message="Loading task..." />
+      </Container>
+    );
+  }
+
+  // Show error state, also for tasks that were deleted in the meantime
+  if (error || !draft) {
+    return (
+      <Container>
+        <Stack.Screen options={{ title: 'Task' }} />
+        <ErrorMessage
+          message={error ? 'Failed to load task. Please try again.' : 'This task no longer exists.'}
+          onRetry={error ? refetch : undefined}
+        />
+      </Container>
+    );
+  }
+
+  //  MAIN RENDER
+
+  return (
+    <Container>
+      <Stack.Screen options={{ title: isDirty ? 'Edit Task •' : 'Edit Task' }} />
+
+      <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+        {/* Name */}
+        <View className="mb-4">
+          <FieldLabel label="Task Name *" isDirty={dirtyFields.includes('name')} />
+          <TextInput
+            value={draft.name}
+            onChangeText={(value) => updateDraft('name', value)}
+            placeholder="Enter task name"
+            placeholderTextColor="#9CA3AF"
+            className={`${inputClassName} border-gray-200 focus:border-blue-500`}
+          />
+        </View>
+
+        {/* Description */}
+        <View className="mb-4">
+          <FieldLabel label="Description" isDirty={dirtyFields.includes('description')} />
+          <TextInput
+            value={draft.description}
+            onChangeText={(value) => updateDraft('description', value)}
+            placeholder="Enter description (optional)"
+            placeholderTextColor="#9CA3AF"
+            className={`${inputClassName} border-gray-200 focus:border-blue-500`}
+            multiline
+            numberOfLines={3}
+          />
+        </View>
+
+        {/* Status */}
+        <View className="mb-4">
+          <FieldLabel label="Status" isDirty={dirtyFields.includes('status')} />
+          <View className="flex-row flex-wrap">
+            {/* Only the statuses the workflow allows from the saved one */}
+            {getAvailableStatuses(saved?.status ?? draft.status).map((status) => {
+              const option = TASK_WORKFLOW[status];
+              const isSelected = draft.status === status;
+              return (
+                <TouchableOpacity
+                  key={status}
+                  onPress={() => updateDraft('status', status)}
+                  className={`mb-2 mr-2 rounded-full border px-4 py-2 ${
+                    isSelected ? `${option.color} border-transparent` : 'border-gray-300 bg-white'
+                  }`}>
+                  <Text
+                    className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Priority */}
+        <View className="mb-4">
+          <FieldLabel label="Priority" isDirty={dirtyFields.includes('priority')} />
+          <View className="flex-row flex-wrap">
+            {priorityOptions.map((option) => {
+              const isSelected = draft.priority === option.value;
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  onPress={() => updateDraft('priority', option.value)}
+                  className={`mb-2 mr-2 rounded-full border px-4 py-2 ${
+                    isSelected ? `${option.color} border-transparent` : 'border-gray-300 bg-white'
+                  }`}>
+                  <Text
+                    className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+                    {option.value.charAt(0).toUpperCase() + option.value.slice(1)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Tags */}
+        <View className="mb-4">
+          <FieldLabel label="Tags" isDirty={dirtyFields.includes('tag_ids')} />
+          <TagPicker
+            selectedTagIds={draft.tag_ids}
+            onChange={(tagIds) => updateDraft('tag_ids', tagIds)}
+          />
+        </View>
+
+        {/* Due Date */}
+        <View className="mb-4">
+          <FieldLabel label="Due Date" isDirty={dirtyFields.includes('due_date')} />
+          <TextInput
+            value={draft.due_date}
+            onChangeText={(value) => updateDraft('due_date', value)}
+            placeholder="YYYY-MM-DD or YYYY-MM-DDTHH:mm (optional)"
+            placeholderTextColor="#9CA3AF"
+            className={`${inputClassName} ${
+              isDueDateValid
+                ? 'border-gray-200 focus:border-blue-500'
+                : 'border-red-500 focus:border-red-500'
+            }`}
+          />
+          {!isDueDateValid && (
+            <Text className="mt-1 text-xs text-red-500">
+              Please enter date in YYYY-MM-DD format (e.g., 2024-12-31)
+            </Text>
+          )}
+        </View>
+
+        {/* Reminders */}
+        {isDueDateValid && draft.due_date.trim() !== '' && (
+          <View className="mb-4">
+            <FieldLabel label="Remind me" isDirty={dirtyFields.includes('reminder_offsets')} />
+            <View className="flex-row flex-wrap">
+              {REMINDER_OFFSETS.map((offset) => {
+                const isSelected = draft.reminder_offsets.includes(offset.value);
+                return (
+                  <TouchableOpacity
+                    key={offset.value}
+                    onPress={() => toggleReminderOffset(offset.value)}
+                    className={`mb-2 mr-2 rounded-full border px-4 py-2 ${
+                      isSelected ? 'border-transparent bg-blue-500' : 'border-gray-300 bg-white'
+                    }`}>
+                    <Text
+                      className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+                      {offset.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* Recurrence */}
+        <View className="mb-4">
+          <FieldLabel label="Repeat" isDirty={dirtyFields.includes('recurrence')} />
+          <RecurrenceEditor
+            value={draft.recurrence}
+            onChange={(rule) => updateDraft('recurrence', rule)}
+          />
+        </View>
+
+        {/* Move to list */}
+        <View className="mb-6">
+          <FieldLabel label="List" isDirty={dirtyFields.includes('list_id')} />
+          <View className="flex-row flex-wrap">
+            {lists.map((list) => {
+              const isSelected = draft.list_id === list.id;
+              return (
+                <TouchableOpacity
+                  key={list.id}
+                  onPress={() => updateDraft('list_id', list.id)}
+                  className={`mb-2 mr-2 rounded-full border px-3 py-2 ${
+                    isSelected ? 'border-transparent bg-[#292929]' : 'border-gray-300 bg-white'
+                  }`}>
+                  <Text
+                    className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+                    {list.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+
+        {/* Duplicate */}
+        <View className="mb-4">
+          <Button
+            title="Duplicate Task"
+            onPress={handleDuplicate}
+            loading={duplicateTaskMutation.isPending}
+            className="bg-gray-500"
+          />
+        </View>
+      </ScrollView>
+
+      <View className="flex-row pt-2">
+        <Button
+          title="Discard"
+          onPress={handleDiscard}
+          disabled={!isDirty}
+          className={`mr-3 flex-1 bg-gray-500 ${isDirty ? '' : 'opacity-50'}`}
+        />
+        <Button
+          title="Save"
+          onPress={handleSave}
+          disabled={!isDirty || !isDueDateValid}
+          loading={updateTaskMutation.isPending}
+          className={`flex-1 bg-blue-500 ${isDirty && isDueDateValid ? '' : 'opacity-50'}`}
+        />
+      </View>
+    </Container>
+  );
+}
@@ -1,10 +1,13 @@
 /**
  * Tasks Screen - Displays and manages tasks for a specific list
- * Features: Search, filtering, CRUD operations with optimistic updates
+ * Features: Search query language and filtering in a single paginated query,
+ * natural language quick add, CRUD operations with optimistic updates, task detail navigation,
+ * move and copy to other lists, multi-select with batch actions, kanban board by status,
+ * saving the search and filters as a smart list, sort order and sections remembered per list
  */
-import React, { useState } from 'react';
-import { View, Alert } from 'react-native';
-import { Stack, useLocalSearchParams } from 'expo-router';
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, Alert, ScrollView } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { Container } from '@/components/Container';
 import { Button } from '@/components/Button';
 import { LoadingIndicator } from '@/components/LoadingIndicator';
@@ -12,35 +15,71 @@ import { ErrorMessage } from '@/components/ErrorMessage';
 import { SearchBar } from '@/components/SearchBar';
 import { TaskFilter } from '@/components/TaskFilter';
 import { CreateTaskModal } from '@/components/CreateTaskModal';
+import { QuickAddInput } from '@/components/QuickAddInput';
 import { TaskList } from '@/components/TaskList';
+import { TaskBoard } from '@/components/TaskBoard';
+import { SubtasksModal } from '@/components/SubtasksModal';
+import { ListPickerSheet } from '@/components/ListPickerSheet';
+import { ListHeaderTitle } from '@/components/ListHeaderTitle';
+import {
+  SmartListModal,
+  SmartListFormData,
+  emptySmartListForm,
+} from '@/components/SmartListModal';
 import { toastMessages } from '@/utils/toast';
+import { parseSearchQuery } from '@/utils/search-query';
+import { QuickAddTask } from '@/utils/quick-add';
+import { MANUAL_SORT, isManualSort } from '@/utils/sorting';
+import { TASK_GROUP_BY_OPTIONS } from '@/utils/task-groups';
 import { 
   useTasksByList, 
+  useSubtaskProgress,
   useCreateTask, 
   useDeleteTask, 
   useToggleTaskCompletion, 
   useUpdateTaskStatus,
-  useSearchTasks, 
-  useTasksByStatus, 
-  useTasksByPriority 
+  useReorderTask,
+  useMoveTasks,
+  useCopyTasks,
+  useUpdateTasks,
+  useDeleteTasks,
+  useTaskQuery,
+  useCreateSmartList,
+  useTags,
+  useList,
+  useLists,
+  useUndo,
 } from '@/hooks';
-import { useUIStore } from '@/store/store';
+import { TaskViewMode, useUIStore } from '@/store/store';
 import { Task } from '@/types';
-import { CreateTaskSchema } from '@/validation/schemas';
+import { FilterParams, Priority, TaskStatus } from '@/types/common';
+import { CreateTaskSchema, SmartListSchema } from '@/validation/schemas';
 import { validateWithAlert, validateFormInput } from '@/validation/utils';
 
+// Number of matching tasks loaded at a time while searching or filtering
+const FILTERED_PAGE_SIZE = 50;
+
 export default function TasksScreen() {
   // Get list parameters from navigation
   const { listId, listName } = useLocalSearchParams<{
     listId: string;
     listName: string;
   }>();
+  const router = useRouter();
   
   // Local state for search and filtering
   const [searchQuery, setSearchQuery] = useState('');
+  const [quickAddText, setQuickAddText] = useState('');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterPriority, setFilterPriority] = useState<string>('all');
+  const [filterTag, setFilterTag] = useState<number | 'all'>('all');
   const [deletingTaskId, setDeletingTaskId] = useState<number | null>(null);
+  const [checklistTask, setChecklistTask] = useState<Task | null>(null);
+  const [tasksToMove, setTasksToMove] = useState<Task[]>([]);
+  const [selectedTaskIds, setSelectedTaskIds] = useState<number[] | null>(null);
+  const [filteredLimit, setFilteredLimit] = useState(FILTERED_PAGE_SIZE);
+  // Search and filters being saved as a smart list; the modal is open while it is set
+  const [smartListForm, setSmartListForm] = useState<SmartListFormData | null>(null);
 
   // UI state from Zustand store
   const {
@@ -48,6 +87,16 @@ export default function TasksScreen() {
     isCreatingTask,
     openCreateTaskModal,
     closeCreateTaskModal,
+    taskViewMode,
+    setTaskViewMode,
+    wipLimits,
+    setWipLimit,
+    taskSorts,
+    setTaskSort,
+    taskGroupBy,
+    setTaskGroupBy,
+    collapsedTaskSections,
+    toggleTaskSection,
   } = useUIStore();
 
   // Convert listId to number for API calls
@@ -55,6 +104,21 @@ export default function TasksScreen() {
 
   //  DATA FETCHING 
   
+  // The list itself, so edits update the header at once; the route param covers loading
+  const { data: list } = useList(listIdNumber);
+  const listTitle = list?.name ?? listName;
+  const screenOptions = {
+    title: listTitle,
+    headerTitle: () => (
+      <ListHeaderTitle
+        name={listTitle}
+        description={list?.description}
+        color={list?.color}
+        icon={list?.icon}
+      />
+    ),
+  };
+  
   // Fetch tasks for the current list
   const {
     data: tasks = [],
@@ -64,26 +128,48 @@ export default function TasksScreen() {
     isRefetching: refreshing,
   } = useTasksByList(listIdNumber);
 
-  // Search functionality
-  const {
-    data: searchResults = [],
-    isLoading: isSearching,
-  } = useSearchTasks(searchQuery);
+  // Subtask progress for every task in the list
+  const { data: subtaskProgress } = useSubtaskProgress(listIdNumber);
 
-  // Status filtering
-  const {
-    data: statusFilteredTasks = [],
-    isLoading: isStatusFiltering,
-  } = useTasksByStatus(filterStatus === 'all' ? '' : filterStatus);
+  // Problems with the search query are shown inline; the valid terms still apply
+  const searchErrors = useMemo(() => parseSearchQuery(searchQuery).errors, [searchQuery]);
+
+  // Search and filters run as one query against this list
+  const hasSearchOrFilters =
+    !!searchQuery.trim() || filterStatus !== 'all' || filterPriority !== 'all' || filterTag !== 'all';
+  const taskFilter: FilterParams = {
+    list_id: listIdNumber,
+    search: searchQuery,
+    status: filterStatus === 'all' ? undefined : (filterStatus as TaskStatus),
+    priority: filterPriority === 'all' ? undefined : (filterPriority as Priority),
+    tag_id: filterTag === 'all' ? undefined : filterTag,
+  };
 
-  // Priority filtering
+  // The order chosen for this list; any order but the manual one is sorted by the same query
+  const taskSort = taskSorts[listIdNumber] ?? MANUAL_SORT;
+  const isManuallySorted = isManualSort(taskSort);
+  const isQueried = hasSearchOrFilters || !isManuallySorted;
+
+  // Sections of the task list chosen for this list
+  const groupBy = taskGroupBy[listIdNumber] ?? 'none';
   const {
-    data: priorityFilteredTasks = [],
-    isLoading: isPriorityFiltering,
-  } = useTasksByPriority(filterPriority === 'all' ? '' : filterPriority);
+    data: filteredPage,
+    isLoading: isFiltering,
+    isFetching: isFetchingFiltered,
+  } = useTaskQuery(
+    {
+      filter: taskFilter,
+      sort: isManuallySorted ? undefined : taskSort,
+      pagination: { limit: filteredLimit },
+    },
+    { enabled: isQueried }
+  );
 
-  // Combined filter loading state
-  const isFilterLoading = isStatusFiltering || isPriorityFiltering;
+  // Tags for the tag filter
+  const { data: tags = [] } = useTags();
+
+  // Destinations for moving and copying tasks
+  const { data: lists = [] } = useLists();
 
   //  MUTATIONS 
   
@@ -91,41 +177,30 @@ export default function TasksScreen() {
   const deleteTaskMutation = useDeleteTask();
   const toggleTaskMutation = useToggleTaskCompletion();
   const updateStatusMutation = useUpdateTaskStatus();
+  const reorderTaskMutation = useReorderTask();
+  const moveTasksMutation = useMoveTasks();
+  const copyTasksMutation = useCopyTasks();
+  const updateTasksMutation = useUpdateTasks();
+  const deleteTasksMutation = useDeleteTasks();
+  const createSmartListMutation = useCreateSmartList();
+  const { undo } = useUndo();
 
   //  DATA FILTERING 
   
+  const displayTasks = isQueried ? filteredPage?.data ?? [] : tasks;
+  const isSearching = !!searchQuery.trim() && isFetchingFiltered;
+
+  //  EVENT HANDLERS 
+  
   /**
-   * Determines which tasks to display based on current filters and search
+   * Loads the next page of matching tasks once the end of the list is reached
    */
-  const getDisplayTasks = () => {
-    if (searchQuery.trim()) {
-      return searchResults.filter(task => task.list_id === listIdNumber);
-    }
-    
-    if (filterStatus !== 'all' && filterPriority !== 'all') {
-      // Both filters applied - intersect the results
-      const statusTasks = statusFilteredTasks.filter(task => task.list_id === listIdNumber);
-      const priorityTasks = priorityFilteredTasks.filter(task => task.list_id === listIdNumber);
-      return statusTasks.filter(task => priorityTasks.some(pt => pt.id === task.id));
+  const handleLoadMoreFiltered = () => {
+    if (isQueried && filteredPage?.pagination.hasNext && !isFetchingFiltered) {
+      setFilteredLimit((limit) => limit + FILTERED_PAGE_SIZE);
     }
-    
-    if (filterStatus !== 'all') {
-      return statusFilteredTasks.filter(task => task.list_id === listIdNumber);
-    }
-    
-    if (filterPriority !== 'all') {
-      return priorityFilteredTasks.filter(task => task.list_id === listIdNumber);
-    }
-    
-    return tasks;
   };
 
-  const displayTasks = getDisplayTasks();
-  const isFiltering = isStatusFiltering || isPriorityFiltering;
-  const isSearchingOrFiltering = isSearching || isFiltering;
-
-  //  EVENT HANDLERS 
-  
   /**
    * Handles status filter changes
    */
@@ -140,10 +215,52 @@ export default function TasksScreen() {
     setFilterPriority(priority);
   };
 
+  /**
+   * Opens the smart list editor prefilled with the current search and filters of this list
+   */
+  const handleOpenSaveSmartList = () => {
+    const { search, status, priority, tag_id } = taskFilter;
+    setSmartListForm({
+      name: '',
+      criteria: {
+        ...(search?.trim() && { search: search.trim() }),
+        ...(status && { status }),
+        ...(priority && { priority }),
+        ...(tag_id !== undefined && { tag_id }),
+        list_ids: [listIdNumber],
+      },
+    });
+  };
+
+  /**
+   * Saves the search and filters as a smart list with validation
+   */
+  const handleSaveSmartList = () => {
+    if (!smartListForm) return;
+
+    const validatedData = validateWithAlert(
+      SmartListSchema,
+      smartListForm,
+      'Smart List Validation Error'
+    );
+
+    if (!validatedData) return;
+
+    createSmartListMutation.mutate(validatedData, {
+      onSuccess: () => toastMessages.smartListSaved(),
+      onError: (err) => {
+        toastMessages.error('Failed to save smart list. Please try again.');
+        console.error('Error saving smart list:', err);
+      },
+    });
+    setSmartListForm(null);
+  };
+
   /**
    * Creates a new task with validation and duplicate checking
+   * Closes the create modal once saved unless another follow-up is given
    */
-  const handleCreateTask = async (taskData: any) => {
+  const handleCreateTask = async (taskData: any, onCreated = closeCreateTaskModal) => {
     // Check for duplicate task name in the same list
     const trimmedName = taskData.name.trim();
     const existingTask = tasks.find(task => 
@@ -172,7 +289,7 @@ export default function TasksScreen() {
 
     createTaskMutation.mutate(validatedData, {
       onSuccess: () => {
-        closeCreateTaskModal();
+        onCreated();
         toastMessages.taskCreated();
       },
       onError: (err) => {
@@ -182,6 +299,13 @@ export default function TasksScreen() {
     });
   };
 
+  /**
+   * Creates the task parsed from the quick add input and clears it once saved
+   */
+  const handleQuickAdd = (task: QuickAddTask) => {
+    handleCreateTask({ ...task, status: 'pending' }, () => setQuickAddText(''));
+  };
+
   /**
    * Toggles task completion status with optimistic updates
    */
@@ -192,8 +316,8 @@ export default function TasksScreen() {
       id: task.id,
       isCompleted: newCompletionStatus,
     }, {
-      onSuccess: () => {
-        toastMessages.taskUpdated();
+      onSuccess: (_, __, context) => {
+        toastMessages.taskUpdated(() => undo(context?.undoId));
       },
       onError: (err) => {
         toastMessages.error('Failed to update task. Please try again.');
@@ -205,13 +329,13 @@ export default function TasksScreen() {
   /**
    * Updates task status with optimistic updates
    */
-  const handleStatusChange = async (task: Task, newStatus: string) => {
+  const handleStatusChange = async (task: Task, newStatus: TaskStatus) => {
     updateStatusMutation.mutate({
       id: task.id,
       status: newStatus,
     }, {
-      onSuccess: () => {
-        toastMessages.taskUpdated();
+      onSuccess: (_, __, context) => {
+        toastMessages.taskUpdated(() => undo(context?.undoId));
       },
       onError: (err) => {
         toastMessages.error('Failed to update task status. Please try again.');
@@ -220,13 +344,137 @@ export default function TasksScreen() {
     });
   };
 
+  /**
+   * Moves a dropped task to its new place in the list's manual order
+   */
+  const handleReorderTask = (task: Task, toIndex: number) => {
+    reorderTaskMutation.mutate({ id: task.id, listId: task.list_id, toIndex }, {
+      onError: (err) => {
+        toastMessages.error('Failed to reorder tasks. Please try again.');
+        console.error('Error reordering tasks:', err);
+      },
+    });
+  };
+
+  /**
+   * Opens the detail screen to edit every field of a task
+   */
+  const handleOpenTask = (task: Task) => {
+    router.push({ pathname: '/task/[id]', params: { id: String(task.id) } });
+  };
+
+  /**
+   * Opens the list picker to move or copy a task
+   */
+  const handleMoveTask = (task: Task) => {
+    setTasksToMove([task]);
+  };
+
+  /**
+   * Moves the picked tasks to the end of another list
+   */
+  const handleMoveTasks = (targetListId: number) => {
+    const ids = tasksToMove.map((task) => task.id);
+    const targetName = lists.find((candidate) => candidate.id === targetListId)?.name ?? 'list';
+    setTasksToMove([]);
+    moveTasksMutation.mutate({ ids, listId: targetListId }, {
+      onSuccess: (movedTasks) => toastMessages.tasksMoved(movedTasks.length, targetName),
+      onError: (err) => {
+        toastMessages.error('Failed to move tasks. Please try again.');
+        console.error('Error moving tasks:', err);
+      },
+    });
+  };
+
+  /**
+   * Copies the picked tasks to the end of a list, which may be this one
+   */
+  const handleCopyTasks = (targetListId: number) => {
+    const ids = tasksToMove.map((task) => task.id);
+    const targetName = lists.find((candidate) => candidate.id === targetListId)?.name ?? 'list';
+    setTasksToMove([]);
+    copyTasksMutation.mutate({ ids, listId: targetListId }, {
+      onSuccess: (copies) => toastMessages.tasksCopied(copies.length, targetName),
+      onError: (err) => {
+        toastMessages.error('Failed to copy tasks. Please try again.');
+        console.error('Error copying tasks:', err);
+      },
+    });
+  };
+
+  /**
+   * Changes the status or priority of the selected tasks and leaves selection mode
+   */
+  const handleBatchUpdate = (
+    selected: Task[],
+    changes: { status?: TaskStatus; priority?: string }
+  ) => {
+    setSelectedTaskIds(null);
+    updateTasksMutation.mutate({ ids: selected.map((task) => task.id), changes }, {
+      onSuccess: (_, __, context) => {
+        toastMessages.tasksUpdated(selected.length, () => undo(context?.undoId));
+      },
+      onError: (err) => {
+        toastMessages.error('Failed to update tasks. Please try again.');
+        console.error('Error updating tasks:', err);
+      },
+    });
+  };
+
+  /**
+   * Opens the list picker for the selected tasks and leaves selection mode
+   */
+  const handleBatchMove = (selected: Task[]) => {
+    setSelectedTaskIds(null);
+    setTasksToMove(selected);
+  };
+
+  /**
+   * Deletes the selected tasks after a single confirmation
+   */
+  const handleBatchDelete = (selected: Task[]) => {
+    if (selected.length === 0) return;
+
+    Alert.alert(
+      'Delete Tasks',
+      `Move ${selected.length} task${selected.length === 1 ? '' : 's'} to the trash?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            setSelectedTaskIds(null);
+            deleteTasksMutation.mutate(selected.map((task) => task.id), {
+              onSuccess: (_, __, context) => {
+                toastMessages.tasksDeleted(selected.length, () => undo(context?.undoId));
+              },
+              onError: (err) => {
+                toastMessages.error('Failed to delete tasks. Please try again.');
+                console.error('Error deleting tasks:', err);
+              },
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  /**
+   * Switches between the list and the board; selection only exists in the list
+   */
+  const handleViewModeChange = (mode: TaskViewMode) => {
+    setSelectedTaskIds(null);
+    setTaskViewMode(mode);
+  };
+
   /**
    * Deletes a task with confirmation dialog
    */
   const handleDeleteTask = (task: Task) => {
     Alert.alert(
       'Delete Task',
-      `Are you sure you want to delete "${task.name}"?`,
+      `Move "${task.name}" to the trash?`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -235,9 +483,9 @@ export default function TasksScreen() {
           onPress: () => {
             setDeletingTaskId(task.id);
             deleteTaskMutation.mutate(task.id, {
-              onSuccess: () => {
+              onSuccess: (_, __, context) => {
                 setDeletingTaskId(null);
-                toastMessages.taskDeleted();
+                toastMessages.taskDeleted(() => undo(context?.undoId));
               },
               onError: (err) => {
                 setDeletingTaskId(null);
@@ -258,7 +506,7 @@ export default function TasksScreen() {
   if (loading) {
     return (
       <Container>
-        <Stack.Screen options={{ title: listName }} />
+        <Stack.Screen options={screenOptions} />
         <LoadingIndicator message="Loading tasks..." />
       </Container>
     );
@@ -268,7 +516,7 @@ export default function TasksScreen() {
   if (error) {
     return (
       <Container>
-        <Stack.Screen options={{ title: listName }} />
+        <Stack.Screen options={screenOptions} />
         <ErrorMessage message="Failed to load tasks. Please try again." onRetry={refetch} />
       </Container>
     );
@@ -278,16 +526,17 @@ export default function TasksScreen() {
   
   return (
     <Container>
-      <Stack.Screen options={{ title: listName }} />
+      <Stack.Screen options={screenOptions} />
       
       <View className="flex-1">
         {/* Search functionality */}
         <SearchBar
           value={searchQuery}
           onChangeText={setSearchQuery}
-          placeholder="Search tasks..."
+          placeholder="Search tasks, e.g. priority:high due:<7d"
           isLoading={isSearching}
           onClear={() => setSearchQuery('')}
+          error={searchErrors.map((error) => error.message).join('\n') || undefined}
         />
 
         {/* Filter controls */}
@@ -296,6 +545,27 @@ export default function TasksScreen() {
           priorityFilter={filterPriority}
           onStatusFilter={handleStatusFilter}
           onPriorityFilter={handlePriorityFilter}
+          tags={tags}
+          tagFilter={filterTag}
+          onTagFilter={setFilterTag}
+          sort={taskSort}
+          onSortChange={(sort) => setTaskSort(listIdNumber, sort)}
+        />
+
+        {/* Keep the current search and filters as a smart list */}
+        {hasSearchOrFilters && (
+          <TouchableOpacity onPress={handleOpenSaveSmartList} className="mb-4 self-start">
+            <Text className="text-sm font-medium text-blue-600">Save as smart list</Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Natural language quick add */}
+        <QuickAddInput
+          value={quickAddText}
+          onChangeText={setQuickAddText}
+          onSubmit={handleQuickAdd}
+          tags={tags}
+          isLoading={createTaskMutation.isPending}
         />
 
         {/* Add task button */}
@@ -307,24 +577,103 @@ export default function TasksScreen() {
           />
         </View>
 
-        {/* Task list with all functionality */}
-        <TaskList
-          tasks={displayTasks}
-          onToggleTask={handleToggleTask}
-          onDeleteTask={handleDeleteTask}
-          onStatusChange={handleStatusChange}
-          isRefreshing={refreshing}
-          onRefresh={refetch}
-          emptyMessage="No tasks found"
-          emptySubMessage={
-            searchQuery.trim() || filterStatus !== 'all' || filterPriority !== 'all' 
-              ? 'No tasks match your search or filters' 
-              : 'Tap "Add New Task" to create your first task'
-          }
-          isSearchingOrFiltering={isSearchingOrFiltering || isFilterLoading}
-          searchOrFilterMessage={isSearching ? 'Searching tasks...' : isFilterLoading ? 'Loading tasks...' : 'Filtering tasks...'}
-          deletingTaskId={deletingTaskId}
-        />
+        {/* List or board view */}
+        <View className="mb-4 flex-row rounded-xl bg-gray-100 p-1">
+          {(['list', 'board'] as const).map((mode) => (
+            <TouchableOpacity
+              key={mode}
+              onPress={() => handleViewModeChange(mode)}
+              accessibilityState={{ selected: taskViewMode === mode }}
+              className={`flex-1 items-center rounded-lg py-2 ${
+                taskViewMode === mode ? 'bg-white shadow-sm' : ''
+              }`}>
+              <Text className="text-sm font-medium text-gray-700">
+                {mode === 'list' ? 'List' : 'Board'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Sections of the task list */}
+        {taskViewMode === 'list' && (
+          <View className="mb-4 flex-row items-center">
+            <Text className="text-sm font-medium text-gray-700 mr-2">Group by:</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {TASK_GROUP_BY_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  onPress={() => setTaskGroupBy(listIdNumber, option.value)}
+                  accessibilityState={{ selected: groupBy === option.value }}
+                  className={`px-3 py-1 rounded-full mr-2 border ${
+                    groupBy === option.value
+                      ? 'bg-gray-800 border-gray-800'
+                      : 'bg-white border-gray-300'
+                  }`}>
+                  <Text
+                    className={`text-sm font-medium ${
+                      groupBy === option.value ? 'text-white' : 'text-gray-700'
+                    }`}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        {/* Board with one column per status, or the task list with all functionality */}
+        {taskViewMode === 'board' ? (
+          <TaskBoard
+            tasks={displayTasks}
+            onStatusChange={handleStatusChange}
+            onOpenTask={handleOpenTask}
+            wipLimits={wipLimits}
+            onWipLimitChange={setWipLimit}
+          />
+        ) : (
+          <TaskList
+            tasks={displayTasks}
+            onToggleTask={handleToggleTask}
+            onDeleteTask={handleDeleteTask}
+            onStatusChange={handleStatusChange}
+            onOpenSubtasks={setChecklistTask}
+            onOpenTask={handleOpenTask}
+            onMoveTask={handleMoveTask}
+            subtaskProgress={subtaskProgress}
+            isRefreshing={refreshing}
+            onRefresh={refetch}
+            emptyMessage="No tasks found"
+            emptySubMessage={
+              hasSearchOrFilters
+                ? 'No tasks match your search or filters' 
+                : 'Tap "Add New Task" to create your first task'
+            }
+            isSearchingOrFiltering={isQueried && isFiltering}
+            searchOrFilterMessage={
+              searchQuery.trim()
+                ? 'Searching tasks...'
+                : hasSearchOrFilters
+                  ? 'Filtering tasks...'
+                  : 'Sorting tasks...'
+            }
+            deletingTaskId={deletingTaskId}
+            onReorderTask={handleReorderTask}
+            isReorderEnabled={!isQueried}
+            groupBy={groupBy}
+            collapsedSections={collapsedTaskSections[listIdNumber]}
+            onToggleSection={(sectionKey) => toggleTaskSection(listIdNumber, sectionKey)}
+            onEndReached={handleLoadMoreFiltered}
+            selectedTaskIds={selectedTaskIds}
+            onSelectionChange={setSelectedTaskIds}
+            onBatchComplete={(selected) => handleBatchUpdate(selected, { status: 'completed' })}
+            onBatchStatusChange={(selected, status) => handleBatchUpdate(selected, { status })}
+            onBatchPriorityChange={(selected, priority) =>
+              handleBatchUpdate(selected, { priority })
+            }
+            onBatchMove={handleBatchMove}
+            onBatchDelete={handleBatchDelete}
+          />
+        )}
       </View>
 
       {/* Create task modal */}
@@ -334,6 +683,32 @@ export default function TasksScreen() {
         onSubmit={handleCreateTask}
         isLoading={isCreatingTask || createTaskMutation.isPending}
       />
+
+      {/* Subtask checklist modal */}
+      <SubtasksModal task={checklistTask} onClose={() => setChecklistTask(null)} />
+
+      {/* Save as smart list modal */}
+      <SmartListModal
+        visible={smartListForm !== null}
+        onClose={() => setSmartListForm(null)}
+        onSubmit={handleSaveSmartList}
+        value={smartListForm ?? emptySmartListForm}
+        onChange={setSmartListForm}
+        lists={lists}
+        tags={tags}
+        title="Save as Smart List"
+      />
+
+      {/* Move or copy destination picker */}
+      <ListPickerSheet
+        visible={tasksToMove.length > 0}
+        lists={lists}
+        taskCount={tasksToMove.length}
+        currentListId={listIdNumber}
+        onMove={handleMoveTasks}
+        onCopy={handleCopyTasks}
+        onClose={() => setTasksToMove([])}
+      />
     </Container>
   );
 }
@@ -0,0 +1,305 @@
+/**
+ * Trash Screen - Deleted lists and tasks awaiting restore or purge
+ * Features: Restore, delete forever, empty trash, configurable retention period
+ */
+import React, { useState } from 'react';
+import { View, Text, SectionList, Alert, TouchableOpacity, RefreshControl } from 'react-native';
+import { Stack } from 'expo-router';
+import { toastMessages } from '@/utils/toast';
+import { Container } from '@/components/Container';
+import { Button } from '@/components/Button';
+import { LoadingIndicator } from '@/components/LoadingIndicator';
+import { ErrorMessage } from '@/components/ErrorMessage';
+import { TrashItem } from '@/components/TrashItem';
+import {
+  useLists,
+  useTrashedLists,
+  useTrashedTasks,
+  useRestoreList,
+  useRestoreTask,
+  useDeleteListForever,
+  useDeleteTaskForever,
+  usePurgeTrash,
+} from '@/hooks';
+import { useUIStore } from '@/store/store';
+import { List, Task } from '@/types';
+
+// ==================== CONSTANTS ====================
+
+const retentionOptions = [7, 30, 90];
+
+type TrashEntry = { kind: 'list'; item: List } | { kind: 'task'; item: Task };
+
+export default function TrashScreen() {
+  //  STATE MANAGEMENT
+
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const { trashRetentionDays, setTrashRetentionDays } = useUIStore();
+
+  //  DATA FETCHING
+
+  const {
+    data: trashedLists = [],
+    isLoading: isLoadingLists,
+    error: listsError,
+    refetch: refetchLists,
+    isRefetching: isRefetchingLists,
+  } = useTrashedLists();
+  const {
+    data: trashedTasks = [],
+    isLoading: isLoadingTasks,
+    error: tasksError,
+    refetch: refetchTasks,
+    isRefetching: isRefetchingTasks,
+  } = useTrashedTasks();
+
+  // Active lists, to show which list a trashed task belongs to
+  const { data: lists = [] } = useLists();
+
+  //  MUTATIONS
+
+  const restoreListMutation = useRestoreList();
+  const restoreTaskMutation = useRestoreTask();
+  const deleteListForeverMutation = useDeleteListForever();
+  const deleteTaskForeverMutation = useDeleteTaskForever();
+  const purgeTrashMutation = usePurgeTrash();
+
+  //  DATA PROCESSING
+
+  const sections = [
+    {
+      title: 'Lists',
+      data: trashedLists.map((item): TrashEntry => ({ kind: 'list', item })),
+    },
+    {
+      title: 'Tasks',
+      data: trashedTasks.map((item): TrashEntry => ({ kind: 'task', item })),
+    },
+  ].filter((section) => section.data.length > 0);
+
+  const isEmpty = sections.length === 0;
+
+  //  EVENT HANDLERS
+
+  /**
+   * Shared success/error handling for trash mutations
+   */
+  const runTrashAction = (key: string, onSuccessToast: () => void, failureMessage: string) => ({
+    onSuccess: () => {
+      setBusyKey(null);
+      onSuccessToast();
+    },
+    onError: (err: Error) => {
+      setBusyKey(null);
+      toastMessages.error(failureMessage);
+      console.error(`Error in trash action ${key}:`, err);
+    },
+  });
+
+  /**
+   * Restores a list or task
+   */
+  const handleRestore = (entry: TrashEntry) => {
+    const key = `${entry.kind}-${entry.item.id}`;
+    setBusyKey(key);
+
+    if (entry.kind === 'list') {
+      restoreListMutation.mutate(
+        entry.item.id,
+        runTrashAction(key, toastMessages.listRestored, 'Failed to restore list. Please try again.')
+      );
+    } else {
+      restoreTaskMutation.mutate(
+        entry.item.id,
+        runTrashAction(key, toastMessages.taskRestored, 'Failed to restore task. Please try again.')
+      );
+    }
+  };
+
+  /**
+   * Permanently deletes a list or task with confirmation dialog
+   */
+  const handleDeleteForever = (entry: TrashEntry) => {
+    const key = `${entry.kind}-${entry.item.id}`;
+    const message =
+      entry.kind === 'list'
+        ? `"${entry.item.name}" and all of its tasks will be permanently deleted. This cannot be undone.`
+        : `"${entry.item.name}" will be permanently deleted. This cannot be undone.`;
+
+    Alert.alert('Delete Forever', message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete Forever',
+        style: 'destructive',
+        onPress: () => {
+          setBusyKey(key);
+          const options = runTrashAction(
+            key,
+            toastMessages.deletedForever,
+            'Failed to delete. Please try again.'
+          );
+          if (entry.kind === 'list') {
+            deleteListForeverMutation.mutate(entry.item.id, options);
+          } else {
+            deleteTaskForeverMutation.mutate(entry.item.id, options);
+          }
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Permanently deletes everything in the trash with confirmation dialog
+   */
+  const handleEmptyTrash = () => {
+    Alert.alert('Empty Trash', 'Everything in the trash will be permanently deleted.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Empty Trash',
+        style: 'destructive',
+        onPress: () => {
+          purgeTrashMutation.mutate(0, {
+            onSuccess: () => toastMessages.trashEmptied(),
+            onError: (err) => {
+              toastMessages.error('Failed to empty trash. Please try again.');
+              console.error('Error emptying trash:', err);
+            },
+          });
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Changes the retention period and purges anything already past it
+   */
+  const handleRetentionChange = (days: number) => {
+    setTrashRetentionDays(days);
+    purgeTrashMutation.mutate(days, {
+      onError: (err) => console.error('Error purging trash:', err),
+    });
+  };
+
+  /**
+   * Refetches both trash sections
+   */
+  const handleRefresh = () => {
+    refetchLists();
+    refetchTasks();
+  };
+
+  const renderEntry = ({ item: entry }: { item: TrashEntry }) => {
+    const subtitle =
+      entry.kind === 'list'
+        ? 'List and its tasks'
+        : `Task in ${lists.find((list) => list.id === entry.item.list_id)?.name ?? 'a list'}`;
+
+    return (
+      <TrashItem
+        title={entry.item.name}
+        subtitle={subtitle}
+        deletedAt={entry.item.deleted_at ?? entry.item.updated_at}
+        retentionDays={trashRetentionDays}
+        onRestore={() => handleRestore(entry)}
+        onDeleteForever={() => handleDeleteForever(entry)}
+        isBusy={busyKey === `${entry.kind}-${entry.item.id}`}
+      />
+    );
+  };
+
+  //  RENDER CONDITIONS
+
+  if (isLoadingLists || isLoadingTasks) {
+    return (
+      <Container>
+        <Stack.Screen options={{ title: 'Trash' }} />
+        <LoadingIndicator message="Loading trash..." />
+      </Container>
+    );
+  }
+
+  if (listsError || tasksError) {
+    return (
+      <Container>
+        <Stack.Screen options={{ title: 'Trash' }} />
+        <ErrorMessage message="Failed to load trash. Please try again." onRetry={handleRefresh} />
+      </Container>
+    );
+  }
+
+  //  MAIN RENDER
+
+  return (
+    <Container>
+      <Stack.Screen options={{ title: 'Trash' }} />
+
+      <View className="flex-1">
+        {/* Retention period */}
+        <View className="mb-4">
+          <Text className="mb-2 text-sm font-medium text-gray-700">Keep deleted items for:</Text>
+          <View className="flex-row">
+            {retentionOptions.map((days) => (
+              <TouchableOpacity
+                key={days}
+                onPress={() => handleRetentionChange(days)}
+                className={`mr-2 rounded-full border px-4 py-2 ${
+                  trashRetentionDays === days
+                    ? 'border-transparent bg-blue-500'
+                    : 'border-gray-300 bg-white'
+                }`}>
+                <Text
+                  className={`text-sm font-medium ${
+                    trashRetentionDays === days ? 'text-white' : 'text-gray-700'
+                  }`}>
+                  {days} days
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {!isEmpty && (
+          <View className="mb-4">
+            <Button
+              title="Empty Trash"
+              onPress={handleEmptyTrash}
+              loading={purgeTrashMutation.isPending}
+              className="bg-red-500"
+            />
+          </View>
+        )}
+
+        {isEmpty ? (
+          <View className="flex-1 items-center justify-center">
+            <Text className="mb-4 text-lg text-gray-600">Trash is empty</Text>
+            <Text className="text-center text-sm text-gray-500">
+              Deleted lists and tasks appear here for {trashRetentionDays} days
+            </Text>
+          </View>
+        ) : (
+          <SectionList
+            sections={sections}
+            renderItem={renderEntry}
+            renderSectionHeader={({ section }) => (
+              <Text className="mb-2 mt-1 text-sm font-semibold uppercase text-gray-500">
+                {section.title} ({section.data.length})
+              </Text>
+            )}
+            keyExtractor={(entry) => `${entry.kind}-${entry.item.id}`}
+            stickySectionHeadersEnabled={false}
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={{ paddingBottom: 20 }}
+            refreshControl={
+              <RefreshControl
+                refreshing={isRefetchingLists || isRefetchingTasks}
+                onRefresh={handleRefresh}
+                colors={['#10b981']}
+                tintColor="#10b981"
+              />
+            }
+          />
+        )}
+      </View>
+    </Container>
+  );
+}
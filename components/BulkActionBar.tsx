@@ -0,0 +1,135 @@
+/**
+ * BulkActionBar - Toolbar for acting on several selected tasks at once
+ * Features: Selection count, select all, complete, status and priority change, move, delete
+ */
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Priority, TaskStatus } from '@/types/common';
+import { TASK_STATUSES, TASK_WORKFLOW } from '@/utils/task-status';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  totalCount: number;
+  onSelectAll: () => void;
+  onDeselectAll: () => void;
+  onDone: () => void;
+  onComplete: () => void;
+  onStatusChange: (status: TaskStatus) => void;
+  onPriorityChange: (priority: Priority) => void;
+  onMove?: () => void;
+  onDelete: () => void;
+}
+
+// ==================== CONSTANTS ====================
+
+// Completing has its own action
+const statusOptions = TASK_STATUSES.filter((status) => status !== 'completed').map((status) => ({
+  value: status,
+  label: TASK_WORKFLOW[status].label,
+}));
+
+const priorityOptions: { value: Priority; label: string }[] = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+];
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  totalCount,
+  onSelectAll,
+  onDeselectAll,
+  onDone,
+  onComplete,
+  onStatusChange,
+  onPriorityChange,
+  onMove,
+  onDelete,
+}) => {
+  // ==================== STATE MANAGEMENT ====================
+
+  const [openPicker, setOpenPicker] = useState<'status' | 'priority' | null>(null);
+
+  const hasSelection = selectedCount > 0;
+  const allSelected = totalCount > 0 && selectedCount === totalCount;
+
+  // ==================== EVENT HANDLERS ====================
+
+  /**
+   * Shows or hides the options of a picker
+   */
+  const togglePicker = (picker: 'status' | 'priority') => {
+    setOpenPicker((current) => (current === picker ? null : picker));
+  };
+
+  /**
+   * Runs an action on the selection and closes any open picker
+   */
+  const runAction = (action: () => void) => {
+    if (!hasSelection) return;
+    setOpenPicker(null);
+    action();
+  };
+
+  // ==================== RENDER ====================
+
+  const renderAction = (label: string, onPress: () => void, className = 'text-gray-700') => (
+    <TouchableOpacity
+      onPress={onPress}
+      disabled={!hasSelection}
+      className={`mb-2 mr-2 rounded-xl border border-gray-300 bg-white px-3 py-2 ${
+        hasSelection ? '' : 'opacity-50'
+      }`}>
+      <Text className={`text-sm font-medium ${className}`}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const options = openPicker === 'status' ? statusOptions : priorityOptions;
+
+  return (
+    <View className="mb-3 rounded-2xl border border-blue-200 bg-blue-50 p-3">
+      <View className="mb-2 flex-row items-center justify-between">
+        <Text className="text-base font-semibold text-gray-800">{selectedCount} selected</Text>
+        <View className="flex-row items-center">
+          <TouchableOpacity
+            onPress={allSelected ? onDeselectAll : onSelectAll}
+            className="mr-2 px-2 py-1">
+            <Text className="text-sm font-medium text-blue-600">
+              {allSelected ? 'Deselect all' : 'Select all'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onDone} className="px-2 py-1">
+            <Text className="text-sm font-semibold text-blue-600">Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View className="flex-row flex-wrap">
+        {renderAction('✓ Complete', () => runAction(onComplete), 'text-green-700')}
+        {renderAction('Status', () => togglePicker('status'))}
+        {renderAction('Priority', () => togglePicker('priority'))}
+        {onMove && renderAction('⇄ Move', () => runAction(onMove))}
+        {renderAction('Delete', () => runAction(onDelete), 'text-red-600')}
+      </View>
+
+      {openPicker && (
+        <View className="flex-row flex-wrap">
+          {options.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              onPress={() =>
+                runAction(() =>
+                  openPicker === 'status'
+                    ? onStatusChange(option.value as TaskStatus)
+                    : onPriorityChange(option.value as Priority)
+                )
+              }
+              className="mb-2 mr-2 rounded-full border border-gray-300 bg-white px-4 py-2">
+              <Text className="text-sm font-medium text-gray-700">{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
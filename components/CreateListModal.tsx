@@ -1,16 +1,38 @@
+/**
+ * CreateListModal - Modal component for creating and editing lists
+ * Features: Name and description inputs, colour swatches, icon picker
+ */
 import React from 'react';
-import { View, Text, TextInput, Modal } from 'react-native';
+import { View, Text, TextInput, Modal, ScrollView, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 import { Button } from './Button';
+import {
+  DEFAULT_LIST_COLOR,
+  DEFAULT_LIST_ICON,
+  LIST_COLORS,
+  LIST_ICONS,
+  ListIcon,
+} from '@/utils/list-style';
+
+export interface ListFormData {
+  name: string;
+  description: string;
+  color: string | null;
+  icon: ListIcon | null;
+}
+
+export const emptyListForm: ListFormData = { name: '', description: '', color: null, icon: null };
 
 interface CreateListModalProps {
   visible: boolean;
   onClose: () => void;
   onSubmit: () => void;
-  value: string;
-  onChangeText: (text: string) => void;
+  value: ListFormData;
+  onChange: (value: ListFormData) => void;
   isLoading?: boolean;
   title?: string;
   placeholder?: string;
+  submitTitle?: string;
 }
 
 export const CreateListModal: React.FC<CreateListModalProps> = ({
@@ -18,11 +40,21 @@ export const CreateListModal: React.FC<CreateListModalProps> = ({
   onClose,
   onSubmit,
   value,
-  onChangeText,
+  onChange,
   isLoading = false,
   title = 'Create New List',
   placeholder = 'Enter list name',
+  submitTitle = 'Create',
 }) => {
+  const selectedColor = value.color ?? DEFAULT_LIST_COLOR;
+
+  /**
+   * Updates a single field of the form
+   */
+  const updateField = <K extends keyof ListFormData>(field: K, fieldValue: ListFormData[K]) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
   return (
     <Modal
       visible={visible}
@@ -31,18 +63,72 @@ export const CreateListModal: React.FC<CreateListModalProps> = ({
       onRequestClose={onClose}
     >
       <View className="flex-1 justify-center items-center bg-black/50">
-        <View className="bg-white p-6 rounded-lg w-11/12 max-w-sm">
+        <View className="bg-white p-6 rounded-lg w-11/12 max-w-sm max-h-[90%]">
           <Text className="text-xl font-bold mb-4 text-center">{title}</Text>
-          
-          <TextInput
-            value={value}
-            onChangeText={onChangeText}
-            placeholder={placeholder}
-            placeholderTextColor="#9CA3AF"
-            className="bg-white border-2 border-gray-200 rounded-xl px-4 py-3 mb-4 text-base text-gray-800 shadow-sm focus:border-blue-500 focus:shadow-md"
-            autoFocus
-          />
-          
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <TextInput
+              value={value.name}
+              onChangeText={(name) => updateField('name', name)}
+              placeholder={placeholder}
+              placeholderTextColor="#9CA3AF"
+              className="bg-white border-2 border-gray-200 rounded-xl px-4 py-3 mb-4 text-base text-gray-800 shadow-sm focus:border-blue-500 focus:shadow-md"
+              onSubmitEditing={onSubmit}
+              returnKeyType="done"
+              autoFocus
+            />
+
+            {/* Description */}
+            <TextInput
+              value={value.description}
+              onChangeText={(description) => updateField('description', description)}
+              placeholder="Description (optional)"
+              placeholderTextColor="#9CA3AF"
+              className="bg-white border-2 border-gray-200 rounded-xl px-4 py-3 mb-4 text-base text-gray-800 shadow-sm focus:border-blue-500 focus:shadow-md"
+              multiline
+              numberOfLines={2}
+            />
+
+            {/* Colour */}
+            <Text className="text-sm font-medium text-gray-700 mb-2">Colour</Text>
+            <View className="flex-row flex-wrap mb-4">
+              {LIST_COLORS.map((color) => (
+                <TouchableOpacity
+                  key={color.value}
+                  onPress={() => updateField('color', color.value)}
+                  accessibilityLabel={`${color.label} colour`}
+                  accessibilityState={{ selected: selectedColor === color.value }}
+                  className={`w-8 h-8 rounded-full mr-2 mb-2 border-2 ${
+                    selectedColor === color.value ? 'border-gray-800' : 'border-transparent'
+                  }`}
+                  style={{ backgroundColor: color.value }}
+                />
+              ))}
+            </View>
+
+            {/* Icon */}
+            <Text className="text-sm font-medium text-gray-700 mb-2">Icon</Text>
+            <View className="flex-row flex-wrap mb-4">
+              {LIST_ICONS.map((icon) => {
+                const isSelected = (value.icon ?? DEFAULT_LIST_ICON) === icon;
+                return (
+                  <TouchableOpacity
+                    key={icon}
+                    onPress={() => updateField('icon', icon)}
+                    accessibilityLabel={`${icon.replace('-outline', '')} icon`}
+                    accessibilityState={{ selected: isSelected }}
+                    className={`w-10 h-10 rounded-xl mr-2 mb-2 items-center justify-center border ${
+                      isSelected ? 'border-transparent' : 'bg-white border-gray-300'
+                    }`}
+                    style={isSelected ? { backgroundColor: selectedColor } : undefined}
+                  >
+                    <Ionicons name={icon} size={20} color={isSelected ? '#FFFFFF' : '#374151'} />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ScrollView>
+
           <View className="flex-row">
             <Button
               title="Cancel"
@@ -50,7 +136,7 @@ export const CreateListModal: React.FC<CreateListModalProps> = ({
               className="flex-1 bg-gray-500 mr-3"
             />
             <Button
-              title="Create"
+              title={submitTitle}
               onPress={onSubmit}
               loading={isLoading}
               className="flex-1 bg-blue-500"
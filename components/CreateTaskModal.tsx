@@ -1,11 +1,14 @@
 /**
  * CreateTaskModal - Modal component for creating new tasks
- * Features: Form validation, priority selection, due date input
+ * Features: Form validation, priority selection, due date input, reminders, recurrence, tag picker
  */
 import React, { useState, useEffect } from 'react';
 import { View, Text, TextInput, Modal, ScrollView, TouchableOpacity } from 'react-native';
 import { Button } from './Button';
-import { Priority } from '@/types';
+import { TagPicker } from './TagPicker';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { Priority, RecurrenceRule } from '@/types';
+import { REMINDER_OFFSETS } from '@/utils/reminder-offsets';
 
 interface CreateTaskModalProps {
   visible: boolean;
@@ -21,6 +24,9 @@ interface TaskFormData {
   priority: Priority;
   due_date?: string;
   status: string;
+  recurrence?: RecurrenceRule;
+  reminder_offsets: number[];
+  tag_ids: number[];
 }
 
 export const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
@@ -37,6 +43,9 @@ export const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
   const [priority, setPriority] = useState<Priority>('medium');
   const [dueDate, setDueDate] = useState('');
   const [status, setStatus] = useState('pending');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([]);
+  const [tagIds, setTagIds] = useState<number[]>([]);
 
   //  EFFECTS 
   
@@ -60,6 +69,9 @@ export const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
     setPriority('medium');
     setDueDate('');
     setStatus('pending');
+    setRecurrence(null);
+    setReminderOffsets([]);
+    setTagIds([]);
   };
 
   /**
@@ -88,6 +100,10 @@ export const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
       priority,
       due_date: dueDate || undefined,
       status,
+      recurrence: recurrence ?? undefined,
+      // Reminders are relative to the due date and meaningless without one
+      reminder_offsets: dueDate ? reminderOffsets : [],
+      tag_ids: tagIds,
     };
     onSubmit(taskData);
   };
@@ -100,6 +116,15 @@ export const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
     onClose();
   };
 
+  /**
+   * Adds or removes a reminder offset
+   */
+  const toggleReminderOffset = (offset: number) => {
+    setReminderOffsets((current) =>
+      current.includes(offset) ? current.filter((o) => o !== offset) : [...current, offset]
+    );
+  };
+
   /**
    * Returns the appropriate color class for priority
    */
@@ -177,8 +202,14 @@ export const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
             </View>
 
 
+            {/* Tags */}
+            <View className="mb-4">
+              <Text className="text-sm font-medium text-gray-700 mb-2">Tags</Text>
+              <TagPicker selectedTagIds={tagIds} onChange={setTagIds} />
+            </View>
+
             {/* Due Date */}
-            <View className="mb-6">
+            <View className="mb-4">
               <Text className="text-sm font-medium text-gray-700 mb-2">Due Date</Text>
               <TextInput
                 value={dueDate}
@@ -197,6 +228,39 @@ export const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
                 </Text>
               )}
             </View>
+
+            {/* Reminders */}
+            {validateDueDate(dueDate) && dueDate !== '' && (
+              <View className="mb-4">
+                <Text className="text-sm font-medium text-gray-700 mb-2">Remind me</Text>
+                <View className="flex-row flex-wrap">
+                  {REMINDER_OFFSETS.map((offset) => {
+                    const isSelected = reminderOffsets.includes(offset.value);
+                    return (
+                      <TouchableOpacity
+                        key={offset.value}
+                        onPress={() => toggleReminderOffset(offset.value)}
+                        className={`px-4 py-2 rounded-full mr-2 mb-2 border ${
+                          isSelected ? 'bg-blue-500 border-transparent' : 'bg-white border-gray-300'
+                        }`}
+                      >
+                        <Text className={`text-sm font-medium ${
+                          isSelected ? 'text-white' : 'text-gray-700'
+                        }`}>
+                          {offset.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            )}
+
+            {/* Recurrence */}
+            <View className="mb-6">
+              <Text className="text-sm font-medium text-gray-700 mb-2">Repeat</Text>
+              <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+            </View>
           </ScrollView>
           
           <View className="flex-row">
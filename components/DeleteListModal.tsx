@@ -0,0 +1,108 @@
+/**
+ * DeleteListModal - Confirms deleting a list and decides what happens to its tasks
+ * Features: Affected task count, delete tasks with the list, move tasks to another list
+ */
+import React, { useEffect, useState } from 'react';
+import { View, Text, Modal, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { List } from '@/types';
+import { Button } from './Button';
+
+interface DeleteListModalProps {
+  /** The list to delete; the modal is visible while set */
+  list: List | null;
+  /** Candidate lists to move the tasks to */
+  lists: List[];
+  taskCount: number;
+  isLoadingCount?: boolean;
+  onDeleteWithTasks: () => void;
+  onMoveTasks: (targetListId: number) => void;
+  onClose: () => void;
+  isLoading?: boolean;
+}
+
+export const DeleteListModal: React.FC<DeleteListModalProps> = ({
+  list,
+  lists,
+  taskCount,
+  isLoadingCount = false,
+  onDeleteWithTasks,
+  onMoveTasks,
+  onClose,
+  isLoading = false,
+}) => {
+  const [targetListId, setTargetListId] = useState<number | null>(null);
+
+  const otherLists = lists.filter((candidate) => candidate.id !== list?.id);
+  const hasTasks = taskCount > 0;
+
+  // Start without a target every time a different list is opened
+  useEffect(() => {
+    setTargetListId(null);
+  }, [list?.id]);
+
+  const taskLabel = `${taskCount} task${taskCount === 1 ? '' : 's'}`;
+
+  return (
+    <Modal visible={!!list} transparent animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 items-center justify-center bg-black/50">
+        <View className="max-h-[90%] w-11/12 max-w-md rounded-lg bg-white p-6">
+          <Text className="mb-2 text-center text-xl font-bold">Delete "{list?.name}"</Text>
+
+          {isLoadingCount ? (
+            <ActivityIndicator size="small" color="#10b981" className="my-4" />
+          ) : (
+            <Text className="mb-4 text-center text-base text-gray-600">
+              {hasTasks
+                ? `This list contains ${taskLabel}. What should happen to them?`
+                : 'This list is empty. It will be moved to the trash.'}
+            </Text>
+          )}
+
+          {hasTasks && !isLoadingCount && otherLists.length > 0 && (
+            <View className="mb-4">
+              <Text className="mb-2 text-sm font-medium text-gray-700">Move tasks to:</Text>
+              <ScrollView className="max-h-48" showsVerticalScrollIndicator={false}>
+                <View className="flex-row flex-wrap">
+                  {otherLists.map((candidate) => (
+                    <TouchableOpacity
+                      key={candidate.id}
+                      onPress={() => setTargetListId(candidate.id)}
+                      className={`mb-2 mr-2 rounded-full border px-4 py-2 ${
+                        targetListId === candidate.id
+                          ? 'border-transparent bg-blue-500'
+                          : 'border-gray-300 bg-white'
+                      }`}>
+                      <Text
+                        className={`text-sm font-medium ${
+                          targetListId === candidate.id ? 'text-white' : 'text-gray-700'
+                        }`}>
+                        {candidate.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </ScrollView>
+              <Button
+                title={`Move ${taskLabel} & delete list`}
+                onPress={() => targetListId !== null && onMoveTasks(targetListId)}
+                disabled={targetListId === null || isLoading}
+                className={`mt-2 bg-blue-500 ${targetListId === null ? 'opacity-50' : ''}`}
+              />
+            </View>
+          )}
+
+          <View className="flex-row">
+            <Button title="Cancel" onPress={onClose} className="mr-3 flex-1 bg-gray-500" />
+            <Button
+              title={hasTasks ? `Delete ${taskLabel}` : 'Delete'}
+              onPress={onDeleteWithTasks}
+              loading={isLoading}
+              disabled={isLoadingCount}
+              className="flex-1 bg-red-500"
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
@@ -0,0 +1,30 @@
+/**
+ * HighlightedText - Text with full-text search matches emphasized
+ * Features: Renders the highlight markers produced by the search index as marked-up spans
+ */
+import React from 'react';
+import { Text } from 'react-native';
+import { parseHighlights } from '@/utils/search';
+
+interface HighlightedTextProps {
+  /** Text containing the highlight markers from `utils/search` */
+  text: string;
+  className?: string;
+  numberOfLines?: number;
+}
+
+export const HighlightedText = ({ text, className = '', numberOfLines }: HighlightedTextProps) => {
+  return (
+    <Text className={className} numberOfLines={numberOfLines}>
+      {parseHighlights(text).map((segment, index) =>
+        segment.highlighted ? (
+          <Text key={index} className="bg-yellow-200 font-semibold">
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </Text>
+  );
+};
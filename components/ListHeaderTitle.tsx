@@ -0,0 +1,39 @@
+/**
+ * ListHeaderTitle - Navigation header title for a list
+ * Features: List icon in the list colour, name, description as a subtitle
+ */
+import React from 'react';
+import { View, Text } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { getListStyle } from '@/utils/list-style';
+
+interface ListHeaderTitleProps {
+  name: string;
+  description?: string | null;
+  color?: string | null;
+  icon?: string | null;
+}
+
+export const ListHeaderTitle = ({ name, description, color, icon }: ListHeaderTitleProps) => {
+  const style = getListStyle({ color, icon });
+
+  return (
+    <View className="flex-row items-center">
+      <View
+        className="mr-2 h-7 w-7 items-center justify-center rounded-lg"
+        style={{ backgroundColor: style.color }}>
+        <Ionicons name={style.icon} size={16} color="#FFFFFF" />
+      </View>
+      <View className="shrink">
+        <Text className="text-base font-semibold text-gray-800" numberOfLines={1}>
+          {name}
+        </Text>
+        {description && (
+          <Text className="text-xs text-gray-500" numberOfLines={1}>
+            {description}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+};
@@ -1,19 +1,44 @@
 /**
  * ListItem - Individual list display component
- * Features: Navigation to tasks, delete functionality, visual feedback
+ * Features: Navigation to tasks, edit and delete functionality, visual feedback,
+ * colour and icon, description, optional drag handle, highlighted search matches,
+ * task progress bar and overdue badge
  */
 import React from 'react';
 import { View, Text, TouchableOpacity } from 'react-native';
-import { List } from '@/types';
+import { Ionicons } from '@expo/vector-icons';
+import { List, ListWithTaskCount, SearchHighlights } from '@/types';
+import { getListStyle } from '@/utils/list-style';
+import { HighlightedText } from './HighlightedText';
 
 interface ListItemProps {
-  list: List;
+  /** Search results also carry the highlighted name and description snippet */
+  list: List & Partial<SearchHighlights>;
   onPress: (list: List) => void;
   onDelete: (list: List) => void;
+  onEdit?: (list: List) => void;
   isDeleting?: boolean;
+  /** Drag handle supplied by a sortable list */
+  dragHandle?: React.ReactNode;
+  /** Task counts of the list; progress is hidden until they are known */
+  taskCounts?: Pick<ListWithTaskCount, 'task_count' | 'completed_count' | 'overdue_count'>;
 }
 
-export const ListItem = ({ list, onPress, onDelete, isDeleting = false }: ListItemProps) => {
+export const ListItem = ({
+  list,
+  onPress,
+  onDelete,
+  onEdit,
+  isDeleting = false,
+  dragHandle,
+  taskCounts,
+}: ListItemProps) => {
+  const { color, icon } = getListStyle(list);
+  const progress =
+    taskCounts && taskCounts.task_count > 0
+      ? taskCounts.completed_count / taskCounts.task_count
+      : 0;
+
   return (
     <TouchableOpacity
       onPress={() => !isDeleting && onPress(list)}
@@ -23,31 +48,102 @@ export const ListItem = ({ list, onPress, onDelete, isDeleting = false }: ListIt
       } active:scale-98 transition-transform`}
       activeOpacity={0.7}
     >
-      <View className="flex-1">
-        <Text className="text-lg font-semibold text-gray-800">{list.name}</Text>
-        <Text className="text-sm text-gray-500 mt-1">
-          Created: {new Date(list.created_at).toLocaleDateString()}
-        </Text>
-      </View>
-      
-      <View className="flex-row justify-end mt-3">
-        <TouchableOpacity
-          onPress={() => {
-            !isDeleting && onDelete(list);
-          }}
-          disabled={isDeleting}
-          className={`px-6 py-3 rounded-xl border-2 ${
-            isDeleting 
-              ? 'bg-gray-400 border-gray-400' 
-              : 'bg-red-500 border-red-500 shadow-lg shadow-red-500/30'
-          } active:scale-95 transition-all duration-200`}
+      <View className="flex-1 flex-row items-start">
+        <View
+          className="w-10 h-10 rounded-xl items-center justify-center mr-3"
+          style={{ backgroundColor: color }}
         >
-          <Text className={`font-semibold text-sm ${
-            isDeleting ? 'text-gray-600' : 'text-white'
-          }`}>
-            {isDeleting ? 'Deleting...' : 'Delete'}
+          <Ionicons name={icon} size={20} color="#FFFFFF" />
+        </View>
+        <View className="flex-1">
+          <HighlightedText
+            text={list.name_highlight ?? list.name}
+            className="text-lg font-semibold text-gray-800"
+          />
+          {list.description && (
+            <HighlightedText
+              text={list.description_snippet ?? list.description}
+              className="text-sm text-gray-600 mt-1"
+            />
+          )}
+          <Text className="text-sm text-gray-500 mt-1">
+            Created: {new Date(list.created_at).toLocaleDateString()}
           </Text>
-        </TouchableOpacity>
+
+          {/* Task progress */}
+          {taskCounts && (
+            <View className="mt-2">
+              <View className="flex-row items-center justify-between">
+                <Text className="text-xs text-gray-500">
+                  {taskCounts.task_count > 0
+                    ? `${taskCounts.completed_count} of ${taskCounts.task_count} done`
+                    : 'No tasks'}
+                </Text>
+                {taskCounts.overdue_count > 0 && (
+                  <View className="px-2 py-0.5 rounded-full bg-red-100">
+                    <Text className="text-xs font-semibold text-red-600">
+                      {taskCounts.overdue_count} overdue
+                    </Text>
+                  </View>
+                )}
+              </View>
+              {taskCounts.task_count > 0 && (
+                <View
+                  className="h-1.5 mt-1 rounded-full bg-gray-200 overflow-hidden"
+                  accessibilityRole="progressbar"
+                  accessibilityValue={{
+                    min: 0,
+                    max: taskCounts.task_count,
+                    now: taskCounts.completed_count,
+                  }}
+                >
+                  <View
+                    className="h-full rounded-full"
+                    style={{ width: `${Math.round(progress * 100)}%`, backgroundColor: color }}
+                  />
+                </View>
+              )}
+            </View>
+          )}
+        </View>
+      </View>
+      
+      <View className={`flex-row items-center mt-3 ${dragHandle ? 'justify-between' : 'justify-end'}`}>
+        {dragHandle}
+        <View className="flex-row items-center">
+          {onEdit && (
+            <TouchableOpacity
+              onPress={() => {
+                !isDeleting && onEdit(list);
+              }}
+              disabled={isDeleting}
+              className={`px-6 py-3 mr-3 rounded-xl border-2 ${
+                isDeleting ? 'bg-gray-100 border-gray-300' : 'bg-white border-gray-300'
+              } active:scale-95 transition-all duration-200`}
+            >
+              <Text className={`font-semibold text-sm ${isDeleting ? 'text-gray-400' : 'text-gray-700'}`}>
+                Edit
+              </Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={() => {
+              !isDeleting && onDelete(list);
+            }}
+            disabled={isDeleting}
+            className={`px-6 py-3 rounded-xl border-2 ${
+              isDeleting 
+                ? 'bg-gray-400 border-gray-400' 
+                : 'bg-red-500 border-red-500 shadow-lg shadow-red-500/30'
+            } active:scale-95 transition-all duration-200`}
+          >
+            <Text className={`font-semibold text-sm ${
+              isDeleting ? 'text-gray-600' : 'text-white'
+            }`}>
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </Text>
+          </TouchableOpacity>
+        </View>
       </View>
     </TouchableOpacity>
   );
@@ -0,0 +1,99 @@
+/**
+ * ListPickerSheet - Bottom sheet for choosing the list to move or copy tasks to
+ * Features: Lists with their colour and icon, current list marker, move and copy actions
+ */
+import React, { useEffect, useState } from 'react';
+import { View, Text, Modal, ScrollView, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { List } from '@/types';
+import { getListStyle } from '@/utils/list-style';
+import { Button } from './Button';
+
+interface ListPickerSheetProps {
+  visible: boolean;
+  /** Candidate destination lists */
+  lists: List[];
+  /** Number of tasks being moved or copied */
+  taskCount: number;
+  /** List the tasks are in; tasks can be copied within it but not moved to it */
+  currentListId?: number;
+  onMove: (listId: number) => void;
+  onCopy: (listId: number) => void;
+  onClose: () => void;
+  isLoading?: boolean;
+}
+
+export const ListPickerSheet: React.FC<ListPickerSheetProps> = ({
+  visible,
+  lists,
+  taskCount,
+  currentListId,
+  onMove,
+  onCopy,
+  onClose,
+  isLoading = false,
+}) => {
+  const [targetListId, setTargetListId] = useState<number | null>(null);
+
+  // Start without a destination every time the sheet opens
+  useEffect(() => {
+    if (visible) setTargetListId(null);
+  }, [visible]);
+
+  const taskLabel = taskCount === 1 ? 'task' : `${taskCount} tasks`;
+  const canMove = targetListId !== null && targetListId !== currentListId;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 justify-end bg-black/50">
+        <View className="max-h-[80%] rounded-t-3xl bg-white p-6">
+          <Text className="mb-1 text-center text-xl font-bold">Move or copy {taskLabel}</Text>
+          <Text className="mb-4 text-center text-sm text-gray-500">Choose a destination list</Text>
+
+          <ScrollView className="mb-4" showsVerticalScrollIndicator={false}>
+            {lists.map((list) => {
+              const { color, icon } = getListStyle(list);
+              const isSelected = targetListId === list.id;
+              const isCurrent = list.id === currentListId;
+              return (
+                <TouchableOpacity
+                  key={list.id}
+                  onPress={() => setTargetListId(list.id)}
+                  accessibilityState={{ selected: isSelected }}
+                  className={`mb-2 flex-row items-center rounded-xl border p-3 ${
+                    isSelected ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white'
+                  }`}>
+                  <View
+                    className="mr-3 h-8 w-8 items-center justify-center rounded-lg"
+                    style={{ backgroundColor: color }}>
+                    <Ionicons name={icon} size={16} color="#FFFFFF" />
+                  </View>
+                  <Text className="flex-1 text-base font-medium text-gray-800" numberOfLines={1}>
+                    {list.name}
+                  </Text>
+                  {isCurrent && <Text className="ml-2 text-xs text-gray-500">Current list</Text>}
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <View className="flex-row">
+            <Button title="Cancel" onPress={onClose} className="mr-3 flex-1 bg-gray-500" />
+            <Button
+              title="Copy"
+              onPress={() => targetListId !== null && onCopy(targetListId)}
+              disabled={targetListId === null || isLoading}
+              className={`mr-3 flex-1 bg-blue-500 ${targetListId === null ? 'opacity-50' : ''}`}
+            />
+            <Button
+              title="Move"
+              onPress={() => canMove && onMove(targetListId)}
+              disabled={!canMove || isLoading}
+              className={`flex-1 bg-blue-500 ${canMove ? '' : 'opacity-50'}`}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
@@ -0,0 +1,112 @@
+/**
+ * QuickAddInput - Single line task capture with natural language parsing
+ * Features: Recognises dates, times, priority, tags and recurrence while typing,
+ * live preview chip of the parsed task, submit from the keyboard
+ */
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Tag } from '@/types';
+import { describeRecurrence } from '@/utils/recurrence';
+import { parseQuickAdd, QuickAddTask } from '@/utils/quick-add';
+import { TaskPriorityBadge } from './TaskPriorityBadge';
+
+interface QuickAddInputProps {
+  value: string;
+  onChangeText: (text: string) => void;
+  onSubmit: (task: QuickAddTask) => void;
+  tags?: Tag[];
+  isLoading?: boolean;
+}
+
+/**
+ * Formats a parsed due date for the preview, e.g. "Tue, Jun 11 09:00"
+ */
+const formatDueDate = (dueDate: string): string => {
+  const [datePart, timePart] = dueDate.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const label = new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+  return timePart ? `${label} ${timePart}` : label;
+};
+
+export const QuickAddInput = ({
+  value,
+  onChangeText,
+  onSubmit,
+  tags = [],
+  isLoading = false,
+}: QuickAddInputProps) => {
+  //  DATA
+
+  const { task } = parseQuickAdd(value, { now: new Date(), tags });
+  const canSubmit = task.name.length > 0 && !isLoading;
+  const taskTags = tags.filter((tag) => task.tag_ids.includes(tag.id));
+
+  //  EVENT HANDLERS
+
+  const handleSubmit = () => {
+    if (canSubmit) onSubmit(task);
+  };
+
+  //  RENDER
+
+  return (
+    <View className="mb-4">
+      <View className="flex-row items-center">
+        <TextInput
+          value={value}
+          onChangeText={onChangeText}
+          onSubmitEditing={handleSubmit}
+          placeholder="Quick add, e.g. Pay rent tomorrow 9am !high #home"
+          placeholderTextColor="#6B7280"
+          returnKeyType="done"
+          className="flex-1 rounded-xl border-2 border-gray-200 bg-white px-4 py-3 text-base text-gray-800 shadow-sm focus:border-blue-500"
+        />
+        <TouchableOpacity
+          onPress={handleSubmit}
+          disabled={!canSubmit}
+          accessibilityLabel="Add task"
+          className={`ml-2 h-12 w-12 items-center justify-center rounded-xl ${
+            canSubmit ? 'bg-[#292929]' : 'bg-gray-300'
+          }`}>
+          {isLoading ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text className="text-2xl font-bold text-white">+</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {/* Preview of what was recognised */}
+      {value.trim().length > 0 && (
+        <View className="mt-2 flex-row flex-wrap items-center rounded-xl border border-blue-100 bg-blue-50 px-3 py-2">
+          <Text
+            className={`mr-2 text-sm font-medium ${task.name ? 'text-gray-800' : 'text-red-600'}`}>
+            {task.name || 'Add a task name'}
+          </Text>
+          {task.due_date && (
+            <Text className="mr-2 rounded-full bg-blue-100 px-2 py-1 text-xs text-blue-700">
+              Due: {formatDueDate(task.due_date)}
+            </Text>
+          )}
+          {task.priority && <TaskPriorityBadge priority={task.priority} className="mr-2" />}
+          {task.recurrence && (
+            <Text className="mr-2 rounded-full bg-purple-100 px-2 py-1 text-xs text-purple-700">
+              ↻ {describeRecurrence(task.recurrence)}
+            </Text>
+          )}
+          {taskTags.map((tag) => (
+            <Text
+              key={tag.id}
+              className="mr-2 rounded-full bg-gray-200 px-2 py-1 text-xs text-gray-700">
+              #{tag.name}
+            </Text>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
@@ -0,0 +1,144 @@
+/**
+ * RecurrenceEditor - Form control for choosing how a task repeats
+ * Features: Daily, weekly on chosen weekdays, monthly on day N, every N days
+ */
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity } from 'react-native';
+import { RecurrenceRule } from '@/types';
+import { WEEKDAY_LABELS } from '@/utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+// ==================== CONSTANTS ====================
+
+const recurrenceOptions: { type: RecurrenceRule['type'] | 'none'; label: string }[] = [
+  { type: 'none', label: 'Never' },
+  { type: 'daily', label: 'Daily' },
+  { type: 'weekly', label: 'Weekly' },
+  { type: 'monthly', label: 'Monthly' },
+  { type: 'interval', label: 'Every N days' },
+];
+
+/**
+ * Returns the default rule for a recurrence type
+ */
+const getDefaultRule = (type: RecurrenceRule['type']): RecurrenceRule => {
+  switch (type) {
+    case 'daily':
+      return { type: 'daily' };
+    case 'weekly':
+      return { type: 'weekly', weekdays: [new Date().getDay()] };
+    case 'monthly':
+      return { type: 'monthly', day: new Date().getDate() };
+    case 'interval':
+      return { type: 'interval', days: 2 };
+  }
+};
+
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange }) => {
+  const selectedType = value?.type ?? 'none';
+
+  // ==================== EVENT HANDLERS ====================
+
+  /**
+   * Switches the recurrence type, resetting its parameters
+   */
+  const handleTypeSelect = (type: RecurrenceRule['type'] | 'none') => {
+    onChange(type === 'none' ? null : getDefaultRule(type));
+  };
+
+  /**
+   * Adds or removes a weekday from a weekly rule
+   */
+  const handleWeekdayToggle = (weekday: number) => {
+    if (value?.type !== 'weekly') return;
+
+    const weekdays = value.weekdays.includes(weekday)
+      ? value.weekdays.filter((day) => day !== weekday)
+      : [...value.weekdays, weekday].sort((a, b) => a - b);
+    onChange({ ...value, weekdays });
+  };
+
+  /**
+   * Parses numeric input, keeping the field editable while empty
+   */
+  const handleNumberChange = (text: string) => {
+    const parsed = parseInt(text.replace(/[^0-9]/g, ''), 10);
+    const numericValue = isNaN(parsed) ? 0 : parsed;
+
+    if (value?.type === 'monthly') onChange({ ...value, day: numericValue });
+    if (value?.type === 'interval') onChange({ ...value, days: numericValue });
+  };
+
+  const numericValue =
+    value?.type === 'monthly' ? value.day : value?.type === 'interval' ? value.days : 0;
+
+  return (
+    <View>
+      <View className="flex-row flex-wrap">
+        {recurrenceOptions.map((option) => (
+          <TouchableOpacity
+            key={option.type}
+            onPress={() => handleTypeSelect(option.type)}
+            className={`mb-2 mr-2 rounded-full border px-4 py-2 ${
+              selectedType === option.type
+                ? 'border-transparent bg-blue-500'
+                : 'border-gray-300 bg-white'
+            }`}>
+            <Text
+              className={`text-sm font-medium ${
+                selectedType === option.type ? 'text-white' : 'text-gray-700'
+              }`}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {value?.type === 'weekly' && (
+        <View className="mt-1 flex-row flex-wrap">
+          {WEEKDAY_LABELS.map((label, weekday) => {
+            const isSelected = value.weekdays.includes(weekday);
+            return (
+              <TouchableOpacity
+                key={label}
+                onPress={() => handleWeekdayToggle(weekday)}
+                className={`mb-2 mr-1 w-11 items-center rounded-full border py-2 ${
+                  isSelected ? 'border-transparent bg-blue-500' : 'border-gray-300 bg-white'
+                }`}>
+                <Text
+                  className={`text-xs font-medium ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+                  {label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {(value?.type === 'monthly' || value?.type === 'interval') && (
+        <View className="mt-1 flex-row items-center">
+          <Text className="mr-2 text-sm text-gray-700">
+            {value.type === 'monthly' ? 'On day' : 'Every'}
+          </Text>
+          <TextInput
+            value={numericValue ? String(numericValue) : ''}
+            onChangeText={handleNumberChange}
+            keyboardType="numeric"
+            maxLength={3}
+            className="w-16 rounded-xl border-2 border-gray-200 bg-white px-3 py-2 text-center text-base text-gray-800 focus:border-blue-500"
+          />
+          {value.type === 'interval' && <Text className="ml-2 text-sm text-gray-700">days</Text>}
+          {value.type === 'monthly' && (
+            <Text className="ml-2 flex-1 text-xs text-gray-500">
+              Short months use their last day
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
@@ -1,6 +1,6 @@
 /**
  * SearchBar - Reusable search input component
- * Features: Loading indicator, clear button, customizable styling
+ * Features: Loading indicator, clear button, inline error message, customizable styling
  */
 import React from 'react';
 import { View, TextInput, TouchableOpacity, Text, ActivityIndicator } from 'react-native';
@@ -11,6 +11,8 @@ interface SearchBarProps {
   placeholder?: string;
   isLoading?: boolean;
   onClear?: () => void;
+  /** Shown below the input, e.g. when the query cannot be parsed */
+  error?: string;
   className?: string;
 }
 
@@ -20,6 +22,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   placeholder = 'Search...',
   isLoading = false,
   onClear,
+  error,
   className = '',
 }) => {
   return (
@@ -30,7 +33,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
           onChangeText={onChangeText}
           placeholder={placeholder}
           placeholderTextColor="#6B7280"
-          className={`bg-gray-100 border-2 border-gray-300 rounded-2xl px-5 py-4 text-base text-gray-800 shadow-md focus:border-gray-400 focus:shadow-lg focus:bg-white transition-all duration-200 ${className}`}
+          className={`bg-gray-100 border-2 ${error ? 'border-red-400' : 'border-gray-300'} rounded-2xl px-5 py-4 text-base text-gray-800 shadow-md focus:border-gray-400 focus:shadow-lg focus:bg-white transition-all duration-200 ${className}`}
           style={{
             paddingRight: (isLoading || (value.length > 0 && onClear)) ? 50 : 20,
           }}
@@ -49,6 +52,11 @@ export const SearchBar: React.FC<SearchBarProps> = ({
           </TouchableOpacity>
         )}
       </View>
+      {error && (
+        <Text className="text-red-600 text-sm mt-2 ml-2" accessibilityRole="alert">
+          {error}
+        </Text>
+      )}
     </View>
   );
 };
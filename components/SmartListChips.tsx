@@ -0,0 +1,47 @@
+/**
+ * SmartListChips - Row of saved smart lists shown above the regular lists
+ * Features: Scrolls horizontally, opens a smart list on press, edit or delete on long press,
+ * chip to save a new smart list
+ */
+import React from 'react';
+import { View, Text, ScrollView, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SmartList } from '@/types';
+
+interface SmartListChipsProps {
+  smartLists: SmartList[];
+  onSelect: (smartList: SmartList) => void;
+  onLongPress: (smartList: SmartList) => void;
+  onCreate: () => void;
+}
+
+export const SmartListChips: React.FC<SmartListChipsProps> = ({
+  smartLists,
+  onSelect,
+  onLongPress,
+  onCreate,
+}) => (
+  <View className="mb-4">
+    <Text className="mb-2 text-sm font-medium text-gray-700">Smart Lists</Text>
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {smartLists.map((smartList) => (
+        <TouchableOpacity
+          key={smartList.id}
+          onPress={() => onSelect(smartList)}
+          onLongPress={() => onLongPress(smartList)}
+          accessibilityHint="Long press to edit or delete"
+          className="mr-2 flex-row items-center rounded-full border border-gray-300 bg-white px-4 py-2">
+          <Ionicons name="funnel-outline" size={14} color="#2563EB" />
+          <Text className="ml-1 text-sm font-medium text-gray-700">{smartList.name}</Text>
+        </TouchableOpacity>
+      ))}
+      <TouchableOpacity
+        onPress={onCreate}
+        accessibilityLabel="New smart list"
+        className="flex-row items-center rounded-full border border-dashed border-blue-400 px-4 py-2">
+        <Ionicons name="add" size={14} color="#2563EB" />
+        <Text className="ml-1 text-sm font-medium text-blue-600">New smart list</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  </View>
+);
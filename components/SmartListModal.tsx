@@ -0,0 +1,194 @@
+/**
+ * SmartListModal - Modal component for saving and editing smart lists
+ * Features: Name and search inputs, status, priority, due range and tag pickers, list scope
+ */
+import React from 'react';
+import { View, Text, TextInput, Modal, ScrollView, TouchableOpacity } from 'react-native';
+import { Button } from './Button';
+import { List, SmartListCriteria, Tag } from '@/types';
+import { Priority } from '@/types/common';
+import { DUE_RANGES, DUE_RANGE_LABELS } from '@/utils/smart-lists';
+import { TASK_STATUSES, TASK_WORKFLOW } from '@/utils/task-status';
+
+export interface SmartListFormData {
+  name: string;
+  criteria: SmartListCriteria;
+}
+
+export const emptySmartListForm: SmartListFormData = { name: '', criteria: {} };
+
+interface SmartListModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: () => void;
+  value: SmartListFormData;
+  onChange: (value: SmartListFormData) => void;
+  lists: List[];
+  tags?: Tag[];
+  isLoading?: boolean;
+  title?: string;
+  submitTitle?: string;
+}
+
+const PRIORITY_OPTIONS: Priority[] = ['high', 'medium', 'low'];
+
+export const SmartListModal: React.FC<SmartListModalProps> = ({
+  visible,
+  onClose,
+  onSubmit,
+  value,
+  onChange,
+  lists,
+  tags = [],
+  isLoading = false,
+  title = 'New Smart List',
+  submitTitle = 'Save',
+}) => {
+  const { criteria } = value;
+  const listIds = criteria.list_ids ?? [];
+
+  /**
+   * Sets or clears a single criterion
+   */
+  const updateCriterion = <K extends keyof SmartListCriteria>(
+    field: K,
+    fieldValue: SmartListCriteria[K]
+  ) => {
+    const { [field]: _, ...rest } = criteria;
+    onChange({
+      ...value,
+      criteria: fieldValue === undefined ? rest : { ...rest, [field]: fieldValue },
+    });
+  };
+
+  /**
+   * Adds a list to the scope or removes it; an empty scope covers all lists
+   */
+  const toggleList = (listId: number) => {
+    const next = listIds.includes(listId)
+      ? listIds.filter((id) => id !== listId)
+      : [...listIds, listId];
+    updateCriterion('list_ids', next.length > 0 ? next : undefined);
+  };
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      onPress={onPress}
+      accessibilityState={{ selected: isSelected }}
+      className={`mb-2 mr-2 rounded-full border px-4 py-2 ${
+        isSelected ? 'border-blue-500 bg-blue-500' : 'border-gray-300 bg-white'
+      }`}>
+      <Text className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View className="flex-1 items-center justify-center bg-black/50">
+        <View className="max-h-[90%] w-11/12 max-w-sm rounded-lg bg-white p-6">
+          <Text className="mb-4 text-center text-xl font-bold">{title}</Text>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <TextInput
+              value={value.name}
+              onChangeText={(name) => onChange({ ...value, name })}
+              placeholder="Smart list name"
+              placeholderTextColor="#9CA3AF"
+              className="mb-4 rounded-xl border-2 border-gray-200 bg-white px-4 py-3 text-base text-gray-800 shadow-sm focus:border-blue-500 focus:shadow-md"
+              returnKeyType="done"
+              autoFocus
+            />
+
+            {/* Search text, in the same query language as the task search */}
+            <TextInput
+              value={criteria.search ?? ''}
+              onChangeText={(search) => updateCriterion('search', search || undefined)}
+              placeholder="Search (optional), e.g. report due:<7d"
+              placeholderTextColor="#9CA3AF"
+              autoCapitalize="none"
+              className="mb-4 rounded-xl border-2 border-gray-200 bg-white px-4 py-3 text-base text-gray-800 shadow-sm focus:border-blue-500 focus:shadow-md"
+            />
+
+            {/* Status */}
+            <Text className="mb-2 text-sm font-medium text-gray-700">Status</Text>
+            <View className="mb-3 flex-row flex-wrap">
+              {renderChip('Any', !criteria.status, () => updateCriterion('status', undefined))}
+              {TASK_STATUSES.map((status) =>
+                renderChip(TASK_WORKFLOW[status].label, criteria.status === status, () =>
+                  updateCriterion('status', status)
+                )
+              )}
+            </View>
+
+            {/* Priority */}
+            <Text className="mb-2 text-sm font-medium text-gray-700">Priority</Text>
+            <View className="mb-3 flex-row flex-wrap">
+              {renderChip('Any', !criteria.priority, () => updateCriterion('priority', undefined))}
+              {PRIORITY_OPTIONS.map((priority) =>
+                renderChip(
+                  priority.charAt(0).toUpperCase() + priority.slice(1),
+                  criteria.priority === priority,
+                  () => updateCriterion('priority', priority)
+                )
+              )}
+            </View>
+
+            {/* Due range */}
+            <Text className="mb-2 text-sm font-medium text-gray-700">Due</Text>
+            <View className="mb-3 flex-row flex-wrap">
+              {renderChip('Any time', !criteria.due_range, () =>
+                updateCriterion('due_range', undefined)
+              )}
+              {DUE_RANGES.map((range) =>
+                renderChip(DUE_RANGE_LABELS[range], criteria.due_range === range, () =>
+                  updateCriterion('due_range', range)
+                )
+              )}
+            </View>
+
+            {/* Tag */}
+            {tags.length > 0 && (
+              <>
+                <Text className="mb-2 text-sm font-medium text-gray-700">Tag</Text>
+                <View className="mb-3 flex-row flex-wrap">
+                  {renderChip('Any', criteria.tag_id === undefined, () =>
+                    updateCriterion('tag_id', undefined)
+                  )}
+                  {tags.map((tag) =>
+                    renderChip(`#${tag.name}`, criteria.tag_id === tag.id, () =>
+                      updateCriterion('tag_id', tag.id)
+                    )
+                  )}
+                </View>
+              </>
+            )}
+
+            {/* List scope */}
+            <Text className="mb-2 text-sm font-medium text-gray-700">Lists</Text>
+            <View className="mb-4 flex-row flex-wrap">
+              {renderChip('All lists', listIds.length === 0, () =>
+                updateCriterion('list_ids', undefined)
+              )}
+              {lists.map((list) =>
+                renderChip(list.name, listIds.includes(list.id), () => toggleList(list.id))
+              )}
+            </View>
+          </ScrollView>
+
+          <View className="flex-row">
+            <Button title="Cancel" onPress={onClose} className="mr-3 flex-1 bg-gray-500" />
+            <Button
+              title={submitTitle}
+              onPress={onSubmit}
+              loading={isLoading}
+              className="flex-1 bg-blue-500"
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
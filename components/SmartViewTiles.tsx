@@ -0,0 +1,49 @@
+/**
+ * SmartViewTiles - Entry points to the cross-list smart views
+ * Features: One tile per view with its icon and live count of open tasks
+ */
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SMART_VIEWS, SMART_VIEW_IDS, SmartViewId } from '@/utils/smart-views';
+
+interface SmartViewTilesProps {
+  /** Open task count of each view; counts are hidden until they are known */
+  counts?: Record<SmartViewId, number>;
+  onSelect: (view: SmartViewId) => void;
+}
+
+export const SmartViewTiles = ({ counts, onSelect }: SmartViewTilesProps) => (
+  <View className="mb-4 flex-row flex-wrap justify-between">
+    {SMART_VIEW_IDS.map((id) => {
+      const view = SMART_VIEWS[id];
+      const count = counts?.[id];
+
+      return (
+        <TouchableOpacity
+          key={id}
+          onPress={() => onSelect(id)}
+          accessibilityLabel={
+            count === undefined
+              ? view.label
+              : `${view.label}, ${count} task${count === 1 ? '' : 's'}`
+          }
+          activeOpacity={0.7}
+          className="mb-2 w-[49%] flex-row items-center rounded-2xl border border-gray-200 bg-white p-3 shadow-sm">
+          <Ionicons name={view.icon as any} size={20} color={view.color} />
+          <Text className="ml-2 flex-1 text-sm font-medium text-gray-800" numberOfLines={1}>
+            {view.label}
+          </Text>
+          {count !== undefined && (
+            <Text
+              className={`text-base font-semibold ${
+                id === 'overdue' && count > 0 ? 'text-red-600' : 'text-gray-500'
+              }`}>
+              {count}
+            </Text>
+          )}
+        </TouchableOpacity>
+      );
+    })}
+  </View>
+);
@@ -0,0 +1,61 @@
+/**
+ * SortPicker - Row of sort options for tasks or lists
+ * Features: Highlights the chosen order, arrow for its direction, reverses it when picked again
+ */
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SortParams } from '@/types/common';
+import { SortOption, getNextSort, isManualSort } from '@/utils/sorting';
+
+interface SortPickerProps<F extends string> {
+  options: SortOption<F>[];
+  value: SortParams<F>;
+  onChange: (sort: SortParams<F>) => void;
+  label?: string;
+}
+
+export const SortPicker = <F extends string>({
+  options,
+  value,
+  onChange,
+  label = 'Sort by:',
+}: SortPickerProps<F>) => (
+  <>
+    <Text className="mb-2 text-sm font-medium text-gray-700">{label}</Text>
+    <View className="mb-3 flex-row flex-wrap">
+      {options.map((option) => {
+        const isSelected = value.field === option.field;
+        const showDirection = isSelected && !isManualSort(value);
+        return (
+          <TouchableOpacity
+            key={option.field}
+            onPress={() => onChange(getNextSort(value, option))}
+            accessibilityLabel={
+              showDirection
+                ? `Sort by ${option.label.toLowerCase()}, ${
+                    value.direction === 'asc' ? 'ascending' : 'descending'
+                  }`
+                : `Sort by ${option.label.toLowerCase()}`
+            }
+            accessibilityState={{ selected: isSelected }}
+            className={`mb-2 mr-2 flex-row items-center rounded-full border px-3 py-2 ${
+              isSelected ? 'border-blue-500 bg-blue-500' : 'border-gray-300 bg-white'
+            }`}>
+            <Text className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+              {option.label}
+            </Text>
+            {showDirection && (
+              <Ionicons
+                name={value.direction === 'asc' ? 'arrow-up' : 'arrow-down'}
+                size={14}
+                color="#FFFFFF"
+                style={{ marginLeft: 4 }}
+              />
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  </>
+);
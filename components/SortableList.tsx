@@ -0,0 +1,191 @@
+/**
+ * SortableList - FlatList whose rows can be dragged into a new order
+ * Features: Drag handle per row, animated shifting of the other rows, haptic feedback,
+ * scrolling locked while a row is dragged
+ */
+import React, { useEffect, useState } from 'react';
+import { FlatList, FlatListProps, Text, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, {
+  SharedValue,
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from 'react-native-reanimated';
+import { useHapticFeedback } from '@/utils/haptics';
+
+interface SortableListProps<T> extends Omit<FlatListProps<T>, 'data' | 'renderItem'> {
+  data: T[];
+  /** Renders a row; place `dragHandle` where the user should grab the row */
+  renderItem: (info: { item: T; index: number; dragHandle: React.ReactNode }) => React.ReactElement;
+  /** Called when a row is dropped at a different index */
+  onReorder: (item: T, toIndex: number) => void;
+  /** Hides the drag handles, e.g. while the list is filtered */
+  sortEnabled?: boolean;
+}
+
+interface DragState {
+  activeIndex: SharedValue<number>;
+  hoverIndex: SharedValue<number>;
+  dragY: SharedValue<number>;
+  heights: SharedValue<number[]>;
+  itemCount: SharedValue<number>;
+}
+
+/**
+ * Finds the index under the centre of the dragged row
+ */
+const getHoverIndex = (heights: number[], itemCount: number, from: number, dragY: number) => {
+  'worklet';
+  let offset = 0;
+  for (let i = 0; i < from; i++) offset += heights[i] ?? 0;
+  const centre = offset + (heights[from] ?? 0) / 2 + dragY;
+
+  let top = 0;
+  for (let i = 0; i < itemCount; i++) {
+    top += heights[i] ?? 0;
+    if (centre < top) return i;
+  }
+  return itemCount - 1;
+};
+
+interface SortableRowProps {
+  index: number;
+  drag: DragState;
+  sortEnabled: boolean;
+  onDragStart: () => void;
+  onDrop: (from: number, to: number) => void;
+  children: (dragHandle: React.ReactNode) => React.ReactElement;
+}
+
+const SortableRow = ({
+  index,
+  drag,
+  sortEnabled,
+  onDragStart,
+  onDrop,
+  children,
+}: SortableRowProps) => {
+  const { activeIndex, hoverIndex, dragY, heights, itemCount } = drag;
+
+  const pan = Gesture.Pan()
+    .enabled(sortEnabled)
+    .onStart(() => {
+      activeIndex.value = index;
+      hoverIndex.value = index;
+      dragY.value = 0;
+      runOnJS(onDragStart)();
+    })
+    .onUpdate((event) => {
+      dragY.value = event.translationY;
+      hoverIndex.value = getHoverIndex(heights.value, itemCount.value, index, event.translationY);
+    })
+    .onFinalize(() => {
+      if (activeIndex.value !== index) return;
+      const to = hoverIndex.value;
+      activeIndex.value = -1;
+      hoverIndex.value = -1;
+      dragY.value = 0;
+      runOnJS(onDrop)(index, to);
+    });
+
+  const animatedStyle = useAnimatedStyle(() => {
+    const active = activeIndex.value;
+    if (active === -1) return { zIndex: 0, opacity: 1, transform: [{ translateY: 0 }] };
+    if (active === index) {
+      return { zIndex: 10, opacity: 0.9, transform: [{ translateY: dragY.value }] };
+    }
+
+    // Rows between the dragged row's origin and its hover index make room for it
+    const activeHeight = heights.value[active] ?? 0;
+    let shift = 0;
+    if (active < index && index <= hoverIndex.value) shift = -activeHeight;
+    if (hoverIndex.value <= index && index < active) shift = activeHeight;
+    return {
+      zIndex: 0,
+      opacity: 1,
+      transform: [{ translateY: withTiming(shift, { duration: 150 }) }],
+    };
+  });
+
+  const dragHandle = sortEnabled ? (
+    <GestureDetector gesture={pan}>
+      <View
+        className="justify-center px-2 py-3"
+        accessibilityRole="adjustable"
+        accessibilityLabel="Drag to reorder">
+        <Text className="text-xl text-gray-400">≡</Text>
+      </View>
+    </GestureDetector>
+  ) : null;
+
+  return (
+    <Animated.View
+      style={animatedStyle}
+      onLayout={(event) => {
+        const next = [...heights.value];
+        next[index] = event.nativeEvent.layout.height;
+        heights.value = next;
+      }}>
+      {children(dragHandle)}
+    </Animated.View>
+  );
+};
+
+export const SortableList = <T,>({
+  data,
+  renderItem,
+  onReorder,
+  sortEnabled = true,
+  ...flatListProps
+}: SortableListProps<T>) => {
+  //  HOOKS
+
+  const haptics = useHapticFeedback();
+  const [isDragging, setIsDragging] = useState(false);
+
+  const drag: DragState = {
+    activeIndex: useSharedValue(-1),
+    hoverIndex: useSharedValue(-1),
+    dragY: useSharedValue(0),
+    heights: useSharedValue<number[]>([]),
+    itemCount: useSharedValue(data.length),
+  };
+
+  useEffect(() => {
+    drag.itemCount.value = data.length;
+  }, [data.length, drag.itemCount]);
+
+  //  EVENT HANDLERS
+
+  const handleDragStart = () => {
+    haptics.onDragStart();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (from: number, to: number) => {
+    setIsDragging(false);
+    if (from !== to && data[from]) onReorder(data[from], to);
+  };
+
+  //  RENDER
+
+  return (
+    <FlatList
+      {...flatListProps}
+      data={data}
+      scrollEnabled={!isDragging && flatListProps.scrollEnabled !== false}
+      renderItem={({ item, index }) => (
+        <SortableRow
+          index={index}
+          drag={drag}
+          sortEnabled={sortEnabled}
+          onDragStart={handleDragStart}
+          onDrop={handleDrop}>
+          {(dragHandle) => renderItem({ item, index, dragHandle })}
+        </SortableRow>
+      )}
+    />
+  );
+};
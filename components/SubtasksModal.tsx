@@ -0,0 +1,188 @@
+/**
+ * SubtasksModal - Checklist editor for the subtasks of a task
+ * Features: Add, toggle, delete items, optional auto-completion of the parent task
+ */
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { Button } from './Button';
+import { TaskCheckbox } from './TaskCheckbox';
+import {
+  useSubtasks,
+  useCreateSubtask,
+  useToggleSubtaskCompletion,
+  useDeleteSubtask,
+} from '@/hooks';
+import { useUIStore } from '@/store/store';
+import { Subtask, Task } from '@/types';
+import { toastMessages } from '@/utils/toast';
+import { useHapticFeedback } from '@/utils/haptics';
+
+interface SubtasksModalProps {
+  task: Task | null;
+  onClose: () => void;
+}
+
+export const SubtasksModal: React.FC<SubtasksModalProps> = ({ task, onClose }) => {
+  //  STATE MANAGEMENT
+
+  const [newSubtaskName, setNewSubtaskName] = useState('');
+  const { autoCompleteParentTask, setAutoCompleteParentTask } = useUIStore();
+  const haptics = useHapticFeedback();
+
+  //  DATA FETCHING
+
+  const taskId = task?.id ?? 0;
+  const { data: subtasks = [], isLoading } = useSubtasks(taskId);
+
+  //  MUTATIONS
+
+  const createSubtaskMutation = useCreateSubtask();
+  const toggleSubtaskMutation = useToggleSubtaskCompletion();
+  const deleteSubtaskMutation = useDeleteSubtask();
+
+  const completedCount = subtasks.filter((subtask) => subtask.is_completed).length;
+
+  //  EVENT HANDLERS
+
+  /**
+   * Adds a new checklist item to the task
+   */
+  const handleAddSubtask = () => {
+    const name = newSubtaskName.trim();
+    if (!task || !name) return;
+
+    createSubtaskMutation.mutate(
+      { name, task_id: task.id },
+      {
+        onError: (err) => {
+          toastMessages.error('Failed to add checklist item. Please try again.');
+          console.error('Error creating subtask:', err);
+        },
+      }
+    );
+    setNewSubtaskName('');
+  };
+
+  /**
+   * Toggles a checklist item, completing the parent when enabled
+   */
+  const handleToggleSubtask = (subtask: Subtask) => {
+    if (!task) return;
+
+    haptics.onToggle();
+    toggleSubtaskMutation.mutate(
+      {
+        id: subtask.id,
+        taskId: task.id,
+        isCompleted: !subtask.is_completed,
+        completeParent: autoCompleteParentTask,
+      },
+      {
+        onSuccess: ({ parentCompleted }) => {
+          if (parentCompleted) toastMessages.taskCompleted();
+        },
+        onError: (err) => {
+          toastMessages.error('Failed to update checklist item. Please try again.');
+          console.error('Error toggling subtask:', err);
+        },
+      }
+    );
+  };
+
+  /**
+   * Removes a checklist item
+   */
+  const handleDeleteSubtask = (subtask: Subtask) => {
+    if (!task) return;
+
+    haptics.onDelete();
+    deleteSubtaskMutation.mutate(
+      { id: subtask.id, taskId: task.id },
+      {
+        onError: (err) => {
+          toastMessages.error('Failed to delete checklist item. Please try again.');
+          console.error('Error deleting subtask:', err);
+        },
+      }
+    );
+  };
+
+  const handleClose = () => {
+    setNewSubtaskName('');
+    onClose();
+  };
+
+  return (
+    <Modal visible={!!task} transparent animationType="slide" onRequestClose={handleClose}>
+      <View className="flex-1 items-center justify-center bg-black/50">
+        <View className="max-h-[90%] w-11/12 max-w-md rounded-lg bg-white p-6">
+          <Text className="mb-1 text-center text-xl font-bold">{task?.name}</Text>
+          <Text className="mb-4 text-center text-sm text-gray-500">
+            Checklist {completedCount}/{subtasks.length}
+          </Text>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {isLoading ? (
+              <ActivityIndicator size="small" color="#10b981" />
+            ) : (
+              subtasks.map((subtask) => (
+                <TouchableOpacity
+                  key={subtask.id}
+                  onPress={() => handleToggleSubtask(subtask)}
+                  onLongPress={() => handleDeleteSubtask(subtask)}
+                  className="flex-row items-center py-2"
+                  activeOpacity={0.7}>
+                  <TaskCheckbox isCompleted={!!subtask.is_completed} size="small" />
+                  <Text
+                    className={`flex-1 text-base ${
+                      subtask.is_completed ? 'text-gray-400 line-through' : 'text-gray-800'
+                    }`}>
+                    {subtask.name}
+                  </Text>
+                </TouchableOpacity>
+              ))
+            )}
+
+            <View className="mt-3 flex-row items-center">
+              <TextInput
+                value={newSubtaskName}
+                onChangeText={setNewSubtaskName}
+                onSubmitEditing={handleAddSubtask}
+                placeholder="Add checklist item"
+                placeholderTextColor="#9CA3AF"
+                returnKeyType="done"
+                className="flex-1 rounded-xl border-2 border-gray-200 bg-white px-4 py-3 text-base text-gray-800 focus:border-blue-500"
+              />
+            </View>
+
+            <View className="mb-2 mt-4 flex-row items-center justify-between">
+              <Text className="mr-3 flex-1 text-sm text-gray-700">
+                Complete the task when every item is done
+              </Text>
+              <Switch value={autoCompleteParentTask} onValueChange={setAutoCompleteParentTask} />
+            </View>
+          </ScrollView>
+
+          <View className="mt-4 flex-row">
+            <Button title="Close" onPress={handleClose} className="mr-3 flex-1 bg-gray-500" />
+            <Button
+              title="Add"
+              onPress={handleAddSubtask}
+              disabled={!newSubtaskName.trim()}
+              className="flex-1 bg-blue-500"
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
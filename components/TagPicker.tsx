@@ -0,0 +1,118 @@
+/**
+ * TagPicker - Chip selector for attaching tags to a task
+ * Features: Multi-select chips, inline tag creation
+ */
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useTags, useCreateTag } from '@/hooks';
+import { toastMessages } from '@/utils/toast';
+import { CreateTagSchema } from '@/validation/schemas';
+import { validateWithAlert } from '@/validation/utils';
+
+interface TagPickerProps {
+  selectedTagIds: number[];
+  onChange: (tagIds: number[]) => void;
+}
+
+export const TagPicker: React.FC<TagPickerProps> = ({ selectedTagIds, onChange }) => {
+  //  STATE MANAGEMENT
+
+  const [newTagName, setNewTagName] = useState('');
+  const { data: tags = [], isLoading } = useTags();
+  const createTagMutation = useCreateTag();
+
+  //  EVENT HANDLERS
+
+  /**
+   * Selects or deselects a tag
+   */
+  const handleToggleTag = (tagId: number) => {
+    onChange(
+      selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter((id) => id !== tagId)
+        : [...selectedTagIds, tagId]
+    );
+  };
+
+  /**
+   * Creates a tag, or selects the existing one with the same name
+   */
+  const handleAddTag = () => {
+    if (!newTagName.trim()) return;
+
+    const validatedData = validateWithAlert(
+      CreateTagSchema,
+      { name: newTagName.trim().toLowerCase() },
+      'Tag Validation Error'
+    );
+    if (!validatedData) return;
+
+    const { name } = validatedData;
+
+    const existingTag = tags.find((tag) => tag.name.toLowerCase() === name);
+    if (existingTag) {
+      if (!selectedTagIds.includes(existingTag.id)) {
+        onChange([...selectedTagIds, existingTag.id]);
+      }
+      setNewTagName('');
+      return;
+    }
+
+    createTagMutation.mutate(name, {
+      onSuccess: (createdTag) => {
+        onChange([...selectedTagIds, createdTag.id]);
+      },
+      onError: (err) => {
+        toastMessages.error('Failed to create tag. Please try again.');
+        console.error('Error creating tag:', err);
+      },
+    });
+    setNewTagName('');
+  };
+
+  return (
+    <View>
+      {isLoading ? (
+        <ActivityIndicator size="small" color="#10b981" />
+      ) : (
+        <View className="flex-row flex-wrap">
+          {tags.map((tag) => {
+            const isSelected = selectedTagIds.includes(tag.id);
+            return (
+              <TouchableOpacity
+                key={tag.id}
+                onPress={() => handleToggleTag(tag.id)}
+                className={`mb-2 mr-2 rounded-full border px-3 py-1 ${
+                  isSelected ? 'border-purple-500 bg-purple-500' : 'border-gray-300 bg-white'
+                }`}>
+                <Text
+                  className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+                  #{tag.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <View className="flex-row items-center">
+        <TextInput
+          value={newTagName}
+          onChangeText={setNewTagName}
+          onSubmitEditing={handleAddTag}
+          placeholder="New tag"
+          placeholderTextColor="#9CA3AF"
+          autoCapitalize="none"
+          returnKeyType="done"
+          className="flex-1 rounded-xl border-2 border-gray-200 bg-white px-4 py-2 text-base text-gray-800 focus:border-blue-500"
+        />
+        <TouchableOpacity
+          onPress={handleAddTag}
+          disabled={!newTagName.trim() || createTagMutation.isPending}
+          className="ml-2 rounded-xl bg-purple-500 px-4 py-2">
+          <Text className="font-medium text-white">Add</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
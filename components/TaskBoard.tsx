@@ -0,0 +1,191 @@
+/**
+ * TaskBoard - Kanban board with one column per task status
+ * Features: Card counts, optional work-in-progress limits with a warning when exceeded,
+ * moving cards to the neighbouring columns the workflow allows, opening a card
+ */
+import React, { useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity } from 'react-native';
+import { Task, Priority } from '@/types';
+import { TaskStatus } from '@/types/common';
+import { TASK_STATUSES, TASK_WORKFLOW } from '@/utils/task-status';
+import { getAdjacentStatus, groupTasksByStatus, isOverWipLimit } from '@/utils/board';
+import { TaskPriorityBadge } from './TaskPriorityBadge';
+
+interface TaskBoardProps {
+  tasks: Task[];
+  /** Called when a card is moved to another column */
+  onStatusChange: (task: Task, status: TaskStatus) => void;
+  onOpenTask?: (task: Task) => void;
+  wipLimits: Partial<Record<TaskStatus, number>>;
+  /** Sets a column's limit, or removes it with null */
+  onWipLimitChange: (status: TaskStatus, limit: number | null) => void;
+}
+
+interface BoardCardProps {
+  task: Task;
+  status: TaskStatus;
+  onStatusChange: (task: Task, status: TaskStatus) => void;
+  onOpen?: (task: Task) => void;
+}
+
+/**
+ * Card of a single task with arrows to the neighbouring columns
+ */
+const BoardCard = ({ task, status, onStatusChange, onOpen }: BoardCardProps) => {
+  const previous = getAdjacentStatus(status, -1);
+  const next = getAdjacentStatus(status, 1);
+
+  const renderArrow = (target: TaskStatus | null, symbol: string) => (
+    <TouchableOpacity
+      onPress={() => target && onStatusChange(task, target)}
+      disabled={!target}
+      accessibilityLabel={
+        target ? `Move ${task.name} to ${TASK_WORKFLOW[target].label}` : undefined
+      }
+      className={`rounded-lg border border-gray-200 px-3 py-1 ${target ? '' : 'opacity-30'}`}>
+      <Text className="text-base text-gray-600">{symbol}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View className="mb-2 rounded-xl border border-gray-200 bg-white p-3 shadow-sm">
+      <TouchableOpacity onPress={() => onOpen?.(task)} disabled={!onOpen} activeOpacity={0.7}>
+        <Text
+          className={`text-base font-medium ${
+            task.is_completed ? 'text-green-700 line-through' : 'text-gray-800'
+          }`}
+          numberOfLines={2}>
+          {task.name}
+        </Text>
+        <View className="mt-2 flex-row items-center">
+          <TaskPriorityBadge priority={(task.priority ?? 'medium') as Priority} />
+          {task.due_date && (
+            <Text className="ml-2 text-xs text-gray-500">
+              Due: {new Date(task.due_date).toLocaleDateString()}
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+      <View className="mt-2 flex-row justify-between">
+        {renderArrow(previous, '‹')}
+        {renderArrow(next, '›')}
+      </View>
+    </View>
+  );
+};
+
+export const TaskBoard: React.FC<TaskBoardProps> = ({
+  tasks,
+  onStatusChange,
+  onOpenTask,
+  wipLimits,
+  onWipLimitChange,
+}) => {
+  // ==================== STATE MANAGEMENT ====================
+
+  // Column whose work-in-progress limit is being edited
+  const [editingLimit, setEditingLimit] = useState<TaskStatus | null>(null);
+
+  const columns = groupTasksByStatus(tasks);
+
+  // ==================== EVENT HANDLERS ====================
+
+  /**
+   * Raises or lowers a column's limit; the first raise starts from the current card count
+   */
+  const changeLimit = (status: TaskStatus, delta: 1 | -1) => {
+    const limit = wipLimits[status];
+    if (limit === undefined) {
+      onWipLimitChange(status, Math.max(columns[status].length, 1));
+      return;
+    }
+    onWipLimitChange(status, Math.max(limit + delta, 1));
+  };
+
+  // ==================== RENDER ====================
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} className="flex-1">
+      {TASK_STATUSES.map((status) => {
+        const option = TASK_WORKFLOW[status];
+        const cards = columns[status];
+        const limit = wipLimits[status];
+        const isOverLimit = isOverWipLimit(cards.length, limit);
+        const isEditing = editingLimit === status;
+
+        return (
+          <View
+            key={status}
+            className={`mr-3 w-72 rounded-2xl border p-3 ${
+              isOverLimit ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-gray-50'
+            }`}>
+            <View className="mb-2 flex-row items-center">
+              <View className={`mr-2 h-3 w-3 rounded-full ${option.color}`} />
+              <Text className="flex-1 text-base font-semibold text-gray-800">{option.label}</Text>
+              <Text
+                className={`mr-2 text-sm font-medium ${
+                  isOverLimit ? 'text-red-600' : 'text-gray-500'
+                }`}>
+                {limit === undefined ? cards.length : `${cards.length}/${limit}`}
+              </Text>
+              <TouchableOpacity
+                onPress={() => setEditingLimit(isEditing ? null : status)}
+                accessibilityLabel={`WIP limit for ${option.label}`}
+                className="rounded-full border border-gray-300 bg-white px-2 py-1">
+                <Text className="text-xs text-gray-600">WIP</Text>
+              </TouchableOpacity>
+            </View>
+
+            {isEditing && (
+              <View className="mb-2 flex-row items-center">
+                <TouchableOpacity
+                  onPress={() => changeLimit(status, -1)}
+                  disabled={limit === undefined}
+                  className={`mr-2 rounded-full border border-gray-300 bg-white px-3 py-1 ${
+                    limit === undefined ? 'opacity-50' : ''
+                  }`}>
+                  <Text className="text-sm text-gray-700">−</Text>
+                </TouchableOpacity>
+                <Text className="mr-2 text-sm text-gray-700">
+                  {limit === undefined ? 'No limit' : `Limit ${limit}`}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => changeLimit(status, 1)}
+                  className="mr-2 rounded-full border border-gray-300 bg-white px-3 py-1">
+                  <Text className="text-sm text-gray-700">+</Text>
+                </TouchableOpacity>
+                {limit !== undefined && (
+                  <TouchableOpacity onPress={() => onWipLimitChange(status, null)}>
+                    <Text className="text-sm font-medium text-blue-600">Remove</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
+            {isOverLimit && (
+              <Text className="mb-2 text-xs font-medium text-red-600">
+                Over the WIP limit of {limit}
+              </Text>
+            )}
+
+            <ScrollView showsVerticalScrollIndicator={false}>
+              {cards.length === 0 ? (
+                <Text className="py-4 text-center text-sm text-gray-400">No tasks</Text>
+              ) : (
+                cards.map((task) => (
+                  <BoardCard
+                    key={task.id}
+                    task={task}
+                    status={status}
+                    onStatusChange={onStatusChange}
+                    onOpen={onOpenTask}
+                  />
+                ))
+              )}
+            </ScrollView>
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+};
@@ -0,0 +1,236 @@
+/**
+ * TaskCalendar - Month or week grid of due dates with the tasks of the selected day
+ * Features: Dot and task count per day, today and selected day highlights, dragging a task
+ * by its handle onto another day to reschedule it, haptic feedback
+ */
+import React, { useRef } from 'react';
+import { FlatList, Text, TouchableOpacity, View } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, {
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from 'react-native-reanimated';
+import { Task, Priority } from '@/types';
+import { DayLayout, findDayAtPoint, getDueDay } from '@/utils/calendar';
+import { WEEKDAY_LABELS } from '@/utils/recurrence';
+import { useHapticFeedback } from '@/utils/haptics';
+import { TaskPriorityBadge } from './TaskPriorityBadge';
+
+interface TaskCalendarProps {
+  /** Days to show as rows of weeks, see `getCalendarWeeks` */
+  weeks: string[][];
+  /** `YYYY-MM` of the month shown; days of other months are dimmed */
+  month?: string;
+  /** Tasks due on the days shown, grouped by day */
+  tasksByDay: Record<string, Task[]>;
+  today: string;
+  selectedDay: string;
+  onSelectDay: (day: string) => void;
+  /** Called when a task is dropped on another day */
+  onReschedule: (task: Task, day: string) => void;
+  onOpenTask?: (task: Task) => void;
+}
+
+interface CalendarTaskRowProps {
+  task: Task;
+  onDragStart: () => void;
+  onDrop: (task: Task, x: number, y: number) => void;
+  onOpen?: (task: Task) => void;
+}
+
+/**
+ * Task of the selected day; the handle drags it over the grid
+ */
+const CalendarTaskRow = ({ task, onDragStart, onDrop, onOpen }: CalendarTaskRowProps) => {
+  const isDragging = useSharedValue(false);
+  const dragX = useSharedValue(0);
+  const dragY = useSharedValue(0);
+
+  const pan = Gesture.Pan()
+    .onStart(() => {
+      isDragging.value = true;
+      runOnJS(onDragStart)();
+    })
+    .onUpdate((event) => {
+      dragX.value = event.translationX;
+      dragY.value = event.translationY;
+    })
+    .onEnd((event) => {
+      runOnJS(onDrop)(task, event.absoluteX, event.absoluteY);
+    })
+    .onFinalize(() => {
+      isDragging.value = false;
+      dragX.value = withTiming(0, { duration: 150 });
+      dragY.value = withTiming(0, { duration: 150 });
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    zIndex: isDragging.value ? 10 : 0,
+    opacity: isDragging.value ? 0.9 : 1,
+    transform: [{ translateX: dragX.value }, { translateY: dragY.value }],
+  }));
+
+  return (
+    <Animated.View
+      style={animatedStyle}
+      className="mb-2 flex-row items-center rounded-xl border border-gray-200 bg-white shadow-sm">
+      <GestureDetector gesture={pan}>
+        <View
+          className="justify-center px-3 py-3"
+          accessibilityRole="adjustable"
+          accessibilityLabel={`Drag ${task.name} to another day`}>
+          <Text className="text-xl text-gray-400">≡</Text>
+        </View>
+      </GestureDetector>
+      <TouchableOpacity
+        onPress={() => onOpen?.(task)}
+        disabled={!onOpen}
+        activeOpacity={0.7}
+        className="flex-1 py-3 pr-3">
+        <Text
+          className={`text-base font-medium ${
+            task.is_completed ? 'text-green-700 line-through' : 'text-gray-800'
+          }`}
+          numberOfLines={2}>
+          {task.name}
+        </Text>
+        <View className="mt-1 flex-row items-center">
+          <TaskPriorityBadge priority={(task.priority ?? 'medium') as Priority} />
+          {task.due_date && task.due_date.length > 10 && (
+            <Text className="ml-2 text-xs text-gray-500">{task.due_date.slice(11, 16)}</Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
+
+export const TaskCalendar: React.FC<TaskCalendarProps> = ({
+  weeks,
+  month,
+  tasksByDay,
+  today,
+  selectedDay,
+  onSelectDay,
+  onReschedule,
+  onOpenTask,
+}) => {
+  // ==================== HOOKS ====================
+
+  const haptics = useHapticFeedback();
+
+  // Day cells and their on-screen positions, measured again whenever a drag starts
+  const cellRefs = useRef<Record<string, View | null>>({});
+  const cellLayouts = useRef<Record<string, DayLayout>>({});
+
+  const selectedTasks = tasksByDay[selectedDay] ?? [];
+
+  // ==================== EVENT HANDLERS ====================
+
+  const measureCell = (day: string) => {
+    cellRefs.current[day]?.measureInWindow((x, y, width, height) => {
+      cellLayouts.current[day] = { day, x, y, width, height };
+    });
+  };
+
+  const handleDragStart = () => {
+    haptics.onDragStart();
+    cellLayouts.current = {};
+    weeks.flat().forEach(measureCell);
+  };
+
+  /**
+   * Reschedules the task when it is dropped on a day other than its own
+   */
+  const handleDrop = (task: Task, x: number, y: number) => {
+    const day = findDayAtPoint(Object.values(cellLayouts.current), x, y);
+    if (!day || !task.due_date || day === getDueDay(task.due_date)) return;
+    haptics.onSuccess();
+    onReschedule(task, day);
+  };
+
+  // ==================== RENDER ====================
+
+  return (
+    <View className="flex-1">
+      <View className="rounded-2xl border border-gray-200 bg-white p-2">
+        <View className="mb-1 flex-row">
+          {WEEKDAY_LABELS.map((label) => (
+            <Text key={label} className="flex-1 text-center text-xs font-medium text-gray-500">
+              {label}
+            </Text>
+          ))}
+        </View>
+        {weeks.map((week) => (
+          <View key={week[0]} className="flex-row">
+            {week.map((day) => {
+              const count = tasksByDay[day]?.length ?? 0;
+              const isSelected = day === selectedDay;
+              const isOtherMonth = !!month && !day.startsWith(month);
+
+              return (
+                <TouchableOpacity
+                  key={day}
+                  ref={(ref) => {
+                    cellRefs.current[day] = ref;
+                  }}
+                  onLayout={() => measureCell(day)}
+                  onPress={() => onSelectDay(day)}
+                  accessibilityLabel={`${day}, ${count} task${count === 1 ? '' : 's'}`}
+                  accessibilityState={{ selected: isSelected }}
+                  className={`m-0.5 h-14 flex-1 items-center justify-center rounded-lg ${
+                    isSelected ? 'bg-blue-500' : day === today ? 'bg-blue-50' : ''
+                  } ${isOtherMonth ? 'opacity-40' : ''}`}>
+                  <Text
+                    className={`text-sm font-medium ${
+                      isSelected ? 'text-white' : day === today ? 'text-blue-600' : 'text-gray-800'
+                    }`}>
+                    {Number(day.slice(8, 10))}
+                  </Text>
+                  {count > 0 && (
+                    <View className="mt-1 flex-row items-center">
+                      <View
+                        className={`mr-1 h-1.5 w-1.5 rounded-full ${
+                          isSelected ? 'bg-white' : 'bg-blue-500'
+                        }`}
+                      />
+                      <Text className={`text-xs ${isSelected ? 'text-white' : 'text-gray-500'}`}>
+                        {count}
+                      </Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+
+      <Text className="mb-2 mt-4 text-base font-semibold text-gray-800">
+        {new Date(`${selectedDay}T00:00:00`).toLocaleDateString(undefined, {
+          weekday: 'long',
+          month: 'long',
+          day: 'numeric',
+        })}
+      </Text>
+      <FlatList
+        data={selectedTasks}
+        keyExtractor={(task) => task.id.toString()}
+        renderItem={({ item }) => (
+          <CalendarTaskRow
+            task={item}
+            onDragStart={handleDragStart}
+            onDrop={handleDrop}
+            onOpen={onOpenTask}
+          />
+        )}
+        ListEmptyComponent={
+          <Text className="py-4 text-center text-sm text-gray-400">Nothing due this day</Text>
+        }
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+};
@@ -1,16 +1,25 @@
 /**
- * TaskFilter - Filter component for tasks by status and priority
- * Features: Status filtering, priority filtering, visual indicators
+ * TaskFilter - Filter and sort component for tasks by status, priority and tag
+ * Features: Status filtering, priority filtering, tag filtering, sort order, visual indicators
  */
 import React from 'react';
 import { View, Text, TouchableOpacity } from 'react-native';
-import { Priority } from '@/types';
+import { SortPicker } from './SortPicker';
+import { Priority, Tag } from '@/types';
+import { SortParams, TaskSortField } from '@/types/common';
+import { TASK_SORT_OPTIONS } from '@/utils/sorting';
+import { TASK_STATUSES, TASK_WORKFLOW } from '@/utils/task-status';
 
 interface TaskFilterProps {
   statusFilter: string;
   priorityFilter: string;
   onStatusFilter: (status: string) => void;
   onPriorityFilter: (priority: string) => void;
+  tags?: Tag[];
+  tagFilter?: number | 'all';
+  onTagFilter?: (tagId: number | 'all') => void;
+  sort?: SortParams<TaskSortField>;
+  onSortChange?: (sort: SortParams<TaskSortField>) => void;
 }
 
 export const TaskFilter: React.FC<TaskFilterProps> = ({
@@ -18,10 +27,15 @@ export const TaskFilter: React.FC<TaskFilterProps> = ({
   priorityFilter,
   onStatusFilter,
   onPriorityFilter,
+  tags = [],
+  tagFilter = 'all',
+  onTagFilter,
+  sort,
+  onSortChange,
 }) => {
   //  CONSTANTS 
   
-  const statusOptions = ['all', 'pending', 'in_progress', 'completed'];
+  const statusOptions = ['all', ...TASK_STATUSES] as const;
   const priorityOptions: (Priority | 'all')[] = ['all', 'low', 'medium', 'high'];
 
   //  HELPER FUNCTIONS 
@@ -73,9 +87,7 @@ export const TaskFilter: React.FC<TaskFilterProps> = ({
             <Text className={`text-sm font-medium ${
               statusFilter === status ? 'text-white' : 'text-gray-700'
             }`}>
-              {status === 'all' ? 'All' : 
-               status === 'in_progress' ? 'In Progress' :
-               status.charAt(0).toUpperCase() + status.slice(1)}
+              {status === 'all' ? 'All' : TASK_WORKFLOW[status].label}
             </Text>
           </TouchableOpacity>
         ))}
@@ -96,6 +108,39 @@ export const TaskFilter: React.FC<TaskFilterProps> = ({
           </TouchableOpacity>
         ))}
       </View>
+
+      {/* Tag Filter */}
+      {onTagFilter && tags.length > 0 && (
+        <>
+          <Text className="text-sm font-medium text-gray-700 mb-2">Filter by Tag:</Text>
+          <View className="flex-row flex-wrap mb-3">
+            {(['all', ...tags.map((tag) => tag.id)] as (number | 'all')[]).map((tagId) => {
+              const tag = tags.find((t) => t.id === tagId);
+              const isSelected = tagFilter === tagId;
+              return (
+                <TouchableOpacity
+                  key={tagId}
+                  onPress={() => onTagFilter(tagId)}
+                  className={`px-3 py-2 rounded-full mr-2 mb-2 border ${
+                    isSelected ? 'bg-purple-500 border-purple-500' : 'bg-white border-gray-300'
+                  }`}
+                >
+                  <Text className={`text-sm font-medium ${
+                    isSelected ? 'text-white' : 'text-gray-700'
+                  }`}>
+                    {tag ? `#${tag.name}` : 'All'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
+
+      {/* Sort Order */}
+      {sort && onSortChange && (
+        <SortPicker options={TASK_SORT_OPTIONS} value={sort} onChange={onSortChange} />
+      )}
     </View>
   );
 };
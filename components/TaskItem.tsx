@@ -1,22 +1,40 @@
 /**
  * TaskItem - Individual task display component
- * Features: Toggle completion, status change, delete, haptic feedback
+ * Features: Toggle completion, status change, delete, subtask progress, haptic feedback,
+ * optional drag handle for manual ordering, highlighted search matches, edit shortcut,
+ * move or copy to another list, selection for batch actions
  */
 import React from 'react';
 import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
-import { Task, Priority } from '@/types';
+import { Task, Priority, SubtaskProgress, SearchHighlights, TaskStatus } from '@/types';
 import { TaskCheckbox } from './TaskCheckbox';
+import { HighlightedText } from './HighlightedText';
 import { TaskPriorityBadge } from './TaskPriorityBadge';
 import { TaskStatusSelector } from './TaskStatusSelector';
 import { useHapticFeedback } from '@/utils/haptics';
+import { describeRecurrence } from '@/utils/recurrence';
+import { canTransition, getTaskStatus, getToggledStatus } from '@/utils/task-status';
 
 interface TaskItemProps {
-  task: Task;
+  /** Search results also carry the highlighted name and description snippet */
+  task: Task & Partial<SearchHighlights>;
   onToggle: (task: Task) => void;
   onDelete: (task: Task) => void;
-  onStatusChange?: (task: Task, newStatus: string) => void;
+  onStatusChange?: (task: Task, newStatus: TaskStatus) => void;
+  onOpenSubtasks?: (task: Task) => void;
+  onOpen?: (task: Task) => void;
+  onMove?: (task: Task) => void;
+  /** Replaces deleting on long-press, e.g. to start selecting tasks */
+  onLongPress?: (task: Task) => void;
+  /** While selecting, pressing the task selects it instead of completing it */
+  isSelecting?: boolean;
+  isSelected?: boolean;
+  onSelect?: (task: Task) => void;
+  subtaskProgress?: SubtaskProgress;
   isDeleting?: boolean;
   isProcessing?: boolean;
+  /** Drag handle supplied by a sortable list */
+  dragHandle?: React.ReactNode;
 }
 
 export const TaskItem = ({ 
@@ -24,31 +42,35 @@ export const TaskItem = ({
   onToggle, 
   onDelete, 
   onStatusChange, 
+  onOpenSubtasks,
+  onOpen,
+  onMove,
+  onLongPress,
+  isSelecting = false,
+  isSelected = false,
+  onSelect,
+  subtaskProgress,
   isDeleting = false, 
-  isProcessing = false 
+  isProcessing = false,
+  dragHandle,
 }: TaskItemProps) => {
   //  HOOKS 
   
   const haptics = useHapticFeedback();
 
+  const status = getTaskStatus(task);
+  // Blocked and cancelled tasks have to change status before they can be completed
+  const canToggle = canTransition(status, getToggledStatus(!task.is_completed));
+
   //  EVENT HANDLERS 
   
   /**
-   * Handles task completion toggle with status update
+   * Handles task completion toggle; the status follows the completion
    */
   const handleToggle = () => {
-    if (isDeleting || isProcessing) return;
+    if (isDeleting || isProcessing || !canToggle) return;
     
     haptics.onToggle();
-    
-    // Update status based on completion state
-    if (!task.is_completed && onStatusChange) {
-      onStatusChange(task, 'completed');
-    } else if (task.is_completed && onStatusChange) {
-      onStatusChange(task, 'pending');
-    }
-    
-    // Toggle completion status
     onToggle(task);
   };
 
@@ -62,76 +84,186 @@ export const TaskItem = ({
     onDelete(task);
   };
 
+  /**
+   * Selects or deselects the task while selecting
+   */
+  const handleSelect = () => {
+    if (isDeleting || !onSelect) return;
+    
+    haptics.onToggle();
+    onSelect(task);
+  };
+
+  /**
+   * Runs the long-press action, which deletes the task unless another one is given
+   */
+  const handleLongPress = () => {
+    if (isDeleting) return;
+    if (!onLongPress) {
+      handleDelete();
+      return;
+    }
+    
+    haptics.onToggle();
+    onLongPress(task);
+  };
+
   /**
    * Handles status change with haptic feedback
    */
-  const handleStatusChange = (newStatus: string) => {
+  const handleStatusChange = (newStatus: TaskStatus) => {
     if (!onStatusChange) return;
     
     haptics.onToggle();
     onStatusChange(task, newStatus);
   };
 
+  /**
+   * Opens the checklist of the task
+   */
+  const handleOpenSubtasks = () => {
+    if (!onOpenSubtasks || isDeleting) return;
+    
+    onOpenSubtasks(task);
+  };
+
+  /**
+   * Opens the detail screen of the task
+   */
+  const handleOpen = () => {
+    if (!onOpen || isDeleting) return;
+    
+    onOpen(task);
+  };
+
+  /**
+   * Opens the list picker to move or copy the task
+   */
+  const handleMove = () => {
+    if (!onMove || isDeleting) return;
+    
+    onMove(task);
+  };
+
+  const hasSubtasks = !!subtaskProgress && subtaskProgress.total > 0;
+  const allSubtasksDone = hasSubtasks && subtaskProgress.completed === subtaskProgress.total;
+
   return (
     <View className={`p-4 mb-3 rounded-2xl border ${
-      task.is_completed 
+      isSelected
+        ? 'bg-blue-50 border-blue-500 shadow-sm'
+        : task.is_completed 
         ? 'bg-green-100 border-green-300 shadow-sm' 
         : 'bg-white border-gray-200 shadow-sm'
     } ${isDeleting ? 'opacity-75' : ''} ${isProcessing ? 'opacity-70' : ''} active:scale-98 transition-transform`}>
-      <TouchableOpacity
-        onPress={handleToggle}
-        onLongPress={handleDelete}
-        className="flex-row items-center"
-        disabled={isDeleting || isProcessing}
-        activeOpacity={0.7}
-      >
-        <TaskCheckbox
-          isCompleted={task.is_completed}
-          isProcessing={isProcessing}
-        />
-            <View className="flex-1">
-              <Text className={`text-lg font-medium ${
-                task.is_completed ? 'line-through text-green-700' : 'text-gray-800'
-              }`}>
-                {task.name}
-              </Text>
-              {task.description && (
-                <Text className={`text-sm mt-1 ${
-                  task.is_completed ? 'line-through text-green-600' : 'text-gray-600'
-                }`}>
-                  {task.description}
-                </Text>
-              )}
-          
-          <View className="flex-row items-center justify-between mt-2">
-            <View className="flex-row items-center">
-              <TaskPriorityBadge priority={task.priority} />
-              {task.due_date && (
-                <Text className={`text-xs ml-2 ${
-                  task.is_completed ? 'line-through text-green-500' : 'text-gray-500'
-                }`}>
-                  Due: {new Date(task.due_date).toLocaleDateString()}
-                </Text>
-              )}
+      <View className="flex-row items-center">
+        <TouchableOpacity
+          onPress={isSelecting ? handleSelect : handleToggle}
+          onLongPress={isSelecting ? undefined : handleLongPress}
+          className="flex-1 flex-row items-center"
+          disabled={isDeleting || isProcessing}
+          activeOpacity={0.7}
+          accessibilityState={isSelecting ? { selected: isSelected } : undefined}
+        >
+          {isSelecting ? (
+            <View
+              className={`w-6 h-6 rounded-md border-2 mr-3 items-center justify-center ${
+                isSelected ? 'bg-blue-500 border-blue-500' : 'bg-white border-gray-300'
+              }`}
+            >
+              {isSelected && <Text className="text-white text-sm">✓</Text>}
             </View>
-            
-                <View className="flex-row items-center">
-                  <TaskStatusSelector
-                    currentStatus={task.status || 'pending'}
-                    onStatusChange={handleStatusChange}
-                    disabled={isDeleting || isProcessing}
-                    isLoading={false}
+          ) : (
+            <TaskCheckbox
+              isCompleted={task.is_completed}
+              isProcessing={isProcessing}
+            />
+          )}
+              <View className="flex-1">
+                <HighlightedText
+                  text={task.name_highlight ?? task.name}
+                  className={`text-lg font-medium ${
+                    task.is_completed ? 'line-through text-green-700' : 'text-gray-800'
+                  }`}
+                />
+                {task.description && (
+                  <HighlightedText
+                    text={task.description_snippet ?? task.description}
+                    className={`text-sm mt-1 ${
+                      task.is_completed ? 'line-through text-green-600' : 'text-gray-600'
+                    }`}
                   />
-                  {isDeleting && (
-                    <View className="flex-row items-center ml-2">
-                      <ActivityIndicator size="small" color="#10b981" />
-                      <Text className="text-xs text-green-500 ml-1">Deleting...</Text>
-                    </View>
-                  )}
-                </View>
+                )}
+          
+            <View className="flex-row items-center justify-between mt-2">
+              <View className="flex-row items-center">
+                <TaskPriorityBadge priority={task.priority} />
+                {task.due_date && (
+                  <Text className={`text-xs ml-2 ${
+                    task.is_completed ? 'line-through text-green-500' : 'text-gray-500'
+                  }`}>
+                    Due: {new Date(task.due_date).toLocaleDateString()}
+                  </Text>
+                )}
+                {task.recurrence && (
+                  <Text className="text-xs ml-2 text-blue-600">
+                    ↻ {describeRecurrence(task.recurrence)}
+                  </Text>
+                )}
+                {(hasSubtasks || onOpenSubtasks) && !isSelecting && (
+                  <TouchableOpacity
+                    onPress={handleOpenSubtasks}
+                    disabled={!onOpenSubtasks || isDeleting}
+                    className={`flex-row items-center ml-2 px-2 py-1 rounded-full border ${
+                      allSubtasksDone ? 'bg-green-50 border-green-300' : 'bg-gray-50 border-gray-200'
+                    }`}
+                  >
+                    <Text className={`text-xs ${allSubtasksDone ? 'text-green-700' : 'text-gray-600'}`}>
+                      {hasSubtasks ? `☑ ${subtaskProgress.completed}/${subtaskProgress.total}` : '☐ Checklist'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                {onOpen && !isSelecting && (
+                  <TouchableOpacity
+                    onPress={handleOpen}
+                    disabled={isDeleting}
+                    accessibilityLabel={`Edit ${task.name}`}
+                    className="flex-row items-center ml-2 px-2 py-1 rounded-full border bg-gray-50 border-gray-200"
+                  >
+                    <Text className="text-xs text-gray-600">✎ Edit</Text>
+                  </TouchableOpacity>
+                )}
+                {onMove && !isSelecting && (
+                  <TouchableOpacity
+                    onPress={handleMove}
+                    disabled={isDeleting}
+                    accessibilityLabel={`Move ${task.name}`}
+                    className="flex-row items-center ml-2 px-2 py-1 rounded-full border bg-gray-50 border-gray-200"
+                  >
+                    <Text className="text-xs text-gray-600">⇄ Move</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            
+                  <View className="flex-row items-center">
+                    <TaskStatusSelector
+                      currentStatus={status}
+                      onStatusChange={handleStatusChange}
+                      disabled={isDeleting || isProcessing || isSelecting}
+                      isLoading={false}
+                    />
+                    {isDeleting && (
+                      <View className="flex-row items-center ml-2">
+                        <ActivityIndicator size="small" color="#10b981" />
+                        <Text className="text-xs text-green-500 ml-1">Deleting...</Text>
+                      </View>
+                    )}
+                  </View>
+            </View>
           </View>
-        </View>
-      </TouchableOpacity>
+        </TouchableOpacity>
+        {dragHandle}
+      </View>
     </View>
   );
 };
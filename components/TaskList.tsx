@@ -1,17 +1,35 @@
 /**
  * TaskList - List component for displaying tasks
- * Features: Pull-to-refresh, empty states, loading states, task management
+ * Features: Pull-to-refresh, empty states, loading states, task management, drag-to-reorder,
+ * multi-select with batch actions, sections by status, priority, due date or completion that
+ * can be collapsed
  */
-import React from 'react';
-import { View, Text, FlatList, RefreshControl, ActivityIndicator } from 'react-native';
-import { Task } from '@/types';
+import React, { useMemo } from 'react';
+import {
+  View,
+  Text,
+  RefreshControl,
+  ActivityIndicator,
+  SectionList,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Task, SubtaskProgress } from '@/types';
+import { Priority, TaskStatus } from '@/types/common';
+import { TaskGroupBy, TaskSection, groupTasks } from '@/utils/task-groups';
 import { TaskItem } from './TaskItem';
+import { SortableList } from './SortableList';
+import { BulkActionBar } from './BulkActionBar';
 
 interface TaskListProps {
   tasks: Task[];
   onToggleTask: (task: Task) => void;
   onDeleteTask: (task: Task) => void;
-  onStatusChange?: (task: Task, newStatus: string) => void;
+  onStatusChange?: (task: Task, newStatus: TaskStatus) => void;
+  onOpenSubtasks?: (task: Task) => void;
+  onOpenTask?: (task: Task) => void;
+  onMoveTask?: (task: Task) => void;
+  subtaskProgress?: Record<number, SubtaskProgress>;
   isRefreshing?: boolean;
   onRefresh?: () => void;
   emptyMessage?: string;
@@ -19,6 +37,25 @@ interface TaskListProps {
   isSearchingOrFiltering?: boolean;
   searchOrFilterMessage?: string;
   deletingTaskId?: number | null;
+  onReorderTask?: (task: Task, toIndex: number) => void;
+  /** Manual ordering only makes sense on the full, unfiltered list */
+  isReorderEnabled?: boolean;
+  /** Called near the end of the list, e.g. to load the next page */
+  onEndReached?: () => void;
+  /** IDs of the selected tasks while selecting, null otherwise */
+  selectedTaskIds?: number[] | null;
+  /** Enables selecting tasks, which starts with a long-press */
+  onSelectionChange?: (taskIds: number[] | null) => void;
+  onBatchComplete?: (tasks: Task[]) => void;
+  onBatchStatusChange?: (tasks: Task[], status: TaskStatus) => void;
+  onBatchPriorityChange?: (tasks: Task[], priority: Priority) => void;
+  onBatchMove?: (tasks: Task[]) => void;
+  onBatchDelete?: (tasks: Task[]) => void;
+  /** Splits the tasks into sections; tasks can only be dragged in the flat list */
+  groupBy?: TaskGroupBy;
+  /** Keys of the sections that only show their header */
+  collapsedSections?: string[];
+  onToggleSection?: (sectionKey: string) => void;
 }
 
 export const TaskList: React.FC<TaskListProps> = ({
@@ -26,6 +63,10 @@ export const TaskList: React.FC<TaskListProps> = ({
   onToggleTask,
   onDeleteTask,
   onStatusChange,
+  onOpenSubtasks,
+  onOpenTask,
+  onMoveTask,
+  subtaskProgress,
   isRefreshing = false,
   onRefresh,
   emptyMessage = 'No tasks found',
@@ -33,23 +74,110 @@ export const TaskList: React.FC<TaskListProps> = ({
   isSearchingOrFiltering = false,
   searchOrFilterMessage = 'Searching tasks...',
   deletingTaskId = null,
+  onReorderTask,
+  isReorderEnabled = false,
+  onEndReached,
+  selectedTaskIds = null,
+  onSelectionChange,
+  onBatchComplete,
+  onBatchStatusChange,
+  onBatchPriorityChange,
+  onBatchMove,
+  onBatchDelete,
+  groupBy = 'none',
+  collapsedSections = [],
+  onToggleSection,
 }) => {
+  // ==================== SELECTION ====================
+
+  const isSelecting = !!onSelectionChange && selectedTaskIds !== null;
+  const selectedIds = new Set(selectedTaskIds ?? []);
+  const selectedTasks = tasks.filter((task) => selectedIds.has(task.id));
+
+  /**
+   * Starts selecting with the long-pressed task
+   */
+  const handleStartSelection = (task: Task) => {
+    onSelectionChange?.([task.id]);
+  };
+
+  /**
+   * Adds the task to the selection or takes it out
+   */
+  const handleSelectTask = (task: Task) => {
+    onSelectionChange?.(
+      selectedIds.has(task.id)
+        ? [...selectedIds].filter((id) => id !== task.id)
+        : [...selectedIds, task.id]
+    );
+  };
+
+  // ==================== SECTIONS ====================
+
+  const sections = useMemo(
+    () => (groupBy === 'none' ? [] : groupTasks(tasks, groupBy)),
+    [tasks, groupBy]
+  );
+
+  // Collapsed sections keep their header and count but leave out their tasks
+  const visibleSections = sections.map((section) => ({
+    ...section,
+    count: section.data.length,
+    data: collapsedSections.includes(section.key) ? [] : section.data,
+  }));
+
   // ==================== RENDER FUNCTIONS ====================
   
   /**
    * Renders individual task items
    */
-  const renderTask = ({ item }: { item: Task }) => (
+  const renderTask = ({ item, dragHandle }: { item: Task; dragHandle?: React.ReactNode }) => (
     <TaskItem
       task={item}
       onToggle={onToggleTask}
       onDelete={onDeleteTask}
       onStatusChange={onStatusChange}
+      onOpenSubtasks={onOpenSubtasks}
+      onOpen={onOpenTask}
+      onMove={onMoveTask}
+      onLongPress={onSelectionChange ? handleStartSelection : undefined}
+      isSelecting={isSelecting}
+      isSelected={selectedIds.has(item.id)}
+      onSelect={handleSelectTask}
+      subtaskProgress={subtaskProgress?.[item.id]}
       isDeleting={deletingTaskId === item.id}
       isProcessing={false}
+      dragHandle={dragHandle}
     />
   );
 
+  /**
+   * Renders a section header that collapses or expands its section
+   */
+  const renderSectionHeader = ({ section }: { section: TaskSection & { count: number } }) => {
+    const isCollapsed = collapsedSections.includes(section.key);
+    return (
+      <TouchableOpacity
+        onPress={() => onToggleSection?.(section.key)}
+        disabled={!onToggleSection}
+        accessibilityRole="button"
+        accessibilityLabel={`${section.title}, ${section.count} task${section.count === 1 ? '' : 's'}`}
+        accessibilityState={{ expanded: !isCollapsed }}
+        className="flex-row items-center bg-gray-50 py-2 mb-2"
+      >
+        <Ionicons
+          name={isCollapsed ? 'chevron-forward' : 'chevron-down'}
+          size={16}
+          color="#6B7280"
+        />
+        <Text className="ml-1 flex-1 text-sm font-semibold text-gray-700">{section.title}</Text>
+        <View className="rounded-full bg-gray-200 px-2 py-0.5">
+          <Text className="text-xs font-medium text-gray-600">{section.count}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
   /**
    * Renders empty state when no tasks are found
    */
@@ -70,6 +198,16 @@ export const TaskList: React.FC<TaskListProps> = ({
     </View>
   );
 
+  // Pull-to-refresh of both the flat and the sectioned list
+  const refreshControl = onRefresh ? (
+    <RefreshControl
+      refreshing={isRefreshing}
+      onRefresh={onRefresh}
+      colors={['#10b981']}
+      tintColor="#10b981"
+    />
+  ) : undefined;
+
   // ==================== RENDER CONDITIONS ====================
   
   if (tasks.length === 0 && !isSearchingOrFiltering) {
@@ -81,22 +219,48 @@ export const TaskList: React.FC<TaskListProps> = ({
   }
 
   return (
-    <FlatList
-      data={tasks}
-      renderItem={renderTask}
-      keyExtractor={(item) => item.id.toString()}
-      showsVerticalScrollIndicator={false}
-      contentContainerStyle={{ paddingBottom: 20 }}
-      refreshControl={
-        onRefresh ? (
-          <RefreshControl
-            refreshing={isRefreshing}
-            onRefresh={onRefresh}
-            colors={['#10b981']}
-            tintColor="#10b981"
-          />
-        ) : undefined
-      }
-    />
+    <View className="flex-1">
+      {isSelecting && (
+        <BulkActionBar
+          selectedCount={selectedTasks.length}
+          totalCount={tasks.length}
+          onSelectAll={() => onSelectionChange?.(tasks.map((task) => task.id))}
+          onDeselectAll={() => onSelectionChange?.([])}
+          onDone={() => onSelectionChange?.(null)}
+          onComplete={() => onBatchComplete?.(selectedTasks)}
+          onStatusChange={(status) => onBatchStatusChange?.(selectedTasks, status)}
+          onPriorityChange={(priority) => onBatchPriorityChange?.(selectedTasks, priority)}
+          onMove={onBatchMove && (() => onBatchMove(selectedTasks))}
+          onDelete={() => onBatchDelete?.(selectedTasks)}
+        />
+      )}
+      {groupBy !== 'none' ? (
+        <SectionList
+          sections={visibleSections}
+          renderItem={renderTask}
+          renderSectionHeader={renderSectionHeader}
+          keyExtractor={(item) => item.id.toString()}
+          stickySectionHeadersEnabled
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: 20 }}
+          onEndReached={onEndReached}
+          onEndReachedThreshold={0.5}
+          refreshControl={refreshControl}
+        />
+      ) : (
+        <SortableList
+          data={tasks}
+          renderItem={renderTask}
+          onReorder={(task, toIndex) => onReorderTask?.(task, toIndex)}
+          sortEnabled={isReorderEnabled && !!onReorderTask && !isSelecting}
+          keyExtractor={(item) => item.id.toString()}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={{ paddingBottom: 20 }}
+          onEndReached={onEndReached}
+          onEndReachedThreshold={0.5}
+          refreshControl={refreshControl}
+        />
+      )}
+    </View>
   );
 };
@@ -1,26 +1,21 @@
 /**
  * TaskStatusSelector - Dropdown component for selecting task status
- * Features: Modal dropdown, visual indicators, loading states
+ * Features: Modal dropdown, visual indicators, loading states, only the statuses the
+ * workflow allows from the current one
  */
 import React, { useState } from 'react';
 import { View, Text, TouchableOpacity, Modal, ActivityIndicator } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { TaskStatus } from '@/types/common';
+import { TASK_WORKFLOW, getAvailableStatuses } from '@/utils/task-status';
 
 interface TaskStatusSelectorProps {
-  currentStatus: string;
-  onStatusChange: (status: string) => void;
+  currentStatus: TaskStatus;
+  onStatusChange: (status: TaskStatus) => void;
   disabled?: boolean;
   isLoading?: boolean;
 }
 
-// ==================== CONSTANTS ====================
-
-const statusOptions = [
-  { value: 'pending', label: 'Pending', color: 'bg-gray-500', icon: 'time-outline' },
-  { value: 'in_progress', label: 'In Progress', color: 'bg-blue-500', icon: 'play-outline' },
-  { value: 'completed', label: 'Completed', color: 'bg-green-500', icon: 'checkmark-circle-outline' },
-];
-
 export const TaskStatusSelector: React.FC<TaskStatusSelectorProps> = ({
   currentStatus,
   onStatusChange,
@@ -33,16 +28,20 @@ export const TaskStatusSelector: React.FC<TaskStatusSelectorProps> = ({
 
   // ==================== COMPUTED VALUES ====================
   
-  const currentOption = statusOptions.find(option => option.value === currentStatus) || statusOptions[0];
+  const currentOption = TASK_WORKFLOW[currentStatus];
+  const statusOptions = getAvailableStatuses(currentStatus).map((status) => ({
+    value: status,
+    ...TASK_WORKFLOW[status],
+  }));
 
   // ==================== EVENT HANDLERS ====================
   
   /**
    * Handles status selection and closes modal
    */
-  const handleStatusSelect = (status: string) => {
-    onStatusChange(status);
+  const handleStatusSelect = (status: TaskStatus) => {
     setIsOpen(false);
+    if (status !== currentStatus) onStatusChange(status);
   };
 
   return (
@@ -0,0 +1,74 @@
+/**
+ * TrashItem - A deleted list or task in the trash
+ * Features: Deletion age, days left before purge, restore and delete-forever actions
+ */
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+
+interface TrashItemProps {
+  title: string;
+  /** Secondary line, e.g. the kind of item */
+  subtitle?: string;
+  deletedAt: string;
+  retentionDays: number;
+  onRestore: () => void;
+  onDeleteForever: () => void;
+  isBusy?: boolean;
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the number of days until a trashed item is purged
+ */
+const getDaysLeft = (deletedAt: string, retentionDays: number): number => {
+  const elapsed = Date.now() - new Date(deletedAt).getTime();
+  return Math.max(0, Math.ceil(retentionDays - elapsed / DAY_IN_MS));
+};
+
+export const TrashItem = ({
+  title,
+  subtitle,
+  deletedAt,
+  retentionDays,
+  onRestore,
+  onDeleteForever,
+  isBusy = false,
+}: TrashItemProps) => {
+  const daysLeft = getDaysLeft(deletedAt, retentionDays);
+
+  return (
+    <View
+      className={`mb-3 rounded-2xl border border-gray-200 p-4 shadow-sm ${
+        isBusy ? 'bg-gray-100 opacity-75' : 'bg-white'
+      }`}>
+      <Text className="text-lg font-semibold text-gray-800">{title}</Text>
+      {subtitle ? <Text className="mt-1 text-sm text-gray-500">{subtitle}</Text> : null}
+      <Text className="mt-1 text-xs text-gray-400">
+        Deleted {new Date(deletedAt).toLocaleDateString()} ·{' '}
+        {daysLeft === 0
+          ? 'purged on next launch'
+          : `purged in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+      </Text>
+
+      <View className="mt-3 flex-row justify-end">
+        <TouchableOpacity
+          onPress={onRestore}
+          disabled={isBusy}
+          className="mr-2 rounded-xl border-2 border-blue-500 bg-white px-5 py-3 active:scale-95">
+          <Text className="text-sm font-semibold text-blue-600">Restore</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={onDeleteForever}
+          disabled={isBusy}
+          className={`rounded-xl border-2 px-5 py-3 ${
+            isBusy ? 'border-gray-400 bg-gray-400' : 'border-red-500 bg-red-500'
+          } active:scale-95`}>
+          <Text className={`text-sm font-semibold ${isBusy ? 'text-gray-600' : 'text-white'}`}>
+            Delete forever
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
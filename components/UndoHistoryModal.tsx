@@ -0,0 +1,66 @@
+/**
+ * UndoHistoryModal - Recent actions that can still be reverted
+ * Features: Newest first, relative timestamps, revert any entry, clear history
+ */
+import React from 'react';
+import { View, Text, Modal, ScrollView, TouchableOpacity } from 'react-native';
+import { useUndo } from '@/hooks/useUndo';
+import { useUndoStore } from '@/store/undo';
+import { Button } from './Button';
+
+/**
+ * Formats how long ago an action happened
+ */
+const formatElapsed = (createdAt: number): string => {
+  const minutes = Math.floor((Date.now() - createdAt) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+};
+
+export const UndoHistoryModal = () => {
+  const { entries, undo } = useUndo();
+  const { isHistoryOpen, closeHistory, clear } = useUndoStore();
+
+  return (
+    <Modal visible={isHistoryOpen} transparent animationType="slide" onRequestClose={closeHistory}>
+      <View className="flex-1 items-center justify-center bg-black/50">
+        <View className="max-h-[80%] w-11/12 max-w-md rounded-lg bg-white p-6">
+          <Text className="mb-4 text-center text-xl font-bold">Recent Actions</Text>
+
+          {entries.length === 0 ? (
+            <Text className="mb-4 text-center text-base text-gray-500">Nothing to undo</Text>
+          ) : (
+            <ScrollView showsVerticalScrollIndicator={false} className="mb-4">
+              {entries.map((entry) => (
+                <View
+                  key={entry.id}
+                  className="flex-row items-center border-b border-gray-100 py-3">
+                  <View className="mr-3 flex-1">
+                    <Text className="text-base text-gray-800">{entry.label}</Text>
+                    <Text className="text-xs text-gray-400">{formatElapsed(entry.createdAt)}</Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => undo(entry.id)}
+                    className="rounded-lg border-2 border-blue-500 px-4 py-2 active:scale-95">
+                    <Text className="text-sm font-semibold text-blue-600">Undo</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+
+          <View className="flex-row">
+            <Button
+              title="Clear"
+              onPress={clear}
+              disabled={entries.length === 0}
+              className="mr-3 flex-1 bg-gray-500"
+            />
+            <Button title="Close" onPress={closeHistory} className="flex-1 bg-blue-500" />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
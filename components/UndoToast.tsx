@@ -0,0 +1,48 @@
+/**
+ * UndoToast - Success toast with an "Undo" action button
+ * Features: Undo action, long-press opens the undo history
+ */
+import React from 'react';
+import { View, Text, TouchableOpacity } from 'react-native';
+import { ToastConfig, ToastConfigParams } from 'react-native-toast-message';
+import { useUndoStore } from '@/store/undo';
+
+type UndoToastProps = ToastConfigParams<{ onUndo: () => void }>;
+
+export const UndoToast = ({ text1, text2, props, hide }: UndoToastProps) => {
+  const openHistory = useUndoStore((state) => state.openHistory);
+
+  const handleUndo = () => {
+    hide();
+    props.onUndo();
+  };
+
+  const handleLongPress = () => {
+    hide();
+    openHistory();
+  };
+
+  return (
+    <TouchableOpacity
+      onLongPress={handleLongPress}
+      activeOpacity={0.9}
+      className="w-11/12 flex-row items-center rounded-xl border-l-4 border-green-500 bg-white px-4 py-3 shadow-lg">
+      <View className="mr-3 flex-1">
+        <Text className="text-base font-semibold text-gray-800">{text1}</Text>
+        {text2 ? <Text className="text-sm text-gray-500">{text2}</Text> : null}
+      </View>
+      <TouchableOpacity
+        onPress={handleUndo}
+        className="rounded-lg bg-blue-500 px-4 py-2 active:scale-95">
+        <Text className="text-sm font-semibold text-white">Undo</Text>
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+};
+
+/**
+ * Custom toast types, merged with the library's built-in success/error/info types
+ */
+export const toastConfig: ToastConfig = {
+  undo: (params) => <UndoToast {...params} />,
+};
@@ -1,4 +1,6 @@
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, primaryKey } from 'drizzle-orm/sqlite-core';
+
+import type { RecurrenceRule } from '../types/common';
 
 export const tasks = sqliteTable('tasks', {
   id: integer('id').primaryKey({ autoIncrement: true }),
@@ -9,12 +11,15 @@ export const tasks = sqliteTable('tasks', {
   priority: text('priority').default('medium'),
   is_completed: integer('is_completed', { mode: 'boolean' }).default(false),
   due_date: text('due_date'),
+  recurrence: text('recurrence', { mode: 'json' }).$type<RecurrenceRule>(),
+  position: real('position').notNull().default(0),
   created_at: text('created_at')
     .notNull()
     .$defaultFn(() => new Date().toISOString()),
   updated_at: text('updated_at')
     .notNull()
     .$defaultFn(() => new Date().toISOString()),
+  deleted_at: text('deleted_at'),
   list_id: integer('list_id')
     .notNull()
     .references(() => lists.id),
@@ -23,6 +28,80 @@ export const tasks = sqliteTable('tasks', {
 export const lists = sqliteTable('lists', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   name: text('name').notNull(),
+  description: text('description'),
+  color: text('color'),
+  icon: text('icon'),
+  position: real('position').notNull().default(0),
+  created_at: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updated_at: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  deleted_at: text('deleted_at'),
+});
+
+export const subtasks = sqliteTable('subtasks', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  is_completed: integer('is_completed', { mode: 'boolean' }).default(false),
+  created_at: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updated_at: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  task_id: integer('task_id')
+    .notNull()
+    .references(() => tasks.id),
+});
+
+export const tags = sqliteTable('tags', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull().unique(),
+  created_at: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  updated_at: text('updated_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+});
+
+export const taskTags = sqliteTable(
+  'task_tags',
+  {
+    task_id: integer('task_id')
+      .notNull()
+      .references(() => tasks.id),
+    tag_id: integer('tag_id')
+      .notNull()
+      .references(() => tags.id),
+  },
+  (table) => [primaryKey({ columns: [table.task_id, table.tag_id] })]
+);
+
+export const reminders = sqliteTable('reminders', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  offset_minutes: integer('offset_minutes').notNull().default(0),
+  created_at: text('created_at')
+    .notNull()
+    .$defaultFn(() => new Date().toISOString()),
+  task_id: integer('task_id')
+    .notNull()
+    .references(() => tasks.id),
+});
+
+export const smartLists = sqliteTable('smart_lists', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  search: text('search'),
+  status: text('status'),
+  priority: text('priority'),
+  due_range: text('due_range'),
+  tag_id: integer('tag_id').references(() => tags.id),
+  // Lists the smart list is scoped to; null covers every list
+  list_ids: text('list_ids', { mode: 'json' }).$type<number[]>(),
+  position: real('position').notNull().default(0),
   created_at: text('created_at')
     .notNull()
     .$defaultFn(() => new Date().toISOString()),
@@ -0,0 +1,88 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+/**
+ * Version of the full-text search index layout
+ * Bump it whenever the statements below change so existing installs rebuild the index
+ */
+export const SEARCH_INDEX_VERSION = 2;
+
+/**
+ * FTS5 tables mirroring the searchable columns of tasks and lists
+ *
+ * @remarks
+ * The tables are external-content tables: they store only the index, while the text lives
+ * in tasks and lists. Triggers keep them in sync on every insert, update and delete, so no
+ * query has to maintain the index itself. Soft-deleted rows stay indexed; searches filter
+ * them out like every other query.
+ *
+ * Virtual tables and triggers cannot be described in the Drizzle schema, so they are
+ * created here after the migrations ran instead of in a generated migration.
+ */
+const CREATE_SEARCH_INDEX = `
+CREATE VIRTUAL TABLE tasks_fts USING fts5(
+  name, description, content='tasks', content_rowid='id', tokenize='unicode61 remove_diacritics 2'
+);
+CREATE TRIGGER tasks_fts_insert AFTER INSERT ON tasks BEGIN
+  INSERT INTO tasks_fts(rowid, name, description) VALUES (new.id, new.name, new.description);
+END;
+CREATE TRIGGER tasks_fts_delete AFTER DELETE ON tasks BEGIN
+  INSERT INTO tasks_fts(tasks_fts, rowid, name, description)
+  VALUES ('delete', old.id, old.name, old.description);
+END;
+CREATE TRIGGER tasks_fts_update AFTER UPDATE OF name, description ON tasks BEGIN
+  INSERT INTO tasks_fts(tasks_fts, rowid, name, description)
+  VALUES ('delete', old.id, old.name, old.description);
+  INSERT INTO tasks_fts(rowid, name, description) VALUES (new.id, new.name, new.description);
+END;
+
+CREATE VIRTUAL TABLE lists_fts USING fts5(
+  name, description, content='lists', content_rowid='id', tokenize='unicode61 remove_diacritics 2'
+);
+CREATE TRIGGER lists_fts_insert AFTER INSERT ON lists BEGIN
+  INSERT INTO lists_fts(rowid, name, description) VALUES (new.id, new.name, new.description);
+END;
+CREATE TRIGGER lists_fts_delete AFTER DELETE ON lists BEGIN
+  INSERT INTO lists_fts(lists_fts, rowid, name, description)
+  VALUES ('delete', old.id, old.name, old.description);
+END;
+CREATE TRIGGER lists_fts_update AFTER UPDATE OF name, description ON lists BEGIN
+  INSERT INTO lists_fts(lists_fts, rowid, name, description)
+  VALUES ('delete', old.id, old.name, old.description);
+  INSERT INTO lists_fts(rowid, name, description) VALUES (new.id, new.name, new.description);
+END;
+
+INSERT INTO tasks_fts(tasks_fts) VALUES ('rebuild');
+INSERT INTO lists_fts(lists_fts) VALUES ('rebuild');
+`;
+
+const DROP_SEARCH_INDEX = `
+DROP TRIGGER IF EXISTS tasks_fts_insert;
+DROP TRIGGER IF EXISTS tasks_fts_delete;
+DROP TRIGGER IF EXISTS tasks_fts_update;
+DROP TABLE IF EXISTS tasks_fts;
+DROP TRIGGER IF EXISTS lists_fts_insert;
+DROP TRIGGER IF EXISTS lists_fts_delete;
+DROP TRIGGER IF EXISTS lists_fts_update;
+DROP TABLE IF EXISTS lists_fts;
+`;
+
+/**
+ * Creates or upgrades the full-text search index
+ *
+ * @param client - The underlying expo-sqlite database
+ *
+ * @remarks
+ * The installed version is kept in `PRAGMA user_version`. When it is older than
+ * {@link SEARCH_INDEX_VERSION}, the index is dropped, recreated and rebuilt from the
+ * existing rows in one transaction; otherwise nothing happens.
+ */
+export const ensureSearchIndex = (client: SQLiteDatabase) => {
+  const installed = client.getFirstSync<{ user_version: number }>('PRAGMA user_version');
+  if ((installed?.user_version ?? 0) >= SEARCH_INDEX_VERSION) return;
+
+  client.withTransactionSync(() => {
+    client.execSync(DROP_SEARCH_INDEX);
+    client.execSync(CREATE_SEARCH_INDEX);
+    client.execSync(`PRAGMA user_version = ${SEARCH_INDEX_VERSION}`);
+  });
+};
@@ -4,6 +4,18 @@ export * from './useLists';
 // Export all task hooks
 export * from './useTasks';
 
+// Export all tag hooks
+export * from './useTags';
+
+// Export all smart list hooks
+export * from './useSmartLists';
+
+// Export all trash hooks
+export * from './useTrash';
+
+// Export undo hooks
+export * from './useUndo';
+
 // Export utility hooks
 export * from './useAsyncState';
 export * from './useErrorHandler';
@@ -1,28 +1,52 @@
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   createList,
   deleteList,
   getAllLists,
   getListById,
+  getListsWithTaskCounts,
   getRecentLists,
+  getTaskCountByListId,
+  reorderList,
   searchListsByName,
   updateList,
 } from '@/queries/lists';
+import { getSmartViewCounts, moveTasksToList } from '@/queries/tasks';
+import { restoreList } from '@/queries/trash';
+import { List, ListDetails } from '@/types';
+import { ListSortField, SortParams } from '@/types/common';
+import { applyReorder, getPositionAfterLast, planReorder } from '@/utils/ordering';
+import { isManualSort } from '@/utils/sorting';
+import { queueReminderCancel, queueReminderSync } from '@/utils/reminders';
+import { captureUndoSnapshot, createUndoId, recordUndo } from './useUndo';
 
 // Query Keys
 export const listKeys = {
   all: ['lists'] as const,
   lists: () => [...listKeys.all, 'list'] as const,
   list: (id: number) => [...listKeys.lists(), id] as const,
+  // Nested under the lists, so everything that refreshes those refreshes the other orders too
+  sorted: (sort: SortParams<ListSortField>) =>
+    [...listKeys.lists(), 'sorted', sort.field, sort.direction] as const,
   recent: (limit?: number) => [...listKeys.all, 'recent', limit] as const,
   search: (searchTerm: string) => [...listKeys.all, 'search', searchTerm] as const,
+  taskCount: (id: number) => [...listKeys.all, 'taskCount', id] as const,
+  withTaskCounts: () => [...listKeys.all, 'withTaskCounts'] as const,
+  // Nested under the list counts, so every mutation that refreshes those refreshes these too
+  smartViewCounts: () => [...listKeys.withTaskCounts(), 'smartViews'] as const,
 };
 
 // Hooks for fetching data
-export const useLists = () => {
+/**
+ * Fetches all lists, in manual order unless another sort is given
+ * Only the manual order is updated optimistically; the others are sorted by the server
+ */
+export const useLists = (sort?: SortParams<ListSortField>) => {
+  const isSorted = !!sort && !isManualSort(sort);
   return useQuery({
-    queryKey: listKeys.lists(),
-    queryFn: getAllLists,
+    queryKey: isSorted ? listKeys.sorted(sort) : listKeys.lists(),
+    queryFn: () => getAllLists(isSorted ? sort : undefined),
+    placeholderData: keepPreviousData,
   });
 };
 
@@ -49,31 +73,63 @@ export const useSearchLists = (searchTerm: string) => {
   });
 };
 
+// Number of active tasks in a list, e.g. for deletion confirmations
+export const useListTaskCount = (id: number) => {
+  return useQuery({
+    queryKey: listKeys.taskCount(id),
+    queryFn: () => getTaskCountByListId(id),
+    enabled: !!id,
+  });
+};
+
+// Total, completed and overdue task counts of every list; task mutations keep them current
+export const useListsWithTaskCounts = () => {
+  return useQuery({
+    queryKey: listKeys.withTaskCounts(),
+    queryFn: () => getListsWithTaskCounts(),
+  });
+};
+
+// Open task counts of the Today, Overdue, Next 7 days and No due date views
+export const useSmartViewCounts = () => {
+  return useQuery({
+    queryKey: listKeys.smartViewCounts(),
+    queryFn: () => getSmartViewCounts(),
+  });
+};
+
 // Mutation hooks
 export const useCreateList = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: createList,
-    onMutate: async (name) => {
+    mutationFn: ({ name, ...details }: { name: string } & ListDetails) =>
+      createList(name, details),
+    onMutate: async ({ name, ...details }) => {
       // Cancel any outgoing refetches
       await queryClient.cancelQueries({ queryKey: listKeys.lists() });
 
       // Snapshot the previous value
       const previousLists = queryClient.getQueryData(listKeys.lists());
 
-      // Create optimistic list
+      // Create optimistic list, placed after the last cached list like the server does
+      const lastList = (previousLists as List[] | undefined)?.at(-1);
       const optimisticList = {
         id: Date.now(), // Temporary ID
         name,
+        description: details.description ?? null,
+        color: details.color ?? null,
+        icon: details.icon ?? null,
+        position: getPositionAfterLast(lastList?.position),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
+        deleted_at: null,
       };
 
       // Optimistically update lists
       queryClient.setQueryData(listKeys.lists(), (old: any) => {
         if (!old) return [optimisticList];
-        return [optimisticList, ...old];
+        return [...old, optimisticList];
       });
 
       // Optimistically update recent lists
@@ -84,38 +140,21 @@ export const useCreateList = () => {
 
       return { previousLists, optimisticList };
     },
-    onError: (err, name, context) => {
+    onError: (err, variables, context) => {
       // If the mutation fails, use the context returned from onMutate to roll back
       if (context?.previousLists) {
         queryClient.setQueryData(listKeys.lists(), context.previousLists);
       }
     },
-    onSuccess: (newListData) => {
-      // Update the optimistic list with real data while maintaining position at the top
-      queryClient.setQueryData(listKeys.lists(), (old: any) => {
-        if (!old) return old;
-        // Find and update the optimistic list, keep it at the beginning
-        const updatedLists = old.map((list: any) => 
-          list.id === Date.now() ? { ...newListData, id: newListData.id } : list
-        );
-        // Ensure the new list stays at the beginning
-        const newList = updatedLists.find((list: any) => list.id === newListData.id);
-        const otherLists = updatedLists.filter((list: any) => list.id !== newListData.id);
-        return newList ? [newList, ...otherLists] : updatedLists;
-      });
-      
-      // Update recent lists as well
-      queryClient.setQueryData(listKeys.recent(), (old: any) => {
-        if (!old) return old;
-        const updatedLists = old.map((list: any) => 
-          list.id === Date.now() ? { ...newListData, id: newListData.id } : list
-        );
-        const newList = updatedLists.find((list: any) => list.id === newListData.id);
-        const otherLists = updatedLists.filter((list: any) => list.id !== newListData.id);
-        return newList ? [newList, ...otherLists.slice(0, 4)] : updatedLists;
-      });
-      
-      // Don't invalidate the main queries to maintain order
+    onSuccess: (createdList, variables, context) => {
+      // Swap the optimistic list for the created one, keeping its place
+      const replaceOptimisticList = (old: List[] | undefined) =>
+        old?.map((list) => (list.id === context?.optimisticList.id ? createdList : list));
+      queryClient.setQueryData(listKeys.lists(), replaceOptimisticList);
+      queryClient.setQueryData(listKeys.recent(), replaceOptimisticList);
+
+      // Don't invalidate the main queries to maintain order; the sorted ones place the new list
+      queryClient.invalidateQueries({ queryKey: [...listKeys.lists(), 'sorted'] });
     },
   });
 };
@@ -124,13 +163,50 @@ export const useUpdateList = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, name }: { id: number; name: string }) =>
-      updateList(id, name),
-    onSuccess: (_, { id }) => {
+    mutationFn: ({ id, ...changes }: { id: number } & Partial<{ name: string } & ListDetails>) =>
+      updateList(id, changes),
+    onMutate: async ({ id, ...changes }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: listKeys.all });
+
+      // Snapshot the previous values
+      const previousLists = queryClient.getQueryData(listKeys.lists());
+      const previousList = queryClient.getQueryData(listKeys.list(id));
+      const previousRecent = queryClient.getQueriesData({ queryKey: [...listKeys.all, 'recent'] });
+
+      // Optimistically update the list everywhere it is shown, e.g. the tasks screen header
+      const applyChanges = (list: List) =>
+        list.id === id ? { ...list, ...changes, updated_at: new Date().toISOString() } : list;
+      queryClient.setQueryData(listKeys.lists(), (old: List[] | undefined) => old?.map(applyChanges));
+      queryClient.setQueryData(listKeys.list(id), (old: List | undefined) =>
+        old ? applyChanges(old) : old
+      );
+      queryClient.setQueriesData(
+        { queryKey: [...listKeys.all, 'recent'] },
+        (old: List[] | undefined) => old?.map(applyChanges)
+      );
+
+      return { previousLists, previousList, previousRecent };
+    },
+    onError: (err, { id }, context) => {
+      // If the mutation fails, use the context returned from onMutate to roll back
+      if (context?.previousLists) {
+        queryClient.setQueryData(listKeys.lists(), context.previousLists);
+      }
+      if (context?.previousList) {
+        queryClient.setQueryData(listKeys.list(id), context.previousList);
+      }
+      context?.previousRecent.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
+    onSettled: (_, __, { id }) => {
       // Invalidate specific list and all lists
       queryClient.invalidateQueries({ queryKey: listKeys.list(id) });
       queryClient.invalidateQueries({ queryKey: listKeys.lists() });
-      queryClient.invalidateQueries({ queryKey: listKeys.recent() });
+      queryClient.invalidateQueries({ queryKey: [...listKeys.all, 'recent'] });
+      // Search results carry highlighted names
+      queryClient.invalidateQueries({ queryKey: [...listKeys.all, 'search'] });
     },
   });
 };
@@ -139,13 +215,17 @@ export const useDeleteList = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: deleteList,
-    onMutate: async (listId) => {
+    mutationFn: ({ id, moveTasksTo }: { id: number; moveTasksTo?: number }) =>
+      deleteList(id, { moveTasksTo }),
+    onMutate: async ({ id: listId }) => {
       // Cancel any outgoing refetches
       await queryClient.cancelQueries({ queryKey: listKeys.lists() });
 
       // Snapshot the previous value
       const previousLists = queryClient.getQueryData(listKeys.lists());
+      const undoId = createUndoId();
+      const undoSnapshot = captureUndoSnapshot(queryClient, [listKeys.all, ['tasks']]);
+      const listBefore = (previousLists as any[] | undefined)?.find((list) => list.id === listId);
 
       // Optimistically remove the list
       queryClient.setQueryData(listKeys.lists(), (old: any) => {
@@ -159,19 +239,70 @@ export const useDeleteList = () => {
         return old.filter((list: any) => list.id !== listId);
       });
 
-      return { previousLists };
+      return { previousLists, undoId, undoSnapshot, listBefore };
     },
-    onError: (err, listId, context) => {
+    onError: (err, variables, context) => {
       // If the mutation fails, use the context returned from onMutate to roll back
       if (context?.previousLists) {
         queryClient.setQueryData(listKeys.lists(), context.previousLists);
       }
     },
-    onSuccess: () => {
+    onSuccess: ({ trashedTaskIds, movedTaskIds }, { id }, context) => {
+      // Tasks moved to the trash with the list must not remind anymore
+      trashedTaskIds.forEach(queueReminderCancel);
+
+      recordUndo({
+        id: context.undoId,
+        label: context.listBefore ? `Deleted list "${context.listBefore.name}"` : 'Deleted list',
+        snapshot: context.undoSnapshot,
+        revert: async () => {
+          const restoredTaskIds = await restoreList(id);
+          await moveTasksToList(movedTaskIds, id);
+          restoredTaskIds.forEach(queueReminderSync);
+        },
+        invalidate: [listKeys.all, ['tasks'], ['trash']],
+      });
+
       // Invalidate all list-related queries to ensure consistency
       queryClient.invalidateQueries({ queryKey: listKeys.all });
       // Also invalidate tasks since deleting a list affects tasks
       queryClient.invalidateQueries({ queryKey: ['tasks'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+  });
+};
+
+export const useReorderList = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, toIndex }: { id: number; toIndex: number }) => reorderList(id, toIndex),
+    onMutate: async ({ id, toIndex }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: listKeys.lists() });
+
+      // Snapshot the previous value
+      const previousLists = queryClient.getQueryData<List[]>(listKeys.lists());
+
+      // Optimistically apply the same move the server will make
+      if (previousLists) {
+        const changes = planReorder(previousLists, id, toIndex);
+        queryClient.setQueryData(listKeys.lists(), applyReorder(previousLists, changes));
+      }
+
+      return { previousLists };
+    },
+    onError: (err, variables, context) => {
+      // If the mutation fails, use the context returned from onMutate to roll back
+      if (context?.previousLists) {
+        queryClient.setQueryData(listKeys.lists(), context.previousLists);
+      }
+    },
+    onSuccess: (changes) => {
+      // The server renumbers the lists when positions run out; adopt its positions
+      queryClient.setQueryData(listKeys.lists(), (old: List[] | undefined) =>
+        old ? applyReorder(old, changes) : old
+      );
     },
   });
 };
@@ -0,0 +1,171 @@
+/**
+ * Custom hooks for smart list management using TanStack Query
+ * Smart lists are saved task filters; their tasks come from the composed task query
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  createSmartList,
+  deleteSmartList,
+  getAllSmartLists,
+  getSmartListById,
+  updateSmartList,
+} from '@/queries/smart-lists';
+import { SmartList, SmartListCriteria } from '@/types';
+import { getPositionAfterLast } from '@/utils/ordering';
+import { toSmartListColumns } from '@/utils/smart-lists';
+
+/**
+ * Query key factory for smart list queries
+ */
+export const smartListKeys = {
+  all: ['smartLists'] as const,
+  smartLists: () => [...smartListKeys.all, 'smartList'] as const,
+  smartList: (id: number) => [...smartListKeys.smartLists(), id] as const,
+};
+
+//  QUERY HOOKS
+
+/**
+ * Fetches all smart lists
+ */
+export const useSmartLists = () => {
+  return useQuery({
+    queryKey: smartListKeys.smartLists(),
+    queryFn: getAllSmartLists,
+  });
+};
+
+/**
+ * Fetches a single smart list by ID
+ */
+export const useSmartList = (id: number) => {
+  return useQuery({
+    queryKey: smartListKeys.smartList(id),
+    queryFn: () => getSmartListById(id),
+    enabled: !!id,
+  });
+};
+
+//  MUTATION HOOKS
+
+/**
+ * Hook for saving task filters as a smart list with optimistic updates
+ */
+export const useCreateSmartList = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ name, criteria }: { name: string; criteria: SmartListCriteria }) =>
+      createSmartList(name, criteria),
+    onMutate: async ({ name, criteria }) => {
+      await queryClient.cancelQueries({ queryKey: smartListKeys.smartLists() });
+
+      const previousSmartLists = queryClient.getQueryData<SmartList[]>(smartListKeys.smartLists());
+
+      const optimisticSmartList: SmartList = {
+        id: Date.now(), // Temporary ID
+        name,
+        ...toSmartListColumns(criteria),
+        position: getPositionAfterLast(previousSmartLists?.at(-1)?.position),
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+
+      queryClient.setQueryData(smartListKeys.smartLists(), (old: SmartList[] | undefined) => [
+        ...(old ?? []),
+        optimisticSmartList,
+      ]);
+
+      return { previousSmartLists, optimisticSmartList };
+    },
+    onError: (err, variables, context) => {
+      queryClient.setQueryData(smartListKeys.smartLists(), context?.previousSmartLists);
+    },
+    onSuccess: (createdSmartList, variables, context) => {
+      queryClient.setQueryData(smartListKeys.smartLists(), (old: SmartList[] | undefined) =>
+        old?.map((smartList) =>
+          smartList.id === context?.optimisticSmartList.id ? createdSmartList : smartList
+        )
+      );
+    },
+  });
+};
+
+/**
+ * Hook for renaming a smart list and replacing its criteria with optimistic updates
+ * The screens showing its tasks query them again with the new criteria
+ */
+export const useUpdateSmartList = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      name,
+      criteria,
+    }: {
+      id: number;
+      name: string;
+      criteria: SmartListCriteria;
+    }) => updateSmartList(id, { name, criteria }),
+    onMutate: async ({ id, name, criteria }) => {
+      await queryClient.cancelQueries({ queryKey: smartListKeys.all });
+
+      const previousSmartLists = queryClient.getQueryData(smartListKeys.smartLists());
+      const previousSmartList = queryClient.getQueryData(smartListKeys.smartList(id));
+
+      const applyChanges = (smartList: SmartList) =>
+        smartList.id === id
+          ? {
+              ...smartList,
+              name,
+              ...toSmartListColumns(criteria),
+              updated_at: new Date().toISOString(),
+            }
+          : smartList;
+      queryClient.setQueryData(smartListKeys.smartLists(), (old: SmartList[] | undefined) =>
+        old?.map(applyChanges)
+      );
+      queryClient.setQueryData(smartListKeys.smartList(id), (old: SmartList | undefined) =>
+        old ? applyChanges(old) : old
+      );
+
+      return { previousSmartLists, previousSmartList };
+    },
+    onError: (err, { id }, context) => {
+      queryClient.setQueryData(smartListKeys.smartLists(), context?.previousSmartLists);
+      queryClient.setQueryData(smartListKeys.smartList(id), context?.previousSmartList);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: smartListKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook for deleting a smart list with optimistic updates
+ */
+export const useDeleteSmartList = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteSmartList,
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: smartListKeys.smartLists() });
+
+      const previousSmartLists = queryClient.getQueryData(smartListKeys.smartLists());
+
+      queryClient.setQueryData(smartListKeys.smartLists(), (old: SmartList[] | undefined) =>
+        old?.filter((smartList) => smartList.id !== id)
+      );
+
+      return { previousSmartLists };
+    },
+    onError: (err, id, context) => {
+      queryClient.setQueryData(smartListKeys.smartLists(), context?.previousSmartLists);
+    },
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: smartListKeys.smartList(id) });
+    },
+  });
+};
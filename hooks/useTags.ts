@@ -0,0 +1,183 @@
+/**
+ * Custom hooks for tag management using TanStack Query
+ * Tags are attached to tasks through the task_tags join table
+ */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  createTag,
+  deleteTag,
+  getAllTags,
+  getTagsByTaskId,
+  tagTask,
+  untagTask,
+} from '@/queries/tags';
+import { Tag } from '@/types';
+import { smartListKeys } from './useSmartLists';
+import { taskKeys } from './useTasks';
+
+/**
+ * Query key factory for tag-related queries
+ */
+export const tagKeys = {
+  all: ['tags'] as const,
+  tags: () => [...tagKeys.all, 'tag'] as const,
+  byTask: (taskId: number) => [...tagKeys.all, 'byTask', taskId] as const,
+};
+
+//  QUERY HOOKS
+
+/**
+ * Fetches all tags
+ */
+export const useTags = () => {
+  return useQuery({
+    queryKey: tagKeys.tags(),
+    queryFn: getAllTags,
+  });
+};
+
+/**
+ * Fetches the tags attached to a task
+ */
+export const useTaskTags = (taskId: number) => {
+  return useQuery({
+    queryKey: tagKeys.byTask(taskId),
+    queryFn: () => getTagsByTaskId(taskId),
+    enabled: !!taskId,
+  });
+};
+
+//  MUTATION HOOKS
+
+/**
+ * Hook for creating tags with optimistic updates
+ */
+export const useCreateTag = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createTag,
+    onMutate: async (name) => {
+      await queryClient.cancelQueries({ queryKey: tagKeys.tags() });
+
+      const previousTags = queryClient.getQueryData(tagKeys.tags());
+
+      const optimisticTag: Tag = {
+        id: Date.now(), // Temporary ID
+        name,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+
+      queryClient.setQueryData(tagKeys.tags(), (old: Tag[] | undefined) =>
+        [...(old ?? []), optimisticTag].sort((a, b) => a.name.localeCompare(b.name))
+      );
+
+      return { previousTags, optimisticTag };
+    },
+    onError: (err, name, context) => {
+      queryClient.setQueryData(tagKeys.tags(), context?.previousTags);
+    },
+    onSuccess: (createdTag, name, context) => {
+      queryClient.setQueryData(tagKeys.tags(), (old: Tag[] | undefined) =>
+        old?.map((tag) => (tag.id === context?.optimisticTag.id ? createdTag : tag))
+      );
+    },
+  });
+};
+
+/**
+ * Hook for deleting tags with optimistic updates
+ */
+export const useDeleteTag = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteTag,
+    onMutate: async (tagId) => {
+      await queryClient.cancelQueries({ queryKey: tagKeys.tags() });
+
+      const previousTags = queryClient.getQueryData(tagKeys.tags());
+
+      queryClient.setQueryData(tagKeys.tags(), (old: Tag[] | undefined) =>
+        old?.filter((tag) => tag.id !== tagId)
+      );
+
+      return { previousTags };
+    },
+    onError: (err, tagId, context) => {
+      queryClient.setQueryData(tagKeys.tags(), context?.previousTags);
+    },
+    onSuccess: (_, tagId) => {
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+      queryClient.removeQueries({ queryKey: taskKeys.byTag(tagId) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+      // Smart lists filtering by the tag lose that criterion
+      queryClient.invalidateQueries({ queryKey: smartListKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook for attaching a tag to a task with optimistic updates
+ */
+export const useTagTask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, tag }: { taskId: number; tag: Tag }) => tagTask(taskId, tag.id),
+    onMutate: async ({ taskId, tag }) => {
+      await queryClient.cancelQueries({ queryKey: tagKeys.byTask(taskId) });
+
+      const previousTaskTags = queryClient.getQueryData(tagKeys.byTask(taskId));
+
+      queryClient.setQueryData(tagKeys.byTask(taskId), (old: Tag[] | undefined) => {
+        if (old?.some((existing) => existing.id === tag.id)) return old;
+        return [...(old ?? []), tag];
+      });
+
+      return { previousTaskTags };
+    },
+    onError: (err, { taskId }, context) => {
+      queryClient.setQueryData(tagKeys.byTask(taskId), context?.previousTaskTags);
+    },
+    onSuccess: (_, { tag }) => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.byTag(tag.id) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+    },
+  });
+};
+
+/**
+ * Hook for detaching a tag from a task with optimistic updates
+ */
+export const useUntagTask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, tagId }: { taskId: number; tagId: number }) => untagTask(taskId, tagId),
+    onMutate: async ({ taskId, tagId }) => {
+      await queryClient.cancelQueries({ queryKey: tagKeys.byTask(taskId) });
+      await queryClient.cancelQueries({ queryKey: taskKeys.byTag(tagId) });
+
+      const previousTaskTags = queryClient.getQueryData(tagKeys.byTask(taskId));
+      const previousTagTasks = queryClient.getQueryData(taskKeys.byTag(tagId));
+
+      queryClient.setQueryData(tagKeys.byTask(taskId), (old: Tag[] | undefined) =>
+        old?.filter((tag) => tag.id !== tagId)
+      );
+      queryClient.setQueryData(taskKeys.byTag(tagId), (old: any) =>
+        old?.filter((task: any) => task.id !== taskId)
+      );
+
+      return { previousTaskTags, previousTagTasks };
+    },
+    onError: (err, { taskId, tagId }, context) => {
+      queryClient.setQueryData(tagKeys.byTask(taskId), context?.previousTaskTags);
+      queryClient.setQueryData(taskKeys.byTag(tagId), context?.previousTagTasks);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+    },
+  });
+};
@@ -2,22 +2,87 @@
  * Custom hooks for task management using TanStack Query
  * Provides optimistic updates and proper cache management
  */
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
+  QueryClient,
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import {
+  copyTasks,
+  createSubtask,
   createTask,
+  deleteSubtask,
   deleteTask,
+  deleteTasks,
+  duplicateTask,
   getAllTasks,
   getCompletedTasks,
+  getSubtaskProgressByListId,
+  getSubtasksByTaskId,
   getTaskById,
   getTasksByListId,
   getTasksByPriority,
   getTasksByStatus,
+  getTasksByTagId,
+  getSmartViewTasks,
+  getTasksDueBetween,
   getUpcomingTasks,
+  moveTasks,
+  queryTasks,
+  reorderTask,
+  revertTaskChanges,
+  revertTaskCompletion,
   searchTasksByName,
+  toggleSubtaskCompletion,
   toggleTaskCompletion,
+  updateSubtask,
   updateTask,
   updateTaskStatus,
+  updateTasks,
+  DEFAULT_TASK_PAGE_SIZE,
+  TaskChangeRevert,
 } from '@/queries/tasks';
+import { ListWithTaskCount, Subtask, SubtaskProgress, Task } from '@/types';
+import { PaginatedResponse } from '@/types/api';
+import { FilterParams, TaskQueryParams, TaskStatus } from '@/types/common';
+import { getRemindersByTaskId } from '@/queries/reminders';
+import { restoreTask, restoreTasks } from '@/queries/trash';
+import { queueReminderCancel, queueReminderSync } from '@/utils/reminders';
+import { applyReorder, getPositionAfterLast, planReorder, sortByPosition } from '@/utils/ordering';
+import { applyTaskCountChange } from '@/utils/list-counts';
+import { getTodayDueDate } from '@/utils/recurrence';
+import { getDueDay } from '@/utils/calendar';
+import { SmartViewId } from '@/utils/smart-views';
+import {
+  TASK_WORKFLOW,
+  canTransition,
+  getTaskStatus,
+  getToggledStatus,
+  isCompletedStatus,
+  withTaskStatus,
+} from '@/utils/task-status';
+import { listKeys } from './useLists';
+import { captureUndoSnapshot, createUndoId, findCachedTask, recordUndo } from './useUndo';
+
+/**
+ * Fills in defaults and drops empty filters so equivalent parameters share one cache entry
+ */
+const normalizeTaskQueryParams = ({ filter = {}, sort, pagination = {} }: TaskQueryParams) => ({
+  filter: Object.fromEntries(
+    Object.entries({ ...filter, search: filter.search?.trim() }).filter(
+      ([, value]) => value !== undefined && value !== ''
+    )
+  ) as FilterParams,
+  ...(sort && { sort }),
+  pagination: {
+    limit: pagination.limit ?? DEFAULT_TASK_PAGE_SIZE,
+    ...(pagination.offset !== undefined
+      ? { offset: pagination.offset }
+      : { page: pagination.page ?? 1 }),
+  },
+});
 
 /**
  * Query key factory for task-related queries
@@ -30,9 +95,20 @@ export const taskKeys = {
   byList: (listId: number) => [...taskKeys.tasks(), 'byList', listId] as const,
   byStatus: (status: string) => [...taskKeys.tasks(), 'byStatus', status] as const,
   byPriority: (priority: string) => [...taskKeys.tasks(), 'byPriority', priority] as const,
+  byTag: (tagId: number) => [...taskKeys.tasks(), 'byTag', tagId] as const,
   completed: () => [...taskKeys.tasks(), 'completed'] as const,
   upcoming: () => [...taskKeys.tasks(), 'upcoming'] as const,
+  smartViews: () => [...taskKeys.tasks(), 'smartView'] as const,
+  smartView: (view: SmartViewId) => [...taskKeys.smartViews(), view] as const,
+  dueBetween: (startDay: string, endDay: string) =>
+    [...taskKeys.tasks(), 'dueBetween', startDay, endDay] as const,
   search: (searchTerm: string) => [...taskKeys.tasks(), 'search', searchTerm] as const,
+  subtasks: (taskId: number) => [...taskKeys.tasks(), 'subtasks', taskId] as const,
+  subtaskProgress: (listId: number) => [...taskKeys.tasks(), 'subtaskProgress', listId] as const,
+  reminders: (taskId: number) => [...taskKeys.tasks(), 'reminders', taskId] as const,
+  queries: () => [...taskKeys.tasks(), 'query'] as const,
+  query: (params: TaskQueryParams) =>
+    [...taskKeys.queries(), normalizeTaskQueryParams(params)] as const,
 };
 
 //  QUERY HOOKS 
@@ -69,10 +145,48 @@ export const useTasksByList = (listId: number) => {
   });
 };
 
+/**
+ * Fetches the subtasks (checklist items) of a task
+ */
+export const useSubtasks = (taskId: number) => {
+  return useQuery({
+    queryKey: taskKeys.subtasks(taskId),
+    queryFn: () => getSubtasksByTaskId(taskId),
+    enabled: !!taskId,
+  });
+};
+
+/**
+ * Fetches the reminders of a task, nearest to the due date first
+ */
+export const useTaskReminders = (taskId: number) => {
+  return useQuery({
+    queryKey: taskKeys.reminders(taskId),
+    queryFn: () => getRemindersByTaskId(taskId),
+    enabled: !!taskId,
+  });
+};
+
+/**
+ * Fetches subtask progress for every task in a list, keyed by task ID
+ */
+export const useSubtaskProgress = (listId: number) => {
+  return useQuery({
+    queryKey: taskKeys.subtaskProgress(listId),
+    queryFn: () => getSubtaskProgressByListId(listId),
+    enabled: !!listId,
+    select: (rows: SubtaskProgress[]) =>
+      rows.reduce<Record<number, SubtaskProgress>>((acc, row) => {
+        acc[row.task_id] = row;
+        return acc;
+      }, {}),
+  });
+};
+
 /**
  * Fetches tasks filtered by status
  */
-export const useTasksByStatus = (status: string) => {
+export const useTasksByStatus = (status: TaskStatus) => {
   return useQuery({
     queryKey: taskKeys.byStatus(status),
     queryFn: () => getTasksByStatus(status),
@@ -91,6 +205,17 @@ export const useTasksByPriority = (priority: string) => {
   });
 };
 
+/**
+ * Fetches tasks carrying a tag across all lists
+ */
+export const useTasksByTag = (tagId: number) => {
+  return useQuery({
+    queryKey: taskKeys.byTag(tagId),
+    queryFn: () => getTasksByTagId(tagId),
+    enabled: !!tagId,
+  });
+};
+
 /**
  * Fetches all completed tasks
  */
@@ -111,6 +236,29 @@ export const useUpcomingTasks = () => {
   });
 };
 
+/**
+ * Fetches the tasks of all lists due within a range of days, both days included
+ * The previous range stays visible while the next one loads
+ */
+export const useTasksDueBetween = (startDay: string, endDay: string) => {
+  return useQuery({
+    queryKey: taskKeys.dueBetween(startDay, endDay),
+    queryFn: () => getTasksDueBetween(startDay, endDay),
+    placeholderData: keepPreviousData,
+  });
+};
+
+/**
+ * Fetches the open tasks of all lists that belong in a smart view
+ * Task mutations refetch the views once they settle, as tasks may enter or leave them
+ */
+export const useSmartViewTasks = (view: SmartViewId) => {
+  return useQuery({
+    queryKey: taskKeys.smartView(view),
+    queryFn: () => getSmartViewTasks(view),
+  });
+};
+
 /**
  * Searches tasks by name
  */
@@ -122,43 +270,316 @@ export const useSearchTasks = (searchTerm: string) => {
   });
 };
 
+/**
+ * Fetches one page of tasks matching filters, sorting and pagination in a single query
+ * The previous page stays visible while parameters change
+ */
+export const useTaskQuery = (params: TaskQueryParams, options: { enabled?: boolean } = {}) => {
+  return useQuery({
+    queryKey: taskKeys.query(params),
+    queryFn: () => queryTasks(normalizeTaskQueryParams(params)),
+    placeholderData: keepPreviousData,
+    enabled: options.enabled ?? true,
+  });
+};
+
 //  OPTIMISTIC UPDATE HELPERS 
 
 /**
- * Creates an optimistic task with temporary ID
+ * Creates an optimistic task with temporary ID, placed after the last cached task of its list
  */
-const createOptimisticTask = (newTask: any) => ({
+const createOptimisticTask = (newTask: any, listTasks: Task[] | undefined) => ({
   id: Date.now(), // Temporary ID
   ...newTask,
+  position: getPositionAfterLast(listTasks?.[listTasks.length - 1]?.position),
   created_at: new Date().toISOString(),
   updated_at: new Date().toISOString(),
-  is_completed: false,
+  is_completed: isCompletedStatus(newTask.status ?? 'pending'),
 });
 
 /**
- * Updates task completion status optimistically
+ * Creates optimistic copies of tasks appended to a list, matching where `copyTasks` puts them
+ * Copies within a task's own list get the same "(copy)" suffix as on the server
+ */
+const createOptimisticCopies = (
+  sourceTasks: Task[],
+  listId: number,
+  listTasks: Task[] | undefined
+): Task[] => {
+  const baseId = Date.now(); // Temporary IDs
+  return sourceTasks.reduce<Task[]>((copies, task, index) => {
+    const copy = createOptimisticTask(
+      {
+        ...task,
+        id: baseId + index,
+        name: task.list_id === listId ? `${task.name} (copy)` : task.name,
+        status: 'pending',
+        list_id: listId,
+      },
+      [...(listTasks ?? []), ...copies]
+    );
+    return [...copies, copy];
+  }, []);
+};
+
+/**
+ * Orders tasks the way batch operations process them: by list, then manual order
+ */
+const compareByListPosition = (a: Task, b: Task) =>
+  a.list_id - b.list_id || a.position - b.position || a.id - b.id;
+
+/**
+ * Gives a task a new status optimistically, with the completion flag derived from it
  */
-const updateTaskCompletionStatus = (task: any, isCompleted: boolean) => ({
-  ...task,
-  is_completed: isCompleted,
-  status: isCompleted ? 'completed' : 'pending',
+const updateTaskStatusFields = (task: any, status: TaskStatus) => ({
+  ...withTaskStatus(task, status),
   updated_at: new Date().toISOString(),
 });
 
+/**
+ * Updates task completion status optimistically
+ */
+const updateTaskCompletionStatus = (task: any, isCompleted: boolean) =>
+  updateTaskStatusFields(task, getToggledStatus(isCompleted));
+
 /**
  * Filters tasks based on status filter
  */
 const filterTasksByStatus = (tasks: any[], filter: string) => {
   if (!filter || filter === 'all') return tasks;
-  
-  return tasks.filter((task: any) => {
-    if (filter === 'completed') return task.is_completed;
-    if (filter === 'pending') return !task.is_completed && task.status === 'pending';
-    if (filter === 'in_progress') return task.status === 'in_progress';
-    return true;
+
+  return tasks.filter((task: any) => getTaskStatus(task) === filter);
+};
+
+/**
+ * Labels a status for toasts and undo history labels
+ */
+const describeStatus = (status: TaskStatus) => TASK_WORKFLOW[status].label.toLowerCase();
+
+/**
+ * Applies a delta to the cached subtask progress of a task
+ * Adds a progress row when the task gains its first subtask and drops it when the last one goes
+ */
+const adjustSubtaskProgress = (
+  queryClient: QueryClient,
+  taskId: number,
+  delta: { total?: number; completed?: number }
+) => {
+  const progressQueries = queryClient.getQueriesData<SubtaskProgress[]>({
+    queryKey: taskKeys.tasks(),
+    predicate: (query) => query.queryKey[2] === 'subtaskProgress',
+  });
+
+  progressQueries.forEach(([queryKey, old]) => {
+    if (!old) return;
+
+    const existing = old.find((row) => row.task_id === taskId);
+    const listTasks = queryClient.getQueryData<Task[]>(taskKeys.byList(queryKey[3] as number));
+    if (!existing && !listTasks?.some((task) => task.id === taskId)) return;
+
+    const current = existing ?? { task_id: taskId, total: 0, completed: 0 };
+    const next = {
+      ...current,
+      total: current.total + (delta.total ?? 0),
+      completed: current.completed + (delta.completed ?? 0),
+    };
+    const others = old.filter((row) => row.task_id !== taskId);
+    queryClient.setQueryData(queryKey, next.total > 0 ? [...others, next] : others);
   });
 };
 
+/**
+ * Moves a task's contribution between the cached per-list task counts
+ * Pass null as `before` for a new task and as `after` for a removed one
+ */
+const adjustListTaskCounts = (
+  queryClient: QueryClient,
+  before: Task | null,
+  after: Task | null
+) => {
+  queryClient.setQueryData<ListWithTaskCount[]>(listKeys.withTaskCounts(), (old) =>
+    old ? applyTaskCountChange(old, before, after, getTodayDueDate()) : old
+  );
+};
+
+/**
+ * Snapshots the cached per-list task counts so they can be restored on error
+ * Cancels their refetch first, which would otherwise overwrite the optimistic counts
+ */
+const snapshotListTaskCounts = async (queryClient: QueryClient) => {
+  await queryClient.cancelQueries({ queryKey: listKeys.withTaskCounts() });
+  return queryClient.getQueryData<ListWithTaskCount[]>(listKeys.withTaskCounts());
+};
+
+/**
+ * Restores the per-list task counts captured by {@link snapshotListTaskCounts}
+ */
+const restoreListTaskCounts = (
+  queryClient: QueryClient,
+  previousListCounts: ListWithTaskCount[] | undefined
+) => {
+  if (previousListCounts) {
+    queryClient.setQueryData(listKeys.withTaskCounts(), previousListCounts);
+  }
+};
+
+/**
+ * Kinds of queries under `taskKeys.tasks()` whose data is an array of tasks
+ */
+const TASK_COLLECTION_KINDS = [
+  'byList',
+  'byStatus',
+  'byPriority',
+  'byTag',
+  'completed',
+  'upcoming',
+  'dueBetween',
+  'smartView',
+  'search',
+];
+
+/**
+ * Applies one update to the given tasks in every cached task collection
+ * Returning null from `update` removes the task from the collections; status filter
+ * queries are filtered again
+ */
+const updateCachedTasks = (
+  queryClient: QueryClient,
+  taskIds: number[],
+  update: (task: Task) => Task | null
+) => {
+  const ids = new Set(taskIds);
+  const updateTasks = (tasks: Task[]) =>
+    tasks.flatMap((task) => (ids.has(task.id) ? (update(task) ?? []) : [task]));
+
+  queryClient
+    .getQueriesData<Task[]>({
+      queryKey: taskKeys.tasks(),
+      predicate: (query) =>
+        query.queryKey.length === 2 || TASK_COLLECTION_KINDS.includes(query.queryKey[2] as string),
+    })
+    .forEach(([queryKey, old]) => {
+      if (!old) return;
+      const updated = updateTasks(old);
+      queryClient.setQueryData(
+        queryKey,
+        queryKey[2] === 'byStatus' ? filterTasksByStatus(updated, queryKey[3] as string) : updated
+      );
+    });
+
+  taskIds.forEach((id) => {
+    queryClient.setQueryData<Task>(taskKeys.task(id), (old) => (old ? (update(old) ?? old) : old));
+  });
+  updateQueriedTasks(queryClient, updateTasks);
+};
+
+/**
+ * Moves a task into the cached due date ranges that contain its due date and out of the rest
+ * Within a range, tasks stay ordered by due date
+ */
+const placeTaskInDueRanges = (queryClient: QueryClient, task: Task) => {
+  queryClient
+    .getQueriesData<Task[]>({
+      queryKey: taskKeys.tasks(),
+      predicate: (query) => query.queryKey[2] === 'dueBetween',
+    })
+    .forEach(([queryKey, old]) => {
+      if (!old) return;
+      const [startDay, endDay] = queryKey.slice(3) as string[];
+      const others = old.filter(({ id }) => id !== task.id);
+      const dueDay = task.due_date ? getDueDay(task.due_date) : null;
+      const isInRange = !!dueDay && dueDay >= startDay && dueDay <= endDay;
+      queryClient.setQueryData(
+        queryKey,
+        isInRange
+          ? [...others, task].sort((a, b) => (a.due_date ?? '').localeCompare(b.due_date ?? ''))
+          : others
+      );
+    });
+};
+
+/**
+ * Describes a number of tasks for toasts and undo history labels
+ */
+const describeTaskCount = (count: number) => `${count} task${count === 1 ? '' : 's'}`;
+
+/**
+ * Applies an update to the tasks of every cached composed query page
+ * Pages are refetched after the mutation settles, which also fixes totals and filtering
+ */
+const updateQueriedTasks = (queryClient: QueryClient, update: (tasks: Task[]) => Task[]) => {
+  queryClient.setQueriesData<PaginatedResponse<Task>>(
+    { queryKey: taskKeys.queries() },
+    (old) => (old ? { ...old, data: update(old.data) } : old)
+  );
+};
+
+/**
+ * Inserts the next occurrence of a recurring task into the cached task collections
+ */
+const addNextOccurrenceToCache = (queryClient: QueryClient, nextOccurrence: Task | null) => {
+  if (!nextOccurrence) return;
+
+  const appendOccurrence = (old: Task[] | undefined) => (old ? [...old, nextOccurrence] : old);
+  // The occurrence shares the task's position, so it sorts right after it in its list
+  queryClient.setQueryData(taskKeys.byList(nextOccurrence.list_id), (old: Task[] | undefined) =>
+    old ? sortByPosition([...old, nextOccurrence]) : old
+  );
+  queryClient.setQueryData(taskKeys.tasks(), appendOccurrence);
+  adjustListTaskCounts(queryClient, null, nextOccurrence);
+  queryClient.invalidateQueries({ queryKey: taskKeys.upcoming() });
+};
+
+/**
+ * Quotes a task name for undo history labels
+ */
+const describeTask = (task: Task | undefined) => (task ? `"${task.name}"` : 'task');
+
+/**
+ * Labels a batch status or priority change for the undo history
+ */
+const describeTaskChanges = (
+  count: number,
+  changes: { status?: TaskStatus; priority?: string }
+) => {
+  const tasksLabel = describeTaskCount(count);
+  if (changes.status === 'completed') return `Completed ${tasksLabel}`;
+  if (changes.status) return `Set ${tasksLabel} to ${describeStatus(changes.status)}`;
+  return `Set ${tasksLabel} to ${changes.priority} priority`;
+};
+
+/**
+ * Records the inverse of a completion or status change in the undo history
+ */
+const recordCompletionUndo = (
+  context: { undoId: string; undoSnapshot: ReturnType<typeof captureUndoSnapshot> },
+  label: string,
+  id: number,
+  previous: { status?: string | null; is_completed: boolean | null },
+  nextOccurrence: Task | null
+) => {
+  recordUndo({
+    id: context.undoId,
+    label,
+    snapshot: context.undoSnapshot,
+    revert: async () => {
+      await revertTaskCompletion(id, previous, nextOccurrence?.id);
+      queueReminderSync(id);
+      if (nextOccurrence) queueReminderCancel(nextOccurrence.id);
+    },
+    invalidate: [taskKeys.all, listKeys.withTaskCounts()],
+  });
+};
+
+/**
+ * Snapshots every cached subtask progress query so it can be restored on error
+ */
+const snapshotSubtaskProgress = (queryClient: QueryClient) =>
+  queryClient.getQueriesData<SubtaskProgress[]>({
+    queryKey: taskKeys.tasks(),
+    predicate: (query) => query.queryKey[2] === 'subtaskProgress',
+  });
+
 //  MUTATION HOOKS 
 
 /**
@@ -174,51 +595,57 @@ export const useCreateTask = () => {
       await queryClient.cancelQueries({ queryKey: taskKeys.byList(newTask.list_id) });
 
       // Snapshot the previous value
-      const previousTasks = queryClient.getQueryData(taskKeys.byList(newTask.list_id));
+      const previousTasks = queryClient.getQueryData<Task[]>(taskKeys.byList(newTask.list_id));
+      const previousListCounts = await snapshotListTaskCounts(queryClient);
 
       // Create optimistic task using helper function
-      const optimisticTask = createOptimisticTask(newTask);
+      const optimisticTask = createOptimisticTask(newTask, previousTasks);
 
-      // Optimistically update tasks by list (keep at the beginning)
-      queryClient.setQueryData(taskKeys.byList(newTask.list_id), (old: any) => {
+      // Optimistically append the task, matching where the server places it
+      const appendTask = (old: any) => {
         if (!old) return [optimisticTask];
-        return [optimisticTask, ...old];
-      });
-
-      // Optimistically update all tasks (keep at the beginning)
-      queryClient.setQueryData(taskKeys.tasks(), (old: any) => {
-        if (!old) return [optimisticTask];
-        return [optimisticTask, ...old];
-      });
+        return [...old, optimisticTask];
+      };
+      queryClient.setQueryData(taskKeys.byList(newTask.list_id), appendTask);
+      queryClient.setQueryData(taskKeys.tasks(), appendTask);
+      adjustListTaskCounts(queryClient, null, optimisticTask);
 
-      return { previousTasks, optimisticTask };
+      return { previousTasks, previousListCounts, optimisticTask };
     },
     onError: (err, newTask, context) => {
       // Rollback optimistic updates on error
       if (context?.previousTasks) {
         queryClient.setQueryData(taskKeys.byList(newTask.list_id), context.previousTasks);
       }
+      restoreListTaskCounts(queryClient, context?.previousListCounts);
+      queryClient.setQueryData(taskKeys.tasks(), (old: Task[] | undefined) =>
+        old?.filter((task) => task.id !== context?.optimisticTask.id)
+      );
     },
-    onSuccess: (newTaskData, variables) => {
-      // Update the optimistic task with real data while maintaining position at the top
-      const updateTaskInQuery = (queryKey: readonly string[]) => {
-        queryClient.setQueryData(queryKey as any, (old: any) => {
-          if (!old) return old;
-          const updatedTasks = old.map((task: any) => 
-            task.id === Date.now() ? { ...newTaskData, id: (newTaskData as any).id } : task
-          );
-          const newTask = updatedTasks.find((task: any) => task.id === (newTaskData as any).id);
-          const otherTasks = updatedTasks.filter((task: any) => task.id !== (newTaskData as any).id);
-          return newTask ? [newTask, ...otherTasks] : updatedTasks;
-        });
-      };
+    onSuccess: (createdTask, variables, context) => {
+      // Swap the optimistic task for the created one, keeping its place
+      const replaceOptimisticTask = (old: Task[] | undefined) =>
+        old?.map((task) => (task.id === context?.optimisticTask.id ? createdTask : task));
+      queryClient.setQueryData(taskKeys.byList(variables.list_id), replaceOptimisticTask);
+      queryClient.setQueryData(taskKeys.tasks(), replaceOptimisticTask);
 
-      updateTaskInQuery(taskKeys.byList(variables.list_id));
-      updateTaskInQuery(taskKeys.tasks());
-      
       // Invalidate related queries
       queryClient.invalidateQueries({ queryKey: taskKeys.completed() });
       queryClient.invalidateQueries({ queryKey: taskKeys.upcoming() });
+      variables.tag_ids?.forEach((tagId) => {
+        queryClient.invalidateQueries({ queryKey: taskKeys.byTag(tagId) });
+      });
+
+      // Schedule notifications for the new task's reminders
+      if (variables.reminder_offsets?.length) {
+        queueReminderSync(createdTask.id);
+      }
+    },
+    onSettled: () => {
+      // The new task may match composed query pages
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
     },
   });
 };
@@ -232,7 +659,16 @@ export const useUpdateTask = () => {
   return useMutation({
     mutationFn: ({ id, task }: { id: number; task: Parameters<typeof updateTask>[1] }) =>
       updateTask(id, task),
-    onSuccess: (_, { id, task }) => {
+    onSuccess: (nextOccurrence, { id, task }) => {
+      // Due date or completion changes move the task's reminders
+      queueReminderSync(id);
+      if (nextOccurrence) queueReminderSync(nextOccurrence.id);
+
+      // Tags are replaced together with the task; the literal key avoids importing useTags
+      if (task.tag_ids) {
+        queryClient.invalidateQueries({ queryKey: ['tags', 'byTask', id] });
+      }
+
       // Invalidate specific task and all task lists
       queryClient.invalidateQueries({ queryKey: taskKeys.task(id) });
       queryClient.invalidateQueries({ queryKey: taskKeys.tasks() });
@@ -253,6 +689,184 @@ export const useUpdateTask = () => {
       // Invalidate completed and upcoming tasks
       queryClient.invalidateQueries({ queryKey: taskKeys.completed() });
       queryClient.invalidateQueries({ queryKey: taskKeys.upcoming() });
+
+      // Status, due date and list changes all move the per-list counts
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
+    },
+  });
+};
+
+/**
+ * Hook for duplicating a task with its tags, reminders and checklist
+ */
+export const useDuplicateTask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => duplicateTask(id),
+    onSuccess: (copy) => {
+      if (!copy) return;
+
+      // The copy is appended to its list and may match composed query pages
+      queryClient.invalidateQueries({ queryKey: taskKeys.tasks() });
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
+      queueReminderSync(copy.id);
+    },
+  });
+};
+
+/**
+ * Hook for moving tasks to the end of another list with optimistic updates
+ * Works for a single task as well as a multi-selection
+ */
+export const useMoveTasks = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ ids, listId }: { ids: number[]; listId: number }) => moveTasks(ids, listId),
+    onMutate: async ({ ids, listId }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: taskKeys.all });
+
+      // Snapshot every task collection, since the tasks leave one list and join another
+      const previousTaskQueries = queryClient.getQueriesData({ queryKey: taskKeys.tasks() });
+      const previousListCounts = await snapshotListTaskCounts(queryClient);
+
+      // Only cached tasks can be moved optimistically; the rest shows up on refetch
+      const tasksBefore = ids
+        .map((id) => findCachedTask<Task>(queryClient, id))
+        .filter((task): task is Task => !!task && task.list_id !== listId)
+        .sort(compareByListPosition);
+      const sourceListIds = [...new Set(tasksBefore.map((task) => task.list_id))];
+      const movingIds = new Set(ids);
+
+      // Append the tasks to the target list in their current order
+      const targetTasks = queryClient.getQueryData<Task[]>(taskKeys.byList(listId));
+      let lastPosition = targetTasks?.[targetTasks.length - 1]?.position;
+      const movedTasks = tasksBefore.map((task) => {
+        lastPosition = getPositionAfterLast(lastPosition);
+        return { ...task, list_id: listId, position: lastPosition };
+      });
+      const movedById = new Map(movedTasks.map((task) => [task.id, task]));
+      const replaceMovedTask = (task: Task) => movedById.get(task.id) ?? task;
+
+      // Take the tasks out of their source lists and add them to the target list
+      queryClient.setQueriesData<Task[]>(
+        { queryKey: taskKeys.tasks(), predicate: (query) => query.queryKey[2] === 'byList' },
+        (old) => old?.filter((task) => !movingIds.has(task.id))
+      );
+      queryClient.setQueryData<Task[]>(taskKeys.byList(listId), (old) =>
+        old ? [...old, ...movedTasks] : old
+      );
+
+      // Update the tasks everywhere else they are cached
+      queryClient.setQueryData<Task[]>(taskKeys.tasks(), (old) => old?.map(replaceMovedTask));
+      movedTasks.forEach((task) => {
+        queryClient.setQueryData<Task>(taskKeys.task(task.id), (old) => (old ? task : old));
+      });
+      updateQueriedTasks(queryClient, (tasks) => tasks.map(replaceMovedTask));
+
+      // Move the tasks between the counts of their lists
+      tasksBefore.forEach((task, index) => {
+        adjustListTaskCounts(queryClient, task, movedTasks[index]);
+      });
+
+      return { previousTaskQueries, previousListCounts, sourceListIds };
+    },
+    onError: (err, variables, context) => {
+      // Rollback optimistic updates on error
+      context?.previousTaskQueries.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      restoreListTaskCounts(queryClient, context?.previousListCounts);
+    },
+    onSuccess: (movedTasks, { listId }) => {
+      // Take the positions the server assigned
+      const movedById = new Map(movedTasks.map((task) => [task.id, task]));
+      const replaceMovedTask = (task: Task) => movedById.get(task.id) ?? task;
+      queryClient.setQueryData<Task[]>(taskKeys.byList(listId), (old) =>
+        old ? sortByPosition(old.map(replaceMovedTask)) : old
+      );
+      queryClient.setQueryData<Task[]>(taskKeys.tasks(), (old) => old?.map(replaceMovedTask));
+    },
+    onSettled: (_, __, { listId }, context) => {
+      // Refetch both ends of the move, including tasks that were not cached
+      [listId, ...(context?.sourceListIds ?? [])].forEach((id) => {
+        queryClient.invalidateQueries({ queryKey: taskKeys.byList(id) });
+        queryClient.invalidateQueries({ queryKey: taskKeys.subtaskProgress(id) });
+      });
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
+    },
+  });
+};
+
+/**
+ * Hook for copying tasks to the end of a list with optimistic updates
+ * Works for a single task as well as a multi-selection
+ */
+export const useCopyTasks = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ ids, listId }: { ids: number[]; listId: number }) => copyTasks(ids, listId),
+    onMutate: async ({ ids, listId }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: taskKeys.byList(listId) });
+
+      // Snapshot the previous values
+      const previousTasks = queryClient.getQueryData<Task[]>(taskKeys.byList(listId));
+      const previousListCounts = await snapshotListTaskCounts(queryClient);
+
+      // Only cached tasks can be copied optimistically; the rest shows up on refetch
+      const sourceTasks = ids
+        .map((id) => findCachedTask<Task>(queryClient, id))
+        .filter((task): task is Task => !!task)
+        .sort(compareByListPosition);
+      const optimisticCopies = createOptimisticCopies(sourceTasks, listId, previousTasks);
+
+      // Optimistically append the copies to the target list
+      queryClient.setQueryData<Task[]>(taskKeys.byList(listId), (old) =>
+        old ? [...old, ...optimisticCopies] : old
+      );
+      queryClient.setQueryData<Task[]>(taskKeys.tasks(), (old) =>
+        old ? [...old, ...optimisticCopies] : old
+      );
+      optimisticCopies.forEach((copy) => adjustListTaskCounts(queryClient, null, copy));
+
+      return { previousTasks, previousListCounts, optimisticCopies };
+    },
+    onError: (err, { listId }, context) => {
+      // Rollback optimistic updates on error
+      if (context?.previousTasks) {
+        queryClient.setQueryData(taskKeys.byList(listId), context.previousTasks);
+      }
+      const optimisticIds = new Set(context?.optimisticCopies.map((copy) => copy.id));
+      queryClient.setQueryData<Task[]>(taskKeys.tasks(), (old) =>
+        old?.filter((task) => !optimisticIds.has(task.id))
+      );
+      restoreListTaskCounts(queryClient, context?.previousListCounts);
+    },
+    onSuccess: (copies, { listId }, context) => {
+      // Swap the optimistic copies for the created ones
+      const optimisticIds = new Set(context.optimisticCopies.map((copy) => copy.id));
+      const replaceOptimisticCopies = (old: Task[] | undefined) =>
+        old ? [...old.filter((task) => !optimisticIds.has(task.id)), ...copies] : old;
+      queryClient.setQueryData(taskKeys.byList(listId), replaceOptimisticCopies);
+      queryClient.setQueryData(taskKeys.tasks(), replaceOptimisticCopies);
+
+      // Copies bring their checklists and reminders along
+      queryClient.invalidateQueries({ queryKey: taskKeys.subtaskProgress(listId) });
+      copies.forEach((copy) => queueReminderSync(copy.id));
+    },
+    onSettled: () => {
+      // Copies of tasks that were not cached, and composed query pages, need a refetch
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
     },
   });
 };
@@ -272,6 +886,12 @@ export const useToggleTaskCompletion = () => {
 
       // Snapshot the previous value
       const previousTask = queryClient.getQueryData(taskKeys.task(id));
+      const previousListCounts = await snapshotListTaskCounts(queryClient);
+
+      // Capture the caches for undo before anything changes
+      const undoId = createUndoId();
+      const undoSnapshot = captureUndoSnapshot(queryClient, [taskKeys.all]);
+      const taskBefore = findCachedTask<Task>(queryClient, id);
 
       // Helper function to update task completion status
       const updateTaskStatus = (task: any) => 
@@ -311,15 +931,41 @@ export const useToggleTaskCompletion = () => {
         }
       );
 
-      return { previousTask };
+      // Optimistically update composed query pages
+      updateQueriedTasks(queryClient, (tasks) => tasks.map(updateTaskStatus));
+
+      // Move the task between the completed and overdue counts of its list
+      if (taskBefore) {
+        const taskAfter = updateTaskCompletionStatus(taskBefore, isCompleted);
+        adjustListTaskCounts(queryClient, taskBefore, taskAfter);
+      }
+
+      return { previousTask, previousListCounts, undoId, undoSnapshot, taskBefore };
     },
     onError: (err, { id }, context) => {
       // Rollback optimistic updates on error
       if (context?.previousTask) {
         queryClient.setQueryData(taskKeys.task(id), context.previousTask);
       }
+      restoreListTaskCounts(queryClient, context?.previousListCounts);
     },
-    onSuccess: (_, { id }) => {
+    onSuccess: (nextOccurrence, { id, isCompleted }, context) => {
+      addNextOccurrenceToCache(queryClient, nextOccurrence);
+      queueReminderSync(id);
+      queueReminderSync(nextOccurrence?.id);
+
+      // The previous status is only known when the task was cached
+      const { taskBefore } = context;
+      if (taskBefore) {
+        recordCompletionUndo(
+          context,
+          `${isCompleted ? 'Completed' : 'Reopened'} ${describeTask(taskBefore)}`,
+          id,
+          { status: taskBefore.status, is_completed: taskBefore.is_completed },
+          nextOccurrence
+        );
+      }
+
       // Invalidate filter queries to refresh them
       queryClient.invalidateQueries({ 
         queryKey: taskKeys.tasks(), 
@@ -332,6 +978,12 @@ export const useToggleTaskCompletion = () => {
       queryClient.invalidateQueries({ queryKey: taskKeys.completed() });
       queryClient.invalidateQueries({ queryKey: taskKeys.upcoming() });
     },
+    onSettled: () => {
+      // Composed query pages may gain or lose the task; refetch them either way
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
+    },
   });
 };
 
@@ -349,6 +1001,10 @@ export const useDeleteTask = () => {
 
       // Snapshot the previous values
       const previousTask = queryClient.getQueryData(taskKeys.task(taskId));
+      const previousListCounts = await snapshotListTaskCounts(queryClient);
+      const undoId = createUndoId();
+      const undoSnapshot = captureUndoSnapshot(queryClient, [taskKeys.all]);
+      const taskBefore = findCachedTask<Task>(queryClient, taskId);
       
       // Find which lists this task belongs to
       const allTasks = queryClient.getQueryData(taskKeys.tasks()) as any[] | undefined;
@@ -381,7 +1037,21 @@ export const useDeleteTask = () => {
         removeTaskFromQuery
       );
 
-      return { previousTask, previousTasksByList, taskToDelete };
+      // Remove from composed query pages
+      updateQueriedTasks(queryClient, removeTaskFromQuery);
+
+      // Remove from the counts of its list
+      if (taskBefore) adjustListTaskCounts(queryClient, taskBefore, null);
+
+      return {
+        previousTask,
+        previousTasksByList,
+        previousListCounts,
+        taskToDelete,
+        undoId,
+        undoSnapshot,
+        taskBefore,
+      };
     },
     onError: (err, taskId, context) => {
       // Rollback optimistic updates on error
@@ -400,11 +1070,37 @@ export const useDeleteTask = () => {
           return [context.taskToDelete, ...old];
         });
       }
+      restoreListTaskCounts(queryClient, context?.previousListCounts);
     },
-    onSuccess: () => {
+    onSuccess: (_, taskId, context) => {
+      queueReminderCancel(taskId);
+
+      recordUndo({
+        id: context.undoId,
+        label: `Deleted ${describeTask(context.taskBefore)}`,
+        snapshot: context.undoSnapshot,
+        revert: async () => {
+          await restoreTask(taskId);
+          queueReminderSync(taskId);
+        },
+        invalidate: [taskKeys.all, listKeys.withTaskCounts(), ['trash']],
+      });
+
       // Only invalidate related queries that don't include the deleted task
       queryClient.invalidateQueries({ queryKey: taskKeys.completed() });
       queryClient.invalidateQueries({ queryKey: taskKeys.upcoming() });
+      queryClient.invalidateQueries({
+        queryKey: taskKeys.tasks(),
+        predicate: (query) => query.queryKey[2] === 'byTag',
+      });
+      // The task now shows up in the trash
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+    onSettled: () => {
+      // Composed query pages may gain or lose the task; refetch them either way
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
     },
   });
 };
@@ -416,7 +1112,7 @@ export const useUpdateTaskStatus = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, status }: { id: number; status: string }) =>
+    mutationFn: ({ id, status }: { id: number; status: TaskStatus }) =>
       updateTaskStatus(id, status),
     onMutate: async ({ id, status }) => {
       // Cancel any outgoing refetches
@@ -425,13 +1121,14 @@ export const useUpdateTaskStatus = () => {
       // Snapshot the previous values
       const previousTasks = queryClient.getQueryData(taskKeys.tasks());
       const previousTasksByList = queryClient.getQueryData(taskKeys.byList(id));
+      const previousListCounts = await snapshotListTaskCounts(queryClient);
+      const undoId = createUndoId();
+      const undoSnapshot = captureUndoSnapshot(queryClient, [taskKeys.all]);
+      const taskBefore = findCachedTask<Task>(queryClient, id);
 
-      // Optimistically update the task status and completion status
-      const isCompleted = status === 'completed';
-      
-      // Helper function to update task status
+      // Helper function to update the task status and the completion flag derived from it
       const updateTaskStatusInQuery = (task: any) =>
-        task.id === id ? updateTaskCompletionStatus({ ...task, status }, isCompleted) : task;
+        task.id === id ? updateTaskStatusFields(task, status) : task;
       
       // Update all task queries
       queryClient.setQueryData(taskKeys.tasks(), (old: any) => {
@@ -470,13 +1167,29 @@ export const useUpdateTaskStatus = () => {
         }
       );
 
+      // Update composed query pages
+      updateQueriedTasks(queryClient, (tasks) => tasks.map(updateTaskStatusInQuery));
+
       // Update individual task query
       queryClient.setQueryData(taskKeys.task(id), (old: any) => {
         if (!old) return old;
-        return { ...old, status, is_completed: isCompleted };
+        return updateTaskStatusFields(old, status);
       });
 
-      return { previousTasks, previousTasksByList };
+      // Completing or cancelling a task also takes it out of the overdue count
+      if (taskBefore) {
+        const taskAfter = withTaskStatus(taskBefore, status);
+        adjustListTaskCounts(queryClient, taskBefore, taskAfter);
+      }
+
+      return {
+        previousTasks,
+        previousTasksByList,
+        previousListCounts,
+        undoId,
+        undoSnapshot,
+        taskBefore,
+      };
     },
     onError: (err, { id }, context) => {
       // Rollback optimistic updates on error
@@ -486,8 +1199,25 @@ export const useUpdateTaskStatus = () => {
       if (context?.previousTasksByList) {
         queryClient.setQueryData(taskKeys.byList(id), context.previousTasksByList);
       }
+      restoreListTaskCounts(queryClient, context?.previousListCounts);
     },
-    onSuccess: () => {
+    onSuccess: (nextOccurrence, { id, status }, context) => {
+      addNextOccurrenceToCache(queryClient, nextOccurrence);
+      queueReminderSync(id);
+      queueReminderSync(nextOccurrence?.id);
+
+      // The previous status is only known when the task was cached
+      const { taskBefore } = context;
+      if (taskBefore) {
+        recordCompletionUndo(
+          context,
+          `Set ${describeTask(taskBefore)} to ${describeStatus(status)}`,
+          id,
+          { status: taskBefore.status, is_completed: taskBefore.is_completed },
+          nextOccurrence
+        );
+      }
+
       // Invalidate filter queries to refresh them
       queryClient.invalidateQueries({ 
         queryKey: taskKeys.tasks(), 
@@ -500,5 +1230,445 @@ export const useUpdateTaskStatus = () => {
       queryClient.invalidateQueries({ queryKey: taskKeys.completed() });
       queryClient.invalidateQueries({ queryKey: taskKeys.upcoming() });
     },
+    onSettled: () => {
+      // Composed query pages may gain or lose the task; refetch them either way
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
+    },
+  });
+};
+
+/**
+ * Hook for changing the status and/or priority of several tasks at once
+ * All tasks change in one optimistic cache update and one transaction
+ */
+export const useUpdateTasks = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ ids, changes }: { ids: number[]; changes: Parameters<typeof updateTasks>[1] }) =>
+      updateTasks(ids, changes),
+    onMutate: async ({ ids, changes }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: taskKeys.all });
+
+      // Snapshot the previous values
+      const previousTaskQueries = queryClient.getQueriesData({ queryKey: taskKeys.tasks() });
+      const previousListCounts = await snapshotListTaskCounts(queryClient);
+      const undoId = createUndoId();
+      const undoSnapshot = captureUndoSnapshot(queryClient, [taskKeys.all]);
+      const tasksBefore = ids
+        .map((id) => findCachedTask<Task>(queryClient, id))
+        .filter((task): task is Task => !!task);
+
+      // A new status also sets the completion flag, and tasks that the workflow does not
+      // allow to take it stay as they are, as on the server
+      const { status } = changes;
+      const applyChanges = (task: Task): Task => {
+        if (status && !canTransition(getTaskStatus(task), status)) return task;
+        return {
+          ...task,
+          ...changes,
+          ...(status ? { is_completed: isCompletedStatus(status) } : {}),
+          updated_at: new Date().toISOString(),
+        };
+      };
+
+      updateCachedTasks(queryClient, ids, applyChanges);
+      tasksBefore.forEach((task) => adjustListTaskCounts(queryClient, task, applyChanges(task)));
+
+      return { previousTaskQueries, previousListCounts, undoId, undoSnapshot, tasksBefore };
+    },
+    onError: (err, variables, context) => {
+      // Rollback optimistic updates on error
+      context?.previousTaskQueries.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      restoreListTaskCounts(queryClient, context?.previousListCounts);
+    },
+    onSuccess: (occurrences, { ids, changes }, context) => {
+      occurrences.forEach(({ nextOccurrence }) => {
+        addNextOccurrenceToCache(queryClient, nextOccurrence);
+      });
+
+      // Completion changes move the tasks' reminders
+      if (changes.status !== undefined) {
+        ids.forEach(queueReminderSync);
+        occurrences.forEach(({ nextOccurrence }) => queueReminderSync(nextOccurrence.id));
+      }
+
+      // The previous values are only known for cached tasks
+      const occurrenceIds = new Map(
+        occurrences.map(({ taskId, nextOccurrence }) => [taskId, nextOccurrence.id])
+      );
+      const previous: TaskChangeRevert[] = context.tasksBefore.map((task) => ({
+        id: task.id,
+        is_completed: task.is_completed,
+        ...(changes.status !== undefined ? { status: task.status } : {}),
+        ...(changes.priority !== undefined ? { priority: task.priority } : {}),
+        nextOccurrenceId: occurrenceIds.get(task.id),
+      }));
+      if (previous.length > 0) {
+        recordUndo({
+          id: context.undoId,
+          label: describeTaskChanges(ids.length, changes),
+          snapshot: context.undoSnapshot,
+          revert: async () => {
+            await revertTaskChanges(previous);
+            previous.forEach(({ id }) => queueReminderSync(id));
+            occurrenceIds.forEach(queueReminderCancel);
+          },
+          invalidate: [taskKeys.all, listKeys.withTaskCounts()],
+        });
+      }
+    },
+    onSettled: () => {
+      // Filtered collections may gain or lose tasks; refetch them
+      queryClient.invalidateQueries({
+        queryKey: taskKeys.tasks(),
+        predicate: (query) => ['byStatus', 'byPriority'].includes(query.queryKey[2] as string),
+      });
+      queryClient.invalidateQueries({ queryKey: taskKeys.completed() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.upcoming() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
+    },
+  });
+};
+
+/**
+ * Hook for moving several tasks to the trash at once
+ * All tasks disappear in one optimistic cache update and are deleted with one statement
+ */
+export const useDeleteTasks = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ids: number[]) => deleteTasks(ids),
+    onMutate: async (ids) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: taskKeys.all });
+
+      // Snapshot the previous values
+      const previousTaskQueries = queryClient.getQueriesData({ queryKey: taskKeys.tasks() });
+      const previousListCounts = await snapshotListTaskCounts(queryClient);
+      const undoId = createUndoId();
+      const undoSnapshot = captureUndoSnapshot(queryClient, [taskKeys.all]);
+      const tasksBefore = ids
+        .map((id) => findCachedTask<Task>(queryClient, id))
+        .filter((task): task is Task => !!task);
+
+      // Optimistically remove the tasks from every collection and from their lists' counts
+      updateCachedTasks(queryClient, ids, () => null);
+      tasksBefore.forEach((task) => adjustListTaskCounts(queryClient, task, null));
+
+      return { previousTaskQueries, previousListCounts, undoId, undoSnapshot };
+    },
+    onError: (err, ids, context) => {
+      // Rollback optimistic updates on error
+      context?.previousTaskQueries.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+      restoreListTaskCounts(queryClient, context?.previousListCounts);
+    },
+    onSuccess: (_, ids, context) => {
+      ids.forEach(queueReminderCancel);
+
+      recordUndo({
+        id: context.undoId,
+        label: `Deleted ${describeTaskCount(ids.length)}`,
+        snapshot: context.undoSnapshot,
+        revert: async () => {
+          await restoreTasks(ids);
+          ids.forEach(queueReminderSync);
+        },
+        invalidate: [taskKeys.all, listKeys.withTaskCounts(), ['trash']],
+      });
+
+      // The tasks now show up in the trash
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
+    },
+  });
+};
+
+/**
+ * Hook for moving a task's due date to another day with optimistic updates
+ * The task moves between the cached calendar ranges right away
+ */
+export const useRescheduleTask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, dueDate }: { id: number; dueDate: string }) =>
+      updateTask(id, { due_date: dueDate }),
+    onMutate: async ({ id, dueDate }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: taskKeys.all });
+
+      // Snapshot the previous values
+      const previousTaskQueries = queryClient.getQueriesData({ queryKey: taskKeys.tasks() });
+
+      const reschedule = (task: Task): Task => ({
+        ...task,
+        due_date: dueDate,
+        updated_at: new Date().toISOString(),
+      });
+      updateCachedTasks(queryClient, [id], reschedule);
+      const task = findCachedTask<Task>(queryClient, id);
+      if (task) placeTaskInDueRanges(queryClient, task);
+
+      return { previousTaskQueries };
+    },
+    onError: (err, variables, context) => {
+      // Rollback optimistic updates on error
+      context?.previousTaskQueries.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
+    onSuccess: (_, { id }) => {
+      // Reminders are relative to the due date
+      queueReminderSync(id);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.tasks() });
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
+    },
+  });
+};
+
+/**
+ * Hook for moving a task within its list's manual order with optimistic updates
+ */
+export const useReorderTask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, toIndex }: { id: number; listId: number; toIndex: number }) =>
+      reorderTask(id, toIndex),
+    onMutate: async ({ id, listId, toIndex }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: taskKeys.byList(listId) });
+
+      // Snapshot the previous value
+      const previousTasks = queryClient.getQueryData<Task[]>(taskKeys.byList(listId));
+
+      // Optimistically apply the same move the server will make
+      if (previousTasks) {
+        const changes = planReorder(previousTasks, id, toIndex);
+        queryClient.setQueryData(taskKeys.byList(listId), applyReorder(previousTasks, changes));
+      }
+
+      return { previousTasks };
+    },
+    onError: (err, { listId }, context) => {
+      // Rollback optimistic updates on error
+      if (context?.previousTasks) {
+        queryClient.setQueryData(taskKeys.byList(listId), context.previousTasks);
+      }
+    },
+    onSuccess: (changes, { listId }) => {
+      // The server renumbers the list when positions run out; adopt its positions
+      queryClient.setQueryData(taskKeys.byList(listId), (old: Task[] | undefined) =>
+        old ? applyReorder(old, changes) : old
+      );
+    },
+    onSettled: () => {
+      // Pages sorted by manual order change with the move
+      queryClient.invalidateQueries({ queryKey: taskKeys.queries() });
+    },
+  });
+};
+
+/**
+ * Hook for adding a subtask to a task with optimistic updates
+ */
+export const useCreateSubtask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createSubtask,
+    onMutate: async (newSubtask) => {
+      await queryClient.cancelQueries({ queryKey: taskKeys.subtasks(newSubtask.task_id) });
+
+      const previousSubtasks = queryClient.getQueryData(taskKeys.subtasks(newSubtask.task_id));
+      const previousProgress = snapshotSubtaskProgress(queryClient);
+
+      const optimisticSubtask: Subtask = {
+        id: Date.now(), // Temporary ID
+        ...newSubtask,
+        is_completed: false,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+
+      // Checklist items are appended so they keep their creation order
+      queryClient.setQueryData(taskKeys.subtasks(newSubtask.task_id), (old: Subtask[] | undefined) =>
+        old ? [...old, optimisticSubtask] : [optimisticSubtask]
+      );
+      adjustSubtaskProgress(queryClient, newSubtask.task_id, { total: 1 });
+
+      return { previousSubtasks, previousProgress, optimisticSubtask };
+    },
+    onError: (err, newSubtask, context) => {
+      queryClient.setQueryData(taskKeys.subtasks(newSubtask.task_id), context?.previousSubtasks);
+      context?.previousProgress.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
+    onSuccess: (createdSubtask, newSubtask, context) => {
+      // Swap the temporary entry for the persisted row
+      queryClient.setQueryData(taskKeys.subtasks(newSubtask.task_id), (old: Subtask[] | undefined) =>
+        old?.map((subtask) =>
+          subtask.id === context?.optimisticSubtask.id ? createdSubtask : subtask
+        )
+      );
+    },
+  });
+};
+
+/**
+ * Hook for renaming a subtask with optimistic updates
+ */
+export const useUpdateSubtask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, name }: { id: number; taskId: number; name: string }) =>
+      updateSubtask(id, name),
+    onMutate: async ({ id, taskId, name }) => {
+      await queryClient.cancelQueries({ queryKey: taskKeys.subtasks(taskId) });
+
+      const previousSubtasks = queryClient.getQueryData(taskKeys.subtasks(taskId));
+
+      queryClient.setQueryData(taskKeys.subtasks(taskId), (old: Subtask[] | undefined) =>
+        old?.map((subtask) => (subtask.id === id ? { ...subtask, name } : subtask))
+      );
+
+      return { previousSubtasks };
+    },
+    onError: (err, { taskId }, context) => {
+      queryClient.setQueryData(taskKeys.subtasks(taskId), context?.previousSubtasks);
+    },
+  });
+};
+
+/**
+ * Hook for toggling a subtask with optimistic updates
+ * When `completeParent` is set and the last open subtask is checked, the parent task is completed too
+ */
+export const useToggleSubtaskCompletion = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      isCompleted,
+      completeParent,
+    }: {
+      id: number;
+      taskId: number;
+      isCompleted: boolean;
+      completeParent?: boolean;
+    }) => toggleSubtaskCompletion(id, isCompleted, completeParent),
+    onMutate: async ({ id, taskId, isCompleted }) => {
+      await queryClient.cancelQueries({ queryKey: taskKeys.subtasks(taskId) });
+
+      const previousSubtasks = queryClient.getQueryData(taskKeys.subtasks(taskId));
+      const previousProgress = snapshotSubtaskProgress(queryClient);
+
+      queryClient.setQueryData(taskKeys.subtasks(taskId), (old: Subtask[] | undefined) =>
+        old?.map((subtask) =>
+          subtask.id === id
+            ? { ...subtask, is_completed: isCompleted, updated_at: new Date().toISOString() }
+            : subtask
+        )
+      );
+      adjustSubtaskProgress(queryClient, taskId, { completed: isCompleted ? 1 : -1 });
+
+      return { previousSubtasks, previousProgress };
+    },
+    onError: (err, { taskId }, context) => {
+      queryClient.setQueryData(taskKeys.subtasks(taskId), context?.previousSubtasks);
+      context?.previousProgress.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
+    onSuccess: ({ parentCompleted, nextOccurrence }, { taskId }) => {
+      if (!parentCompleted) return;
+
+      addNextOccurrenceToCache(queryClient, nextOccurrence);
+      queueReminderSync(taskId);
+      queueReminderSync(nextOccurrence?.id);
+
+      // Reflect the parent completion in every cached task collection
+      const completeParentTask = (task: any) =>
+        task.id === taskId ? updateTaskCompletionStatus(task, true) : task;
+
+      const parentBefore = findCachedTask<Task>(queryClient, taskId);
+      if (parentBefore && !parentBefore.is_completed) {
+        const parentAfter = updateTaskCompletionStatus(parentBefore, true);
+        adjustListTaskCounts(queryClient, parentBefore, parentAfter);
+      }
+
+      queryClient.setQueryData(taskKeys.task(taskId), (old: any) =>
+        old ? updateTaskCompletionStatus(old, true) : old
+      );
+      queryClient.setQueryData(taskKeys.tasks(), (old: any) => old?.map(completeParentTask));
+      queryClient.setQueriesData(
+        { queryKey: taskKeys.tasks(), predicate: (query) => query.queryKey[2] === 'byList' },
+        (old: any) => old?.map(completeParentTask)
+      );
+
+      queryClient.invalidateQueries({
+        queryKey: taskKeys.tasks(),
+        predicate: (query) => query.queryKey[2] === 'byStatus',
+      });
+      queryClient.invalidateQueries({ queryKey: taskKeys.completed() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.upcoming() });
+      queryClient.invalidateQueries({ queryKey: listKeys.withTaskCounts() });
+      queryClient.invalidateQueries({ queryKey: taskKeys.smartViews() });
+    },
+  });
+};
+
+/**
+ * Hook for deleting a subtask with optimistic updates
+ */
+export const useDeleteSubtask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id }: { id: number; taskId: number }) => deleteSubtask(id),
+    onMutate: async ({ id, taskId }) => {
+      await queryClient.cancelQueries({ queryKey: taskKeys.subtasks(taskId) });
+
+      const previousSubtasks = queryClient.getQueryData<Subtask[]>(taskKeys.subtasks(taskId));
+      const previousProgress = snapshotSubtaskProgress(queryClient);
+      const subtaskToDelete = previousSubtasks?.find((subtask) => subtask.id === id);
+
+      queryClient.setQueryData(taskKeys.subtasks(taskId), (old: Subtask[] | undefined) =>
+        old?.filter((subtask) => subtask.id !== id)
+      );
+      adjustSubtaskProgress(queryClient, taskId, {
+        total: -1,
+        completed: subtaskToDelete?.is_completed ? -1 : 0,
+      });
+
+      return { previousSubtasks, previousProgress };
+    },
+    onError: (err, { taskId }, context) => {
+      queryClient.setQueryData(taskKeys.subtasks(taskId), context?.previousSubtasks);
+      context?.previousProgress.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
   });
 };
@@ -0,0 +1,181 @@
+/**
+ * Custom hooks for the trash using TanStack Query
+ * Deleted lists and tasks stay restorable until they are deleted forever or purged
+ */
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  deleteListForever,
+  deleteTaskForever,
+  getTrashedLists,
+  getTrashedTasks,
+  purgeTrash,
+  restoreList,
+  restoreTask,
+} from '@/queries/trash';
+import { useUIStore } from '@/store/store';
+import { List, Task } from '@/types';
+import { queueReminderSync } from '@/utils/reminders';
+import { listKeys } from './useLists';
+import { taskKeys } from './useTasks';
+
+/**
+ * Query key factory for trash-related queries
+ */
+export const trashKeys = {
+  all: ['trash'] as const,
+  lists: () => [...trashKeys.all, 'lists'] as const,
+  tasks: () => [...trashKeys.all, 'tasks'] as const,
+};
+
+//  QUERY HOOKS
+
+/**
+ * Fetches the lists in the trash
+ */
+export const useTrashedLists = () => {
+  return useQuery({
+    queryKey: trashKeys.lists(),
+    queryFn: getTrashedLists,
+  });
+};
+
+/**
+ * Fetches the tasks in the trash whose list is still active
+ */
+export const useTrashedTasks = () => {
+  return useQuery({
+    queryKey: trashKeys.tasks(),
+    queryFn: getTrashedTasks,
+  });
+};
+
+//  MUTATION HOOKS
+
+/**
+ * Removes an item from a cached trash query and returns the previous data for rollback
+ */
+const useOptimisticTrashRemoval = () => {
+  const queryClient = useQueryClient();
+
+  return async <T extends List | Task>(queryKey: readonly unknown[], id: number) => {
+    await queryClient.cancelQueries({ queryKey });
+    const previous = queryClient.getQueryData<T[]>(queryKey);
+    queryClient.setQueryData<T[]>(queryKey, (old) => old?.filter((item) => item.id !== id));
+    return { previous };
+  };
+};
+
+/**
+ * Hook for restoring a task from the trash
+ */
+export const useRestoreTask = () => {
+  const queryClient = useQueryClient();
+  const removeFromTrash = useOptimisticTrashRemoval();
+
+  return useMutation({
+    mutationFn: restoreTask,
+    onMutate: (taskId) => removeFromTrash<Task>(trashKeys.tasks(), taskId),
+    onError: (err, taskId, context) => {
+      queryClient.setQueryData(trashKeys.tasks(), context?.previous);
+    },
+    onSuccess: (_, taskId) => {
+      queueReminderSync(taskId);
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      queryClient.invalidateQueries({ queryKey: listKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook for restoring a list, together with the tasks deleted with it
+ */
+export const useRestoreList = () => {
+  const queryClient = useQueryClient();
+  const removeFromTrash = useOptimisticTrashRemoval();
+
+  return useMutation({
+    mutationFn: restoreList,
+    onMutate: (listId) => removeFromTrash<List>(trashKeys.lists(), listId),
+    onError: (err, listId, context) => {
+      queryClient.setQueryData(trashKeys.lists(), context?.previous);
+    },
+    onSuccess: (restoredTaskIds) => {
+      restoredTaskIds.forEach(queueReminderSync);
+      queryClient.invalidateQueries({ queryKey: listKeys.all });
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      // Tasks trashed individually become visible once their list is back
+      queryClient.invalidateQueries({ queryKey: trashKeys.tasks() });
+    },
+  });
+};
+
+/**
+ * Hook for permanently deleting a task from the trash
+ */
+export const useDeleteTaskForever = () => {
+  const queryClient = useQueryClient();
+  const removeFromTrash = useOptimisticTrashRemoval();
+
+  return useMutation({
+    mutationFn: deleteTaskForever,
+    onMutate: (taskId) => removeFromTrash<Task>(trashKeys.tasks(), taskId),
+    onError: (err, taskId, context) => {
+      queryClient.setQueryData(trashKeys.tasks(), context?.previous);
+    },
+  });
+};
+
+/**
+ * Hook for permanently deleting a list and all of its tasks from the trash
+ */
+export const useDeleteListForever = () => {
+  const queryClient = useQueryClient();
+  const removeFromTrash = useOptimisticTrashRemoval();
+
+  return useMutation({
+    mutationFn: deleteListForever,
+    onMutate: (listId) => removeFromTrash<List>(trashKeys.lists(), listId),
+    onError: (err, listId, context) => {
+      queryClient.setQueryData(trashKeys.lists(), context?.previous);
+    },
+  });
+};
+
+/**
+ * Hook for purging trash older than a number of days (0 empties the trash)
+ */
+export const usePurgeTrash = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (retentionDays: number) => purgeTrash(retentionDays),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trashKeys.all });
+    },
+  });
+};
+
+/**
+ * Purges expired trash once on mount, using the retention period from the UI store
+ *
+ * @remarks
+ * Waits for the persisted store to rehydrate, so a longer saved retention period
+ * is never overridden by the default one.
+ */
+export const useAutoPurgeTrash = () => {
+  const { mutate } = usePurgeTrash();
+
+  useEffect(() => {
+    const purge = () =>
+      mutate(useUIStore.getState().trashRetentionDays, {
+        onError: (err) => console.error('Error purging trash:', err),
+      });
+
+    if (useUIStore.persist.hasHydrated()) {
+      purge();
+      return;
+    }
+    return useUIStore.persist.onFinishHydration(purge);
+  }, [mutate]);
+};
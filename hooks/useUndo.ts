@@ -0,0 +1,97 @@
+/**
+ * Undo support for task and list mutations
+ * Mutation hooks record the inverse of each action; screens offer it from a toast
+ */
+import { QueryClient, QueryKey, useQueryClient } from '@tanstack/react-query';
+import { UndoEntry, useUndoStore } from '@/store/undo';
+import { PaginatedResponse } from '@/types/api';
+import { toastMessages } from '@/utils/toast';
+
+let undoCounter = 0;
+
+/**
+ * Returns a unique identifier for an undo entry
+ * Created in `onMutate` so the caller can find the entry from the mutation context
+ */
+export const createUndoId = (): string => `undo-${Date.now()}-${undoCounter++}`;
+
+/**
+ * Captures the cached data of every query under the given keys
+ * Must run before the optimistic update so the snapshot holds the pre-action state
+ */
+export const captureUndoSnapshot = (
+  queryClient: QueryClient,
+  queryKeys: QueryKey[]
+): [QueryKey, unknown][] =>
+  queryKeys.flatMap((queryKey) => queryClient.getQueriesData({ queryKey }));
+
+/**
+ * Adds an action to the undo history
+ */
+export const recordUndo = (entry: Omit<UndoEntry, 'createdAt'>) => {
+  useUndoStore.getState().push({ ...entry, createdAt: Date.now() });
+};
+
+/**
+ * Returns the tasks held by a cached task query, which is a list, a page or a single task
+ */
+const getCachedTasks = <T>(data: T[] | T | PaginatedResponse<T> | undefined): (T | undefined)[] => {
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === 'object' && 'pagination' in data) {
+    return (data as PaginatedResponse<T>).data;
+  }
+  return [data as T | undefined];
+};
+
+/**
+ * Finds a task in any cached task query, including the paginated ones
+ * Used to learn the state a task had before an action
+ */
+export const findCachedTask = <T extends { id: number }>(
+  queryClient: QueryClient,
+  taskId: number
+): T | undefined => {
+  for (const [, data] of queryClient.getQueriesData<T[] | T | PaginatedResponse<T>>({
+    queryKey: ['tasks'],
+  })) {
+    const match = getCachedTasks(data).find((task) => task?.id === taskId);
+    if (match) return match;
+  }
+  return undefined;
+};
+
+/**
+ * Exposes the undo history and a function to revert an entry
+ *
+ * @remarks
+ * Reverting the most recent action restores its cache snapshot immediately, so the UI
+ * updates before the database round trip. Older actions skip the snapshot, which would
+ * clobber later changes, and rely on the refetch instead.
+ */
+export const useUndo = () => {
+  const queryClient = useQueryClient();
+  const entries = useUndoStore((state) => state.entries);
+
+  const undo = async (id?: string) => {
+    const { entries: currentEntries, remove } = useUndoStore.getState();
+    const entry = currentEntries.find((candidate) => candidate.id === id);
+    if (!entry) return;
+
+    remove(entry.id);
+
+    if (currentEntries[0].id === entry.id) {
+      entry.snapshot.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+    }
+
+    try {
+      await entry.revert();
+    } catch (err) {
+      toastMessages.error('Failed to undo. Please try again.');
+      console.error('Error undoing action:', err);
+    } finally {
+      entry.invalidate.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+    }
+  };
+
+  return { entries, undo };
+};
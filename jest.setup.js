@@ -10,6 +10,17 @@ jest.mock('expo-haptics', () => ({
   },
 }));
 
+// Mock expo-notifications
+jest.mock('expo-notifications', () => ({
+  getPermissionsAsync: jest.fn(() => Promise.resolve({ granted: true })),
+  requestPermissionsAsync: jest.fn(() => Promise.resolve({ granted: true })),
+  scheduleNotificationAsync: jest.fn(() => Promise.resolve('notification-id')),
+  cancelScheduledNotificationAsync: jest.fn(() => Promise.resolve()),
+  SchedulableTriggerInputTypes: {
+    DATE: 'date',
+  },
+}));
+
 // Mock @expo/vector-icons
 jest.mock('@expo/vector-icons', () => ({
   Ionicons: 'Ionicons',
@@ -41,6 +52,19 @@ jest.mock('drizzle-orm', () => ({
   desc: jest.fn(),
   and: jest.fn(),
   gt: jest.fn(),
+  count: jest.fn(),
+  sql: jest.fn(),
+  inArray: jest.fn(),
+  isNull: jest.fn(),
+  isNotNull: jest.fn(),
+  lt: jest.fn(),
+  max: jest.fn(),
+  asc: jest.fn(),
+  lte: jest.fn(),
+  gte: jest.fn(),
+  not: jest.fn(),
+  or: jest.fn(),
+  getTableColumns: jest.fn(() => ({})),
 }));
 
 // Mock database
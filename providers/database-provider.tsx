@@ -1,12 +1,13 @@
 import { drizzle } from 'drizzle-orm/expo-sqlite';
 import { useMigrations } from 'drizzle-orm/expo-sqlite/migrator';
 import { SQLiteProvider, openDatabaseSync } from 'expo-sqlite';
-import { Suspense } from 'react';
+import { Suspense, useEffect } from 'react';
 import { ActivityIndicator } from 'react-native';
 
 import migrations from '../drizzle/migrations';
 
 import { DATABASE_NAME, db } from '@/db';
+import { ensureSearchIndex } from '@/db/search-index';
 
 interface DatabaseProviderProps {
   children: React.ReactNode;
@@ -15,6 +16,11 @@ interface DatabaseProviderProps {
 export default function DatabaseProvider(props: DatabaseProviderProps) {
   const { success, error } = useMigrations(db, migrations);
 
+  // The search index sits on top of the migrated tables
+  useEffect(() => {
+    if (success) ensureSearchIndex(db.$client);
+  }, [success]);
+
   return (
     <Suspense fallback={<ActivityIndicator size="large" />}>
       <SQLiteProvider
@@ -1,14 +1,29 @@
-import { eq, like, desc } from 'drizzle-orm';
+import { eq, desc, asc, and, isNull, count, max, sql, getTableColumns } from 'drizzle-orm';
 
 import { db } from '../db';
 import { simulateNetworkLatency } from './utils';
-import { lists } from '../db/schema';
+import { getNextTaskPosition } from './tasks';
+import { lists, tasks } from '../db/schema';
+import { getPositionAfterLast, planReorder } from '../utils/ordering';
+import { HIGHLIGHT_END, HIGHLIGHT_START, buildFtsQuery } from '../utils/search';
+import { getTodayDueDate } from '../utils/recurrence';
+import { ListDetails, ListSearchResult, ListWithTaskCount } from '../types';
+import { ListSortField, SortParams } from '../types/common';
+
+/**
+ * Returns what a list query sorts by for a sort field; names ignore case
+ */
+const getListSortColumn = (field: ListSortField) =>
+  field === 'name' ? sql`${lists.name} collate nocase` : lists[field];
 
 /**
  * Retrieves all lists from the database
  *
+ * @param sort - Optional sort field and direction; defaults to the manual order
+ * (see {@link reorderList})
+ *
  * @remarks
- * This function queries the entire lists table without filtering.
+ * This function returns every list that is not in the trash. Ties are broken by ID.
  * Network latency is simulated to emulate real-world API behavior.
  *
  * @returns A promise that resolves to an array of list objects
@@ -17,11 +32,66 @@ import { lists } from '../db/schema';
  * ```typescript
  * const allLists = await getAllLists();
  * console.log(allLists); // [{id: 1, name: 'Shopping', ...}, ...]
+ *
+ * const newestFirst = await getAllLists({ field: 'created_at', direction: 'desc' });
+ * ```
+ */
+export const getAllLists = async (sort?: SortParams<ListSortField>) => {
+  await simulateNetworkLatency();
+  const direction = sort?.direction === 'desc' ? desc : asc;
+  const orderBy = sort
+    ? [direction(getListSortColumn(sort.field)), direction(lists.id)]
+    : [lists.position, lists.id];
+
+  return db
+    .select()
+    .from(lists)
+    .where(isNull(lists.deleted_at))
+    .orderBy(...orderBy)
+    .all();
+};
+
+/**
+ * Retrieves all lists together with the number of tasks in each
+ *
+ * @remarks
+ * This function counts every task, the completed tasks and the overdue tasks of each list
+ * in a single statement, so the lists screen can show progress without a query per list.
+ * A task is overdue when it is neither completed nor cancelled and its due date is before
+ * today; due dates carry whole days, so a task due today is not overdue yet. Lists and
+ * tasks in the trash are left out, and lists come back in manual order like {@link getAllLists}.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @param today - The day overdue tasks are counted against, in `YYYY-MM-DD` format
+ * @returns A promise that resolves to an array of lists with their task counts
+ *
+ * @example
+ * ```typescript
+ * const listsWithCounts = await getListsWithTaskCounts();
+ * console.log(listsWithCounts); // [{id: 1, name: 'Shopping', task_count: 4, overdue_count: 1, ...}, ...]
  * ```
  */
-export const getAllLists = async () => {
+export const getListsWithTaskCounts = async (
+  today = getTodayDueDate()
+): Promise<ListWithTaskCount[]> => {
   await simulateNetworkLatency();
-  return db.select().from(lists).all();
+  return db
+    .select({
+      ...getTableColumns(lists),
+      task_count: count(tasks.id),
+      completed_count: sql<number>`coalesce(sum(${tasks.is_completed} = 1), 0)`,
+      overdue_count: sql<number>`coalesce(sum(
+        ${tasks.is_completed} = 0
+        and coalesce(${tasks.status}, 'pending') != 'cancelled'
+        and ${tasks.due_date} < ${today}
+      ), 0)`,
+    })
+    .from(lists)
+    .leftJoin(tasks, and(eq(tasks.list_id, lists.id), isNull(tasks.deleted_at)))
+    .where(isNull(lists.deleted_at))
+    .groupBy(lists.id)
+    .orderBy(lists.position, lists.id)
+    .all();
 };
 
 /**
@@ -30,7 +100,7 @@ export const getAllLists = async () => {
  * @param id - The unique identifier of the list to retrieve
  *
  * @remarks
- * This function performs an exact match on the list ID.
+ * This function performs an exact match on the list ID. Lists in the trash are not returned.
  * Network latency is simulated to emulate real-world API behavior.
  *
  * @returns A promise that resolves to the list object if found, or undefined if not found
@@ -47,59 +117,83 @@ export const getAllLists = async () => {
  */
 export const getListById = async (id: number) => {
   await simulateNetworkLatency();
-  return db.select().from(lists).where(eq(lists.id, id)).get();
+  return db
+    .select()
+    .from(lists)
+    .where(and(eq(lists.id, id), isNull(lists.deleted_at)))
+    .get();
 };
 
 /**
  * Creates a new list with the specified name
  *
  * @param name - The name of the list to create
+ * @param details - Optional description, colour and icon of the list
+ * @param details.description - Optional description shown below the name
+ * @param details.color - Optional hex colour, e.g. "#3B82F6"
+ * @param details.icon - Optional Ionicons name (see `LIST_ICONS` in `utils/list-style`)
  *
  * @remarks
- * This function inserts a new record in the lists table.
+ * This function inserts a new record in the lists table, after the last list.
  * The created_at and updated_at fields are automatically handled by the database.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves when the list is created
+ * @returns A promise that resolves to the created list
  *
  * @example
  * ```typescript
- * await createList("Grocery Shopping");
+ * const list = await createList("Grocery Shopping", { color: "#22C55E", icon: "cart-outline" });
  * ```
  */
-export const createList = async (name: string) => {
+export const createList = async (name: string, details: ListDetails = {}) => {
   await simulateNetworkLatency();
-  return db
-    .insert(lists)
-    .values({
-      name,
-    })
-    .run();
+  return db.transaction((tx) => {
+    const last = tx
+      .select({ position: max(lists.position) })
+      .from(lists)
+      .where(isNull(lists.deleted_at))
+      .get();
+
+    return tx
+      .insert(lists)
+      .values({
+        name,
+        ...details,
+        position: getPositionAfterLast(last?.position),
+      })
+      .returning()
+      .get();
+  });
 };
 
 /**
- * Updates an existing list with a new name
+ * Updates an existing list
  *
  * @param id - The unique identifier of the list to update
- * @param name - The new name for the list
+ * @param list - An object with list properties to update
+ * @param list.name - Optional new name for the list
+ * @param list.description - Optional new description, or null to remove it
+ * @param list.color - Optional new hex colour, or null for the default colour
+ * @param list.icon - Optional new Ionicons name, or null for the default icon
  *
  * @remarks
- * This function updates the name and updated_at fields of the specified list.
+ * This function updates the given fields and the updated_at field of the specified list.
+ * Only the fields included in the list parameter will be modified.
  * Network latency is simulated to emulate real-world API behavior.
  *
  * @returns A promise that resolves when the list is updated
  *
  * @example
  * ```typescript
- * await updateList(5, "Grocery List");
+ * await updateList(5, { name: "Grocery List", description: null });
  * ```
  */
-export const updateList = async (id: number, name: string) => {
+export const updateList = async (id: number, list: Partial<{ name: string } & ListDetails>) => {
   await simulateNetworkLatency();
   return db
     .update(lists)
     .set({
-      name,
+      ...list,
       updated_at: new Date().toISOString(),
     })
     .where(eq(lists.id, id))
@@ -107,52 +201,186 @@ export const updateList = async (id: number, name: string) => {
 };
 
 /**
- * Deletes a list by its ID
+ * Counts the tasks of a list that are not in the trash
+ *
+ * @param id - The unique identifier of the list
+ *
+ * @remarks
+ * Used to tell the user how many tasks a list deletion affects.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the number of active tasks in the list
+ *
+ * @example
+ * ```typescript
+ * const taskCount = await getTaskCountByListId(5);
+ * ```
+ */
+export const getTaskCountByListId = async (id: number) => {
+  await simulateNetworkLatency();
+  const result = db
+    .select({ value: count() })
+    .from(tasks)
+    .where(and(eq(tasks.list_id, id), isNull(tasks.deleted_at)))
+    .get();
+  return result?.value ?? 0;
+};
+
+/**
+ * Moves a list to the trash, either with its tasks or after moving them to another list
  *
  * @param id - The unique identifier of the list to delete
+ * @param options - Optional settings
+ * @param options.moveTasksTo - ID of an active list that receives the tasks instead
  *
  * @remarks
- * This function removes the list from the database permanently.
- * Note: This operation might cascade to related tasks depending on database constraints.
+ * Everything runs in one transaction. Without `moveTasksTo`, the list and its remaining
+ * tasks are soft-deleted with the same deleted_at timestamp; restoring the list uses that
+ * timestamp to bring back exactly those tasks, while tasks trashed earlier on their own
+ * stay in the trash. With `moveTasksTo`, active tasks are moved first, to the end of the
+ * target list in their current order, and only the list goes to the trash.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves when the list is deleted
+ * @returns A promise that resolves to the IDs of the tasks moved to the trash with the list
+ * (`trashedTaskIds`) and of the tasks moved to the other list (`movedTaskIds`)
+ *
+ * @throws Error if the target list is the list being deleted or does not exist
  *
  * @example
  * ```typescript
+ * // Delete the list and its tasks
  * await deleteList(5);
+ *
+ * // Keep the tasks by moving them to list 2
+ * await deleteList(5, { moveTasksTo: 2 });
+ * ```
+ */
+export const deleteList = async (id: number, options: { moveTasksTo?: number } = {}) => {
+  await simulateNetworkLatency();
+  const { moveTasksTo } = options;
+  const deletedAt = new Date().toISOString();
+
+  return db.transaction((tx) => {
+    let movedTaskIds: number[] = [];
+
+    if (moveTasksTo !== undefined) {
+      const target = tx
+        .select({ id: lists.id })
+        .from(lists)
+        .where(and(eq(lists.id, moveTasksTo), isNull(lists.deleted_at)))
+        .get();
+      if (moveTasksTo === id || !target) {
+        throw new Error('Tasks can only be moved to another existing list');
+      }
+
+      // Moved tasks keep their order and go after the tasks already in the target list
+      const movingTasks = tx
+        .select({ id: tasks.id })
+        .from(tasks)
+        .where(and(eq(tasks.list_id, id), isNull(tasks.deleted_at)))
+        .orderBy(tasks.position, tasks.id)
+        .all();
+      movingTasks.forEach((task) => {
+        tx.update(tasks)
+          .set({
+            list_id: moveTasksTo,
+            position: getNextTaskPosition(tx, moveTasksTo),
+            updated_at: deletedAt,
+          })
+          .where(eq(tasks.id, task.id))
+          .run();
+      });
+      movedTaskIds = movingTasks.map((task) => task.id);
+    }
+
+    const trashedTasks = tx
+      .update(tasks)
+      .set({ deleted_at: deletedAt })
+      .where(and(eq(tasks.list_id, id), isNull(tasks.deleted_at)))
+      .returning({ id: tasks.id })
+      .all();
+    tx.update(lists).set({ deleted_at: deletedAt }).where(eq(lists.id, id)).run();
+    return { trashedTaskIds: trashedTasks.map((task) => task.id), movedTaskIds };
+  });
+};
+
+/**
+ * Moves a list to a new place in the manual order
+ *
+ * @param id - The unique identifier of the list to move
+ * @param toIndex - The index the list should end up at among the active lists
+ *
+ * @remarks
+ * Positions are fractional: the list gets the midpoint of its new neighbours, so usually
+ * only one row changes. When the neighbours are too close, every list is renumbered.
+ * Reading the lists and writing the positions run in one transaction.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the lists whose position changed, with their new position
+ *
+ * @example
+ * ```typescript
+ * // Move list 5 to the second place
+ * await reorderList(5, 1);
  * ```
  */
-export const deleteList = async (id: number) => {
+export const reorderList = async (id: number, toIndex: number) => {
   await simulateNetworkLatency();
-  return db.delete(lists).where(eq(lists.id, id)).run();
+  return db.transaction((tx) => {
+    const activeLists = tx
+      .select({ id: lists.id, position: lists.position })
+      .from(lists)
+      .where(isNull(lists.deleted_at))
+      .orderBy(lists.position, lists.id)
+      .all();
+
+    const changes = planReorder(activeLists, id, toIndex);
+    changes.forEach((change) => {
+      tx.update(lists).set({ position: change.position }).where(eq(lists.id, change.id)).run();
+    });
+    return changes;
+  });
 };
 
 /**
- * Searches for lists by name with partial matching
+ * Searches lists using the full-text index
  *
- * @param searchTerm - The string to search for in list names
+ * @param searchTerm - The words to search for
  *
  * @remarks
- * This function performs a case-sensitive partial match using SQL LIKE operator.
- * The search pattern is %searchTerm%, which means it will match if the search term
- * appears anywhere in the list name.
+ * Every word of the search term must match the start of a word in the list name or
+ * description, ignoring case and accents. Results are ranked by relevance, with name
+ * matches weighing more, and carry their name with the matches highlighted and a snippet
+ * of the description around the matches (see `parseHighlights` in `utils/search`).
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves to an array of matching list objects
+ * @returns A promise that resolves to an array of matching lists, most relevant first
  *
  * @example
  * ```typescript
- * const results = await searchListsByName("grocery");
- * // Will match lists with names like "Grocery List", "My Grocery Items", etc.
+ * const results = await searchListsByName("grocer");
+ * // Will match lists with names like "Grocery List", "Groceries for the week", etc.
  * ```
  */
-export const searchListsByName = async (searchTerm: string) => {
+export const searchListsByName = async (searchTerm: string): Promise<ListSearchResult[]> => {
   await simulateNetworkLatency();
+  const match = buildFtsQuery(searchTerm);
+  if (!match) return [];
+
   return db
-    .select()
+    .select({
+      ...getTableColumns(lists),
+      name_highlight: sql<
+        string | null
+      >`highlight(lists_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END})`,
+      description_snippet: sql<
+        string | null
+      >`snippet(lists_fts, 1, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 12)`,
+    })
     .from(lists)
-    .where(like(lists.name, `%${searchTerm}%`))
+    .innerJoin(sql`lists_fts`, sql`lists_fts.rowid = ${lists.id}`)
+    .where(and(sql`lists_fts MATCH ${match}`, isNull(lists.deleted_at)))
+    .orderBy(sql`bm25(lists_fts, 10.0, 1.0)`, lists.id)
     .all();
 };
 
@@ -176,5 +404,11 @@ export const searchListsByName = async (searchTerm: string) => {
  */
 export const getRecentLists = async (limit = 5) => {
   await simulateNetworkLatency();
-  return db.select().from(lists).orderBy(desc(lists.created_at)).limit(limit).all();
+  return db
+    .select()
+    .from(lists)
+    .where(isNull(lists.deleted_at))
+    .orderBy(desc(lists.created_at))
+    .limit(limit)
+    .all();
 };
@@ -0,0 +1,86 @@
+import { eq } from 'drizzle-orm';
+
+import { db } from '../db';
+import { simulateNetworkLatency } from './utils';
+import { reminders } from '../db/schema';
+
+/**
+ * Retrieves the reminders of a task
+ *
+ * @param taskId - The unique identifier of the task
+ *
+ * @remarks
+ * Reminders are returned ordered by offset, nearest to the due date first.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of reminder objects
+ *
+ * @example
+ * ```typescript
+ * const taskReminders = await getRemindersByTaskId(42);
+ * // [{ id: 1, task_id: 42, offset_minutes: 60, ... }]
+ * ```
+ */
+export const getRemindersByTaskId = async (taskId: number) => {
+  await simulateNetworkLatency();
+  return db
+    .select()
+    .from(reminders)
+    .where(eq(reminders.task_id, taskId))
+    .orderBy(reminders.offset_minutes)
+    .all();
+};
+
+/**
+ * Replaces the reminders of a task
+ *
+ * @param taskId - The unique identifier of the task
+ * @param offsets - Minutes before the due date at which to remind (0 = at the due time)
+ *
+ * @remarks
+ * Existing rows are removed and the new set is inserted in one transaction.
+ * Duplicate offsets are collapsed. Scheduling is handled by the reminder scheduler.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the reminders are stored
+ *
+ * @example
+ * ```typescript
+ * // Remind one day and one hour before the due date
+ * await setTaskReminders(42, [1440, 60]);
+ * ```
+ */
+export const setTaskReminders = async (taskId: number, offsets: number[]) => {
+  await simulateNetworkLatency();
+  const uniqueOffsets = [...new Set(offsets)];
+  return db.transaction((tx) => {
+    tx.delete(reminders).where(eq(reminders.task_id, taskId)).run();
+    if (uniqueOffsets.length > 0) {
+      tx.insert(reminders)
+        .values(uniqueOffsets.map((offset) => ({ task_id: taskId, offset_minutes: offset })))
+        .run();
+    }
+  });
+};
+
+/**
+ * Deletes every reminder of a task
+ *
+ * @param taskId - The unique identifier of the task
+ *
+ * @remarks
+ * This function removes the reminder rows only; pending notifications are
+ * cancelled by the reminder scheduler.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the reminders are deleted
+ *
+ * @example
+ * ```typescript
+ * await deleteRemindersByTaskId(42);
+ * ```
+ */
+export const deleteRemindersByTaskId = async (taskId: number) => {
+  await simulateNetworkLatency();
+  return db.delete(reminders).where(eq(reminders.task_id, taskId)).run();
+};
@@ -0,0 +1,139 @@
+import { eq, max } from 'drizzle-orm';
+
+import { db } from '../db';
+import { simulateNetworkLatency } from './utils';
+import { smartLists } from '../db/schema';
+import { SmartListCriteria } from '../types';
+import { getPositionAfterLast } from '../utils/ordering';
+import { toSmartListColumns } from '../utils/smart-lists';
+
+/**
+ * Retrieves all smart lists
+ *
+ * @remarks
+ * Smart lists only store their criteria; their tasks are fetched with `queryTasks`.
+ * They are returned in the order they were created.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of smart list objects
+ *
+ * @example
+ * ```typescript
+ * const allSmartLists = await getAllSmartLists();
+ * console.log(allSmartLists); // [{id: 1, name: 'Urgent', priority: 'high', ...}, ...]
+ * ```
+ */
+export const getAllSmartLists = async () => {
+  await simulateNetworkLatency();
+  return db.select().from(smartLists).orderBy(smartLists.position, smartLists.id).all();
+};
+
+/**
+ * Retrieves a specific smart list by its ID
+ *
+ * @param id - The unique identifier of the smart list to retrieve
+ *
+ * @remarks
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the smart list if found, or undefined if not found
+ *
+ * @example
+ * ```typescript
+ * const smartList = await getSmartListById(2);
+ * ```
+ */
+export const getSmartListById = async (id: number) => {
+  await simulateNetworkLatency();
+  return db.select().from(smartLists).where(eq(smartLists.id, id)).get();
+};
+
+/**
+ * Saves a combination of task filters as a new smart list
+ *
+ * @param name - The name of the smart list
+ * @param criteria - The filters to save; criteria that are left out match every task
+ *
+ * @remarks
+ * The smart list is placed after the last one.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the created smart list
+ *
+ * @example
+ * ```typescript
+ * const urgent = await createSmartList('Urgent', { priority: 'high', due_range: 'next_7_days' });
+ * ```
+ */
+export const createSmartList = async (name: string, criteria: SmartListCriteria) => {
+  await simulateNetworkLatency();
+  return db.transaction((tx) => {
+    const last = tx
+      .select({ position: max(smartLists.position) })
+      .from(smartLists)
+      .get();
+
+    return tx
+      .insert(smartLists)
+      .values({
+        name,
+        ...toSmartListColumns(criteria),
+        position: getPositionAfterLast(last?.position),
+      })
+      .returning()
+      .get();
+  });
+};
+
+/**
+ * Renames a smart list and replaces its criteria
+ *
+ * @param id - The unique identifier of the smart list to update
+ * @param smartList - The new name and criteria; criteria that are left out are cleared
+ *
+ * @remarks
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the smart list is updated
+ *
+ * @example
+ * ```typescript
+ * await updateSmartList(2, { name: 'Due this week', criteria: { due_range: 'next_7_days' } });
+ * ```
+ */
+export const updateSmartList = async (
+  id: number,
+  { name, criteria }: { name: string; criteria: SmartListCriteria }
+) => {
+  await simulateNetworkLatency();
+  return db
+    .update(smartLists)
+    .set({
+      name,
+      ...toSmartListColumns(criteria),
+      updated_at: new Date().toISOString(),
+    })
+    .where(eq(smartLists.id, id))
+    .run();
+};
+
+/**
+ * Deletes a smart list
+ *
+ * @param id - The unique identifier of the smart list to delete
+ *
+ * @remarks
+ * Only the saved filters are removed; the tasks they matched are not touched.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the smart list is deleted
+ *
+ * @example
+ * ```typescript
+ * await deleteSmartList(2);
+ * ```
+ */
+export const deleteSmartList = async (id: number) => {
+  await simulateNetworkLatency();
+  return db.delete(smartLists).where(eq(smartLists.id, id)).run();
+};
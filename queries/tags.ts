@@ -0,0 +1,152 @@
+import { and, eq } from 'drizzle-orm';
+
+import { db } from '../db';
+import { simulateNetworkLatency } from './utils';
+import { smartLists, tags, taskTags } from '../db/schema';
+
+/**
+ * Retrieves all tags from the database
+ *
+ * @remarks
+ * Tags are returned in alphabetical order so pickers and filter rows stay stable.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of tag objects
+ *
+ * @example
+ * ```typescript
+ * const allTags = await getAllTags();
+ * console.log(allTags); // [{id: 1, name: 'home', ...}, ...]
+ * ```
+ */
+export const getAllTags = async () => {
+  await simulateNetworkLatency();
+  return db.select().from(tags).orderBy(tags.name).all();
+};
+
+/**
+ * Retrieves the tags attached to a task
+ *
+ * @param taskId - The unique identifier of the task
+ *
+ * @remarks
+ * This function resolves the task_tags join table to full tag rows.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of tag objects
+ *
+ * @example
+ * ```typescript
+ * const taskTagList = await getTagsByTaskId(42);
+ * ```
+ */
+export const getTagsByTaskId = async (taskId: number) => {
+  await simulateNetworkLatency();
+  return db
+    .select({
+      id: tags.id,
+      name: tags.name,
+      created_at: tags.created_at,
+      updated_at: tags.updated_at,
+    })
+    .from(taskTags)
+    .innerJoin(tags, eq(taskTags.tag_id, tags.id))
+    .where(eq(taskTags.task_id, taskId))
+    .orderBy(tags.name)
+    .all();
+};
+
+/**
+ * Creates a new tag with the specified name
+ *
+ * @param name - The name of the tag to create
+ *
+ * @remarks
+ * Tag names are unique; inserting an existing name throws a constraint error.
+ * The inserted row is returned so callers can attach it to a task right away.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the created tag
+ *
+ * @example
+ * ```typescript
+ * const tag = await createTag("home");
+ * ```
+ */
+export const createTag = async (name: string) => {
+  await simulateNetworkLatency();
+  return db.insert(tags).values({ name }).returning().get();
+};
+
+/**
+ * Deletes a tag by its ID
+ *
+ * @param id - The unique identifier of the tag to delete
+ *
+ * @remarks
+ * The tag is detached from every task and smart list before the tag row itself is removed,
+ * all in one transaction.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the tag is deleted
+ *
+ * @example
+ * ```typescript
+ * await deleteTag(3);
+ * ```
+ */
+export const deleteTag = async (id: number) => {
+  await simulateNetworkLatency();
+  return db.transaction((tx) => {
+    tx.delete(taskTags).where(eq(taskTags.tag_id, id)).run();
+    tx.update(smartLists).set({ tag_id: null }).where(eq(smartLists.tag_id, id)).run();
+    return tx.delete(tags).where(eq(tags.id, id)).run();
+  });
+};
+
+/**
+ * Attaches a tag to a task
+ *
+ * @param taskId - The unique identifier of the task
+ * @param tagId - The unique identifier of the tag
+ *
+ * @remarks
+ * Tagging a task twice with the same tag is a no-op.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the tag is attached
+ *
+ * @example
+ * ```typescript
+ * await tagTask(42, 3);
+ * ```
+ */
+export const tagTask = async (taskId: number, tagId: number) => {
+  await simulateNetworkLatency();
+  return db.insert(taskTags).values({ task_id: taskId, tag_id: tagId }).onConflictDoNothing().run();
+};
+
+/**
+ * Detaches a tag from a task
+ *
+ * @param taskId - The unique identifier of the task
+ * @param tagId - The unique identifier of the tag
+ *
+ * @remarks
+ * This function removes the matching row from the task_tags join table.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the tag is detached
+ *
+ * @example
+ * ```typescript
+ * await untagTask(42, 3);
+ * ```
+ */
+export const untagTask = async (taskId: number, tagId: number) => {
+  await simulateNetworkLatency();
+  return db
+    .delete(taskTags)
+    .where(and(eq(taskTags.task_id, taskId), eq(taskTags.tag_id, tagId)))
+    .run();
+};
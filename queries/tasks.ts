@@ -1,14 +1,443 @@
-import { eq, like, desc, and, gt } from 'drizzle-orm';
+import {
+  eq,
+  desc,
+  asc,
+  and,
+  gt,
+  gte,
+  lt,
+  lte,
+  not,
+  or,
+  count,
+  sql,
+  inArray,
+  isNull,
+  max,
+  getTableColumns,
+  SQL,
+} from 'drizzle-orm';
 
 import { db } from '../db';
 import { simulateNetworkLatency } from './utils';
-import { tasks } from '../db/schema';
+import { tasks, lists, tags, subtasks, taskTags, reminders } from '../db/schema';
+import { DueRange, RecurrenceRule, TaskQueryParams, TaskStatus } from '../types/common';
+import { PaginatedResponse } from '../types/api';
+import { Task, TaskSearchResult } from '../types';
+import { addDaysToDueDate, getNextOccurrence, getTodayDueDate } from '../utils/recurrence';
+import { getPositionAfterLast, planReorder } from '../utils/ordering';
+import { HIGHLIGHT_END, HIGHLIGHT_START, buildFtsPhrase, buildFtsQuery } from '../utils/search';
+import { SmartViewId } from '../utils/smart-views';
+import {
+  SearchComparator,
+  SearchQuery,
+  SearchTerm,
+  parseSearchQuery,
+  resolveDueOperand,
+} from '../utils/search-query';
+import {
+  assertTransition,
+  canTransition,
+  getTaskStatus,
+  getToggledStatus,
+  isCompletedStatus,
+} from '../utils/task-status';
+import { Transaction, removeTasks } from './trash';
+
+/**
+ * Number of tasks per page when a query does not specify a limit
+ */
+export const DEFAULT_TASK_PAGE_SIZE = 50;
+
+/**
+ * Returns what a composed task query sorts by for a sort field
+ * Priorities sort by their meaning rather than alphabetically, and names ignore case;
+ * unknown fields return undefined so the query keeps its default order
+ */
+const getTaskSortColumn = (field: string) => {
+  switch (field) {
+    case 'position':
+    case 'due_date':
+    case 'status':
+    case 'created_at':
+    case 'updated_at':
+      return tasks[field];
+    case 'name':
+      return sql`${tasks.name} collate nocase`;
+    case 'priority':
+      return sql`case ${tasks.priority} when 'high' then 3 when 'medium' then 2 when 'low' then 1 else 0 end`;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Highlighted name and best description fragment of a full-text search hit
+ * Only valid in queries joined with tasks_fts
+ */
+const taskHighlightColumns = {
+  name_highlight: sql<string | null>`highlight(tasks_fts, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END})`,
+  description_snippet: sql<
+    string | null
+  >`snippet(tasks_fts, 1, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 12)`,
+};
+
+/**
+ * Placeholder highlight columns for queries without a search term
+ */
+const noHighlightColumns = {
+  name_highlight: sql<string | null>`null`,
+  description_snippet: sql<string | null>`null`,
+};
+
+/**
+ * Relevance of a full-text search hit, best first; name matches weigh ten times more
+ */
+const taskSearchRank = () => sql`bm25(tasks_fts, 10.0, 1.0)`;
+
+/**
+ * Builds the condition matching a status filter
+ * "completed" follows the completion flag; the other statuses only match open tasks
+ */
+const statusCondition = (status: TaskStatus) =>
+  status === 'completed'
+    ? eq(tasks.is_completed, true)
+    : and(eq(tasks.status, status), eq(tasks.is_completed, false));
+
+/**
+ * Builds the condition matching due dates compared with a calendar day
+ * Due dates may carry a time, so every comparison covers whole days
+ */
+const dueDateCondition = (comparator: SearchComparator, date: string): SQL => {
+  const nextDay = addDaysToDueDate(date, 1);
+  switch (comparator) {
+    case '<':
+      return lt(tasks.due_date, date);
+    case '<=':
+      return lt(tasks.due_date, nextDay);
+    case '>':
+      return gte(tasks.due_date, nextDay);
+    case '>=':
+      return gte(tasks.due_date, date);
+    case '=':
+      return and(gte(tasks.due_date, date), lt(tasks.due_date, nextDay))!;
+  }
+};
+
+/**
+ * Builds the condition matching open tasks, which are neither completed nor cancelled
+ * Same rule as the overdue list counts
+ */
+const openTaskCondition = (): SQL =>
+  and(eq(tasks.is_completed, false), sql`coalesce(${tasks.status}, 'pending') != 'cancelled'`)!;
+
+/**
+ * Builds the condition matching due dates within a range relative to today
+ * Only open tasks can be overdue; the other ranges match finished tasks too
+ */
+const dueRangeCondition = (range: DueRange, today: string): SQL => {
+  switch (range) {
+    case 'today':
+      return dueDateCondition('=', today);
+    case 'overdue':
+      return and(openTaskCondition(), dueDateCondition('<', today))!;
+    case 'next_7_days':
+      return and(dueDateCondition('>=', today), dueDateCondition('<', addDaysToDueDate(today, 7)))!;
+    case 'no_due_date':
+      return isNull(tasks.due_date);
+  }
+};
+
+/**
+ * Builds the condition matching the open tasks of a smart view
+ */
+const smartViewCondition = (view: SmartViewId, today: string): SQL =>
+  view === 'overdue'
+    ? dueRangeCondition(view, today)
+    : and(openTaskCondition(), dueRangeCondition(view, today))!;
+
+/**
+ * Builds the condition matching a field term of a search query, ignoring its negation
+ */
+const searchTermCondition = (term: Exclude<SearchTerm, { type: 'text' }>, today: string): SQL => {
+  switch (term.type) {
+    case 'priority':
+      return eq(tasks.priority, term.value);
+    case 'status':
+      return statusCondition(term.value)!;
+    case 'due':
+      switch (term.operand.kind) {
+        case 'none':
+          return isNull(tasks.due_date);
+        case 'overdue':
+          return dueRangeCondition('overdue', today);
+        default:
+          return dueDateCondition(term.comparator, resolveDueOperand(term.operand, today));
+      }
+    case 'list':
+      return inArray(
+        tasks.list_id,
+        db
+          .select({ id: lists.id })
+          .from(lists)
+          .where(sql`${lists.name} = ${term.value} collate nocase`)
+      );
+    case 'tag':
+      return inArray(
+        tasks.id,
+        db
+          .select({ id: taskTags.task_id })
+          .from(taskTags)
+          .innerJoin(tags, eq(tags.id, taskTags.tag_id))
+          .where(sql`${tags.name} = ${term.value} collate nocase`)
+      );
+  }
+};
+
+/**
+ * Compiles a parsed search query into conditions on tasks
+ *
+ * @param query - A query from `parseSearchQuery`
+ * @param today - The day relative due dates count from, in `YYYY-MM-DD` format
+ *
+ * @remarks
+ * Words to look for are combined into one full-text match expression; a query using it
+ * must join tasks_fts. Every other term becomes a condition, and all of them must match.
+ * Excluded words are looked up in the index separately, and excluding a due date range
+ * keeps tasks without a due date.
+ *
+ * @returns The conditions and the match expression, which is null when no words are searched
+ *
+ * @example
+ * ```typescript
+ * const { match, conditions } = compileTaskSearch(parseSearchQuery('priority:high report').query);
+ * // match: '"report"*', conditions: [priority = 'high']
+ * ```
+ */
+export const compileTaskSearch = (query: SearchQuery, today = getTodayDueDate()) => {
+  const conditions: SQL[] = [];
+  const matches: string[] = [];
+
+  query.terms.forEach((term) => {
+    if (term.type === 'text') {
+      const expression = term.phrase ? buildFtsPhrase(term.value) : buildFtsQuery(term.value);
+      if (!expression) return;
+      if (!term.negated) matches.push(expression);
+      else {
+        conditions.push(
+          sql`${tasks.id} not in (select rowid from tasks_fts where tasks_fts match ${expression})`
+        );
+      }
+      return;
+    }
+
+    const condition = searchTermCondition(term, today);
+    if (!term.negated) conditions.push(condition);
+    else if (term.type === 'due' && term.operand.kind !== 'none') {
+      conditions.push(or(isNull(tasks.due_date), not(condition))!);
+    } else conditions.push(not(condition));
+  });
+
+  return { match: matches.length > 0 ? matches.join(' ') : null, conditions };
+};
+
+/**
+ * Returns the position that appends a task to the end of a list
+ */
+export const getNextTaskPosition = (tx: Transaction, listId: number) => {
+  const last = tx
+    .select({ position: max(tasks.position) })
+    .from(tasks)
+    .where(and(eq(tasks.list_id, listId), isNull(tasks.deleted_at)))
+    .get();
+  return getPositionAfterLast(last?.position);
+};
+
+/**
+ * Copies the tags and reminders of a task to another task
+ */
+const copyTaskDetails = (tx: Transaction, fromId: number, toId: number) => {
+  const tagRows = tx.select().from(taskTags).where(eq(taskTags.task_id, fromId)).all();
+  if (tagRows.length > 0) {
+    tx.insert(taskTags)
+      .values(tagRows.map((row) => ({ task_id: toId, tag_id: row.tag_id })))
+      .run();
+  }
+
+  const reminderRows = tx.select().from(reminders).where(eq(reminders.task_id, fromId)).all();
+  if (reminderRows.length > 0) {
+    tx.insert(reminders)
+      .values(reminderRows.map((row) => ({ task_id: toId, offset_minutes: row.offset_minutes })))
+      .run();
+  }
+};
+
+/**
+ * Inserts a copy of a task at the end of a list inside a transaction
+ *
+ * @remarks
+ * The copy gets every field of the task, its tags, reminders and checklist, but starts
+ * out pending with an unchecked checklist. Copies within the task's own list get a
+ * "(copy)" suffix so they can be told apart.
+ *
+ * @returns The created copy
+ */
+const insertTaskCopy = (tx: Transaction, task: Task, listId: number) => {
+  const copy = tx
+    .insert(tasks)
+    .values({
+      name: listId === task.list_id ? `${task.name} (copy)` : task.name,
+      description: task.description,
+      image: task.image,
+      priority: task.priority,
+      status: 'pending',
+      is_completed: false,
+      due_date: task.due_date,
+      recurrence: task.recurrence,
+      position: getNextTaskPosition(tx, listId),
+      list_id: listId,
+    })
+    .returning()
+    .get();
+
+  copyTaskDetails(tx, task.id, copy.id);
+
+  const subtaskRows = tx.select().from(subtasks).where(eq(subtasks.task_id, task.id)).all();
+  if (subtaskRows.length > 0) {
+    tx.insert(subtasks)
+      .values(subtaskRows.map((row) => ({ name: row.name, task_id: copy.id })))
+      .run();
+  }
+
+  return copy;
+};
+
+/**
+ * Values a task had before a status, completion or priority change
+ */
+export interface TaskChangeRevert {
+  id: number;
+  status?: string | null;
+  is_completed: boolean | null;
+  priority?: string | null;
+  /** The occurrence the change created, if the task repeats */
+  nextOccurrenceId?: number;
+}
+
+/**
+ * Reverts a status, completion or priority change of a task inside a transaction
+ * The created occurrence is removed and its recurrence rule moves back to the task
+ */
+const revertTaskChange = (tx: Transaction, previous: TaskChangeRevert) => {
+  const nextOccurrence = previous.nextOccurrenceId
+    ? tx.select().from(tasks).where(eq(tasks.id, previous.nextOccurrenceId)).get()
+    : undefined;
+  if (nextOccurrence) {
+    removeTasks(tx, [nextOccurrence.id]);
+  }
+
+  tx.update(tasks)
+    .set({
+      ...(previous.status !== undefined ? { status: previous.status } : {}),
+      ...(previous.priority !== undefined ? { priority: previous.priority } : {}),
+      is_completed: previous.is_completed,
+      ...(nextOccurrence ? { recurrence: nextOccurrence.recurrence } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .where(eq(tasks.id, previous.id))
+    .run();
+};
+
+/**
+ * Tells whether a list exists and is not in the trash
+ */
+const isActiveList = (tx: Transaction, listId: number) =>
+  !!tx
+    .select({ id: lists.id })
+    .from(lists)
+    .where(and(eq(lists.id, listId), isNull(lists.deleted_at)))
+    .get();
+
+/**
+ * Creates the next occurrence of a recurring task inside a transaction
+ *
+ * @remarks
+ * The recurrence rule moves to the new occurrence, so completing the same task
+ * again (e.g. after un-completing it) never generates a duplicate.
+ * The occurrence shares the task's position, so it sorts right after it.
+ * Tasks without a rule are left untouched.
+ *
+ * @returns The created occurrence, or null when the task does not repeat
+ */
+const createNextOccurrence = (tx: Transaction, id: number) => {
+  const task = tx.select().from(tasks).where(eq(tasks.id, id)).get();
+  if (!task?.recurrence) return null;
+
+  const nextOccurrence = tx
+    .insert(tasks)
+    .values({
+      name: task.name,
+      description: task.description,
+      image: task.image,
+      priority: task.priority,
+      status: 'pending',
+      is_completed: false,
+      due_date: getNextOccurrence(task.recurrence, task.due_date ?? getTodayDueDate()),
+      recurrence: task.recurrence,
+      position: task.position,
+      list_id: task.list_id,
+    })
+    .returning()
+    .get();
+
+  copyTaskDetails(tx, id, nextOccurrence.id);
+
+  tx.update(tasks).set({ recurrence: null }).where(eq(tasks.id, id)).run();
+
+  return nextOccurrence;
+};
+
+/**
+ * Changes the status of a task inside a transaction
+ *
+ * @remarks
+ * The change must be allowed by the status workflow, and the completion flag is derived
+ * from the new status. A recurring task that becomes completed gets its next occurrence.
+ *
+ * @returns The created occurrence, or null when there is none
+ *
+ * @throws Error when the workflow does not allow the change
+ */
+const changeTaskStatus = (tx: Transaction, id: number, status: TaskStatus) => {
+  const current = tx
+    .select({ status: tasks.status, is_completed: tasks.is_completed })
+    .from(tasks)
+    .where(eq(tasks.id, id))
+    .get();
+  if (!current) return null;
+
+  const previousStatus = getTaskStatus(current);
+  assertTransition(previousStatus, status);
+
+  tx.update(tasks)
+    .set({
+      status,
+      is_completed: isCompletedStatus(status),
+      updated_at: new Date().toISOString(),
+    })
+    .where(eq(tasks.id, id))
+    .run();
+
+  return isCompletedStatus(status) && !isCompletedStatus(previousStatus)
+    ? createNextOccurrence(tx, id)
+    : null;
+};
 
 /**
  * Retrieves all tasks from the database
  *
  * @remarks
- * This function returns all tasks without any filtering.
+ * This function returns every task that is not in the trash.
  * Network latency is simulated to emulate real-world API behavior.
  *
  * @returns A promise that resolves to an array of all task objects
@@ -21,7 +450,7 @@ import { tasks } from '../db/schema';
  */
 export const getAllTasks = async () => {
   await simulateNetworkLatency();
-  return db.select().from(tasks).all();
+  return db.select().from(tasks).where(isNull(tasks.deleted_at)).all();
 };
 
 /**
@@ -30,7 +459,7 @@ export const getAllTasks = async () => {
  * @param id - The unique identifier of the task to retrieve
  *
  * @remarks
- * This function performs an exact match on the task ID.
+ * This function performs an exact match on the task ID. Tasks in the trash are not returned.
  * Network latency is simulated to emulate real-world API behavior.
  *
  * @returns A promise that resolves to the task object if found, or undefined if not found
@@ -47,7 +476,11 @@ export const getAllTasks = async () => {
  */
 export const getTaskById = async (id: number) => {
   await simulateNetworkLatency();
-  return db.select().from(tasks).where(eq(tasks.id, id)).get();
+  return db
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.id, id), isNull(tasks.deleted_at)))
+    .get();
 };
 
 /**
@@ -56,7 +489,8 @@ export const getTaskById = async (id: number) => {
  * @param listId - The unique identifier of the list to fetch tasks for
  *
  * @remarks
- * This function filters tasks by their list_id field.
+ * This function filters tasks by their list_id field, excluding tasks in the trash.
+ * Tasks are returned in their manual order (see {@link reorderTask}).
  * Network latency is simulated to emulate real-world API behavior.
  *
  * @returns A promise that resolves to an array of task objects belonging to the specified list
@@ -69,7 +503,12 @@ export const getTaskById = async (id: number) => {
  */
 export const getTasksByListId = async (listId: number) => {
   await simulateNetworkLatency();
-  return db.select().from(tasks).where(eq(tasks.list_id, listId)).all();
+  return db
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.list_id, listId), isNull(tasks.deleted_at)))
+    .orderBy(tasks.position, tasks.id)
+    .all();
 };
 
 /**
@@ -79,22 +518,29 @@ export const getTasksByListId = async (listId: number) => {
  * @param task.name - The name/title of the task (required)
  * @param task.description - Optional description with details about the task
  * @param task.image - Optional URL to an image associated with the task
- * @param task.status - Optional status of the task (e.g., "not_started", "in_progress", "completed")
+ * @param task.status - Optional status of the task (e.g., "pending", "in_progress", "completed")
  * @param task.priority - Optional priority level (e.g., "low", "medium", "high")
- * @param task.is_completed - Optional boolean indicating if the task is completed
+ * @param task.is_completed - Optional completion flag, used as the status when none is given
  * @param task.due_date - Optional due date for the task in ISO string format
  * @param task.list_id - The ID of the list this task belongs to (required)
+ * @param task.recurrence - Optional recurrence rule; completing the task creates the next occurrence
+ * @param task.tag_ids - Optional IDs of existing tags to attach to the task
+ * @param task.reminder_offsets - Optional reminder offsets in minutes before the due date
  *
  * @remarks
- * This function inserts a new task record in the tasks table.
+ * This function inserts a new task record in the tasks table, after the last task of its list.
+ * The completion flag is stored as derived from the status.
+ * When tag IDs are given, the matching task_tags rows are inserted for the new task.
+ * Reminder rows are stored here; notifications are scheduled by the reminder scheduler.
+ * All inserts run in one transaction.
  * The created_at and updated_at fields are automatically handled by the database.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves when the task is created
+ * @returns A promise that resolves to the created task
  *
  * @example
  * ```typescript
- * await createTask({
+ * const task = await createTask({
  *   name: "Buy groceries",
  *   description: "Milk, eggs, bread",
  *   priority: "high",
@@ -107,14 +553,50 @@ export const createTask = async (task: {
   name: string;
   description?: string;
   image?: string;
-  status?: string;
+  status?: TaskStatus;
   priority?: string;
   is_completed?: boolean;
   due_date?: string;
+  recurrence?: RecurrenceRule | null;
   list_id: number;
+  tag_ids?: number[];
+  reminder_offsets?: number[];
 }) => {
   await simulateNetworkLatency();
-  return db.insert(tasks).values(task).run();
+  const { tag_ids: tagIds, reminder_offsets: reminderOffsets, is_completed, ...values } = task;
+  const status = values.status ?? getToggledStatus(!!is_completed);
+
+  return db.transaction((tx) => {
+    const created = tx
+      .insert(tasks)
+      .values({
+        ...values,
+        status,
+        is_completed: isCompletedStatus(status),
+        position: getNextTaskPosition(tx, values.list_id),
+      })
+      .returning()
+      .get();
+
+    if (tagIds && tagIds.length > 0) {
+      tx.insert(taskTags)
+        .values(tagIds.map((tagId) => ({ task_id: created.id, tag_id: tagId })))
+        .run();
+    }
+
+    if (reminderOffsets && reminderOffsets.length > 0) {
+      tx.insert(reminders)
+        .values(
+          [...new Set(reminderOffsets)].map((offset) => ({
+            task_id: created.id,
+            offset_minutes: offset,
+          }))
+        )
+        .run();
+    }
+
+    return created;
+  });
 };
 
 /**
@@ -123,28 +605,39 @@ export const createTask = async (task: {
  * @param id - The unique identifier of the task to update
  * @param task - An object with task properties to update
  * @param task.name - Optional new name/title for the task
- * @param task.description - Optional new description
+ * @param task.description - Optional new description, or null to remove it
  * @param task.image - Optional new image URL
  * @param task.status - Optional new status
  * @param task.priority - Optional new priority level
  * @param task.is_completed - Optional new completion status
- * @param task.due_date - Optional new due date
+ * @param task.due_date - Optional new due date, or null to remove it
+ * @param task.recurrence - Optional new recurrence rule, or null to stop repeating
  * @param task.list_id - Optional new list ID to move the task to another list
+ * @param task.tag_ids - Optional IDs of the tags that replace the task's tags
+ * @param task.reminder_offsets - Optional reminder offsets that replace the task's reminders
  *
  * @remarks
  * This function updates the specified fields of the task and automatically
  * updates the updated_at timestamp.
  * Only the fields included in the task parameter will be modified.
+ * A new status must be allowed by the status workflow and also sets the completion flag;
+ * a completion flag without a status completes or reopens the task. A task moved to
+ * another list goes to the end of that list. Completing a recurring task creates its
+ * next occurrence.
+ * Everything runs in one transaction.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves when the task is updated
+ * @returns A promise that resolves to the next occurrence created for a recurring task, or null
+ *
+ * @throws Error when the workflow does not allow the status change
  *
  * @example
  * ```typescript
  * await updateTask(42, {
  *   name: "Buy organic groceries",
  *   priority: "medium",
- *   due_date: new Date(2023, 12, 15).toISOString()
+ *   due_date: "2024-12-15",
+ *   tag_ids: [3],
  * });
  * ```
  */
@@ -152,36 +645,111 @@ export const updateTask = async (
   id: number,
   task: Partial<{
     name: string;
-    description: string;
+    description: string | null;
     image: string;
-    status: string;
+    status: TaskStatus;
     priority: string;
     is_completed: boolean;
-    due_date: string;
+    due_date: string | null;
+    recurrence: RecurrenceRule | null;
     list_id: number;
+    tag_ids: number[];
+    reminder_offsets: number[];
   }>
 ) => {
   await simulateNetworkLatency();
-  return db
-    .update(tasks)
-    .set({
-      ...task,
-      updated_at: new Date().toISOString(),
-    })
-    .where(eq(tasks.id, id))
-    .run();
+  const { tag_ids: tagIds, reminder_offsets: reminderOffsets, is_completed, ...values } = task;
+
+  return db.transaction((tx) => {
+    const current = tx.select().from(tasks).where(eq(tasks.id, id)).get();
+    if (!current) return null;
+
+    const previousStatus = getTaskStatus(current);
+    const status =
+      values.status ??
+      (is_completed !== undefined && is_completed !== isCompletedStatus(previousStatus)
+        ? getToggledStatus(is_completed)
+        : undefined);
+    if (status) assertTransition(previousStatus, status);
+    const movesList = values.list_id !== undefined && values.list_id !== current.list_id;
+
+    tx.update(tasks)
+      .set({
+        ...values,
+        ...(status ? { status, is_completed: isCompletedStatus(status) } : {}),
+        ...(movesList ? { position: getNextTaskPosition(tx, values.list_id!) } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .where(eq(tasks.id, id))
+      .run();
+
+    if (tagIds) {
+      tx.delete(taskTags).where(eq(taskTags.task_id, id)).run();
+      if (tagIds.length > 0) {
+        tx.insert(taskTags)
+          .values([...new Set(tagIds)].map((tagId) => ({ task_id: id, tag_id: tagId })))
+          .run();
+      }
+    }
+
+    if (reminderOffsets) {
+      tx.delete(reminders).where(eq(reminders.task_id, id)).run();
+      if (reminderOffsets.length > 0) {
+        tx.insert(reminders)
+          .values(
+            [...new Set(reminderOffsets)].map((offset) => ({ task_id: id, offset_minutes: offset }))
+          )
+          .run();
+      }
+    }
+
+    return status && isCompletedStatus(status) && !isCompletedStatus(previousStatus)
+      ? createNextOccurrence(tx, id)
+      : null;
+  });
+};
+
+/**
+ * Creates a copy of a task at the end of its list
+ *
+ * @param id - The unique identifier of the task to copy
+ *
+ * @remarks
+ * The copy gets the name with a "(copy)" suffix, every field of the original, its tags,
+ * reminders and checklist, but starts out pending with an unchecked checklist.
+ * Everything runs in one transaction.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the created copy, or null when the task does not exist
+ *
+ * @example
+ * ```typescript
+ * const copy = await duplicateTask(42);
+ * console.log(copy?.name); // "Buy groceries (copy)"
+ * ```
+ */
+export const duplicateTask = async (id: number) => {
+  await simulateNetworkLatency();
+  return db.transaction((tx) => {
+    const task = tx.select().from(tasks).where(eq(tasks.id, id)).get();
+    if (!task) return null;
+
+    return insertTaskCopy(tx, task, task.list_id);
+  });
 };
 
 /**
- * Deletes a task by its ID
+ * Moves a task to the trash
  *
  * @param id - The unique identifier of the task to delete
  *
  * @remarks
- * This function permanently removes the task from the database.
+ * This function soft-deletes the task by setting its deleted_at timestamp.
+ * Subtasks, tag links and reminders are kept so the task can be restored intact;
+ * they are removed when the task is deleted forever or purged from the trash.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves when the task is deleted
+ * @returns A promise that resolves when the task is moved to the trash
  *
  * @example
  * ```typescript
@@ -190,7 +758,11 @@ export const updateTask = async (
  */
 export const deleteTask = async (id: number) => {
   await simulateNetworkLatency();
-  return db.delete(tasks).where(eq(tasks.id, id)).run();
+  return db
+    .update(tasks)
+    .set({ deleted_at: new Date().toISOString() })
+    .where(eq(tasks.id, id))
+    .run();
 };
 
 /**
@@ -201,10 +773,12 @@ export const deleteTask = async (id: number) => {
  *
  * @remarks
  * This function provides a convenient way to mark tasks as completed or not completed.
- * It updates the is_completed field and the updated_at timestamp.
+ * Completing moves the task to the "completed" status and un-completing back to "pending",
+ * as far as the status workflow allows; the completion flag follows the status.
+ * Completing a recurring task creates its next occurrence in the same transaction.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves when the task completion status is updated
+ * @returns A promise that resolves to the next occurrence created for a recurring task, or null
  *
  * @example
  * ```typescript
@@ -214,17 +788,12 @@ export const deleteTask = async (id: number) => {
  * // Mark a task as not completed
  * await toggleTaskCompletion(42, false);
  * ```
+ *
+ * @throws Error when the workflow does not allow the change, e.g. for a blocked task
  */
 export const toggleTaskCompletion = async (id: number, isCompleted: boolean) => {
   await simulateNetworkLatency();
-  return db
-    .update(tasks)
-    .set({
-      is_completed: isCompleted,
-      updated_at: new Date().toISOString(),
-    })
-    .where(eq(tasks.id, id))
-    .run();
+  return db.transaction((tx) => changeTaskStatus(tx, id, getToggledStatus(isCompleted)));
 };
 
 /**
@@ -234,156 +803,932 @@ export const toggleTaskCompletion = async (id: number, isCompleted: boolean) =>
  * @param status - The new status to set
  *
  * @remarks
- * This function updates the status field and the updated_at timestamp.
+ * This function updates the status field, the completion flag derived from it and the
+ * updated_at timestamp. The change must be allowed by the status workflow.
+ * Moving a recurring task to "completed" creates its next occurrence in the same transaction.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves when the task status is updated
+ * @returns A promise that resolves to the next occurrence created for a recurring task, or null
+ *
+ * @throws Error when the workflow does not allow the change
  *
  * @example
  * ```typescript
  * await updateTaskStatus(42, "in_progress");
  * ```
  */
-export const updateTaskStatus = async (id: number, status: string) => {
+export const updateTaskStatus = async (id: number, status: TaskStatus) => {
   await simulateNetworkLatency();
-  const isCompleted = status === 'completed';
-  return db
-    .update(tasks)
-    .set({
-      status: status,
-      is_completed: isCompleted,
-      updated_at: new Date().toISOString(),
-    })
-    .where(eq(tasks.id, id))
-    .run();
+  return db.transaction((tx) => changeTaskStatus(tx, id, status));
 };
 
 /**
- * Searches for tasks by name with partial matching
+ * Reverts a completion or status change, e.g. when the user taps "Undo"
  *
- * @param searchTerm - The string to search for in task names
+ * @param id - The unique identifier of the task to revert
+ * @param previous - The completion state the task had before the change, and its status
+ * when the change touched it
+ * @param nextOccurrenceId - The occurrence created by the change, if the task repeats
  *
  * @remarks
- * This function performs a case-sensitive partial match using SQL LIKE operator.
- * The search pattern is %searchTerm%, which means it will match if the search term
- * appears anywhere in the task name.
+ * The created occurrence is removed permanently and its recurrence rule moves back
+ * to the original task, so completing it again creates a fresh occurrence.
+ * Everything runs in one transaction.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves to an array of matching task objects
+ * @returns A promise that resolves when the task is reverted
  *
  * @example
  * ```typescript
- * const results = await searchTasksByName("groceries");
- * // Will match tasks with names like "Buy groceries", "Groceries for party", etc.
+ * const nextOccurrence = await toggleTaskCompletion(42, true);
+ * await revertTaskCompletion(42, { status: 'pending', is_completed: false }, nextOccurrence?.id);
  * ```
  */
-export const searchTasksByName = async (searchTerm: string) => {
+export const revertTaskCompletion = async (
+  id: number,
+  previous: { status?: string | null; is_completed: boolean | null },
+  nextOccurrenceId?: number
+) => {
   await simulateNetworkLatency();
-  return db
-    .select()
-    .from(tasks)
-    .where(like(tasks.name, `%${searchTerm}%`))
-    .all();
+  return db.transaction((tx) => revertTaskChange(tx, { id, ...previous, nextOccurrenceId }));
 };
 
 /**
- * Retrieves tasks filtered by their status
+ * Reverts a batch update made with {@link updateTasks}, e.g. when the user taps "Undo"
  *
- * @param status - The status value to filter by (e.g., "not_started", "in_progress", "completed")
+ * @param previous - Each task's values before the change, with the occurrence the change
+ * created for it when it repeats
  *
  * @remarks
- * This function performs an exact match on the status field.
+ * Created occurrences are removed permanently and their recurrence rules move back to the
+ * original tasks, as in {@link revertTaskCompletion}.
+ * Everything runs in one transaction.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves to an array of tasks with the specified status
+ * @returns A promise that resolves when the tasks are reverted
  *
  * @example
  * ```typescript
- * const inProgressTasks = await getTasksByStatus("in_progress");
- * console.log(`You have ${inProgressTasks.length} tasks in progress`);
+ * await revertTaskChanges([{ id: 42, status: 'pending', is_completed: false, priority: 'low' }]);
  * ```
  */
-export const getTasksByStatus = async (status: string) => {
+export const revertTaskChanges = async (previous: TaskChangeRevert[]) => {
   await simulateNetworkLatency();
-  return db.select().from(tasks).where(eq(tasks.status, status)).all();
+  if (previous.length === 0) return;
+  return db.transaction((tx) => {
+    previous.forEach((task) => revertTaskChange(tx, task));
+  });
 };
 
 /**
- * Retrieves tasks filtered by their priority level
+ * Updates the status and/or priority of several tasks at once
  *
- * @param priority - The priority value to filter by (e.g., "low", "medium", "high")
+ * @param taskIds - The unique identifiers of the tasks to update
+ * @param changes - The status and/or priority to give every task
  *
  * @remarks
- * This function performs an exact match on the priority field.
+ * All tasks are updated with a single UPDATE statement; a new status also sets the
+ * completion flag. Tasks that the status workflow does not allow to take the new status,
+ * and tasks in the trash, are left alone. Recurring tasks that become completed get
+ * their next occurrence.
+ * Everything runs in one transaction.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves to an array of tasks with the specified priority
+ * @returns A promise that resolves to the next occurrences created for recurring tasks,
+ * each with the ID of the task it follows
  *
  * @example
  * ```typescript
- * const highPriorityTasks = await getTasksByPriority("high");
- * console.log(`You have ${highPriorityTasks.length} high priority tasks`);
+ * await updateTasks([4, 8, 15], { status: 'completed' });
+ * await updateTasks([16, 23], { priority: 'high' });
  * ```
  */
-export const getTasksByPriority = async (priority: string) => {
+export const updateTasks = async (
+  taskIds: number[],
+  changes: { status?: TaskStatus; priority?: string }
+) => {
   await simulateNetworkLatency();
-  return db.select().from(tasks).where(eq(tasks.priority, priority)).all();
+  if (taskIds.length === 0) return [];
+
+  const { status } = changes;
+
+  return db.transaction((tx) => {
+    let updatedIds = taskIds;
+    let openTasks: { id: number }[] = [];
+
+    if (status) {
+      const currentTasks = tx
+        .select({ id: tasks.id, status: tasks.status, is_completed: tasks.is_completed })
+        .from(tasks)
+        .where(and(inArray(tasks.id, taskIds), isNull(tasks.deleted_at)))
+        .all()
+        .filter((task) => canTransition(getTaskStatus(task), status));
+      updatedIds = currentTasks.map((task) => task.id);
+      openTasks = isCompletedStatus(status)
+        ? currentTasks.filter((task) => !isCompletedStatus(getTaskStatus(task)))
+        : [];
+      if (updatedIds.length === 0) return [];
+    }
+
+    tx.update(tasks)
+      .set({
+        ...changes,
+        ...(status ? { is_completed: isCompletedStatus(status) } : {}),
+        updated_at: new Date().toISOString(),
+      })
+      .where(and(inArray(tasks.id, updatedIds), isNull(tasks.deleted_at)))
+      .run();
+
+    return openTasks.flatMap((task) => {
+      const nextOccurrence = createNextOccurrence(tx, task.id);
+      return nextOccurrence ? [{ taskId: task.id, nextOccurrence }] : [];
+    });
+  });
 };
 
 /**
- * Retrieves upcoming tasks with due dates in the future that are not completed
+ * Moves several tasks to the trash at once
  *
- * @remarks
- * This function finds all tasks that:
- * 1. Have a due date later than the current date/time
- * 2. Are not marked as completed
+ * @param taskIds - The unique identifiers of the tasks to delete
  *
- * The results are ordered by due date in descending order (furthest in the future first).
+ * @remarks
+ * All tasks are soft-deleted with a single UPDATE statement, as in {@link deleteTask}.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves to an array of upcoming task objects
+ * @returns A promise that resolves when the tasks are moved to the trash
  *
  * @example
  * ```typescript
- * const upcomingTasks = await getUpcomingTasks();
- * if (upcomingTasks.length > 0) {
- *   console.log(`Your next task is: ${upcomingTasks[upcomingTasks.length-1].name}`);
- * }
+ * await deleteTasks([4, 8, 15]);
  * ```
  */
-export const getUpcomingTasks = async () => {
+export const deleteTasks = async (taskIds: number[]) => {
   await simulateNetworkLatency();
-  const today = new Date().toISOString();
+  if (taskIds.length === 0) return;
   return db
-    .select()
-    .from(tasks)
-    .where(and(gt(tasks.due_date, today), eq(tasks.is_completed, false)))
-    .orderBy(desc(tasks.due_date))
-    .all();
+    .update(tasks)
+    .set({ deleted_at: new Date().toISOString() })
+    .where(and(inArray(tasks.id, taskIds), isNull(tasks.deleted_at)))
+    .run();
 };
 
 /**
- * Retrieves all completed tasks
+ * Moves tasks to another list
+ *
+ * @param taskIds - The unique identifiers of the tasks to move
+ * @param listId - The ID of the list that receives the tasks
  *
  * @remarks
- * This function returns all tasks that are marked as completed.
- * Results are ordered by updated_at timestamp in descending order (most recently completed first).
+ * All tasks are moved with a single UPDATE statement.
  * Network latency is simulated to emulate real-world API behavior.
  *
- * @returns A promise that resolves to an array of completed task objects
+ * @returns A promise that resolves when the tasks are moved
  *
  * @example
  * ```typescript
- * const completedTasks = await getCompletedTasks();
- * console.log(`You have completed ${completedTasks.length} tasks`);
+ * await moveTasksToList([4, 8, 15], 2);
  * ```
  */
-export const getCompletedTasks = async () => {
+export const moveTasksToList = async (taskIds: number[], listId: number) => {
   await simulateNetworkLatency();
+  if (taskIds.length === 0) return;
   return db
-    .select()
-    .from(tasks)
-    .where(eq(tasks.is_completed, true))
-    .orderBy(desc(tasks.updated_at))
-    .all();
+    .update(tasks)
+    .set({ list_id: listId, updated_at: new Date().toISOString() })
+    .where(inArray(tasks.id, taskIds))
+    .run();
+};
+
+/**
+ * Moves tasks to the end of another list
+ *
+ * @param taskIds - The unique identifiers of the tasks to move
+ * @param listId - The ID of the active list that receives the tasks
+ *
+ * @remarks
+ * Unlike {@link moveTasksToList}, which keeps positions so tasks can go back where they
+ * were, the moved tasks are appended to the target list in their current order.
+ * Tasks that are already in the list or in the trash are left alone.
+ * Everything runs in one transaction.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the moved tasks with their new list and position
+ *
+ * @throws Error when the target list does not exist or is in the trash
+ *
+ * @example
+ * ```typescript
+ * const moved = await moveTasks([4, 8], 2);
+ * console.log(moved.map((task) => task.list_id)); // [2, 2]
+ * ```
+ */
+export const moveTasks = async (taskIds: number[], listId: number) => {
+  await simulateNetworkLatency();
+  if (taskIds.length === 0) return [];
+
+  return db.transaction((tx) => {
+    if (!isActiveList(tx, listId)) {
+      throw new Error('Tasks can only be moved to an existing list');
+    }
+
+    const movingTasks = tx
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(
+        and(inArray(tasks.id, taskIds), not(eq(tasks.list_id, listId)), isNull(tasks.deleted_at))
+      )
+      .orderBy(tasks.list_id, tasks.position, tasks.id)
+      .all();
+
+    const updatedAt = new Date().toISOString();
+    return movingTasks.map((task) =>
+      tx
+        .update(tasks)
+        .set({ list_id: listId, position: getNextTaskPosition(tx, listId), updated_at: updatedAt })
+        .where(eq(tasks.id, task.id))
+        .returning()
+        .get()
+    );
+  });
+};
+
+/**
+ * Copies tasks to the end of a list
+ *
+ * @param taskIds - The unique identifiers of the tasks to copy
+ * @param listId - The ID of the active list that receives the copies
+ *
+ * @remarks
+ * Each copy gets every field of its task, its tags, reminders and checklist, but starts out
+ * pending with an unchecked checklist, like {@link duplicateTask}. Copies are appended in
+ * the order of the tasks; tasks in the trash are skipped.
+ * Everything runs in one transaction.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the created copies
+ *
+ * @throws Error when the target list does not exist or is in the trash
+ *
+ * @example
+ * ```typescript
+ * const copies = await copyTasks([4, 8], 2);
+ * console.log(copies.length); // 2
+ * ```
+ */
+export const copyTasks = async (taskIds: number[], listId: number) => {
+  await simulateNetworkLatency();
+  if (taskIds.length === 0) return [];
+
+  return db.transaction((tx) => {
+    if (!isActiveList(tx, listId)) {
+      throw new Error('Tasks can only be copied to an existing list');
+    }
+
+    const sourceTasks = tx
+      .select()
+      .from(tasks)
+      .where(and(inArray(tasks.id, taskIds), isNull(tasks.deleted_at)))
+      .orderBy(tasks.list_id, tasks.position, tasks.id)
+      .all();
+
+    return sourceTasks.map((task) => insertTaskCopy(tx, task, listId));
+  });
+};
+
+/**
+ * Moves a task to a new place in its list's manual order
+ *
+ * @param id - The unique identifier of the task to move
+ * @param toIndex - The index the task should end up at among the active tasks of its list
+ *
+ * @remarks
+ * Positions are fractional: the task gets the midpoint of its new neighbours, so usually
+ * only one row changes. When the neighbours are too close, the whole list is renumbered.
+ * Reading the list and writing the positions run in one transaction.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the tasks whose position changed, with their new position
+ *
+ * @example
+ * ```typescript
+ * // Move task 42 to the top of its list
+ * await reorderTask(42, 0);
+ * ```
+ */
+export const reorderTask = async (id: number, toIndex: number) => {
+  await simulateNetworkLatency();
+  return db.transaction((tx) => {
+    const task = tx.select().from(tasks).where(eq(tasks.id, id)).get();
+    if (!task) return [];
+
+    const listTasks = tx
+      .select({ id: tasks.id, position: tasks.position })
+      .from(tasks)
+      .where(and(eq(tasks.list_id, task.list_id), isNull(tasks.deleted_at)))
+      .orderBy(tasks.position, tasks.id)
+      .all();
+
+    const changes = planReorder(listTasks, id, toIndex);
+    changes.forEach((change) => {
+      tx.update(tasks).set({ position: change.position }).where(eq(tasks.id, change.id)).run();
+    });
+    return changes;
+  });
+};
+
+/**
+ * Searches task names and descriptions using the full-text index
+ *
+ * @param searchTerm - The words to search for
+ *
+ * @remarks
+ * Every word of the search term must match the start of a word in the task name or
+ * description, ignoring case and accents. Results are ranked by relevance, with name
+ * matches weighing more than description matches.
+ * Each result carries its name with the matches highlighted and the best matching
+ * fragment of its description (see `parseHighlights` in `utils/search`).
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of matching tasks, most relevant first
+ *
+ * @example
+ * ```typescript
+ * const results = await searchTasksByName("grocer");
+ * // Matches "Buy groceries" and a task described as "Drop by the grocer"
+ * ```
+ */
+export const searchTasksByName = async (searchTerm: string): Promise<TaskSearchResult[]> => {
+  await simulateNetworkLatency();
+  const match = buildFtsQuery(searchTerm);
+  if (!match) return [];
+
+  return db
+    .select({ ...getTableColumns(tasks), ...taskHighlightColumns })
+    .from(tasks)
+    .innerJoin(sql`tasks_fts`, sql`tasks_fts.rowid = ${tasks.id}`)
+    .where(and(sql`tasks_fts MATCH ${match}`, isNull(tasks.deleted_at)))
+    .orderBy(taskSearchRank(), tasks.id)
+    .all();
+};
+
+/**
+ * Retrieves tasks filtered by their status
+ *
+ * @param status - The status value to filter by (e.g., "pending", "in_progress", "completed")
+ *
+ * @remarks
+ * Matching follows the completion flag for "completed" and the status field otherwise,
+ * as in every other status filter.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of tasks with the specified status
+ *
+ * @example
+ * ```typescript
+ * const inProgressTasks = await getTasksByStatus("in_progress");
+ * console.log(`You have ${inProgressTasks.length} tasks in progress`);
+ * ```
+ */
+export const getTasksByStatus = async (status: TaskStatus) => {
+  await simulateNetworkLatency();
+  return db
+    .select()
+    .from(tasks)
+    .where(and(statusCondition(status), isNull(tasks.deleted_at)))
+    .all();
+};
+
+/**
+ * Retrieves tasks filtered by their priority level
+ *
+ * @param priority - The priority value to filter by (e.g., "low", "medium", "high")
+ *
+ * @remarks
+ * This function performs an exact match on the priority field.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of tasks with the specified priority
+ *
+ * @example
+ * ```typescript
+ * const highPriorityTasks = await getTasksByPriority("high");
+ * console.log(`You have ${highPriorityTasks.length} high priority tasks`);
+ * ```
+ */
+export const getTasksByPriority = async (priority: string) => {
+  await simulateNetworkLatency();
+  return db
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.priority, priority), isNull(tasks.deleted_at)))
+    .all();
+};
+
+/**
+ * Retrieves tasks carrying a specific tag across all lists
+ *
+ * @param tagId - The unique identifier of the tag to filter by
+ *
+ * @remarks
+ * The task_tags join table is resolved with a subquery, so each task appears once.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of tasks tagged with the given tag
+ *
+ * @example
+ * ```typescript
+ * const homeTasks = await getTasksByTagId(3);
+ * console.log(`You have ${homeTasks.length} tasks tagged "home"`);
+ * ```
+ */
+export const getTasksByTagId = async (tagId: number) => {
+  await simulateNetworkLatency();
+  return db
+    .select()
+    .from(tasks)
+    .where(
+      and(
+        inArray(
+          tasks.id,
+          db.select({ id: taskTags.task_id }).from(taskTags).where(eq(taskTags.tag_id, tagId))
+        ),
+        isNull(tasks.deleted_at)
+      )
+    )
+    .all();
+};
+
+/**
+ * Retrieves upcoming tasks with due dates in the future that are not completed
+ *
+ * @remarks
+ * This function finds all tasks that:
+ * 1. Have a due date later than the current date/time
+ * 2. Are not marked as completed
+ *
+ * The results are ordered by due date in descending order (furthest in the future first).
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of upcoming task objects
+ *
+ * @example
+ * ```typescript
+ * const upcomingTasks = await getUpcomingTasks();
+ * if (upcomingTasks.length > 0) {
+ *   console.log(`Your next task is: ${upcomingTasks[upcomingTasks.length-1].name}`);
+ * }
+ * ```
+ */
+export const getUpcomingTasks = async () => {
+  await simulateNetworkLatency();
+  const today = new Date().toISOString();
+  return db
+    .select()
+    .from(tasks)
+    .where(and(gt(tasks.due_date, today), eq(tasks.is_completed, false), isNull(tasks.deleted_at)))
+    .orderBy(desc(tasks.due_date))
+    .all();
+};
+
+/**
+ * Retrieves the tasks of all lists that are due within a range of days
+ *
+ * @param startDay - The first day of the range, as `YYYY-MM-DD`
+ * @param endDay - The last day of the range, as `YYYY-MM-DD`
+ *
+ * @remarks
+ * Both days are included; due dates with a time match on their day.
+ * Completed tasks are returned too, so past days still show what was due.
+ * Results are ordered by due date, then by their manual order within a list.
+ * Tasks in the trash are never returned.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of tasks due within the range
+ *
+ * @example
+ * ```typescript
+ * const juneTasks = await getTasksDueBetween('2024-06-01', '2024-06-30');
+ * console.log(`${juneTasks.length} tasks are due in June`);
+ * ```
+ */
+export const getTasksDueBetween = async (startDay: string, endDay: string) => {
+  await simulateNetworkLatency();
+  return db
+    .select()
+    .from(tasks)
+    .where(
+      and(
+        gte(tasks.due_date, startDay),
+        lt(tasks.due_date, addDaysToDueDate(endDay, 1)),
+        isNull(tasks.deleted_at)
+      )
+    )
+    .orderBy(asc(tasks.due_date), asc(tasks.position), asc(tasks.id))
+    .all();
+};
+
+/**
+ * Retrieves the open tasks of all lists that belong in a smart view
+ *
+ * @param view - The smart view: today, overdue, next_7_days or no_due_date
+ * @param today - The day the view is relative to, in `YYYY-MM-DD` format
+ *
+ * @remarks
+ * Open tasks are neither completed nor cancelled. "Next 7 days" covers today and the six
+ * days after it. Due dates with a time match on their day.
+ * Results are ordered by due date, then by their manual order within a list.
+ * Tasks in the trash are never returned.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of the view's tasks
+ *
+ * @example
+ * ```typescript
+ * const overdueTasks = await getSmartViewTasks('overdue');
+ * console.log(`${overdueTasks.length} tasks are overdue`);
+ * ```
+ */
+export const getSmartViewTasks = async (view: SmartViewId, today = getTodayDueDate()) => {
+  await simulateNetworkLatency();
+  return db
+    .select()
+    .from(tasks)
+    .where(and(smartViewCondition(view, today), isNull(tasks.deleted_at)))
+    .orderBy(asc(tasks.due_date), asc(tasks.position), asc(tasks.id))
+    .all();
+};
+
+/**
+ * Counts the tasks of every smart view
+ *
+ * @param today - The day the views are relative to, in `YYYY-MM-DD` format
+ *
+ * @remarks
+ * All views are counted in a single statement with the same conditions as
+ * {@link getSmartViewTasks}, so the lists screen can show them without a query per view.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the number of tasks in each view
+ *
+ * @example
+ * ```typescript
+ * const counts = await getSmartViewCounts();
+ * console.log(counts); // { today: 2, overdue: 1, next_7_days: 5, no_due_date: 8 }
+ * ```
+ */
+export const getSmartViewCounts = async (
+  today = getTodayDueDate()
+): Promise<Record<SmartViewId, number>> => {
+  await simulateNetworkLatency();
+  const countView = (view: SmartViewId) =>
+    sql<number>`coalesce(sum(${smartViewCondition(view, today)}), 0)`;
+  // An aggregate without grouping always returns exactly one row
+  return db
+    .select({
+      today: countView('today'),
+      overdue: countView('overdue'),
+      next_7_days: countView('next_7_days'),
+      no_due_date: countView('no_due_date'),
+    })
+    .from(tasks)
+    .where(isNull(tasks.deleted_at))
+    .get()!;
+};
+
+/**
+ * Retrieves all completed tasks
+ *
+ * @remarks
+ * This function returns all tasks that are marked as completed.
+ * Results are ordered by updated_at timestamp in descending order (most recently completed first).
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of completed task objects
+ *
+ * @example
+ * ```typescript
+ * const completedTasks = await getCompletedTasks();
+ * console.log(`You have completed ${completedTasks.length} tasks`);
+ * ```
+ */
+export const getCompletedTasks = async () => {
+  await simulateNetworkLatency();
+  return db
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.is_completed, true), isNull(tasks.deleted_at)))
+    .orderBy(desc(tasks.updated_at))
+    .all();
+};
+
+/**
+ * Retrieves one page of tasks matching a combination of filters, in the requested order
+ *
+ * @param params - The query parameters
+ * @param params.filter - Optional filters; every given filter must match
+ * @param params.sort - Optional sort field and direction; defaults to relevance when searching
+ * and to the manual order otherwise
+ * @param params.pagination - Optional page (1-based) and limit; an offset overrides the page
+ *
+ * @remarks
+ * Filters, sorting, paging and the total count are handled by a single SQL statement;
+ * the total comes from a window function over the filtered rows.
+ * The search filter is a query in the search query language (see `utils/search-query`),
+ * compiled by {@link compileTaskSearch}. Its words use the full-text index like
+ * {@link searchTasksByName}, and its results carry the same highlights.
+ * Due ranges are relative to today, with whole days compared as in the smart views.
+ * Priorities sort from low to high ascending, and tasks without a due date sort last.
+ * Tasks in the trash are never returned. Ties are broken by ID so pages are stable.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the page of tasks with pagination metadata
+ *
+ * @example
+ * ```typescript
+ * const { data, pagination } = await queryTasks({
+ *   filter: { list_id: 5, status: 'pending', priority: 'high' },
+ *   sort: { field: 'due_date', direction: 'asc' },
+ *   pagination: { page: 1, limit: 20 },
+ * });
+ * console.log(`${data.length} of ${pagination.total} tasks`);
+ * ```
+ */
+export const queryTasks = async ({
+  filter = {},
+  sort,
+  pagination = {},
+}: TaskQueryParams = {}): Promise<PaginatedResponse<TaskSearchResult>> => {
+  await simulateNetworkLatency();
+  const search = compileTaskSearch(parseSearchQuery(filter.search ?? '').query);
+  const match = search.match;
+
+  const conditions = [isNull(tasks.deleted_at), ...search.conditions];
+  if (filter.list_id !== undefined) conditions.push(eq(tasks.list_id, filter.list_id));
+  if (filter.status) conditions.push(statusCondition(filter.status)!);
+  if (filter.priority) conditions.push(eq(tasks.priority, filter.priority));
+  if (filter.due_date) conditions.push(lte(tasks.due_date, filter.due_date));
+  if (filter.due_range) conditions.push(dueRangeCondition(filter.due_range, getTodayDueDate()));
+  if (filter.list_ids) conditions.push(inArray(tasks.list_id, filter.list_ids));
+  if (match) conditions.push(sql`tasks_fts MATCH ${match}`);
+  if (filter.tag_id !== undefined) {
+    conditions.push(
+      inArray(
+        tasks.id,
+        db.select({ id: taskTags.task_id }).from(taskTags).where(eq(taskTags.tag_id, filter.tag_id))
+      )
+    );
+  }
+
+  // Without an explicit sort, searches are ranked by relevance and the rest keeps the manual order
+  const sortColumn = sort && getTaskSortColumn(sort.field);
+  const direction = sort?.direction === 'desc' ? desc : asc;
+  const orderBy = sortColumn
+    ? [
+        // Tasks without a due date come last in either direction
+        ...(sort.field === 'due_date' ? [sql`${tasks.due_date} is null`] : []),
+        direction(sortColumn),
+        direction(tasks.id),
+      ]
+    : match
+      ? [taskSearchRank(), asc(tasks.id)]
+      : [asc(tasks.position), asc(tasks.id)];
+
+  const limit = Math.max(1, pagination.limit ?? DEFAULT_TASK_PAGE_SIZE);
+  const page = Math.max(1, pagination.page ?? 1);
+  const offset = pagination.offset ?? (page - 1) * limit;
+
+  let query = db
+    .select({
+      ...getTableColumns(tasks),
+      ...(match ? taskHighlightColumns : noHighlightColumns),
+      total: sql<number>`count(*) over ()`,
+    })
+    .from(tasks)
+    .$dynamic();
+  if (match) query = query.innerJoin(sql`tasks_fts`, sql`tasks_fts.rowid = ${tasks.id}`);
+
+  const rows = query
+    .where(and(...conditions))
+    .orderBy(...orderBy)
+    .limit(limit)
+    .offset(offset)
+    .all();
+
+  // A page past the end has no rows to carry the total
+  const total = rows[0]?.total ?? 0;
+  const currentPage = Math.floor(offset / limit) + 1;
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data: rows.map(({ total: _total, ...task }) => task),
+    pagination: {
+      page: currentPage,
+      limit,
+      total,
+      totalPages,
+      hasNext: offset + rows.length < total,
+      hasPrev: offset > 0,
+    },
+  };
+};
+
+/**
+ * Retrieves all subtasks (checklist items) of a task
+ *
+ * @param taskId - The unique identifier of the parent task
+ *
+ * @remarks
+ * Subtasks are returned in creation order so the checklist reads top to bottom.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of subtask objects
+ *
+ * @example
+ * ```typescript
+ * const checklist = await getSubtasksByTaskId(42);
+ * console.log(`${checklist.length} items on the checklist`);
+ * ```
+ */
+export const getSubtasksByTaskId = async (taskId: number) => {
+  await simulateNetworkLatency();
+  return db
+    .select()
+    .from(subtasks)
+    .where(eq(subtasks.task_id, taskId))
+    .orderBy(subtasks.created_at)
+    .all();
+};
+
+/**
+ * Retrieves subtask progress for every task in a list
+ *
+ * @param listId - The unique identifier of the list
+ *
+ * @remarks
+ * Counts are aggregated in a single grouped query, so a list with many tasks
+ * does not need one round trip per task. Tasks without subtasks or in the trash are omitted.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of `{ task_id, total, completed }` rows
+ *
+ * @example
+ * ```typescript
+ * const progress = await getSubtaskProgressByListId(5);
+ * // [{ task_id: 42, total: 5, completed: 3 }]
+ * ```
+ */
+export const getSubtaskProgressByListId = async (listId: number) => {
+  await simulateNetworkLatency();
+  return db
+    .select({
+      task_id: subtasks.task_id,
+      total: count(),
+      completed: sql<number>`coalesce(sum(${subtasks.is_completed}), 0)`,
+    })
+    .from(subtasks)
+    .innerJoin(tasks, eq(subtasks.task_id, tasks.id))
+    .where(and(eq(tasks.list_id, listId), isNull(tasks.deleted_at)))
+    .groupBy(subtasks.task_id)
+    .all();
+};
+
+/**
+ * Creates a new subtask under a task
+ *
+ * @param subtask - An object containing the subtask properties
+ * @param subtask.name - The text of the checklist item (required)
+ * @param subtask.task_id - The ID of the parent task (required)
+ *
+ * @remarks
+ * The inserted row is returned so optimistic cache entries can be replaced with the real ID.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the created subtask
+ *
+ * @example
+ * ```typescript
+ * const subtask = await createSubtask({ name: "Buy milk", task_id: 42 });
+ * ```
+ */
+export const createSubtask = async (subtask: { name: string; task_id: number }) => {
+  await simulateNetworkLatency();
+  return db.insert(subtasks).values(subtask).returning().get();
+};
+
+/**
+ * Renames a subtask
+ *
+ * @param id - The unique identifier of the subtask to update
+ * @param name - The new text of the checklist item
+ *
+ * @remarks
+ * This function updates the name and updated_at fields of the subtask.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the subtask is updated
+ *
+ * @example
+ * ```typescript
+ * await updateSubtask(7, "Buy oat milk");
+ * ```
+ */
+export const updateSubtask = async (id: number, name: string) => {
+  await simulateNetworkLatency();
+  return db
+    .update(subtasks)
+    .set({
+      name,
+      updated_at: new Date().toISOString(),
+    })
+    .where(eq(subtasks.id, id))
+    .run();
+};
+
+/**
+ * Toggles the completion status of a subtask
+ *
+ * @param id - The unique identifier of the subtask to update
+ * @param isCompleted - The new completion status to set
+ * @param completeParent - When true, completes the parent task once every subtask is done
+ *
+ * @remarks
+ * The subtask update and the optional parent completion run in one transaction,
+ * so the parent is never marked completed on the strength of a failed write.
+ * Parents that the status workflow does not allow to complete are left alone, and a
+ * recurring parent gets its next occurrence as with {@link toggleTaskCompletion}.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to `{ parentCompleted, nextOccurrence }`, where
+ * parentCompleted is true when the parent task was completed as a result of this call
+ * and nextOccurrence is the occurrence created for a recurring parent, or null
+ *
+ * @example
+ * ```typescript
+ * const { parentCompleted, nextOccurrence } = await toggleSubtaskCompletion(7, true, true);
+ * ```
+ */
+export const toggleSubtaskCompletion = async (
+  id: number,
+  isCompleted: boolean,
+  completeParent = false
+) => {
+  await simulateNetworkLatency();
+  return db.transaction((tx) => {
+    const now = new Date().toISOString();
+    const subtask = tx
+      .update(subtasks)
+      .set({ is_completed: isCompleted, updated_at: now })
+      .where(eq(subtasks.id, id))
+      .returning()
+      .get();
+
+    const parentLeftOpen = { parentCompleted: false, nextOccurrence: null };
+    if (!subtask || !isCompleted || !completeParent) {
+      return parentLeftOpen;
+    }
+
+    const remaining = tx
+      .select({ value: count() })
+      .from(subtasks)
+      .where(and(eq(subtasks.task_id, subtask.task_id), eq(subtasks.is_completed, false)))
+      .get();
+
+    if (remaining && remaining.value > 0) {
+      return parentLeftOpen;
+    }
+
+    // A parent the workflow keeps from completing, e.g. a blocked one, stays as it is
+    const parent = tx
+      .select({ status: tasks.status, is_completed: tasks.is_completed })
+      .from(tasks)
+      .where(eq(tasks.id, subtask.task_id))
+      .get();
+    if (!parent || !canTransition(getTaskStatus(parent), 'completed')) {
+      return parentLeftOpen;
+    }
+
+    const nextOccurrence = changeTaskStatus(tx, subtask.task_id, 'completed');
+    return { parentCompleted: true, nextOccurrence };
+  });
+};
+
+/**
+ * Deletes a subtask by its ID
+ *
+ * @param id - The unique identifier of the subtask to delete
+ *
+ * @remarks
+ * This function permanently removes the subtask from the database.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the subtask is deleted
+ *
+ * @example
+ * ```typescript
+ * await deleteSubtask(7);
+ * ```
+ */
+export const deleteSubtask = async (id: number) => {
+  await simulateNetworkLatency();
+  return db.delete(subtasks).where(eq(subtasks.id, id)).run();
 };
@@ -0,0 +1,279 @@
+import { eq, desc, and, lt, inArray, isNull, isNotNull } from 'drizzle-orm';
+
+import { db } from '../db';
+import { simulateNetworkLatency } from './utils';
+import { lists, tasks, subtasks, taskTags, reminders } from '../db/schema';
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Permanently removes tasks and every row that references them inside a transaction
+ * Exported for other query modules that need to hard-delete tasks as part of their own transaction
+ */
+export const removeTasks = (tx: Transaction, taskIds: number[]) => {
+  if (taskIds.length === 0) return;
+  tx.delete(subtasks).where(inArray(subtasks.task_id, taskIds)).run();
+  tx.delete(taskTags).where(inArray(taskTags.task_id, taskIds)).run();
+  tx.delete(reminders).where(inArray(reminders.task_id, taskIds)).run();
+  tx.delete(tasks).where(inArray(tasks.id, taskIds)).run();
+};
+
+/**
+ * Permanently removes lists together with all of their tasks inside a transaction
+ */
+const removeLists = (tx: Transaction, listIds: number[]) => {
+  if (listIds.length === 0) return;
+  const listTasks = tx
+    .select({ id: tasks.id })
+    .from(tasks)
+    .where(inArray(tasks.list_id, listIds))
+    .all();
+  removeTasks(
+    tx,
+    listTasks.map((task) => task.id)
+  );
+  tx.delete(lists).where(inArray(lists.id, listIds)).run();
+};
+
+/**
+ * Retrieves all lists in the trash
+ *
+ * @remarks
+ * Lists are ordered by deletion date, most recently deleted first.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of deleted list objects
+ *
+ * @example
+ * ```typescript
+ * const deletedLists = await getTrashedLists();
+ * ```
+ */
+export const getTrashedLists = async () => {
+  await simulateNetworkLatency();
+  return db
+    .select()
+    .from(lists)
+    .where(isNotNull(lists.deleted_at))
+    .orderBy(desc(lists.deleted_at))
+    .all();
+};
+
+/**
+ * Retrieves all tasks in the trash whose list is still active
+ *
+ * @remarks
+ * Tasks of a deleted list are left out; they are restored or removed together with their list.
+ * Tasks are ordered by deletion date, most recently deleted first.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to an array of deleted task objects
+ *
+ * @example
+ * ```typescript
+ * const deletedTasks = await getTrashedTasks();
+ * ```
+ */
+export const getTrashedTasks = async () => {
+  await simulateNetworkLatency();
+  return db
+    .select()
+    .from(tasks)
+    .where(
+      and(
+        isNotNull(tasks.deleted_at),
+        inArray(
+          tasks.list_id,
+          db.select({ id: lists.id }).from(lists).where(isNull(lists.deleted_at))
+        )
+      )
+    )
+    .orderBy(desc(tasks.deleted_at))
+    .all();
+};
+
+/**
+ * Restores a task from the trash
+ *
+ * @param id - The unique identifier of the task to restore
+ *
+ * @remarks
+ * This function clears the deleted_at timestamp; subtasks, tags and reminders were kept
+ * while the task was in the trash. Reminders are re-scheduled by the reminder scheduler.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the task is restored
+ *
+ * @example
+ * ```typescript
+ * await restoreTask(42);
+ * ```
+ */
+export const restoreTask = async (id: number) => {
+  await simulateNetworkLatency();
+  return db
+    .update(tasks)
+    .set({ deleted_at: null, updated_at: new Date().toISOString() })
+    .where(eq(tasks.id, id))
+    .run();
+};
+
+/**
+ * Restores several tasks from the trash at once
+ *
+ * @param ids - The unique identifiers of the tasks to restore
+ *
+ * @remarks
+ * Like {@link restoreTask}, with a single UPDATE statement for all tasks.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the tasks are restored
+ *
+ * @example
+ * ```typescript
+ * await restoreTasks([4, 8, 15]);
+ * ```
+ */
+export const restoreTasks = async (ids: number[]) => {
+  await simulateNetworkLatency();
+  if (ids.length === 0) return;
+  return db
+    .update(tasks)
+    .set({ deleted_at: null, updated_at: new Date().toISOString() })
+    .where(inArray(tasks.id, ids))
+    .run();
+};
+
+/**
+ * Restores a list and the tasks that were deleted with it
+ *
+ * @param id - The unique identifier of the list to restore
+ *
+ * @remarks
+ * Only tasks sharing the list's deleted_at timestamp are restored; tasks that were
+ * trashed individually before the list was deleted stay in the trash.
+ * Both updates run in one transaction.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the IDs of the restored tasks
+ *
+ * @example
+ * ```typescript
+ * const restoredTaskIds = await restoreList(5);
+ * ```
+ */
+export const restoreList = async (id: number) => {
+  await simulateNetworkLatency();
+  return db.transaction((tx) => {
+    const list = tx.select().from(lists).where(eq(lists.id, id)).get();
+    if (!list?.deleted_at) return [];
+
+    const restoredTasks = tx
+      .update(tasks)
+      .set({ deleted_at: null })
+      .where(and(eq(tasks.list_id, id), eq(tasks.deleted_at, list.deleted_at)))
+      .returning({ id: tasks.id })
+      .all();
+
+    tx.update(lists)
+      .set({ deleted_at: null, updated_at: new Date().toISOString() })
+      .where(eq(lists.id, id))
+      .run();
+
+    return restoredTasks.map((task) => task.id);
+  });
+};
+
+/**
+ * Permanently deletes a task
+ *
+ * @param id - The unique identifier of the task to delete
+ *
+ * @remarks
+ * Subtasks, tag links and reminders belonging to the task are removed in the same
+ * transaction so no orphaned rows remain. This cannot be undone.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the task is deleted
+ *
+ * @example
+ * ```typescript
+ * await deleteTaskForever(42);
+ * ```
+ */
+export const deleteTaskForever = async (id: number) => {
+  await simulateNetworkLatency();
+  return db.transaction((tx) => removeTasks(tx, [id]));
+};
+
+/**
+ * Permanently deletes a list and all of its tasks
+ *
+ * @param id - The unique identifier of the list to delete
+ *
+ * @remarks
+ * Every task of the list is removed, including tasks that were trashed on their own,
+ * so no task is left pointing at a missing list. This cannot be undone.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves when the list is deleted
+ *
+ * @example
+ * ```typescript
+ * await deleteListForever(5);
+ * ```
+ */
+export const deleteListForever = async (id: number) => {
+  await simulateNetworkLatency();
+  return db.transaction((tx) => removeLists(tx, [id]));
+};
+
+/**
+ * Permanently deletes trash older than a retention period
+ *
+ * @param retentionDays - Number of days items are kept in the trash; 0 empties the trash
+ * @param now - The reference time, defaults to the current time
+ *
+ * @remarks
+ * Expired lists are removed with all of their tasks, then expired tasks are removed,
+ * all in one transaction.
+ * Network latency is simulated to emulate real-world API behavior.
+ *
+ * @returns A promise that resolves to the number of purged lists and tasks
+ *
+ * @example
+ * ```typescript
+ * // Remove everything deleted more than 30 days ago
+ * const { lists, tasks } = await purgeTrash(30);
+ * ```
+ */
+export const purgeTrash = async (retentionDays: number, now: Date = new Date()) => {
+  await simulateNetworkLatency();
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_IN_MS).toISOString();
+
+  return db.transaction((tx) => {
+    const expiredLists = tx
+      .select({ id: lists.id })
+      .from(lists)
+      .where(and(isNotNull(lists.deleted_at), lt(lists.deleted_at, cutoff)))
+      .all();
+    removeLists(
+      tx,
+      expiredLists.map((list) => list.id)
+    );
+
+    const expiredTasks = tx
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(and(isNotNull(tasks.deleted_at), lt(tasks.deleted_at, cutoff)))
+      .all();
+    removeTasks(
+      tx,
+      expiredTasks.map((task) => task.id)
+    );
+
+    return { lists: expiredLists.length, tasks: expiredTasks.length };
+  });
+};
@@ -5,6 +5,10 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ListSortField, SortParams, TaskSortField, TaskStatus } from '@/types/common';
+import { TaskGroupBy } from '@/utils/task-groups';
+
+export type TaskViewMode = 'list' | 'board';
 
 /**
  * UI State Interface - Defines all UI-related state and actions
@@ -28,6 +32,20 @@ export interface UIState {
   selectedListId: number | null;
   selectedTaskId: number | null;
   
+  // ==================== PREFERENCES ====================
+  autoCompleteParentTask: boolean;
+  trashRetentionDays: number;
+  taskViewMode: TaskViewMode;
+  /** Work-in-progress limits of the board columns; columns without one are unlimited */
+  wipLimits: Partial<Record<TaskStatus, number>>;
+  /** Task order chosen for each list by list ID; lists without one keep the manual order */
+  taskSorts: Record<number, SortParams<TaskSortField>>;
+  listSort: SortParams<ListSortField>;
+  /** Grouping of the task list chosen for each list by list ID; lists without one are flat */
+  taskGroupBy: Record<number, TaskGroupBy>;
+  /** Keys of the collapsed task list sections of each list by list ID */
+  collapsedTaskSections: Record<number, string[]>;
+  
   // ==================== MODAL ACTIONS ====================
   openCreateListModal: () => void;
   closeCreateListModal: () => void;
@@ -50,6 +68,16 @@ export interface UIState {
   setSelectedListId: (listId: number | null) => void;
   setSelectedTaskId: (taskId: number | null) => void;
   
+  // ==================== PREFERENCE ACTIONS ====================
+  setAutoCompleteParentTask: (enabled: boolean) => void;
+  setTrashRetentionDays: (days: number) => void;
+  setTaskViewMode: (mode: TaskViewMode) => void;
+  setWipLimit: (status: TaskStatus, limit: number | null) => void;
+  setTaskSort: (listId: number, sort: SortParams<TaskSortField>) => void;
+  setListSort: (sort: SortParams<ListSortField>) => void;
+  setTaskGroupBy: (listId: number, groupBy: TaskGroupBy) => void;
+  toggleTaskSection: (listId: number, sectionKey: string) => void;
+  
   // ==================== UTILITY ACTIONS ====================
   resetUI: () => void;
 }
@@ -80,6 +108,16 @@ export const useUIStore = create<UIState>()(
       selectedListId: null,
       selectedTaskId: null,
       
+      // Preferences
+      autoCompleteParentTask: false,
+      trashRetentionDays: 30,
+      taskViewMode: 'list',
+      wipLimits: {},
+      taskSorts: {},
+      listSort: { field: 'position', direction: 'asc' },
+      taskGroupBy: {},
+      collapsedTaskSections: {},
+      
       // ==================== MODAL ACTIONS ====================
       
       openCreateListModal: () => set({ isCreateListModalOpen: true }),
@@ -117,6 +155,31 @@ export const useUIStore = create<UIState>()(
       setSelectedListId: (listId: number | null) => set({ selectedListId: listId }),
       setSelectedTaskId: (taskId: number | null) => set({ selectedTaskId: taskId }),
       
+      // ==================== PREFERENCE ACTIONS ====================
+      
+      setAutoCompleteParentTask: (enabled: boolean) => set({ autoCompleteParentTask: enabled }),
+      setTrashRetentionDays: (days: number) => set({ trashRetentionDays: days }),
+      setTaskViewMode: (mode: TaskViewMode) => set({ taskViewMode: mode }),
+      setWipLimit: (status: TaskStatus, limit: number | null) =>
+        set((state) => ({ wipLimits: { ...state.wipLimits, [status]: limit ?? undefined } })),
+      setTaskSort: (listId: number, sort: SortParams<TaskSortField>) =>
+        set((state) => ({ taskSorts: { ...state.taskSorts, [listId]: sort } })),
+      setListSort: (sort: SortParams<ListSortField>) => set({ listSort: sort }),
+      setTaskGroupBy: (listId: number, groupBy: TaskGroupBy) =>
+        set((state) => ({ taskGroupBy: { ...state.taskGroupBy, [listId]: groupBy } })),
+      toggleTaskSection: (listId: number, sectionKey: string) =>
+        set((state) => {
+          const collapsed = state.collapsedTaskSections[listId] ?? [];
+          return {
+            collapsedTaskSections: {
+              ...state.collapsedTaskSections,
+              [listId]: collapsed.includes(sectionKey)
+                ? collapsed.filter((key) => key !== sectionKey)
+                : [...collapsed, sectionKey],
+            },
+          };
+        }),
+      
       // ==================== UTILITY ACTIONS ====================
       
       /**
@@ -140,10 +203,18 @@ export const useUIStore = create<UIState>()(
     {
       name: 'ui-store',
       storage: createJSONStorage(() => AsyncStorage),
-      // Only persist selected items, not modal states or loading states
+      // Only persist selected items and preferences, not modal states or loading states
       partialize: (state) => ({
         selectedListId: state.selectedListId,
         selectedTaskId: state.selectedTaskId,
+        autoCompleteParentTask: state.autoCompleteParentTask,
+        trashRetentionDays: state.trashRetentionDays,
+        taskViewMode: state.taskViewMode,
+        wipLimits: state.wipLimits,
+        taskSorts: state.taskSorts,
+        listSort: state.listSort,
+        taskGroupBy: state.taskGroupBy,
+        collapsedTaskSections: state.collapsedTaskSections,
       }),
     }
   )
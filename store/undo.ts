@@ -0,0 +1,58 @@
+/**
+ * Undo Store - Stack of recently performed actions that can be reverted
+ * Features: Bounded history, history modal visibility
+ */
+import type { QueryKey } from '@tanstack/react-query';
+import { create } from 'zustand';
+
+/**
+ * Maximum number of actions kept in the undo history
+ */
+export const MAX_UNDO_ENTRIES = 20;
+
+/**
+ * A reversible action
+ */
+export interface UndoEntry {
+  id: string;
+  /** Short description shown in the history, e.g. `Deleted "Buy milk"` */
+  label: string;
+  createdAt: number;
+  /** Query cache contents captured right before the action ran */
+  snapshot: [QueryKey, unknown][];
+  /** Replays the inverse of the action against the database */
+  revert: () => Promise<unknown>;
+  /** Queries to refetch once the action is reverted */
+  invalidate: QueryKey[];
+}
+
+/**
+ * Undo State Interface - The stack (newest first) and its actions
+ */
+export interface UndoState {
+  entries: UndoEntry[];
+  isHistoryOpen: boolean;
+
+  push: (entry: UndoEntry) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+  openHistory: () => void;
+  closeHistory: () => void;
+}
+
+/**
+ * Undo Store Implementation
+ * Not persisted: entries hold callbacks and cache snapshots that only make sense in this session
+ */
+export const useUndoStore = create<UndoState>()((set) => ({
+  entries: [],
+  isHistoryOpen: false,
+
+  push: (entry: UndoEntry) =>
+    set((state) => ({ entries: [entry, ...state.entries].slice(0, MAX_UNDO_ENTRIES) })),
+  remove: (id: string) =>
+    set((state) => ({ entries: state.entries.filter((entry) => entry.id !== id) })),
+  clear: () => set({ entries: [] }),
+  openHistory: () => set({ isHistoryOpen: true }),
+  closeHistory: () => set({ isHistoryOpen: false }),
+}));
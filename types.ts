@@ -1,18 +1,57 @@
-import { tasks, lists } from '@/db/schema';
-import { BaseEntity, Priority, TaskStatus } from './types/common';
+import { tasks, lists, subtasks, tags, reminders, smartLists } from '@/db/schema';
+import { BaseEntity, FilterParams, Priority, TaskStatus } from './types/common';
 
 export type Task = typeof tasks.$inferSelect;
 export type List = typeof lists.$inferSelect;
+export type Subtask = typeof subtasks.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+export type Reminder = typeof reminders.$inferSelect;
+export type SmartList = typeof smartLists.$inferSelect;
 
 // Enhanced types with better type safety
 export interface TaskWithList extends Task {
   list?: List;
 }
 
+/**
+ * Optional description and appearance of a list
+ */
+export type ListDetails = Partial<Pick<List, 'description' | 'color' | 'icon'>>;
+
+/**
+ * Saved filter criteria of a smart list; criteria that are left out match every task
+ */
+export type SmartListCriteria = Pick<
+  FilterParams,
+  'search' | 'status' | 'priority' | 'due_range' | 'tag_id' | 'list_ids'
+>;
+
+/**
+ * List with the number of its tasks, completed tasks and overdue tasks
+ */
 export interface ListWithTaskCount extends List {
-  task_count?: number;
-  completed_count?: number;
+  task_count: number;
+  completed_count: number;
+  overdue_count: number;
+}
+
+/**
+ * Highlighted text of a full-text search hit
+ * Matched words are wrapped in the markers from `utils/search`; null outside of searches
+ */
+export interface SearchHighlights {
+  name_highlight: string | null;
+  description_snippet?: string | null;
+}
+
+export type TaskSearchResult = Task & SearchHighlights;
+export type ListSearchResult = List & SearchHighlights;
+
+export interface SubtaskProgress {
+  task_id: number;
+  total: number;
+  completed: number;
 }
 
 // Re-export common types
-export type { BaseEntity, Priority, TaskStatus } from './types/common';
+export type { BaseEntity, Priority, TaskStatus, RecurrenceRule, DueRange } from './types/common';
@@ -4,7 +4,23 @@
 
 export type Priority = 'low' | 'medium' | 'high';
 
-export type TaskStatus = 'pending' | 'completed' | 'cancelled';
+export type TaskStatus = 'pending' | 'in_progress' | 'blocked' | 'completed' | 'cancelled';
+
+/**
+ * Due dates relative to today, compared by whole days
+ * "next_7_days" covers today and the six days after it
+ */
+export type DueRange = 'overdue' | 'today' | 'next_7_days' | 'no_due_date';
+
+/**
+ * Recurrence rule of a repeating task
+ * Weekdays use JavaScript numbering: 0 = Sunday ... 6 = Saturday
+ */
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekly'; weekdays: number[] }
+  | { type: 'monthly'; day: number }
+  | { type: 'interval'; days: number };
 
 export interface BaseEntity {
   id: number;
@@ -30,16 +46,51 @@ export interface SearchParams {
   limit?: number;
 }
 
-export interface SortParams {
-  field: string;
-  direction: 'asc' | 'desc';
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortParams<F extends string = string> {
+  field: F;
+  direction: SortDirection;
 }
 
+/**
+ * Orders tasks can be shown in; "position" is the manual drag-and-drop order
+ */
+export type TaskSortField =
+  | 'position'
+  | 'due_date'
+  | 'priority'
+  | 'created_at'
+  | 'updated_at'
+  | 'name';
+
+/**
+ * Orders lists can be shown in; "position" is the manual drag-and-drop order
+ */
+export type ListSortField = 'position' | 'name' | 'created_at' | 'updated_at';
+
 export interface FilterParams {
   status?: TaskStatus;
   priority?: Priority;
   list_id?: number;
+  /** Tasks due on or before this date */
   due_date?: string;
+  due_range?: DueRange;
+  /** Tasks in any of these lists; takes effect together with `list_id` */
+  list_ids?: number[];
+  /** Search query such as `priority:high due:<7d "report"`, see `utils/search-query` */
+  search?: string;
+  tag_id?: number;
+}
+
+/**
+ * Parameters of a composed task query
+ * Sort fields: position (manual order), name, due_date, priority, status, created_at, updated_at
+ */
+export interface TaskQueryParams {
+  filter?: FilterParams;
+  sort?: SortParams;
+  pagination?: PaginationParams;
 }
 
 export interface ListItemProps<T> {
@@ -0,0 +1,44 @@
+/**
+ * Task board utility functions
+ * The board shows one column per workflow status; cards move between columns by changing
+ * the task's status
+ */
+import { Task } from '@/types';
+import { TaskStatus } from '@/types/common';
+import { TASK_STATUSES, canTransition, getTaskStatus } from './task-status';
+
+/**
+ * Sorts tasks into one column per status, keeping their order within each column
+ */
+export const groupTasksByStatus = <T extends Pick<Task, 'status' | 'is_completed'>>(
+  tasks: T[]
+): Record<TaskStatus, T[]> => {
+  const columns = Object.fromEntries(TASK_STATUSES.map((status) => [status, [] as T[]]));
+  tasks.forEach((task) => columns[getTaskStatus(task)].push(task));
+  return columns as Record<TaskStatus, T[]>;
+};
+
+/**
+ * Finds the closest column in a direction that a card may move to
+ * Columns the workflow does not allow from the card's status are skipped
+ *
+ * @param direction - -1 for the column to the left, 1 for the one to the right
+ * @returns The status of that column, or null when there is none
+ */
+export const getAdjacentStatus = (from: TaskStatus, direction: -1 | 1): TaskStatus | null => {
+  for (
+    let index = TASK_STATUSES.indexOf(from) + direction;
+    index >= 0 && index < TASK_STATUSES.length;
+    index += direction
+  ) {
+    if (canTransition(from, TASK_STATUSES[index])) return TASK_STATUSES[index];
+  }
+  return null;
+};
+
+/**
+ * Tells whether a column holds more cards than its work-in-progress limit
+ * Columns without a limit are never over it
+ */
+export const isOverWipLimit = (count: number, limit: number | undefined) =>
+  limit !== undefined && count > limit;
@@ -0,0 +1,131 @@
+/**
+ * Calendar utility functions
+ * Days are `YYYY-MM-DD` strings and weeks start on Sunday, like the recurrence weekdays;
+ * date math reuses the UTC helpers of the recurrence utilities
+ */
+import { Task } from '@/types';
+import { addDaysToDueDate, getDaysInMonth } from './recurrence';
+
+export type CalendarMode = 'month' | 'week';
+
+/**
+ * Position of a day cell on screen, used to find the day a task is dropped on
+ */
+export interface DayLayout {
+  day: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+/**
+ * Returns the calendar day of a due date, dropping an optional time
+ */
+export const getDueDay = (dueDate: string) => dueDate.slice(0, 10);
+
+/**
+ * Returns the weekday of a day, 0 = Sunday ... 6 = Saturday
+ */
+const getWeekday = (day: string) => new Date(`${day}T00:00:00Z`).getUTCDay();
+
+/**
+ * Returns the Sunday that starts the week of a day
+ */
+const getWeekStart = (day: string) => addDaysToDueDate(day, -getWeekday(day));
+
+/**
+ * Returns the seven days of the week that contains a day
+ */
+const getWeekDays = (day: string) =>
+  Array.from({ length: 7 }, (_, index) => addDaysToDueDate(getWeekStart(day), index));
+
+/**
+ * Returns the days shown for a period as rows of weeks
+ * A month includes the days of the neighbouring months that complete its first and last week
+ *
+ * @param anchor - Any day of the month or week to show
+ */
+export const getCalendarWeeks = (anchor: string, mode: CalendarMode): string[][] => {
+  if (mode === 'week') return [getWeekDays(anchor)];
+
+  const daysInMonth = getDaysInMonth(Number(anchor.slice(0, 4)), Number(anchor.slice(5, 7)) - 1);
+  const lastDay = `${anchor.slice(0, 7)}-${String(daysInMonth).padStart(2, '0')}`;
+
+  const weeks: string[][] = [];
+  for (
+    let weekStart = getWeekStart(`${anchor.slice(0, 7)}-01`);
+    weekStart <= lastDay;
+    weekStart = addDaysToDueDate(weekStart, 7)
+  ) {
+    weeks.push(getWeekDays(weekStart));
+  }
+  return weeks;
+};
+
+/**
+ * Moves the anchor day by whole months or weeks
+ * Month steps land on the 1st, so short months never skip a month
+ */
+export const shiftCalendarAnchor = (anchor: string, mode: CalendarMode, delta: number) => {
+  if (mode === 'week') return addDaysToDueDate(anchor, delta * 7);
+
+  const monthIndex = Number(anchor.slice(0, 4)) * 12 + Number(anchor.slice(5, 7)) - 1 + delta;
+  const year = Math.floor(monthIndex / 12);
+  const month = String((monthIndex % 12) + 1).padStart(2, '0');
+  return `${year}-${month}-01`;
+};
+
+/**
+ * Describes the period shown, e.g. "June 2024" or "Week of Jun 9, 2024"
+ */
+export const describeCalendarPeriod = (anchor: string, mode: CalendarMode) => {
+  if (mode === 'month') {
+    return `${MONTH_NAMES[Number(anchor.slice(5, 7)) - 1]} ${anchor.slice(0, 4)}`;
+  }
+  const start = getWeekStart(anchor);
+  const monthName = MONTH_NAMES[Number(start.slice(5, 7)) - 1].slice(0, 3);
+  return `Week of ${monthName} ${Number(start.slice(8, 10))}, ${start.slice(0, 4)}`;
+};
+
+/**
+ * Groups tasks by the day they are due; tasks without a due date are left out
+ */
+export const groupTasksByDueDay = <T extends Pick<Task, 'due_date'>>(tasks: T[]) =>
+  tasks.reduce<Record<string, T[]>>((days, task) => {
+    if (!task.due_date) return days;
+    const day = getDueDay(task.due_date);
+    (days[day] ??= []).push(task);
+    return days;
+  }, {});
+
+/**
+ * Moves a due date to another day, keeping its time if it has one
+ */
+export const rescheduleDueDate = (dueDate: string, day: string) => `${day}${dueDate.slice(10)}`;
+
+/**
+ * Finds the day cell under a point on screen
+ *
+ * @returns The day of that cell, or null when the point is outside every cell
+ */
+export const findDayAtPoint = (layouts: DayLayout[], x: number, y: number) =>
+  layouts.find(
+    (layout) =>
+      x >= layout.x && x < layout.x + layout.width && y >= layout.y && y < layout.y + layout.height
+  )?.day ?? null;
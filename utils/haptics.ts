@@ -36,6 +36,8 @@ export const useHapticFeedback = () => {
     onToggle: () => hapticFeedback.light(),
     /** Medium haptic for delete actions */
     onDelete: () => hapticFeedback.medium(),
+    /** Medium haptic when an item is picked up to be reordered */
+    onDragStart: () => hapticFeedback.medium(),
     /** Success haptic for successful operations */
     onSuccess: () => hapticFeedback.success(),
     /** Error haptic for failed operations */
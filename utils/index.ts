@@ -4,4 +4,6 @@
 
 export * from './date';
 export * from './haptics';
+export * from './ordering';
+export * from './recurrence';
 export * from './toast';
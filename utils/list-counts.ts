@@ -0,0 +1,55 @@
+/**
+ * List task count utility functions
+ * Keeps the per-list task counts in the cache in step with optimistic task changes,
+ * using the same rules as `getListsWithTaskCounts`
+ */
+import { ListWithTaskCount, Task } from '@/types';
+
+type CountedTask = Pick<Task, 'list_id' | 'is_completed' | 'status' | 'due_date'>;
+
+/**
+ * Tells whether a task is overdue: neither completed nor cancelled and due before today
+ * Due dates may carry a time, so only their day is compared
+ *
+ * @param today - Today's date in `YYYY-MM-DD` format
+ */
+export const isTaskOverdue = (task: CountedTask, today: string): boolean =>
+  !task.is_completed &&
+  task.status !== 'cancelled' &&
+  task.due_date !== null &&
+  task.due_date < today;
+
+/**
+ * Adds a task's contribution to the counts of its list, or removes it with a sign of -1
+ */
+const countTask = (
+  list: ListWithTaskCount,
+  task: CountedTask,
+  sign: 1 | -1,
+  today: string
+): ListWithTaskCount => ({
+  ...list,
+  task_count: list.task_count + sign,
+  completed_count: list.completed_count + (task.is_completed ? sign : 0),
+  overdue_count: list.overdue_count + (isTaskOverdue(task, today) ? sign : 0),
+});
+
+/**
+ * Updates list task counts for a task going from one state to another
+ * Pass null as `before` for a new task and as `after` for a removed one; a task moved
+ * between lists leaves the counts of the first list and joins those of the second
+ *
+ * @param today - Today's date in `YYYY-MM-DD` format
+ */
+export const applyTaskCountChange = (
+  lists: ListWithTaskCount[],
+  before: CountedTask | null,
+  after: CountedTask | null,
+  today: string
+): ListWithTaskCount[] =>
+  lists.map((list) => {
+    let updated = list;
+    if (before?.list_id === list.id) updated = countTask(updated, before, -1, today);
+    if (after?.list_id === list.id) updated = countTask(updated, after, 1, today);
+    return updated;
+  });
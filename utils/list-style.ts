@@ -0,0 +1,51 @@
+/**
+ * List appearance options
+ * The colours and icons a list can be given, and the fallbacks for lists without them
+ */
+
+/**
+ * Colours offered for lists, as hex values so they work both as styles and icon colours
+ */
+export const LIST_COLORS = [
+  { value: '#6B7280', label: 'Gray' },
+  { value: '#EF4444', label: 'Red' },
+  { value: '#F97316', label: 'Orange' },
+  { value: '#EAB308', label: 'Yellow' },
+  { value: '#22C55E', label: 'Green' },
+  { value: '#14B8A6', label: 'Teal' },
+  { value: '#3B82F6', label: 'Blue' },
+  { value: '#8B5CF6', label: 'Purple' },
+  { value: '#EC4899', label: 'Pink' },
+] as const;
+
+/**
+ * Ionicons offered for lists
+ */
+export const LIST_ICONS = [
+  'list-outline',
+  'briefcase-outline',
+  'home-outline',
+  'cart-outline',
+  'heart-outline',
+  'book-outline',
+  'airplane-outline',
+  'barbell-outline',
+  'cash-outline',
+  'gift-outline',
+  'school-outline',
+  'star-outline',
+] as const;
+
+export type ListIcon = (typeof LIST_ICONS)[number];
+
+export const DEFAULT_LIST_COLOR = LIST_COLORS[0].value;
+export const DEFAULT_LIST_ICON: ListIcon = 'list-outline';
+
+/**
+ * Returns the colour and icon to show for a list, falling back to the defaults
+ * for lists without them or with values that are no longer offered
+ */
+export const getListStyle = (list: { color?: string | null; icon?: string | null }) => ({
+  color: list.color ?? DEFAULT_LIST_COLOR,
+  icon: LIST_ICONS.find((icon) => icon === list.icon) ?? DEFAULT_LIST_ICON,
+});
@@ -0,0 +1,72 @@
+/**
+ * Local Notification Utilities
+ * Wraps the platform notification API behind an adapter so it can be swapped in tests
+ */
+import * as Notifications from 'expo-notifications';
+
+// ==================== ADAPTER INTERFACE ====================
+
+/**
+ * A notification to deliver at a specific moment
+ */
+export interface ScheduledNotification {
+  /** Caller-chosen identifier, used to replace or cancel the notification later */
+  id: string;
+  title: string;
+  body?: string;
+  date: Date;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Minimal surface of a platform notification service
+ */
+export interface NotificationAdapter {
+  /** Asks for permission to show notifications; resolves to whether it was granted */
+  requestPermission: () => Promise<boolean>;
+  /** Schedules a notification, replacing any pending one with the same id */
+  schedule: (notification: ScheduledNotification) => Promise<void>;
+  /** Cancels a pending notification; unknown ids are ignored */
+  cancel: (id: string) => Promise<void>;
+}
+
+// ==================== EXPO IMPLEMENTATION ====================
+
+/**
+ * Adapter backed by expo-notifications
+ */
+export const expoNotificationAdapter: NotificationAdapter = {
+  requestPermission: async () => {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  },
+  schedule: async ({ id, title, body, date, data }) => {
+    await Notifications.scheduleNotificationAsync({
+      identifier: id,
+      content: { title, body, data },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date },
+    });
+  },
+  cancel: async (id) => {
+    await Notifications.cancelScheduledNotificationAsync(id);
+  },
+};
+
+// ==================== ACTIVE ADAPTER ====================
+
+let activeAdapter: NotificationAdapter = expoNotificationAdapter;
+
+/**
+ * Returns the adapter used by the reminder scheduler
+ */
+export const getNotificationAdapter = (): NotificationAdapter => activeAdapter;
+
+/**
+ * Replaces the adapter used by the reminder scheduler (e.g. with a fake in Jest)
+ */
+export const setNotificationAdapter = (adapter: NotificationAdapter) => {
+  activeAdapter = adapter;
+};
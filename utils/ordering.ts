@@ -0,0 +1,90 @@
+/**
+ * Manual ordering utility functions
+ * Items carry a fractional `position`; moving one item only rewrites that item's position
+ * until two neighbours get too close, then the whole collection is renumbered
+ */
+
+/**
+ * Gap between positions of consecutive items after renumbering or appending
+ */
+export const POSITION_STEP = 1;
+
+/**
+ * Smallest gap between two neighbours that still leaves room for a midpoint
+ * Below this, floating point precision runs out and the collection is renumbered
+ */
+export const MIN_POSITION_GAP = 1e-6;
+
+export interface Positioned {
+  id: number;
+  position: number;
+}
+
+/**
+ * Compares items by position, falling back to ID for items sharing a position
+ */
+export const comparePositions = (a: Positioned, b: Positioned): number =>
+  a.position - b.position || a.id - b.id;
+
+/**
+ * Returns a copy of the items sorted by position
+ */
+export const sortByPosition = <T extends Positioned>(items: T[]): T[] =>
+  [...items].sort(comparePositions);
+
+/**
+ * Returns the position that places an item after every existing item
+ */
+export const getPositionAfterLast = (lastPosition?: number | null): number =>
+  (lastPosition ?? 0) + POSITION_STEP;
+
+/**
+ * Returns a position between two neighbours; either side may be missing at the ends
+ */
+export const getPositionBetween = (before?: number, after?: number): number => {
+  if (before === undefined && after === undefined) return POSITION_STEP;
+  if (before === undefined) return after! - POSITION_STEP;
+  if (after === undefined) return before + POSITION_STEP;
+  return (before + after) / 2;
+};
+
+/**
+ * Plans moving an item to a new index
+ *
+ * @param items - The collection, sorted by position
+ * @param id - The ID of the item to move
+ * @param toIndex - The index the item should end up at
+ *
+ * @returns The items whose position changes with their new position: usually only the
+ * moved item, every item when its new neighbours are too close to fit it in between
+ */
+export const planReorder = (items: Positioned[], id: number, toIndex: number): Positioned[] => {
+  const fromIndex = items.findIndex((item) => item.id === id);
+  if (fromIndex === -1 || fromIndex === toIndex) return [];
+
+  const others = items.filter((item) => item.id !== id);
+  const index = Math.max(0, Math.min(toIndex, others.length));
+  const before = others[index - 1]?.position;
+  const after = others[index]?.position;
+
+  if (before === undefined || after === undefined || after - before >= MIN_POSITION_GAP) {
+    return [{ id, position: getPositionBetween(before, after) }];
+  }
+
+  const reordered = [...others.slice(0, index), items[fromIndex], ...others.slice(index)];
+  return reordered
+    .map((item, i) => ({ id: item.id, position: (i + 1) * POSITION_STEP }))
+    .filter((item, i) => item.position !== reordered[i].position);
+};
+
+/**
+ * Applies planned position changes to a collection and returns it sorted
+ */
+export const applyReorder = <T extends Positioned>(items: T[], changes: Positioned[]): T[] => {
+  const positions = new Map(changes.map((change) => [change.id, change.position]));
+  return sortByPosition(
+    items.map((item) =>
+      positions.has(item.id) ? { ...item, position: positions.get(item.id)! } : item
+    )
+  );
+};
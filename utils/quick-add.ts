@@ -0,0 +1,355 @@
+/**
+ * Quick add utility functions
+ * Turns a line like "Pay rent tomorrow 9am !high #home every month" into a task payload
+ *
+ * Recognised phrases, matched case-insensitively as whole words and removed from the name:
+ * - Dates: today, tomorrow, the next weekday (friday, on fri, next fri), next week, next month,
+ *   in 3 days / 2 weeks / 1 month, jun 5, 5th june, 2024-06-30, optionally after on, by or due
+ * - Times: 9am, 9:30 pm, at 21:00, noon
+ * - Priority: !high, !medium (!med), !low
+ * - Tags: #name, when a tag with that name exists
+ * - Recurrence: daily, every day, every weekday, every monday and thursday, weekly,
+ *   every 2 weeks, every other day, every 3 days, monthly, every month
+ *
+ * Every existing tag is recognised, but only the first date, time, priority and recurrence;
+ * later ones stay in the name. Dates are
+ * calendar days in the device time zone, resolved against the given reference time, so the
+ * same input and reference always give the same result.
+ */
+import { Priority, RecurrenceRule } from '@/types/common';
+import { addDaysToDueDate, getDaysInMonth } from './recurrence';
+
+export interface QuickAddTag {
+  id: number;
+  name: string;
+}
+
+export interface QuickAddOptions {
+  /** Reference time relative dates and times are resolved against */
+  now: Date;
+  /** Existing tags that `#name` can refer to */
+  tags?: QuickAddTag[];
+}
+
+/**
+ * A task payload as accepted by `createTask`, without the list
+ */
+export interface QuickAddTask {
+  name: string;
+  priority?: Priority;
+  /** `YYYY-MM-DD`, with a `THH:mm` suffix when a time was given */
+  due_date?: string;
+  recurrence?: RecurrenceRule;
+  tag_ids: number[];
+}
+
+export type QuickAddTokenKind = 'date' | 'time' | 'priority' | 'tag' | 'recurrence';
+
+/**
+ * A phrase of the input that was recognised, as typed, and where it starts
+ */
+export interface QuickAddToken {
+  kind: QuickAddTokenKind;
+  text: string;
+  start: number;
+}
+
+export interface QuickAddResult {
+  task: QuickAddTask;
+  tokens: QuickAddToken[];
+}
+
+const WEEKDAY_PATTERN =
+  'sunday|sun|monday|mon|tuesday|tues|tue|wednesday|wed|thursday|thurs|thu|friday|fri|saturday|sat';
+// Abbreviations like "sun" or "sat" are ordinary words too, so alone only full names count
+const FULL_WEEKDAY_PATTERN = 'sunday|monday|tuesday|wednesday|thursday|friday|saturday';
+const MONTH_PATTERN =
+  'january|jan|february|feb|march|mar|april|apr|may|june|jun|july|jul|august|aug|september|sept|sep|october|oct|november|nov|december|dec';
+const DAY_PATTERN = '(\\d{1,2})(?:st|nd|rd|th)?';
+const DATE_PREFIX = '(?:(?:on|by|due)\\s+)?';
+
+/**
+ * Returns the JavaScript weekday (0 = Sunday) of a weekday name or abbreviation
+ */
+const weekdayIndex = (name: string): number =>
+  ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'].indexOf(name.slice(0, 3).toLowerCase());
+
+/**
+ * Returns the 0-based month of a month name or abbreviation
+ */
+const monthIndex = (name: string): number =>
+  ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(
+    name.slice(0, 3).toLowerCase()
+  );
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDay = (year: number, month: number, day: number) =>
+  `${year}-${pad(month + 1)}-${pad(day)}`;
+
+/**
+ * Returns the weekday (0 = Sunday) of a `YYYY-MM-DD` date
+ */
+const weekdayOf = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+/**
+ * Returns the first date after `today` falling on a weekday; `includeToday` allows today
+ */
+const nextWeekday = (today: string, weekday: number, includeToday = false): string => {
+  const offset = (weekday - weekdayOf(today) + 7) % 7;
+  return addDaysToDueDate(today, offset === 0 && !includeToday ? 7 : offset);
+};
+
+/**
+ * Adds months to a date, keeping the day where the target month allows it
+ */
+const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const targetYear = target.getUTCFullYear();
+  const targetMonth = target.getUTCMonth();
+  return formatDay(targetYear, targetMonth, Math.min(day, getDaysInMonth(targetYear, targetMonth)));
+};
+
+/**
+ * Returns the next occurrence of a month and day on or after today, or null for a day the
+ * month never has
+ */
+const nextMonthDay = (today: string, month: number, day: number): string | null => {
+  if (month < 0 || day < 1 || day > getDaysInMonth(2024, month)) return null;
+  const year = Number(today.slice(0, 4));
+  // Feb 29 only exists in leap years
+  for (let candidateYear = year; candidateYear < year + 8; candidateYear++) {
+    if (day > getDaysInMonth(candidateYear, month)) continue;
+    const candidate = formatDay(candidateYear, month, day);
+    if (candidate >= today) return candidate;
+  }
+  return null;
+};
+
+const isValidDay = (year: number, month: number, day: number) =>
+  month >= 0 && month < 12 && day >= 1 && day <= getDaysInMonth(year, month);
+
+/**
+ * Text still to be parsed; recognised phrases are blanked out so offsets stay valid
+ */
+interface ParseState {
+  text: string;
+  tokens: QuickAddToken[];
+}
+
+/**
+ * Finds the first whole-word match of a pattern and blanks it out of the text
+ *
+ * @param convert - Interprets the capture groups of the pattern; returning null rejects the
+ * match and leaves the text unchanged
+ */
+const take = <T>(
+  state: ParseState,
+  kind: QuickAddTokenKind,
+  pattern: string,
+  convert: (groups: string[]) => T | null
+): T | null => {
+  const regex = new RegExp(`(^|\\s)(?:${pattern})(?=[\\s,.;!?]|$)`, 'gi');
+  for (let match = regex.exec(state.text); match; match = regex.exec(state.text)) {
+    const value = convert(match.slice(2).map((group) => group ?? ''));
+    if (value === null) continue;
+    const start = match.index + match[1].length;
+    const end = match.index + match[0].length;
+    state.tokens.push({ kind, text: state.text.slice(start, end), start });
+    state.text = state.text.slice(0, start) + ' '.repeat(end - start) + state.text.slice(end);
+    return value;
+  }
+  return null;
+};
+
+/**
+ * A recurrence before the due date is known; weekly and monthly rules without explicit
+ * days repeat on the weekday or day of month of the due date
+ */
+type PendingRecurrence =
+  | RecurrenceRule
+  | { type: 'weekly-on-due-date' }
+  | { type: 'monthly-on-due-date' };
+
+const parseRecurrence = (state: ParseState): PendingRecurrence | null =>
+  take<PendingRecurrence>(state, 'recurrence', 'daily|every\\s*day', () => ({ type: 'daily' })) ??
+  take(state, 'recurrence', 'every\\s+weekday', () => ({
+    type: 'weekly',
+    weekdays: [1, 2, 3, 4, 5],
+  })) ??
+  take(
+    state,
+    'recurrence',
+    `every\\s+((?:${WEEKDAY_PATTERN})(?:\\s*(?:,|and|&)\\s*(?:${WEEKDAY_PATTERN}))*)`,
+    ([days]) => ({
+      type: 'weekly',
+      weekdays: [...new Set(days.split(/\s*(?:,|and|&)\s*/i).map(weekdayIndex))].sort(
+        (a, b) => a - b
+      ),
+    })
+  ) ??
+  take(state, 'recurrence', 'weekly|every\\s+week', () => ({ type: 'weekly-on-due-date' })) ??
+  take(state, 'recurrence', 'monthly|every\\s+month', () => ({ type: 'monthly-on-due-date' })) ??
+  take(state, 'recurrence', 'every\\s+other\\s+(day|week)', ([unit]) => ({
+    type: 'interval',
+    days: unit.toLowerCase() === 'day' ? 2 : 14,
+  })) ??
+  take(state, 'recurrence', 'every\\s+(\\d+)\\s+(days?|weeks?)', ([amount, unit]) => {
+    const days = Number(amount) * (unit.toLowerCase().startsWith('week') ? 7 : 1);
+    if (days < 1) return null;
+    return days === 1 ? { type: 'daily' } : { type: 'interval', days };
+  });
+
+const parseDate = (state: ParseState, today: string): string | null =>
+  take(state, 'date', `${DATE_PREFIX}today`, () => today) ??
+  take(state, 'date', `${DATE_PREFIX}(?:tomorrow|tmrw)`, () => addDaysToDueDate(today, 1)) ??
+  take(state, 'date', `${DATE_PREFIX}next\\s+week`, () => nextWeekday(today, 1)) ??
+  take(state, 'date', `${DATE_PREFIX}next\\s+month`, () =>
+    addMonths(today.slice(0, 8) + '01', 1)
+  ) ??
+  take(state, 'date', `${DATE_PREFIX}in\\s+(\\d+)\\s+(days?|weeks?|months?)`, ([amount, unit]) => {
+    const count = Number(amount);
+    const kind = unit.toLowerCase();
+    if (kind.startsWith('month')) return addMonths(today, count);
+    return addDaysToDueDate(today, count * (kind.startsWith('week') ? 7 : 1));
+  }) ??
+  take(
+    state,
+    'date',
+    `(?:(?:on|by|due|next)\\s+(${WEEKDAY_PATTERN})|(${FULL_WEEKDAY_PATTERN}))`,
+    ([abbreviated, full]) => nextWeekday(today, weekdayIndex(abbreviated || full))
+  ) ??
+  take(state, 'date', `${DATE_PREFIX}(\\d{4})-(\\d{2})-(\\d{2})`, ([year, month, day]) =>
+    isValidDay(Number(year), Number(month) - 1, Number(day))
+      ? formatDay(Number(year), Number(month) - 1, Number(day))
+      : null
+  ) ??
+  take(state, 'date', `${DATE_PREFIX}(${MONTH_PATTERN})\\s+${DAY_PATTERN}`, ([month, day]) =>
+    nextMonthDay(today, monthIndex(month), Number(day))
+  ) ??
+  take(
+    state,
+    'date',
+    `${DATE_PREFIX}${DAY_PATTERN}\\s+(?:of\\s+)?(${MONTH_PATTERN})`,
+    ([day, month]) => nextMonthDay(today, monthIndex(month), Number(day))
+  );
+
+const parseTime = (state: ParseState): string | null =>
+  take(state, 'time', '(?:at\\s+)?noon', () => '12:00') ??
+  take(
+    state,
+    'time',
+    '(?:at\\s+)?(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)',
+    ([hour, minute, period]) => {
+      const hours = Number(hour);
+      const minutes = Number(minute || 0);
+      if (hours < 1 || hours > 12 || minutes > 59) return null;
+      const isPm = period.toLowerCase() === 'pm';
+      return `${pad((hours % 12) + (isPm ? 12 : 0))}:${pad(minutes)}`;
+    }
+  ) ??
+  take(state, 'time', '(?:at\\s+)?(\\d{1,2}):(\\d{2})', ([hour, minute]) =>
+    Number(hour) < 24 && Number(minute) < 60 ? `${pad(Number(hour))}:${minute}` : null
+  );
+
+const parsePriority = (state: ParseState): Priority | null =>
+  take(state, 'priority', '!(high|medium|med|low)', ([priority]) => {
+    const value = priority.toLowerCase();
+    return value === 'med' ? 'medium' : (value as Priority);
+  });
+
+const parseTags = (state: ParseState, tags: QuickAddTag[]): number[] => {
+  const tagIds: number[] = [];
+  let tagId: number | null;
+  do {
+    tagId = take(state, 'tag', '#([^\\s#]+)', ([name]) => {
+      const tag = tags.find((candidate) => candidate.name.toLowerCase() === name.toLowerCase());
+      return tag && !tagIds.includes(tag.id) ? tag.id : null;
+    });
+    if (tagId !== null) tagIds.push(tagId);
+  } while (tagId !== null);
+  return tagIds;
+};
+
+/**
+ * Turns a recurrence waiting for the due date into a rule
+ */
+const resolveRecurrence = (pending: PendingRecurrence, dueDate: string): RecurrenceRule => {
+  switch (pending.type) {
+    case 'weekly-on-due-date':
+      return { type: 'weekly', weekdays: [weekdayOf(dueDate)] };
+    case 'monthly-on-due-date':
+      return { type: 'monthly', day: Number(dueDate.slice(8, 10)) };
+    default:
+      return pending;
+  }
+};
+
+/**
+ * Parses a quick add line into a task payload
+ *
+ * @param input - The line as typed
+ * @param options - The reference time and the existing tags
+ *
+ * @remarks
+ * A time without a date means the next time that clock time comes around: today, or
+ * tomorrow once it has passed. A recurrence without a date starts today, or on the first
+ * matching weekday for rules with weekdays.
+ *
+ * @returns The task payload and the recognised phrases for a preview
+ *
+ * @example
+ * ```typescript
+ * parseQuickAdd('Pay rent tomorrow 9am !high #home every month', {
+ *   now: new Date(2024, 5, 10, 8, 0),
+ *   tags: [{ id: 3, name: 'home' }],
+ * }).task;
+ * // {
+ * //   name: 'Pay rent',
+ * //   due_date: '2024-06-11T09:00',
+ * //   priority: 'high',
+ * //   recurrence: { type: 'monthly', day: 11 },
+ * //   tag_ids: [3],
+ * // }
+ * ```
+ */
+export const parseQuickAdd = (
+  input: string,
+  { now, tags = [] }: QuickAddOptions
+): QuickAddResult => {
+  const state: ParseState = { text: input, tokens: [] };
+  const today = formatDay(now.getFullYear(), now.getMonth(), now.getDate());
+
+  const pendingRecurrence = parseRecurrence(state);
+  let date = parseDate(state, today);
+  const time = parseTime(state);
+  const priority = parsePriority(state);
+  const tagIds = parseTags(state, tags);
+
+  if (!date && time) {
+    const currentTime = `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+    date = time > currentTime ? today : addDaysToDueDate(today, 1);
+  }
+  if (!date && pendingRecurrence) {
+    date =
+      pendingRecurrence.type === 'weekly' && pendingRecurrence.weekdays.length > 0
+        ? pendingRecurrence.weekdays.map((weekday) => nextWeekday(today, weekday, true)).sort()[0]
+        : today;
+  }
+
+  const task: QuickAddTask = {
+    name: state.text.replace(/\s+/g, ' ').trim(),
+    tag_ids: tagIds,
+  };
+  if (priority) task.priority = priority;
+  if (date) task.due_date = time ? `${date}T${time}` : date;
+  if (pendingRecurrence && date) task.recurrence = resolveRecurrence(pendingRecurrence, date);
+
+  // Report phrases in the order they were typed
+  const tokens = [...state.tokens].sort((a, b) => a.start - b.start);
+  return { task, tokens };
+};
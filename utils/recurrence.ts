@@ -0,0 +1,126 @@
+/**
+ * Recurrence utility functions
+ * Date math runs on calendar dates in UTC so results never drift with the device time zone
+ */
+import { RecurrenceRule } from '@/types/common';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Returns the number of days in a month (month is 0-based)
+ */
+export const getDaysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+/**
+ * Splits a `YYYY-MM-DD` or `YYYY-MM-DDTHH:mm` string into a UTC date and the time suffix
+ */
+const parseDueDate = (dueDate: string) => {
+  const [datePart, timePart] = dueDate.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  return { date: new Date(Date.UTC(year, month - 1, day)), timePart };
+};
+
+/**
+ * Formats a UTC date back into `YYYY-MM-DD`, keeping an optional time suffix
+ */
+const formatDueDate = (date: Date, timePart?: string): string => {
+  const datePart = date.toISOString().slice(0, 10);
+  return timePart ? `${datePart}T${timePart}` : datePart;
+};
+
+/**
+ * Returns the first date strictly after `date` that matches a monthly rule
+ * Days past the end of a month fall back to that month's last day (31 → Feb 28/29)
+ */
+const nextMonthlyDate = (date: Date, day: number): Date => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  const sameMonthDay = Math.min(day, getDaysInMonth(year, month));
+  if (sameMonthDay > date.getUTCDate()) {
+    return new Date(Date.UTC(year, month, sameMonthDay));
+  }
+
+  const nextMonth = new Date(Date.UTC(year, month + 1, 1));
+  const nextYear = nextMonth.getUTCFullYear();
+  const nextMonthIndex = nextMonth.getUTCMonth();
+  return new Date(
+    Date.UTC(nextYear, nextMonthIndex, Math.min(day, getDaysInMonth(nextYear, nextMonthIndex)))
+  );
+};
+
+/**
+ * Returns the first date strictly after `date` that falls on one of the weekdays
+ */
+const nextWeeklyDate = (date: Date, weekdays: number[]): Date => {
+  for (let offset = 1; offset <= 7; offset++) {
+    const candidate = new Date(date.getTime() + offset * DAY_IN_MS);
+    if (weekdays.includes(candidate.getUTCDay())) return candidate;
+  }
+  // No weekday selected: repeat one week later
+  return new Date(date.getTime() + 7 * DAY_IN_MS);
+};
+
+/**
+ * Calculates the due date of the next occurrence of a recurring task
+ *
+ * @param rule - The recurrence rule of the task
+ * @param dueDate - The current due date (`YYYY-MM-DD`, optionally with a `THH:mm` suffix)
+ * @returns The next due date in the same format as the input
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, dueDate: string): string => {
+  const { date, timePart } = parseDueDate(dueDate);
+
+  switch (rule.type) {
+    case 'daily':
+      return formatDueDate(new Date(date.getTime() + DAY_IN_MS), timePart);
+    case 'interval':
+      return formatDueDate(new Date(date.getTime() + Math.max(1, rule.days) * DAY_IN_MS), timePart);
+    case 'weekly':
+      return formatDueDate(nextWeeklyDate(date, rule.weekdays), timePart);
+    case 'monthly':
+      return formatDueDate(nextMonthlyDate(date, rule.day), timePart);
+  }
+};
+
+/**
+ * Shifts a due date by a number of days, keeping an optional time suffix
+ */
+export const addDaysToDueDate = (dueDate: string, days: number): string => {
+  const { date, timePart } = parseDueDate(dueDate);
+  return formatDueDate(new Date(date.getTime() + days * DAY_IN_MS), timePart);
+};
+
+/**
+ * Returns a short human readable description of a recurrence rule
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  switch (rule.type) {
+    case 'daily':
+      return 'Daily';
+    case 'interval':
+      return rule.days === 1 ? 'Daily' : `Every ${rule.days} days`;
+    case 'weekly':
+      return rule.weekdays.length === 0
+        ? 'Weekly'
+        : `Weekly on ${[...rule.weekdays]
+            .sort((a, b) => a - b)
+            .map((day) => WEEKDAY_LABELS[day])
+            .join(', ')}`;
+    case 'monthly':
+      return `Monthly on day ${rule.day}`;
+  }
+};
+
+/**
+ * Returns today's date in `YYYY-MM-DD` format (local calendar day)
+ */
+export const getTodayDueDate = (): string => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+};
@@ -0,0 +1,19 @@
+/**
+ * Reminder offsets
+ * The reminder times a task can be given, shared by the editors, validation and the scheduler
+ */
+
+export interface ReminderOffset {
+  /** Minutes before the due date */
+  value: number;
+  label: string;
+}
+
+/**
+ * Supported reminder offsets, in minutes before the due date
+ */
+export const REMINDER_OFFSETS: ReminderOffset[] = [
+  { value: 0, label: 'At time' },
+  { value: 60, label: '1 hour before' },
+  { value: 1440, label: '1 day before' },
+];
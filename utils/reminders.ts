@@ -0,0 +1,152 @@
+/**
+ * Reminder Scheduler
+ * Keeps platform notifications in sync with task due dates and reminder offsets
+ */
+import { getTaskById } from '@/queries/tasks';
+import { getRemindersByTaskId, setTaskReminders } from '@/queries/reminders';
+import { NotificationAdapter, getNotificationAdapter } from './notifications';
+import { REMINDER_OFFSETS } from './reminder-offsets';
+import { getTaskStatus, isOpenStatus } from './task-status';
+
+// ==================== CONSTANTS ====================
+
+/**
+ * Time of day used for due dates that carry no time (`YYYY-MM-DD`)
+ */
+export const DEFAULT_REMINDER_TIME = '09:00';
+
+// ==================== DATE HELPERS ====================
+
+/**
+ * Returns the notification identifier of a task reminder
+ * Identifiers are deterministic so reminders can be cancelled without stored state
+ */
+export const getReminderNotificationId = (taskId: number, offsetMinutes: number): string =>
+  `task-${taskId}-reminder-${offsetMinutes}`;
+
+/**
+ * Resolves a due date to a local date and time
+ */
+export const getDueDateTime = (dueDate: string): Date => {
+  const [datePart, timePart = DEFAULT_REMINDER_TIME] = dueDate.split('T');
+  const [year, month, day] = datePart.split('-').map(Number);
+  const [hours, minutes] = timePart.split(':').map(Number);
+  return new Date(year, month - 1, day, hours || 0, minutes || 0);
+};
+
+/**
+ * Returns the moment a reminder should fire
+ */
+export const getReminderDate = (dueDate: string, offsetMinutes: number): Date =>
+  new Date(getDueDateTime(dueDate).getTime() - offsetMinutes * 60 * 1000);
+
+/**
+ * Returns the notification body for a reminder offset
+ */
+const getReminderBody = (offsetMinutes: number): string => {
+  if (offsetMinutes === 0) return 'Due now';
+  const offset = REMINDER_OFFSETS.find((option) => option.value === offsetMinutes);
+  return offset ? `Due in ${offset.label.replace(' before', '')}` : 'Due soon';
+};
+
+// ==================== SCHEDULER ====================
+
+/**
+ * Cancels every pending notification of a task
+ */
+export const cancelTaskReminders = async (
+  taskId: number,
+  adapter: NotificationAdapter = getNotificationAdapter()
+) => {
+  await Promise.all(
+    REMINDER_OFFSETS.map((offset) =>
+      adapter.cancel(getReminderNotificationId(taskId, offset.value))
+    )
+  );
+};
+
+/**
+ * Re-schedules the notifications of a task from its current state
+ *
+ * @remarks
+ * Pending notifications are always cancelled first. New ones are scheduled only
+ * for open tasks with a due date, and only for reminders that are still in the future.
+ *
+ * @returns The identifiers of the scheduled notifications
+ */
+export const syncTaskReminders = async (
+  taskId: number,
+  adapter: NotificationAdapter = getNotificationAdapter(),
+  now: Date = new Date()
+): Promise<string[]> => {
+  const [task, taskReminders] = await Promise.all([
+    getTaskById(taskId),
+    getRemindersByTaskId(taskId),
+  ]);
+
+  await cancelTaskReminders(taskId, adapter);
+
+  const dueDate = task?.due_date;
+  if (!task || !isOpenStatus(getTaskStatus(task)) || !dueDate || taskReminders.length === 0) {
+    return [];
+  }
+
+  const upcoming = taskReminders
+    .map((reminder) => ({
+      id: getReminderNotificationId(taskId, reminder.offset_minutes),
+      offset: reminder.offset_minutes,
+      date: getReminderDate(dueDate, reminder.offset_minutes),
+    }))
+    .filter((reminder) => reminder.date > now);
+
+  if (upcoming.length === 0) return [];
+  if (!(await adapter.requestPermission())) return [];
+
+  await Promise.all(
+    upcoming.map((reminder) =>
+      adapter.schedule({
+        id: reminder.id,
+        title: task.name,
+        body: getReminderBody(reminder.offset),
+        date: reminder.date,
+        data: { taskId },
+      })
+    )
+  );
+
+  return upcoming.map((reminder) => reminder.id);
+};
+
+/**
+ * Stores the reminder offsets of a task and schedules them
+ */
+export const updateTaskReminders = async (
+  taskId: number,
+  offsets: number[],
+  adapter: NotificationAdapter = getNotificationAdapter()
+) => {
+  await setTaskReminders(taskId, offsets);
+  return syncTaskReminders(taskId, adapter);
+};
+
+// ==================== BACKGROUND SYNC ====================
+
+/**
+ * Syncs the reminders of a task without blocking the caller
+ * Failures are logged; a missed reminder must never fail a task mutation
+ */
+export const queueReminderSync = (taskId: number | null | undefined) => {
+  if (!taskId) return;
+  syncTaskReminders(taskId).catch((err) => {
+    console.error('Error syncing reminders:', err);
+  });
+};
+
+/**
+ * Cancels the reminders of a task without blocking the caller
+ */
+export const queueReminderCancel = (taskId: number) => {
+  cancelTaskReminders(taskId).catch((err) => {
+    console.error('Error cancelling reminders:', err);
+  });
+};
@@ -0,0 +1,274 @@
+/**
+ * Search query language
+ * Parses queries like `priority:high status:in_progress due:<7d list:Work "report"` into a
+ * typed syntax tree; the database side lives in `compileTaskSearch` in `queries/tasks`
+ *
+ * Syntax:
+ * - Bare words match task names and descriptions, `"quoted words"` match an exact phrase
+ * - `field:value` narrows by a field, values with spaces are quoted: `list:"Home office"`
+ * - A leading `-` excludes matches: `-tag:someday -draft`
+ * - `due:` takes a date (`2024-06-30`), days or weeks from today (`7d`, `-2w`) or one of
+ *   today, tomorrow, yesterday, overdue, none, optionally after `<`, `<=`, `=`, `>=` or `>`
+ *
+ * All terms must match. Invalid terms are reported as errors and left out of the query,
+ * so the rest of the query keeps working while the user is still typing.
+ */
+import { Priority, TaskStatus } from '@/types/common';
+import { addDaysToDueDate } from './recurrence';
+import { TASK_STATUSES, isTaskStatus } from './task-status';
+
+export const SEARCH_FIELDS = ['priority', 'status', 'due', 'list', 'tag'] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+export type SearchComparator = '<' | '<=' | '=' | '>=' | '>';
+
+/**
+ * Operand of a `due:` term; relative operands count days from today
+ * Overdue matches open tasks due before today, like the Overdue smart view
+ */
+export type DueOperand =
+  | { kind: 'date'; date: string }
+  | { kind: 'relative'; days: number }
+  | { kind: 'overdue' }
+  | { kind: 'none' };
+
+export type SearchTerm = { negated: boolean } & (
+  | { type: 'text'; value: string; phrase: boolean }
+  | { type: 'priority'; value: Priority }
+  | { type: 'status'; value: TaskStatus }
+  | { type: 'due'; comparator: SearchComparator; operand: DueOperand }
+  | { type: 'list'; value: string }
+  | { type: 'tag'; value: string }
+);
+
+export interface SearchQuery {
+  terms: SearchTerm[];
+}
+
+/**
+ * A problem with one term; `start` and `end` are offsets into the input
+ */
+export interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchQuery {
+  query: SearchQuery;
+  errors: SearchQueryError[];
+}
+
+const PRIORITIES: Priority[] = ['low', 'medium', 'high'];
+
+const DUE_KEYWORDS = new Map([
+  ['yesterday', -1],
+  ['today', 0],
+  ['tomorrow', 1],
+]);
+const RELATIVE_UNITS: Record<string, number> = { d: 1, w: 7 };
+
+/**
+ * A term as typed, before its field and value are interpreted
+ */
+interface RawTerm {
+  field?: string;
+  value: string;
+  quoted: boolean;
+  unterminated: boolean;
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+type TermResult = { term: SearchTerm } | { error: string };
+
+/**
+ * Splits the input into terms, honouring quotes and the `-` and `field:` prefixes
+ */
+const tokenize = (input: string): RawTerm[] => {
+  const terms: RawTerm[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    const fieldMatch = /^([A-Za-z_]+):/.exec(input.slice(i));
+    if (fieldMatch) i += fieldMatch[0].length;
+
+    let value: string;
+    let quoted = false;
+    let unterminated = false;
+    if (input[i] === '"') {
+      quoted = true;
+      const close = input.indexOf('"', i + 1);
+      unterminated = close === -1;
+      value = input.slice(i + 1, unterminated ? input.length : close);
+      i = unterminated ? input.length : close + 1;
+    } else {
+      const valueStart = i;
+      while (i < input.length && !/\s/.test(input[i])) i++;
+      value = input.slice(valueStart, i);
+    }
+
+    terms.push({
+      field: fieldMatch?.[1].toLowerCase(),
+      value,
+      quoted,
+      unterminated,
+      negated,
+      start,
+      end: i,
+    });
+  }
+
+  return terms;
+};
+
+const isSearchField = (field: string): field is SearchField =>
+  (SEARCH_FIELDS as readonly string[]).includes(field);
+
+/**
+ * Checks that a `YYYY-MM-DD` string names a real calendar day
+ */
+const isValidDate = (date: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+};
+
+/**
+ * Parses the value of a `due:` term
+ */
+const parseDue = (value: string, negated: boolean): TermResult => {
+  const [, written = '', operandText] = /^(<=|>=|<|>|=)?(.*)$/.exec(value)!;
+  const comparator = (written || '=') as SearchComparator;
+  const operandValue = operandText.toLowerCase();
+
+  if (!operandValue) return { error: `Missing date after due:${written}` };
+
+  if (operandValue === 'none' || operandValue === 'overdue') {
+    if (written) return { error: `"${operandValue}" cannot be compared, use due:${operandValue}` };
+    return { term: { type: 'due', comparator: '=', operand: { kind: operandValue }, negated } };
+  }
+
+  const keywordDays = DUE_KEYWORDS.get(operandValue);
+  if (keywordDays !== undefined) {
+    const operand: DueOperand = { kind: 'relative', days: keywordDays };
+    return { term: { type: 'due', comparator, operand, negated } };
+  }
+
+  const relative = /^([+-]?\d+)([dw])$/.exec(operandValue);
+  if (relative) {
+    const days = Number(relative[1]) * RELATIVE_UNITS[relative[2]];
+    return { term: { type: 'due', comparator, operand: { kind: 'relative', days }, negated } };
+  }
+
+  if (isValidDate(operandValue)) {
+    return {
+      term: { type: 'due', comparator, operand: { kind: 'date', date: operandValue }, negated },
+    };
+  }
+
+  return {
+    error: `Invalid due date "${operandText}". Use a date like 2024-06-30, a number of days or weeks like 7d or 2w, or today, tomorrow, yesterday, overdue or none`,
+  };
+};
+
+/**
+ * Interprets the value of a `field:value` term
+ */
+const parseFieldTerm = (field: SearchField, value: string, negated: boolean): TermResult => {
+  switch (field) {
+    case 'priority': {
+      const priority = value.toLowerCase() as Priority;
+      if (!PRIORITIES.includes(priority)) {
+        return { error: `Unknown priority "${value}". Use low, medium or high` };
+      }
+      return { term: { type: 'priority', value: priority, negated } };
+    }
+    case 'status': {
+      const status = value.toLowerCase().replace(/-/g, '_') as TaskStatus;
+      if (!isTaskStatus(status)) {
+        return { error: `Unknown status "${value}". Use ${TASK_STATUSES.join(', ')}` };
+      }
+      return { term: { type: 'status', value: status, negated } };
+    }
+    case 'due':
+      return parseDue(value, negated);
+    case 'list':
+    case 'tag':
+      return { term: { type: field, value, negated } };
+  }
+};
+
+/**
+ * Parses a search query
+ *
+ * @param input - The query as typed in the search bar
+ *
+ * @returns The terms that could be parsed and an error for every term that could not
+ *
+ * @example
+ * ```typescript
+ * parseSearchQuery('priority:high due:<7d "report"').query.terms;
+ * // [
+ * //   { type: 'priority', value: 'high', negated: false },
+ * //   { type: 'due', comparator: '<', operand: { kind: 'relative', days: 7 }, negated: false },
+ * //   { type: 'text', value: 'report', phrase: true, negated: false },
+ * // ]
+ * ```
+ */
+export const parseSearchQuery = (input: string): ParsedSearchQuery => {
+  const terms: SearchTerm[] = [];
+  const errors: SearchQueryError[] = [];
+
+  tokenize(input).forEach((raw) => {
+    const fail = (message: string) => errors.push({ message, start: raw.start, end: raw.end });
+    if (raw.unterminated) fail('Missing closing quote');
+
+    if (raw.field === undefined) {
+      if (raw.value.trim()) {
+        terms.push({ type: 'text', value: raw.value, phrase: raw.quoted, negated: raw.negated });
+      }
+      return;
+    }
+
+    if (!isSearchField(raw.field)) {
+      fail(`Unknown field "${raw.field}". Use ${SEARCH_FIELDS.join(', ')}`);
+      return;
+    }
+
+    const value = raw.value.trim();
+    if (!value) {
+      fail(`Missing value after ${raw.field}:`);
+      return;
+    }
+
+    const result = parseFieldTerm(raw.field, value, raw.negated);
+    if ('error' in result) fail(result.error);
+    else terms.push(result.term);
+  });
+
+  return { query: { terms }, errors };
+};
+
+/**
+ * Resolves a date operand of a `due:` term to a `YYYY-MM-DD` date
+ *
+ * @param operand - A date or relative operand
+ * @param today - Today's date in `YYYY-MM-DD` format
+ */
+export const resolveDueOperand = (
+  operand: Extract<DueOperand, { kind: 'date' | 'relative' }>,
+  today: string
+): string => (operand.kind === 'date' ? operand.date : addDaysToDueDate(today, operand.days));
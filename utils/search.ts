@@ -0,0 +1,79 @@
+/**
+ * Full-text search utility functions
+ * Turns user input into FTS5 match expressions and highlighted snippets into display segments
+ */
+
+/**
+ * Markers SQLite wraps around matched terms in highlights and snippets
+ * Control characters never appear in typed task or list names
+ */
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Splits user input into lowercase words the way the index tokenizes them
+ */
+const extractWords = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}_]+/gu);
+
+/**
+ * Builds an FTS5 match expression from free-form user input
+ *
+ * @remarks
+ * Every word becomes a quoted prefix term, so FTS5 operators and punctuation typed by the
+ * user are matched literally and never cause a syntax error. All words must match.
+ *
+ * @returns The match expression, or null when the input contains no searchable words
+ *
+ * @example
+ * ```typescript
+ * buildFtsQuery('quarterly rep'); // '"quarterly"* "rep"*'
+ * ```
+ */
+export const buildFtsQuery = (searchTerm: string): string | null => {
+  const words = extractWords(searchTerm);
+  if (!words) return null;
+  return words.map((word) => `"${word}"*`).join(' ');
+};
+
+/**
+ * Builds an FTS5 match expression for an exact phrase
+ *
+ * @returns The match expression, or null when the phrase contains no searchable words
+ *
+ * @example
+ * ```typescript
+ * buildFtsPhrase('Quarterly report'); // '"quarterly report"'
+ * ```
+ */
+export const buildFtsPhrase = (phrase: string): string | null => {
+  const words = extractWords(phrase);
+  if (!words) return null;
+  return `"${words.join(' ')}"`;
+};
+
+/**
+ * Splits highlighted text into plain and highlighted segments
+ */
+export const parseHighlights = (text: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let highlighted = false;
+
+  text.split(new RegExp(`([${HIGHLIGHT_START}${HIGHLIGHT_END}])`)).forEach((part) => {
+    if (part === HIGHLIGHT_START) highlighted = true;
+    else if (part === HIGHLIGHT_END) highlighted = false;
+    else if (part) segments.push({ text: part, highlighted });
+  });
+
+  return segments;
+};
+
+/**
+ * Removes highlight markers, leaving the plain text
+ */
+export const stripHighlights = (text: string): string =>
+  text.split(HIGHLIGHT_START).join('').split(HIGHLIGHT_END).join('');
@@ -0,0 +1,84 @@
+/**
+ * Smart list utility functions
+ * A smart list is a named, saved combination of task filters. Its criteria are stored in
+ * their own columns and evaluated live by the composed task query
+ */
+import { SmartList, SmartListCriteria } from '@/types';
+import { DueRange, Priority } from '@/types/common';
+import { TASK_WORKFLOW, isTaskStatus } from './task-status';
+
+export const DUE_RANGES: [DueRange, ...DueRange[]] = [
+  'overdue',
+  'today',
+  'next_7_days',
+  'no_due_date',
+];
+
+export const DUE_RANGE_LABELS: Record<DueRange, string> = {
+  overdue: 'Overdue',
+  today: 'Due today',
+  next_7_days: 'Due in the next 7 days',
+  no_due_date: 'No due date',
+};
+
+const PRIORITIES: Priority[] = ['low', 'medium', 'high'];
+
+/**
+ * Reads the criteria of a stored smart list
+ * Empty and unknown values are left out, so they match every task
+ */
+export const getSmartListCriteria = (smartList: SmartList): SmartListCriteria => {
+  const { search, status, priority, due_range, tag_id, list_ids } = smartList;
+  return {
+    ...(search?.trim() && { search: search.trim() }),
+    ...(isTaskStatus(status) && { status }),
+    ...(PRIORITIES.includes(priority as Priority) && { priority: priority as Priority }),
+    ...(DUE_RANGES.includes(due_range as DueRange) && { due_range: due_range as DueRange }),
+    ...(tag_id !== null && { tag_id }),
+    ...(list_ids && list_ids.length > 0 && { list_ids }),
+  };
+};
+
+/**
+ * Converts criteria to the columns they are stored in; missing criteria are stored as null
+ */
+export const toSmartListColumns = (criteria: SmartListCriteria) => ({
+  search: criteria.search?.trim() || null,
+  status: criteria.status ?? null,
+  priority: criteria.priority ?? null,
+  due_range: criteria.due_range ?? null,
+  tag_id: criteria.tag_id ?? null,
+  list_ids: criteria.list_ids && criteria.list_ids.length > 0 ? criteria.list_ids : null,
+});
+
+/**
+ * Tells whether any criterion is set; a smart list without criteria shows every task
+ */
+export const hasSmartListCriteria = (criteria: SmartListCriteria) =>
+  Object.values(toSmartListColumns(criteria)).some((value) => value !== null);
+
+/**
+ * Describes each criterion in a few words, e.g. ["High priority", "Due today", "2 lists"]
+ *
+ * @param names - Names of the lists and tags, to name a single list or the tag
+ */
+export const describeSmartListCriteria = (
+  criteria: SmartListCriteria,
+  names: { lists?: Map<number, string>; tags?: Map<number, string> } = {}
+): string[] => {
+  const { search, status, priority, due_range, tag_id, list_ids } = criteria;
+  const descriptions: string[] = [];
+  if (search) descriptions.push(`"${search}"`);
+  if (status) descriptions.push(TASK_WORKFLOW[status].label);
+  if (priority) descriptions.push(`${priority[0].toUpperCase()}${priority.slice(1)} priority`);
+  if (due_range) descriptions.push(DUE_RANGE_LABELS[due_range]);
+  if (tag_id !== undefined) descriptions.push(`#${names.tags?.get(tag_id) ?? 'tag'}`);
+  if (list_ids) {
+    descriptions.push(
+      list_ids.length === 1
+        ? `In ${names.lists?.get(list_ids[0]) ?? '1 list'}`
+        : `In ${list_ids.length} lists`
+    );
+  }
+  return descriptions;
+};
@@ -0,0 +1,59 @@
+/**
+ * Smart views
+ * Cross-list views of open tasks by due date. A task is open when it is neither completed
+ * nor cancelled; due dates are compared by whole days, as for the overdue list counts
+ */
+import { DueRange } from '@/types/common';
+
+/**
+ * Each smart view holds the open tasks of one due range
+ */
+export type SmartViewId = DueRange;
+
+export interface SmartViewDefinition {
+  label: string;
+  /** Ionicons name */
+  icon: string;
+  /** Hex colour of the icon */
+  color: string;
+  /** Shown when the view has no tasks */
+  emptyMessage: string;
+}
+
+/**
+ * The smart views, in display order
+ */
+export const SMART_VIEWS: Record<SmartViewId, SmartViewDefinition> = {
+  today: {
+    label: 'Today',
+    icon: 'today-outline',
+    color: '#2563EB',
+    emptyMessage: 'Nothing is due today',
+  },
+  overdue: {
+    label: 'Overdue',
+    icon: 'alert-circle-outline',
+    color: '#DC2626',
+    emptyMessage: 'No overdue tasks',
+  },
+  next_7_days: {
+    label: 'Next 7 days',
+    icon: 'calendar-outline',
+    color: '#9333EA',
+    emptyMessage: 'Nothing is due in the next 7 days',
+  },
+  no_due_date: {
+    label: 'No due date',
+    icon: 'remove-circle-outline',
+    color: '#4B5563',
+    emptyMessage: 'Every open task has a due date',
+  },
+};
+
+export const SMART_VIEW_IDS = Object.keys(SMART_VIEWS) as [SmartViewId, ...SmartViewId[]];
+
+/**
+ * Tells whether a value, e.g. a route parameter, is one of the smart views
+ */
+export const isSmartViewId = (value: unknown): value is SmartViewId =>
+  SMART_VIEW_IDS.includes(value as SmartViewId);
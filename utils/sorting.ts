@@ -0,0 +1,58 @@
+/**
+ * Sort options for tasks and lists
+ * The orders offered in the sort controls; the sorting itself happens in SQL
+ */
+import { ListSortField, SortDirection, SortParams, TaskSortField } from '@/types/common';
+
+export interface SortOption<F extends string> {
+  field: F;
+  label: string;
+  /** Direction the option starts in, e.g. newest first for dates of changes */
+  direction: SortDirection;
+}
+
+/**
+ * The manual drag-and-drop order, used until another order is chosen
+ */
+export const MANUAL_SORT = { field: 'position', direction: 'asc' } as const;
+
+/**
+ * Orders offered for tasks; priorities go from high to low first
+ */
+export const TASK_SORT_OPTIONS: SortOption<TaskSortField>[] = [
+  { field: 'position', label: 'Manual', direction: 'asc' },
+  { field: 'due_date', label: 'Due date', direction: 'asc' },
+  { field: 'priority', label: 'Priority', direction: 'desc' },
+  { field: 'created_at', label: 'Created', direction: 'desc' },
+  { field: 'updated_at', label: 'Updated', direction: 'desc' },
+  { field: 'name', label: 'Name', direction: 'asc' },
+];
+
+/**
+ * Orders offered for lists
+ */
+export const LIST_SORT_OPTIONS: SortOption<ListSortField>[] = [
+  { field: 'position', label: 'Manual', direction: 'asc' },
+  { field: 'name', label: 'Name', direction: 'asc' },
+  { field: 'created_at', label: 'Created', direction: 'desc' },
+  { field: 'updated_at', label: 'Updated', direction: 'desc' },
+];
+
+/**
+ * Tells whether items keep their manual order, which is the only one they can be dragged in
+ */
+export const isManualSort = (sort?: SortParams) => !sort || sort.field === MANUAL_SORT.field;
+
+/**
+ * Returns the sort after an option is picked
+ * Picking the current option again reverses it; the manual order has no direction
+ */
+export const getNextSort = <F extends string>(
+  current: SortParams<F>,
+  option: SortOption<F>
+): SortParams<F> => {
+  if (current.field !== option.field || option.field === MANUAL_SORT.field) {
+    return { field: option.field, direction: option.direction };
+  }
+  return { field: option.field, direction: current.direction === 'asc' ? 'desc' : 'asc' };
+};
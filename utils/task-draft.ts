@@ -0,0 +1,124 @@
+/**
+ * Task draft utility functions
+ * The edit screen works on a draft copy of a task; comparing it with the saved task tells
+ * which fields are dirty and which changes to send when saving
+ */
+import { Task } from '@/types';
+import { Priority, RecurrenceRule, TaskStatus } from '@/types/common';
+import { getTaskStatus } from './task-status';
+
+/**
+ * Editable fields of a task; empty strings stand for a missing description or due date
+ */
+export interface TaskDraft {
+  name: string;
+  description: string;
+  priority: Priority;
+  status: TaskStatus;
+  due_date: string;
+  recurrence: RecurrenceRule | null;
+  list_id: number;
+  tag_ids: number[];
+  reminder_offsets: number[];
+}
+
+export type TaskDraftField = keyof TaskDraft;
+
+/**
+ * Changes of a draft in the shape `updateTask` accepts
+ */
+export type TaskDraftChanges = Partial<
+  Omit<TaskDraft, 'description' | 'due_date'> & {
+    description: string | null;
+    due_date: string | null;
+  }
+>;
+
+const sortedIds = (ids: number[]) => [...new Set(ids)].sort((a, b) => a - b);
+
+/**
+ * Returns a recurrence rule in a canonical form so equal rules compare equal
+ */
+const normalizeRecurrence = (rule: RecurrenceRule | null) =>
+  rule?.type === 'weekly' ? { ...rule, weekdays: sortedIds(rule.weekdays) } : rule;
+
+/**
+ * Creates the draft of a saved task
+ *
+ * @param task - The saved task
+ * @param tagIds - The IDs of the task's tags
+ * @param reminderOffsets - The offsets of the task's reminders in minutes
+ */
+export const createTaskDraft = (
+  task: Task,
+  tagIds: number[],
+  reminderOffsets: number[]
+): TaskDraft => ({
+  name: task.name,
+  description: task.description ?? '',
+  priority: (task.priority ?? 'medium') as Priority,
+  status: getTaskStatus(task),
+  due_date: task.due_date ?? '',
+  recurrence: task.recurrence ?? null,
+  list_id: task.list_id,
+  tag_ids: sortedIds(tagIds),
+  reminder_offsets: sortedIds(reminderOffsets),
+});
+
+/**
+ * Returns the comparable value of a draft field
+ */
+const comparable = (draft: TaskDraft, field: TaskDraftField) => {
+  switch (field) {
+    case 'name':
+    case 'description':
+    case 'due_date':
+      return draft[field].trim();
+    case 'tag_ids':
+    case 'reminder_offsets':
+      return JSON.stringify(sortedIds(draft[field]));
+    case 'recurrence':
+      return JSON.stringify(normalizeRecurrence(draft.recurrence));
+    default:
+      return draft[field];
+  }
+};
+
+/**
+ * Lists the fields of a draft that differ from the saved task
+ * Surrounding whitespace and the order of tags and reminders do not count as changes
+ */
+export const getDirtyFields = (saved: TaskDraft, draft: TaskDraft): TaskDraftField[] =>
+  (Object.keys(saved) as TaskDraftField[]).filter(
+    (field) => comparable(saved, field) !== comparable(draft, field)
+  );
+
+/**
+ * Collects the changed fields of a draft for saving
+ *
+ * @returns Only the dirty fields, trimmed, with an empty description or due date as null
+ */
+export const getDraftChanges = (saved: TaskDraft, draft: TaskDraft): TaskDraftChanges => {
+  const changes: TaskDraftChanges = {};
+  getDirtyFields(saved, draft).forEach((field) => {
+    switch (field) {
+      case 'name':
+        changes.name = draft.name.trim();
+        break;
+      case 'description':
+      case 'due_date':
+        changes[field] = draft[field].trim() || null;
+        break;
+      case 'tag_ids':
+      case 'reminder_offsets':
+        changes[field] = sortedIds(draft[field]);
+        break;
+      case 'recurrence':
+        changes.recurrence = normalizeRecurrence(draft.recurrence);
+        break;
+      default:
+        Object.assign(changes, { [field]: draft[field] });
+    }
+  });
+  return changes;
+};
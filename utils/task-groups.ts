@@ -0,0 +1,115 @@
+/**
+ * Task grouping for the sectioned task list
+ * Splits tasks into sections by status, priority, due date or completion, keeping their order
+ */
+import { Task } from '@/types';
+import { getDueDay } from './calendar';
+import { isTaskOverdue } from './list-counts';
+import { addDaysToDueDate, getTodayDueDate } from './recurrence';
+import { TASK_STATUSES, TASK_WORKFLOW, getTaskStatus } from './task-status';
+
+export type TaskGroupBy = 'none' | 'status' | 'priority' | 'due' | 'completion';
+
+export interface TaskSection {
+  /** Stable key of the section, prefixed with its grouping, e.g. "status:blocked" */
+  key: string;
+  title: string;
+  data: Task[];
+}
+
+export const TASK_GROUP_BY_OPTIONS: { value: TaskGroupBy; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'due', label: 'Due date' },
+  { value: 'completion', label: 'Completion' },
+];
+
+/**
+ * Sections of each grouping in the order they are shown
+ */
+const PRIORITY_GROUPS = [
+  { id: 'high', title: 'High priority' },
+  { id: 'medium', title: 'Medium priority' },
+  { id: 'low', title: 'Low priority' },
+  { id: 'none', title: 'No priority' },
+];
+
+const DUE_GROUPS = [
+  { id: 'overdue', title: 'Overdue' },
+  { id: 'earlier', title: 'Earlier' },
+  { id: 'today', title: 'Today' },
+  { id: 'this_week', title: 'This week' },
+  { id: 'later', title: 'Later' },
+  { id: 'no_due_date', title: 'No due date' },
+];
+
+const COMPLETION_GROUPS = [
+  { id: 'open', title: 'Open' },
+  { id: 'completed', title: 'Completed' },
+];
+
+/**
+ * Returns the due bucket of a task
+ * "This week" covers the six days after today; past due dates of finished tasks are "Earlier"
+ */
+export const getDueBucket = (task: Task, today: string): string => {
+  if (!task.due_date) return 'no_due_date';
+  const day = getDueDay(task.due_date);
+  if (day < today) return isTaskOverdue(task, today) ? 'overdue' : 'earlier';
+  if (day === today) return 'today';
+  return day < addDaysToDueDate(today, 7) ? 'this_week' : 'later';
+};
+
+/**
+ * Returns the sections of a grouping and the section each task belongs to
+ */
+const getGrouping = (groupBy: Exclude<TaskGroupBy, 'none'>, today: string) => {
+  switch (groupBy) {
+    case 'status':
+      return {
+        groups: TASK_STATUSES.map((status) => ({ id: status, title: TASK_WORKFLOW[status].label })),
+        getGroup: (task: Task) => getTaskStatus(task),
+      };
+    case 'priority':
+      return {
+        groups: PRIORITY_GROUPS,
+        getGroup: (task: Task) =>
+          PRIORITY_GROUPS.some((group) => group.id === task.priority) ? task.priority! : 'none',
+      };
+    case 'due':
+      return { groups: DUE_GROUPS, getGroup: (task: Task) => getDueBucket(task, today) };
+    case 'completion':
+      return {
+        groups: COMPLETION_GROUPS,
+        getGroup: (task: Task) => (task.is_completed ? 'completed' : 'open'),
+      };
+  }
+};
+
+/**
+ * Splits tasks into the sections of a grouping
+ * Sections keep the order of the tasks given, and sections without tasks are left out
+ */
+export const groupTasks = (
+  tasks: Task[],
+  groupBy: Exclude<TaskGroupBy, 'none'>,
+  today = getTodayDueDate()
+): TaskSection[] => {
+  const { groups, getGroup } = getGrouping(groupBy, today);
+  const tasksByGroup = new Map<string, Task[]>();
+  tasks.forEach((task) => {
+    const group = getGroup(task);
+    const groupTasks = tasksByGroup.get(group);
+    if (groupTasks) groupTasks.push(task);
+    else tasksByGroup.set(group, [task]);
+  });
+
+  return groups
+    .filter((group) => tasksByGroup.has(group.id))
+    .map((group) => ({
+      key: `${groupBy}:${group.id}`,
+      title: group.title,
+      data: tasksByGroup.get(group.id)!,
+    }));
+};
@@ -0,0 +1,128 @@
+/**
+ * Task status workflow
+ * Defines the statuses a task can have, how they are shown and which changes between them
+ * are allowed. A task's completion flag always follows its status and is never set on its own
+ */
+import { TaskStatus } from '@/types/common';
+
+export interface TaskStatusDefinition {
+  label: string;
+  /** Background class of the status dot and selected chips */
+  color: string;
+  /** Ionicons name */
+  icon: string;
+  /** Statuses a task with this status may change to */
+  transitions: TaskStatus[];
+}
+
+/**
+ * The workflow, in display order
+ * Completed and cancelled tasks can be reopened; blocked tasks have to be unblocked before
+ * they can be completed
+ */
+export const TASK_WORKFLOW: Record<TaskStatus, TaskStatusDefinition> = {
+  pending: {
+    label: 'Pending',
+    color: 'bg-gray-500',
+    icon: 'time-outline',
+    transitions: ['in_progress', 'blocked', 'completed', 'cancelled'],
+  },
+  in_progress: {
+    label: 'In Progress',
+    color: 'bg-blue-500',
+    icon: 'play-outline',
+    transitions: ['pending', 'blocked', 'completed', 'cancelled'],
+  },
+  blocked: {
+    label: 'Blocked',
+    color: 'bg-orange-500',
+    icon: 'hand-left-outline',
+    transitions: ['pending', 'in_progress', 'cancelled'],
+  },
+  completed: {
+    label: 'Completed',
+    color: 'bg-green-500',
+    icon: 'checkmark-circle-outline',
+    transitions: ['pending', 'in_progress'],
+  },
+  cancelled: {
+    label: 'Cancelled',
+    color: 'bg-red-500',
+    icon: 'close-circle-outline',
+    transitions: ['pending'],
+  },
+};
+
+export const TASK_STATUSES = Object.keys(TASK_WORKFLOW) as [TaskStatus, ...TaskStatus[]];
+
+/**
+ * Tells whether a value is one of the workflow's statuses
+ */
+export const isTaskStatus = (value: unknown): value is TaskStatus =>
+  TASK_STATUSES.includes(value as TaskStatus);
+
+/**
+ * Returns the completion flag that goes with a status
+ */
+export const isCompletedStatus = (status: TaskStatus) => status === 'completed';
+
+/**
+ * Tells whether a status leaves a task open, i.e. neither completed nor cancelled
+ */
+export const isOpenStatus = (status: TaskStatus) =>
+  !isCompletedStatus(status) && status !== 'cancelled';
+
+/**
+ * Returns the status of a stored task
+ * Rows written before the workflow may have a completion flag that disagrees with their
+ * status; the flag wins there, as in the status filters of the task queries
+ */
+export const getTaskStatus = (task: {
+  status?: string | null;
+  is_completed?: boolean | null;
+}): TaskStatus => {
+  if (task.is_completed) return 'completed';
+  return isTaskStatus(task.status) && task.status !== 'completed' ? task.status : 'pending';
+};
+
+/**
+ * Returns the status a completion toggle moves a task to
+ */
+export const getToggledStatus = (isCompleted: boolean): TaskStatus =>
+  isCompleted ? 'completed' : 'pending';
+
+/**
+ * Tells whether a task may change from one status to another
+ * Keeping the current status is always allowed
+ */
+export const canTransition = (from: TaskStatus, to: TaskStatus) =>
+  from === to || TASK_WORKFLOW[from].transitions.includes(to);
+
+/**
+ * Returns the statuses a task may take, its current one included, in display order
+ */
+export const getAvailableStatuses = (from: TaskStatus) =>
+  TASK_STATUSES.filter((status) => canTransition(from, status));
+
+/**
+ * Throws when the workflow does not allow a status change
+ *
+ * @throws Error naming both statuses
+ */
+export const assertTransition = (from: TaskStatus, to: TaskStatus) => {
+  if (!canTransition(from, to)) {
+    throw new Error(
+      `A ${TASK_WORKFLOW[from].label.toLowerCase()} task cannot be changed to ` +
+        TASK_WORKFLOW[to].label.toLowerCase()
+    );
+  }
+};
+
+/**
+ * Gives a task a new status together with the completion flag derived from it
+ */
+export const withTaskStatus = <T extends object>(task: T, status: TaskStatus) => ({
+  ...task,
+  status,
+  is_completed: isCompletedStatus(status),
+});
@@ -34,8 +34,24 @@ export const showToast = {
       text2: message,
     });
   },
+  /** Shows a success toast with an "Undo" action button (rendered by the `undo` toast type) */
+  withUndo: (title: string, message: string | undefined, onUndo: () => void) => {
+    Toast.show({
+      type: 'undo',
+      text1: title,
+      text2: message,
+      visibilityTime: 5000,
+      props: { onUndo },
+    });
+  },
 };
 
+/**
+ * Shows a success toast, with an "Undo" button when an undo callback is given
+ */
+const successWithUndo = (title: string, message: string, onUndo?: () => void) =>
+  onUndo ? showToast.withUndo(title, message, onUndo) : showToast.success(title, message);
+
 // ==================== SEMANTIC TOAST MESSAGES ====================
 
 /**
@@ -45,13 +61,52 @@ export const showToast = {
 export const toastMessages = {
   /** List management toasts */
   listCreated: () => showToast.success('List Created', 'Your list has been created successfully!'),
-  listDeleted: () => showToast.success('List Deleted', 'List has been deleted successfully!'),
+  listUpdated: () => showToast.success('List Updated', 'Your list has been updated successfully!'),
+  listDeleted: (onUndo?: () => void) =>
+    successWithUndo('List Deleted', 'List has been moved to the trash.', onUndo),
+  listRestored: () => showToast.success('List Restored', 'List and its tasks have been restored.'),
   
-  /** Task management toasts */
+  /** Task management toasts (pass `onUndo` to show an "Undo" button) */
   taskCreated: () => showToast.success('Task Created', 'Your task has been created successfully!'),
-  taskUpdated: () => showToast.success('Task Updated', 'Your task has been updated successfully!'),
-  taskDeleted: () => showToast.success('Task Deleted', 'Task has been deleted successfully!'),
+  taskUpdated: (onUndo?: () => void) =>
+    successWithUndo('Task Updated', 'Your task has been updated successfully!', onUndo),
+  taskDeleted: (onUndo?: () => void) =>
+    successWithUndo('Task Deleted', 'Task has been moved to the trash.', onUndo),
+  taskRestored: () => showToast.success('Task Restored', 'Task has been restored.'),
   taskCompleted: () => showToast.success('Task Completed', 'Great job!'),
+  taskDuplicated: () => showToast.success('Task Duplicated', 'A copy of the task has been created.'),
+  taskRescheduled: (dateLabel: string, onUndo?: () => void) =>
+    successWithUndo('Task Rescheduled', `The task is now due ${dateLabel}.`, onUndo),
+  tasksUpdated: (count: number, onUndo?: () => void) =>
+    successWithUndo(
+      'Tasks Updated',
+      `${count} task${count === 1 ? ' has' : 's have'} been updated.`,
+      onUndo
+    ),
+  tasksDeleted: (count: number, onUndo?: () => void) =>
+    successWithUndo(
+      'Tasks Deleted',
+      `${count} task${count === 1 ? ' has' : 's have'} been moved to the trash.`,
+      onUndo
+    ),
+  tasksMoved: (count: number, listName: string) =>
+    showToast.success(
+      count === 1 ? 'Task Moved' : 'Tasks Moved',
+      `${count === 1 ? 'The task has' : `${count} tasks have`} been moved to "${listName}".`
+    ),
+  tasksCopied: (count: number, listName: string) =>
+    showToast.success(
+      count === 1 ? 'Task Copied' : 'Tasks Copied',
+      `${count === 1 ? 'A copy has' : `${count} copies have`} been added to "${listName}".`
+    ),
+  
+  /** Trash toasts */
+  deletedForever: () => showToast.success('Deleted Forever', 'The item has been permanently deleted.'),
+  trashEmptied: () => showToast.success('Trash Emptied', 'All items have been permanently deleted.'),
+  
+  /** Smart list toasts */
+  smartListSaved: () => showToast.success('Smart List Saved', 'Your filters have been saved.'),
+  smartListDeleted: () => showToast.success('Smart List Deleted', 'The saved filters have been removed.'),
   
   /** Error toasts */
   error: (message: string) => showToast.error('Error', message),
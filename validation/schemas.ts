@@ -1,6 +1,56 @@
 import { z } from 'zod';
+import { LIST_ICONS } from '@/utils/list-style';
+import { TASK_STATUSES, isCompletedStatus } from '@/utils/task-status';
+import { DUE_RANGES } from '@/utils/smart-lists';
+import { REMINDER_OFFSETS } from '@/utils/reminder-offsets';
+
+// Recurrence validation schema
+export const RecurrenceRuleSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('daily') }),
+  z.object({
+    type: z.literal('weekly'),
+    weekdays: z.array(z.number().int().min(0).max(6))
+      .min(1, 'Pick at least one weekday'),
+  }),
+  z.object({
+    type: z.literal('monthly'),
+    day: z.number()
+      .int('Day of month must be an integer')
+      .min(1, 'Day of month must be between 1 and 31')
+      .max(31, 'Day of month must be between 1 and 31'),
+  }),
+  z.object({
+    type: z.literal('interval'),
+    days: z.number()
+      .int('Interval must be a whole number of days')
+      .min(1, 'Interval must be at least 1 day')
+      .max(365, 'Interval must be at most 365 days'),
+  }),
+]);
 
 // Task validation schemas
+const DueDateSchema = z.string()
+  .regex(
+    /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/,
+    'Due date must be in YYYY-MM-DD or YYYY-MM-DDTHH:mm format'
+  );
+
+const TaskStatusSchema = z.enum(TASK_STATUSES, { message: 'Pick one of the task statuses' });
+
+// Only the offsets offered in the editors, whose notifications can be cancelled again
+const ReminderOffsetsSchema = z.array(
+  z.number().refine(
+    (offset) => REMINDER_OFFSETS.some((option) => option.value === offset),
+    'Pick one of the reminder offsets'
+  )
+);
+
+const TagIdsSchema = z.array(
+  z.number()
+    .int('Tag ID must be an integer')
+    .positive('Tag ID must be positive')
+);
+
 export const CreateTaskSchema = z.object({
   name: z.string()
     .min(1, 'Task name is required')
@@ -14,12 +64,12 @@ export const CreateTaskSchema = z.object({
   description: z.string()
     .max(500, 'Description must be less than 500 characters')
     .optional(),
-  status: z.enum(['pending', 'in_progress', 'completed'])
-    .default('pending'),
-  due_date: z.string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Due date must be in YYYY-MM-DD format')
-    .optional(),
+  status: TaskStatusSchema.default('pending'),
+  due_date: DueDateSchema.optional(),
   image: z.string().url('Image must be a valid URL').optional(),
+  recurrence: RecurrenceRuleSchema.optional(),
+  reminder_offsets: ReminderOffsetsSchema.optional(),
+  tag_ids: TagIdsSchema.optional(),
 });
 
 export const UpdateTaskSchema = z.object({
@@ -31,12 +81,29 @@ export const UpdateTaskSchema = z.object({
     .max(100, 'Task name must be less than 100 characters')
     .trim()
     .optional(),
-  completed: z.boolean().optional(),
+  is_completed: z.boolean().optional(),
   priority: z.enum(['low', 'medium', 'high']).optional(),
   description: z.string()
     .max(500, 'Description must be less than 500 characters')
+    .nullable()
     .optional(),
-});
+  status: TaskStatusSchema.optional(),
+  due_date: DueDateSchema.nullable().optional(),
+  recurrence: RecurrenceRuleSchema.nullable().optional(),
+  list_id: z.number()
+    .int('List ID must be an integer')
+    .positive('List ID must be positive')
+    .optional(),
+  reminder_offsets: ReminderOffsetsSchema.optional(),
+  tag_ids: TagIdsSchema.optional(),
+}).refine(
+  // The completion flag is derived from the status and cannot contradict it
+  (task) =>
+    task.status === undefined ||
+    task.is_completed === undefined ||
+    task.is_completed === isCompletedStatus(task.status),
+  { message: 'Completion must match the status', path: ['is_completed'] }
+);
 
 export const TaskIdSchema = z.object({
   id: z.number()
@@ -52,19 +119,36 @@ export const TaskSearchSchema = z.object({
 });
 
 export const TaskFilterSchema = z.object({
-  status: z.enum(['all', 'completed', 'pending']).default('all'),
+  status: z.enum(['all', ...TASK_STATUSES]).default('all'),
   priority: z.enum(['all', 'low', 'medium', 'high']).default('all'),
+  tag_id: z.union([z.literal('all'), z.number().int().positive()]).default('all'),
+});
+
+// Tag validation schemas
+export const CreateTagSchema = z.object({
+  name: z.string()
+    .min(1, 'Tag name is required')
+    .max(30, 'Tag name must be less than 30 characters')
+    .trim(),
 });
 
 // List validation schemas
+const ListDescriptionSchema = z.string()
+  .max(200, 'Description must be less than 200 characters');
+
+const ListColorSchema = z.string()
+  .regex(/^#[0-9A-Fa-f]{6}$/, 'Color must be a hex value like #3B82F6');
+
+const ListIconSchema = z.enum(LIST_ICONS, { message: 'Pick one of the offered icons' });
+
 export const CreateListSchema = z.object({
   name: z.string()
     .min(1, 'List name is required')
     .max(50, 'List name must be less than 50 characters')
     .trim(),
-  description: z.string()
-    .max(200, 'Description must be less than 200 characters')
-    .optional(),
+  description: ListDescriptionSchema.optional(),
+  color: ListColorSchema.optional(),
+  icon: ListIconSchema.optional(),
 });
 
 export const UpdateListSchema = z.object({
@@ -76,9 +160,9 @@ export const UpdateListSchema = z.object({
     .max(50, 'List name must be less than 50 characters')
     .trim()
     .optional(),
-  description: z.string()
-    .max(200, 'Description must be less than 200 characters')
-    .optional(),
+  description: ListDescriptionSchema.nullable().optional(),
+  color: ListColorSchema.nullable().optional(),
+  icon: ListIconSchema.nullable().optional(),
 });
 
 export const ListIdSchema = z.object({
@@ -94,14 +178,38 @@ export const ListSearchSchema = z.object({
     .trim(),
 });
 
+// Smart list validation schemas
+export const SmartListSchema = z.object({
+  name: z.string()
+    .min(1, 'Smart list name is required')
+    .max(50, 'Smart list name must be less than 50 characters')
+    .trim(),
+  criteria: z.object({
+    search: z.string()
+      .max(100, 'Search query must be less than 100 characters')
+      .trim()
+      .optional(),
+    status: z.enum(TASK_STATUSES).optional(),
+    priority: z.enum(['low', 'medium', 'high']).optional(),
+    due_range: z.enum(DUE_RANGES).optional(),
+    tag_id: z.number().int().positive().optional(),
+    list_ids: z.array(z.number().int().positive()).optional(),
+  }),
+});
+
 // Type exports
+export type RecurrenceRuleInput = z.infer<typeof RecurrenceRuleSchema>;
 export type CreateTaskInput = z.infer<typeof CreateTaskSchema>;
 export type UpdateTaskInput = z.infer<typeof UpdateTaskSchema>;
 export type TaskIdInput = z.infer<typeof TaskIdSchema>;
 export type TaskSearchInput = z.infer<typeof TaskSearchSchema>;
 export type TaskFilterInput = z.infer<typeof TaskFilterSchema>;
 
+export type CreateTagInput = z.infer<typeof CreateTagSchema>;
+
 export type CreateListInput = z.infer<typeof CreateListSchema>;
 export type UpdateListInput = z.infer<typeof UpdateListSchema>;
 export type ListIdInput = z.infer<typeof ListIdSchema>;
 export type ListSearchInput = z.infer<typeof ListSearchSchema>;
+
+export type SmartListInput = z.infer<typeof SmartListSchema>;